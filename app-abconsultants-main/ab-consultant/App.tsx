@@ -21,11 +21,12 @@ const ConsultantDashboard = lazyWithRetry(() => import('./components/ConsultantD
 const ClientPortfolio = lazyWithRetry(() => import('./components/ClientPortfolio'));
 const ClientModal = lazyWithRetry(() => import('./components/ClientModal'));
 const TeamManagement = lazyWithRetry(() => import('./components/TeamManagement'));
+const AiFeedbackAnalytics = lazyWithRetry(() => import('./components/AiFeedbackAnalytics'));
 const ExcelImportModal = lazyWithRetry(() => import('./components/ExcelImportModal'));
 const AppointmentPanel = lazyWithRetry(() => import('./components/AppointmentPanel'));
 
-import { FinancialRecord, Client, Month, ProfitCenter, Consultant, View } from './types';
-import { getClients, saveClient, updateClientStatus, getRecordsByClient, resetDatabase, MONTH_ORDER, toShortMonth, getConsultants, addConsultant, deleteConsultant, deleteRecord, saveRecord, logActivity } from './services/dataService';
+import { FinancialRecord, Client, Month, ProfitCenter, Consultant, View, RecordRevision, BudgetMonth, ImportMappingProfile } from './types';
+import { getClients, saveClient, updateClientStatus, getRecordsByClient, resetDatabase, MONTH_ORDER, toShortMonth, getConsultants, addConsultant, deleteConsultant, deleteRecord, saveRecord, logActivity, restoreRecordRevision, saveBudget, formatFiscalYear, createImportBatch, undoImportBatch } from './services/dataService';
 import { auth } from './firebase';
 import { onAuthStateChanged } from 'firebase/auth';
 
@@ -132,7 +133,7 @@ const App: React.FC = () => {
             const isCurrentValid = selectedClient && userCompanies.find(c => c.id === selectedClient.id);
             if (!isCurrentValid) setSelectedClient(userCompanies[0]);
         }
-        if ([View.Settings, View.Clients, View.Team, View.Messages].includes(currentView)) {
+        if ([View.Settings, View.Clients, View.Team, View.Messages, View.AiQuality].includes(currentView)) {
             setCurrentView(View.Dashboard);
         }
     } else {
@@ -331,6 +332,20 @@ const App: React.FC = () => {
       }
   };
 
+  const handleRestoreRevision = async (revision: RecordRevision) => {
+      if (userRole !== 'ab_consultant') return;
+      const { month, year } = revision.snapshot;
+      try {
+          await restoreRecordRevision(revision);
+          if (selectedClient) await logActivity(selectedClient.id, 'record_restored', `${month} ${year} restauré à une version antérieure`, { month, year, revisionId: revision.id });
+          await refreshRecords();
+          showNotification(`${month} ${year} restauré.`, 'success');
+      } catch (err: any) {
+          console.error('Erreur restauration:', err);
+          showNotification(err?.message || 'Erreur lors de la restauration.', 'error');
+      }
+  };
+
   // --- GESTION CLIENTS ---
   const handleSaveClient = async (clientData: Partial<Client>) => {
       if (!clientData.companyName) return;
@@ -374,20 +389,40 @@ const App: React.FC = () => {
       showNotification("Activités mises à jour.", 'success');
   };
 
-  const handleExcelImport = async (records: FinancialRecord[], newProfitCenters: ProfitCenter[], allProfitCenters: ProfitCenter[]) => {
+  const handleExcelImport = async (records: FinancialRecord[], newProfitCenters: ProfitCenter[], allProfitCenters: ProfitCenter[], mapping: ImportMappingProfile, meta: { source: 'excel' | 'fec'; fileName: string }) => {
     if (!selectedClient) return;
     try {
-      // Step 1: If there are new profit centers, update the client first
-      if (newProfitCenters.length > 0) {
-        await saveClient({ ...selectedClient, profitCenters: allProfitCenters });
+      // Step 1: Update the client first — new profit centers, and the import mapping remembered for the consultant
+      const saveMapping = userRole === 'ab_consultant';
+      if (newProfitCenters.length > 0 || saveMapping) {
+        await saveClient({
+          ...selectedClient,
+          profitCenters: allProfitCenters,
+          ...(saveMapping ? { importMapping: { ...mapping, updatedBy: currentUserEmail || undefined } } : {}),
+        });
         await refreshClients();
       }
 
-      // Step 2: Save all records
+      // Step 2: Snapshot the months about to be overwritten, so the import can be undone as a whole
+      const batchId = await createImportBatch({
+        clientId: selectedClient.id,
+        source: meta.source,
+        fileName: meta.fileName,
+        createdBy: currentUserEmail || '',
+        entries: records.map(record => ({ recordId: record.id, year: record.year, month: record.month })),
+      });
+
+      // Step 3: Save all records, tagged with the batch
       for (const record of records) {
-        await saveRecord({ ...record, clientId: selectedClient.id });
+        await saveRecord({ ...record, clientId: selectedClient.id, importBatchId: batchId });
       }
 
+      const label = meta.source === 'fec' ? 'FEC' : 'Excel';
+      await logActivity(selectedClient.id, 'data_imported', `Import ${label} : ${records.length} mois (${meta.fileName})`, {
+        batchId,
+        months: records.map(r => `${r.month} ${r.year}`),
+      });
+
       await refreshRecords();
       setIsExcelImportOpen(false);
 
@@ -395,13 +430,36 @@ const App: React.FC = () => {
       if (newProfitCenters.length > 0) {
         parts.push(`${newProfitCenters.length} familles créées`);
       }
-      showNotification(`Import Excel réussi : ${parts.join(', ')}.`, 'success');
+      showNotification(`Import ${label} réussi : ${parts.join(', ')}.`, 'success');
     } catch (err: any) {
       console.error('Excel import error:', err);
       showNotification(err?.message || 'Erreur lors de l\'import Excel.', 'error');
     }
   };
 
+  const handleUndoImport = async (client: Client, batchId: string) => {
+      if (userRole !== 'ab_consultant') return;
+      const ok = await confirm({
+        title: 'Annuler cet import ?',
+        message: "Les mois écrits par cet import retrouveront leur état antérieur ; ceux qu'il a créés seront supprimés.",
+        variant: 'danger',
+        confirmLabel: "Annuler l'import",
+      });
+      if (!ok) return;
+      try {
+          const { restored, deleted, skipped } = await undoImportBatch(batchId);
+          await logActivity(client.id, 'import_undone', `Import annulé : ${restored} mois restauré(s), ${deleted} supprimé(s)`, { batchId, restored, deleted, skipped });
+          if (selectedClient?.id === client.id) await refreshRecords();
+          showNotification(
+            skipped > 0 ? `Import annulé. ${skipped} mois réimporté(s) depuis ont été laissés tels quels.` : 'Import annulé.',
+            skipped > 0 ? 'info' : 'success'
+          );
+      } catch (err: any) {
+          console.error('Erreur annulation import:', err);
+          showNotification(err?.message || "Erreur lors de l'annulation de l'import.", 'error');
+      }
+  };
+
   const handleUpdateFuelObjectives = async (objs: any) => {
       if (userRole !== 'ab_consultant' || !selectedClient) return;
       const updated = { ...selectedClient, settings: { ...selectedClient.settings!, fuelObjectives: objs }};
@@ -499,6 +557,37 @@ const App: React.FC = () => {
     setClients(prev => prev.map(c => c.id === clientId ? { ...c, hasUnreadMessages: false } : c));
   };
 
+  const handleSaveBudget = async (fiscalYear: number, months: Partial<Record<Month, BudgetMonth>>) => {
+    if (!selectedClient) return;
+    try {
+      await saveBudget({ clientId: selectedClient.id, fiscalYear, months });
+      await logActivity(selectedClient.id, 'config_updated', `Budget exercice ${formatFiscalYear(fiscalYear, selectedClient.fiscalYearEnd)} enregistré`);
+      showNotification('Budget enregistré.', 'success');
+    } catch (e: any) {
+      showNotification(e?.message || 'Erreur lors de l\'enregistrement du budget.', 'error');
+      throw e;
+    }
+  };
+
+  const handleDownloadReport = async (record: FinancialRecord) => {
+    if (!selectedClient) return;
+    try {
+      showNotification(`Génération du rapport ${record.month} ${record.year}...`, 'info');
+      const { downloadMonthlyReport } = await import('./lib/cloudFunctions');
+      await downloadMonthlyReport({ clientId: selectedClient.id, year: record.year, month: record.month });
+      showNotification('Rapport PDF téléchargé.', 'success');
+    } catch (err: any) {
+      console.error('Monthly report error:', err);
+      showNotification(err?.message || 'Erreur lors de la génération du rapport.', 'error');
+    }
+  };
+
+  // Commentaire expert validé depuis un brouillon IA : déjà écrit dans le record par la modale
+  const handleApproveComment = async (record: FinancialRecord) => {
+    await refreshRecords();
+    showNotification(`Commentaire de ${record.month} ${record.year} enregistré.`, 'success');
+  };
+
   const dashboardData = useMemo(() => userRole === 'client' ? data.filter(r => r.isPublished) : data, [data, userRole]);
 
   // Track new published data for client.
@@ -700,6 +789,7 @@ const App: React.FC = () => {
                        currentView === View.Settings ? 'Paramètres' :
                        currentView === View.Messages ? 'Messagerie' :
                        currentView === View.Team ? 'Équipe' :
+                       currentView === View.AiQuality ? 'Qualité IA' :
                        currentView === View.Clients ? 'Clients' : ''}
                     </span>
                   </>
@@ -737,7 +827,7 @@ const App: React.FC = () => {
             {/* VUE 1 : DASHBOARD CLIENT INDIVIDUEL */}
             {currentView === View.Dashboard && selectedClient && (
                 <div key={`dash-${selectedClient.id}`} className="animate-in fade-in duration-200">
-                <Dashboard data={dashboardData} client={selectedClient} userRole={userRole} onSaveComment={handleSaveRecord} isPresentationMode={isPresentationMode} onTogglePresentation={() => setIsPresentationMode(p => !p)}/>
+                <Dashboard data={dashboardData} client={selectedClient} userRole={userRole} onSaveComment={handleSaveRecord} isPresentationMode={isPresentationMode} onTogglePresentation={() => setIsPresentationMode(p => !p)} onSaveBudget={handleSaveBudget} onDownloadReport={handleDownloadReport}/>
                 </div>
             )}
 
@@ -755,23 +845,33 @@ const App: React.FC = () => {
 
             {currentView === View.Entry && selectedClient && (
                 <div key="entry" className="animate-in fade-in duration-200">
-                <EntryForm clientId={selectedClient.id} initialData={editingRecord} existingRecords={data} profitCenters={selectedClient.profitCenters || []} showCommercialMargin={selectedClient.settings?.showCommercialMargin ?? true} showFuelTracking={selectedClient.settings?.showFuelTracking ?? false} onSave={handleSaveRecord} onCancel={() => { setEditingRecord(null); setCurrentView(View.History); }} userRole={userRole} defaultFuelObjectives={selectedClient.settings?.fuelObjectives} defaultRevenueObjective={selectedClient.settings?.revenueObjective} clientStatus={selectedClient.status} onImportExcel={() => setIsExcelImportOpen(true)} currentUserEmail={currentUserEmail}/>
+                <EntryForm clientId={selectedClient.id} initialData={editingRecord} existingRecords={data} fiscalYearEnd={selectedClient.fiscalYearEnd} profitCenters={selectedClient.profitCenters || []} showCommercialMargin={selectedClient.settings?.showCommercialMargin ?? true} showFuelTracking={selectedClient.settings?.showFuelTracking ?? false} onSave={handleSaveRecord} onCancel={() => { setEditingRecord(null); setCurrentView(View.History); }} userRole={userRole} defaultFuelObjectives={selectedClient.settings?.fuelObjectives} defaultRevenueObjective={selectedClient.settings?.revenueObjective} clientStatus={selectedClient.status} onImportExcel={() => setIsExcelImportOpen(true)} currentUserEmail={currentUserEmail}/>
                 </div>
             )}
 
             {currentView === View.History && selectedClient && (
                 <div key="history" className="animate-in fade-in duration-200">
-                <HistoryView data={userRole === 'client' ? dashboardData : data} userRole={userRole} onNewRecord={handleNewRecord} onExportCSV={async () => {
+                <HistoryView data={userRole === 'client' ? dashboardData : data} userRole={userRole} onNewRecord={handleNewRecord} onExportCSV={async (fiscalYear) => {
                     if (!selectedClient) return;
                     try {
                         const { exportClientCSV } = await import('./lib/cloudFunctions');
-                        await exportClientCSV({ clientId: selectedClient.id });
+                        await exportClientCSV({ clientId: selectedClient.id, year: fiscalYear });
                         showNotification('Export CSV téléchargé.', 'success');
                     } catch (err: any) {
                         console.error('Export CSV error:', err);
                         showNotification(err?.message || 'Erreur lors de l\'export CSV.', 'error');
                     }
-                }} onEdit={handleEditRecord} onDelete={handleDeleteRecord} onValidate={toggleValidation} onPublish={togglePublication} onLockToggle={unlockClientRecord} onBulkValidate={handleBulkValidate} onBulkPublish={handleBulkPublish} onBulkDelete={handleBulkDelete} onImportExcel={() => setIsExcelImportOpen(true)}/>
+                }} onExportXLSX={async (fiscalYear) => {
+                    if (!selectedClient) return;
+                    try {
+                        const { exportClientXLSX } = await import('./services/xlsxExportService');
+                        exportClientXLSX(selectedClient, data, { fiscalYear, publishedOnly: userRole === 'client' });
+                        showNotification('Export Excel téléchargé.', 'success');
+                    } catch (err: any) {
+                        console.error('Export XLSX error:', err);
+                        showNotification(err?.message || 'Erreur lors de l\'export Excel.', 'error');
+                    }
+                }} onDownloadReport={handleDownloadReport} onApproveComment={userRole === 'ab_consultant' ? handleApproveComment : undefined} onEdit={handleEditRecord} onDelete={handleDeleteRecord} onValidate={toggleValidation} onPublish={togglePublication} onLockToggle={unlockClientRecord} onBulkValidate={handleBulkValidate} onBulkPublish={handleBulkPublish} onBulkDelete={handleBulkDelete} onImportExcel={() => setIsExcelImportOpen(true)} onRestoreRevision={userRole === 'ab_consultant' ? handleRestoreRevision : undefined} profitCenters={selectedClient.profitCenters} fiscalYearEnd={selectedClient.fiscalYearEnd}/>
                 </div>
             )}
 
@@ -788,6 +888,13 @@ const App: React.FC = () => {
                 </div>
             )}
 
+            {/* VUE QUALITÉ IA (avis sur le Conseiller IA) */}
+            {currentView === View.AiQuality && userRole === 'ab_consultant' && (
+                <div key="ai-quality" className="animate-in fade-in duration-200">
+                <AiFeedbackAnalytics clients={clients} isAdmin={isSuperAdmin} />
+                </div>
+            )}
+
             {/* VUE EQUIPE (TEAM) */}
             {currentView === View.Team && userRole === 'ab_consultant' && (
                 <div key="team" className="animate-in fade-in duration-200">
@@ -852,7 +959,22 @@ const App: React.FC = () => {
                         await refreshClients();
                         showNotification(nextValue ? "Assistant IA activé." : "Assistant IA désactivé.", 'info');
                     }}
+                    onUpdateAiQuota={async (client, quota) => {
+                        const updated = { ...client, settings: { ...client.settings!, aiMonthlyQuota: quota }};
+                        await saveClient(updated);
+                        await logActivity(updated.id, 'config_updated', `Quota mensuel Assistant IA fixé à ${quota} requêtes`);
+                        await refreshClients();
+                        showNotification("Quota IA mis à jour.", 'success');
+                    }}
+                    onUpdateAlertRules={async (client, alertRules) => {
+                        const updated = { ...client, settings: { ...client.settings!, alertRules }};
+                        await saveClient(updated);
+                        await logActivity(updated.id, 'config_updated', `Règles d'alerte du dossier modifiées (${Object.keys(alertRules).length} personnalisée${Object.keys(alertRules).length > 1 ? 's' : ''})`);
+                        await refreshClients();
+                        showNotification("Règles d'alerte mises à jour.", 'success');
+                    }}
                     onUpdateClientStatus={handleUpdateClientStatus}
+                    onUndoImport={handleUndoImport}
                 />
                 </div>
             )}
@@ -870,6 +992,8 @@ const App: React.FC = () => {
             existingRecords={data}
             existingProfitCenters={selectedClient.profitCenters || []}
             year={new Date().getFullYear()}
+            savedMapping={selectedClient.importMapping}
+            canUnlockProtected={userRole === 'ab_consultant'}
           />
         )}
       </Suspense>
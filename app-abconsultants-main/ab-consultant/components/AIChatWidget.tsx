@@ -2,10 +2,11 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { MessageSquare, Send, X, Bot, Loader2, Sparkles, UserCheck, ChevronRight, Scale, Briefcase, ShieldCheck, UserCircle, Bell, Trash2, AlertTriangle, PhoneCall, Paperclip, FileText, ThumbsUp, ThumbsDown } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { Client, FinancialRecord, ChatMessage } from '../types';
+import { Client, FinancialRecord, ChatMessage, AiFactCheck } from '../types';
 import { askFinancialAdvisor, askFinancialAdvisorStream } from '../lib/cloudFunctions';
 import { useConfirmDialog } from '../contexts/ConfirmContext';
 import { sendMessage, subscribeToChat, sendConsultantAlertEmail, createConsultantAlert, submitAiFeedback } from '../services/dataService';
+import { ALERT_SLA_HOURS } from '../services/alertSla';
 import { db, auth } from '../firebase';
 import { collection, writeBatch, getDocs, deleteDoc } from "firebase/firestore";
 
@@ -288,58 +289,24 @@ const AIChatWidget: React.FC<AIChatWidgetProps> = ({ client, data }) => {
   const handleFeedback = async (messageId: string, rating: 'up' | 'down') => {
     if (feedbackGiven[messageId]) return;
     setFeedbackGiven(prev => ({ ...prev, [messageId]: rating }));
+    // L'échange noté est enregistré avec l'avis pour l'écran d'analyse du cabinet
+    const idx = visibleMessages.findIndex(m => m.id === messageId);
+    const answer = idx >= 0 ? visibleMessages[idx] : undefined;
+    const question = visibleMessages.slice(0, Math.max(idx, 0)).reverse().find(m => m.sender === 'user')?.text;
     try {
-      await submitAiFeedback(client.id, messageId, rating);
+      await submitAiFeedback(client.id, messageId, rating, undefined, {
+        question,
+        answer: answer?.text,
+        quickReply: QUICK_REPLIES.find(q => q.prompt === question?.trim())?.label,
+        model: answer?.model,
+        promptVersion: answer?.promptVersion,
+      });
     } catch (e) {
       console.warn('Feedback failed:', e);
       // Don't revert UI — feedback is best-effort
     }
   };
 
-  // Build the financial context payload (shared between streaming + fallback callable)
-  const buildFinancialContext = () => {
-    const MONTH_ORDER = ['Janvier','Février','Mars','Avril','Mai','Juin','Juillet','Août','Septembre','Octobre','Novembre','Décembre'];
-    const sortedRecords = [...data].sort((a, b) => a.year !== b.year ? a.year - b.year : MONTH_ORDER.indexOf(a.month) - MONTH_ORDER.indexOf(b.month));
-    const lastRecord = sortedRecords[sortedRecords.length - 1];
-
-    const byYear: Record<number, FinancialRecord[]> = {};
-    for (const r of sortedRecords) { if (!byYear[r.year]) byYear[r.year] = []; byYear[r.year].push(r); }
-
-    const syntheseAnnuelle = Object.entries(byYear).map(([year, recs]) => {
-        const totalCA = recs.reduce((s, r) => s + r.revenue.total, 0);
-        const totalObj = recs.reduce((s, r) => s + r.revenue.objective, 0);
-        const totalMargin = recs.reduce((s, r) => s + (r.margin?.total || 0), 0);
-        const totalSalaries = recs.reduce((s, r) => s + r.expenses.salaries, 0);
-        const totalHours = recs.reduce((s, r) => s + r.expenses.hoursWorked, 0);
-        const lastRec = recs[recs.length - 1];
-        return {
-            annee: Number(year), nb_mois: recs.length,
-            ca_total: Math.round(totalCA), objectif_total: Math.round(totalObj),
-            marge_totale: Math.round(totalMargin), masse_salariale: Math.round(totalSalaries),
-            heures: Math.round(totalHours),
-            tresorerie: lastRec ? Math.round(lastRec.cashFlow.treasury) : 0,
-            bfr: lastRec ? Math.round(lastRec.bfr.total) : 0,
-            detail_mensuel: recs.map(r => ({
-                mois: r.month, ca: Math.round(r.revenue.total), objectif: Math.round(r.revenue.objective),
-                marge: Math.round(r.margin?.total || 0), tresorerie: Math.round(r.cashFlow.treasury),
-                bfr: Math.round(r.bfr.total), salaires: Math.round(r.expenses.salaries), heures: Math.round(r.expenses.hoursWorked),
-            }))
-        };
-    });
-
-    return {
-        companyName: client.companyName, managerName: client.managerName,
-        sector: client.sector, legalForm: client.legalForm,
-        syntheseAnnuelle,
-        situationActuelle: lastRecord ? {
-            mois: `${lastRecord.month} ${lastRecord.year}`,
-            tresorerie: Math.round(lastRecord.cashFlow.treasury),
-            ca: Math.round(lastRecord.revenue.total),
-            bfr: Math.round(lastRecord.bfr.total),
-        } : null,
-    };
-  };
-
   const handleSend = async () => {
     if (!input.trim() && attachments.length === 0) return;
     const userText = input;
@@ -359,19 +326,22 @@ const AIChatWidget: React.FC<AIChatWidgetProps> = ({ client, data }) => {
         return;
     }
 
-    // Build history + context once (shared between streaming + fallback)
+    // Build history once (shared between streaming + fallback).
+    // Le contexte financier est reconstruit côté serveur à partir du clientId.
     const contextMessages = visibleMessages.filter(m => m.id !== 'welcome-msg');
     const history = contextMessages
         .filter(m => !m.isSystemSummary)
         .slice(-15)
         .map(m => ({ role: (m.sender === 'user' ? 'user' : 'model') as 'user' | 'model', text: m.text }));
-    const financialContext = buildFinancialContext();
 
+    let model: string | undefined;
+    let promptVersion: string | undefined;
+    let factCheck: AiFactCheck | undefined;
     try {
         await askFinancialAdvisorStream(
             {
                 query: userText,
-                financialContext,
+                clientId: client.id,
                 history,
                 attachments: localAttachments.map(a => ({ mimeType: a.mimeType, data: a.data, name: a.name })),
             },
@@ -380,6 +350,9 @@ const AIChatWidget: React.FC<AIChatWidgetProps> = ({ client, data }) => {
                     streamingTextRef.current += chunk.text;
                     setStreamingText(streamingTextRef.current);
                 }
+                if (chunk.model) model = chunk.model;
+                if (chunk.promptVersion) promptVersion = chunk.promptVersion;
+                if (chunk.factCheck) factCheck = chunk.factCheck;
                 if (chunk.error) throw new Error(chunk.error);
             },
         );
@@ -392,13 +365,13 @@ const AIChatWidget: React.FC<AIChatWidgetProps> = ({ client, data }) => {
             finalText = finalText.replace('[ALERT_HUMAN]', '').trim();
             handleManualHandoff(true);
         }
-        await sendMessage(client.id, finalText, 'ai', isAlert);
+        await sendMessage(client.id, finalText, 'ai', isAlert, false, { model, promptVersion, factCheck });
 
     } catch (streamErr: any) {
         // FALLBACK to non-streaming callable on stream failure
         console.warn('Stream failed, falling back:', streamErr);
         try {
-            const result = await askFinancialAdvisor({ query: userText, mode: 'chat', financialContext, history });
+            const result = await askFinancialAdvisor({ query: userText, mode: 'chat', clientId: client.id, history });
             let finalText = result.text;
             let isAlert = false;
             if (finalText.includes('[ALERT_HUMAN]')) {
@@ -406,9 +379,11 @@ const AIChatWidget: React.FC<AIChatWidgetProps> = ({ client, data }) => {
                 finalText = finalText.replace('[ALERT_HUMAN]', '').trim();
                 handleManualHandoff(true);
             }
-            await sendMessage(client.id, finalText, 'ai', isAlert);
+            await sendMessage(client.id, finalText, 'ai', isAlert, false, { model: result.model, promptVersion: result.promptVersion, factCheck: result.factCheck });
         } catch (e: any) {
-            const errorMsg = e?.message?.includes('Limite') ? e.message : "Erreur connexion IA.";
+            // Limite horaire, quota mensuel ou option désactivée : le message serveur est explicite
+            const isQuotaError = e?.code === 'functions/resource-exhausted' || e?.code === 'functions/permission-denied';
+            const errorMsg = isQuotaError || e?.message?.includes('Limite') ? e.message : "Erreur connexion IA.";
             try { await sendMessage(client.id, errorMsg, 'ai'); } catch(err) {}
         }
     } finally {
@@ -430,7 +405,7 @@ const AIChatWidget: React.FC<AIChatWidgetProps> = ({ client, data }) => {
           if (!skipUserMessage) {
               await sendMessage(
                   client.id, 
-                  "C'est noté. J'ai envoyé une alerte prioritaire à votre consultant référent.", 
+                  `C'est noté. J'ai envoyé une alerte prioritaire à votre consultant référent : il reviendra vers vous sous ${ALERT_SLA_HOURS.chat_handoff} heures.`,
                   'ai', 
                   true 
               );
@@ -440,7 +415,7 @@ const AIChatWidget: React.FC<AIChatWidgetProps> = ({ client, data }) => {
           const summaryResult = await askFinancialAdvisor({
               query: transcript,
               mode: 'summary',
-              financialContext: { companyName: client.companyName },
+              clientId: client.id,
           });
           await sendMessage(client.id, summaryResult.text, 'ai', false, true);
 
@@ -600,6 +575,20 @@ const AIChatWidget: React.FC<AIChatWidgetProps> = ({ client, data }) => {
                       msg.text
                     )}
 
+                    {/* Chiffres cités sans correspondance dans les données du dossier (contrôle serveur) */}
+                    {msg.sender === 'ai' && msg.factCheck && msg.factCheck.unverified.length > 0 && (
+                      <div
+                        className="mt-2 flex items-start gap-1.5 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-2 py-1.5"
+                        title="Ces valeurs ne correspondent à aucun chiffre calculé à partir de votre tableau de bord. Vérifiez-les avant de vous en servir."
+                      >
+                        <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                        <span>
+                          <span className="font-semibold">{msg.factCheck.unverified.length > 1 ? 'Chiffres à vérifier' : 'Chiffre à vérifier'} :</span>{' '}
+                          {msg.factCheck.unverified.map(f => f.raw).join(', ')}
+                        </span>
+                      </div>
+                    )}
+
                     {/* F-12 : thumbs feedback on AI messages (excluding welcome + handoff) */}
                     {msg.sender === 'ai' && msg.id !== 'welcome-msg' && (
                       <div className="mt-2 flex gap-1 opacity-60 hover:opacity-100 transition-opacity">
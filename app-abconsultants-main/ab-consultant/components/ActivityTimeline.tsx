@@ -1,8 +1,8 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     Clock, Mail, MessageSquare, Calendar, CheckCircle, Settings,
-    FileText, Send, Power, UserPlus, Loader2, Activity, Eye, LogIn, UserCheck, XCircle, Unlock
+    FileText, Send, Power, UserPlus, Loader2, Activity, Eye, LogIn, UserCheck, XCircle, Unlock, RotateCcw, Upload, Undo2
 } from 'lucide-react';
 import { ActivityEvent, ActivityEventType } from '../types';
 import { getClientActivities } from '../services/dataService';
@@ -10,6 +10,7 @@ import { getClientActivities } from '../services/dataService';
 interface ActivityTimelineProps {
     clientId: string;
     clientName: string;
+    onUndoImport?: (batchId: string) => Promise<void>;
 }
 
 const EVENT_CONFIG: Record<ActivityEventType, { icon: React.ReactNode; color: string; bgColor: string }> = {
@@ -30,6 +31,9 @@ const EVENT_CONFIG: Record<ActivityEventType, { icon: React.ReactNode; color: st
     owner_login: { icon: <LogIn className="w-3.5 h-3.5" />, color: 'text-blue-600', bgColor: 'bg-blue-100' },
     invitation_email_sent: { icon: <Mail className="w-3.5 h-3.5" />, color: 'text-brand-600', bgColor: 'bg-brand-100' },
     record_unlocked: { icon: <Unlock className="w-3.5 h-3.5" />, color: 'text-amber-600', bgColor: 'bg-amber-100' },
+    record_restored: { icon: <RotateCcw className="w-3.5 h-3.5" />, color: 'text-amber-600', bgColor: 'bg-amber-100' },
+    data_imported: { icon: <Upload className="w-3.5 h-3.5" />, color: 'text-emerald-600', bgColor: 'bg-emerald-100' },
+    import_undone: { icon: <Undo2 className="w-3.5 h-3.5" />, color: 'text-red-600', bgColor: 'bg-red-100' },
 };
 
 const formatTimestamp = (ts: any): string => {
@@ -48,19 +52,35 @@ const formatTimestamp = (ts: any): string => {
     return date.toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', year: diffD > 365 ? 'numeric' : undefined });
 };
 
-const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ clientId, clientName }) => {
+const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ clientId, clientName, onUndoImport }) => {
     const [events, setEvents] = useState<ActivityEvent[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    const [undoingBatchId, setUndoingBatchId] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        setIsLoading(true);
+        const data = await getClientActivities(clientId, 20);
+        setEvents(data);
+        setIsLoading(false);
+    }, [clientId]);
 
     useEffect(() => {
-        const load = async () => {
-            setIsLoading(true);
-            const data = await getClientActivities(clientId, 20);
-            setEvents(data);
-            setIsLoading(false);
-        };
         load();
-    }, [clientId]);
+    }, [load]);
+
+    // Imports déjà annulés (un seul retour arrière par lot)
+    const undoneBatchIds = new Set(events.filter(e => e.type === 'import_undone').map(e => e.metadata?.batchId));
+
+    const handleUndo = async (batchId: string) => {
+        if (!onUndoImport) return;
+        setUndoingBatchId(batchId);
+        try {
+            await onUndoImport(batchId);
+            await load();
+        } finally {
+            setUndoingBatchId(null);
+        }
+    };
 
     return (
         <div className="space-y-3">
@@ -99,6 +119,20 @@ const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ clientId, clientNam
                                     {/* Content */}
                                     <div className="flex-1 min-w-0 pt-0.5">
                                         <p className="text-xs text-slate-700 leading-relaxed">{event.description}</p>
+                                        {event.type === 'data_imported' && event.metadata?.batchId && onUndoImport && (
+                                            undoneBatchIds.has(event.metadata.batchId) ? (
+                                                <p className="text-xs text-slate-400 italic mt-0.5">Import annulé</p>
+                                            ) : (
+                                                <button
+                                                    onClick={() => handleUndo(event.metadata!.batchId)}
+                                                    disabled={undoingBatchId !== null}
+                                                    className="mt-1 inline-flex items-center gap-1 text-xs font-bold text-red-600 hover:text-red-700 disabled:opacity-50"
+                                                >
+                                                    {undoingBatchId === event.metadata.batchId ? <Loader2 className="w-3 h-3 animate-spin" /> : <Undo2 className="w-3 h-3" />}
+                                                    Annuler cet import
+                                                </button>
+                                            )
+                                        )}
                                         <p className="text-xs text-slate-400 mt-0.5">
                                             {formatTimestamp(event.timestamp)}
                                             {event.actorEmail && <span className="ml-1">· {event.actorEmail.split('@')[0]}</span>}
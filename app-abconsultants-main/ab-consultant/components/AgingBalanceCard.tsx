@@ -0,0 +1,79 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Hourglass, AlertTriangle } from 'lucide-react';
+import { FinancialRecord } from '../types';
+import { AGING_BUCKETS, receivablesAgingAlert } from '../services/agingService';
+
+interface AgingBalanceCardProps {
+    records: FinancialRecord[];   // période affichée, ordre chronologique
+}
+
+const formatEuro = (v: number) =>
+    new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(v);
+
+/** Ancienneté des créances clients et dettes fournisseurs, d'après la dernière balance âgée importée de la période. */
+const AgingBalanceCard: React.FC<AgingBalanceCardProps> = ({ records }) => {
+    const record = useMemo(
+        () => [...records].reverse().find(r => r.aging?.receivables || r.aging?.payables) || null,
+        [records]
+    );
+
+    if (!record?.aging) return null;
+    const { receivables, payables } = record.aging;
+    const alert = receivablesAgingAlert(receivables);
+
+    const chartData = [
+        receivables && { name: 'Clients', ...receivables },
+        payables && { name: 'Fournisseurs', ...payables },
+    ].filter(Boolean) as Record<string, any>[];
+
+    return (
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-brand-100">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="font-display text-xl font-semibold text-paper-900 tracking-tight flex items-center gap-2">
+                    <Hourglass className="w-4 h-4 text-cyan-600" />
+                    Balance âgée
+                </h3>
+                <span className="text-xs text-slate-400">au {record.month} {record.year}</span>
+            </div>
+
+            {alert && (
+                <div className={`mb-4 p-3 rounded-lg border flex items-start gap-2 text-xs ${alert.level === 'critical' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-700'}`}>
+                    <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                    <p>
+                        <span className="font-bold">Créances clients en retard : {formatEuro(alert.overdue)}</span>
+                        {' '}({alert.overdueShare.toFixed(0)} % de l'encours à plus de 30 jours
+                        {alert.over90 > 0 && `, dont ${formatEuro(alert.over90)} à plus de 90 jours`}).
+                        {alert.level === 'critical' ? ' Relances et provision pour créances douteuses à examiner.' : ' Relances à prévoir.'}
+                    </p>
+                </div>
+            )}
+
+            <div className="h-[140px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartData} layout="vertical" margin={{ top: 0, right: 10, left: 10, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+                        <XAxis type="number" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#64748b' }} tickFormatter={(val: any) => { const v = Number(val); return !isNaN(v) && Math.abs(v) >= 1000 ? `${(v / 1000).toFixed(0)}k` : String(val); }} />
+                        <YAxis type="category" dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#64748b' }} width={80} />
+                        <Tooltip formatter={(value: any, name: string) => [formatEuro(Number(value)), name]} />
+                        {AGING_BUCKETS.map(b => (
+                            <Bar key={b.key} dataKey={b.key} stackId="aging" fill={b.color} name={b.label} barSize={22} />
+                        ))}
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-3 text-xs">
+                {AGING_BUCKETS.map(b => (
+                    <div key={b.key} className="flex items-center gap-1.5">
+                        <div className="w-2 h-2 rounded-sm" style={{ backgroundColor: b.color }} />
+                        <span className="text-slate-500">{b.label}</span>
+                        {receivables && <span className="ml-auto font-medium text-slate-700 tabular-nums">{formatEuro(receivables[b.key])}</span>}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default AgingBalanceCard;
@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ThumbsUp, ThumbsDown, Download, Loader2, Sparkles, MessageSquare } from 'lucide-react';
+import { Client } from '../types';
+import { AiFeedback, AiFeedbackExchange, getAiFeedback, getFeedbackExchange } from '../services/dataService';
+import {
+    FeedbackBucket,
+    buildDownvotesCsv,
+    feedbackByClient,
+    feedbackByModel,
+    feedbackByMonth,
+    feedbackByQuickReply,
+    feedbackDate,
+    summarizeFeedback,
+} from '../services/aiFeedbackAnalytics';
+import PromptVersionsPanel from './PromptVersionsPanel';
+
+interface AiFeedbackAnalyticsProps {
+    clients: Client[];
+    isAdmin?: boolean;
+}
+
+const PERIODS = [3, 6, 12] as const;
+
+// Avis antérieurs à l'enregistrement de l'échange : relus dans les conversations, avec un plafond
+const MAX_EXCHANGE_LOOKUPS = 30;
+
+const satisfactionClass = (value: number | null) =>
+    value === null ? 'text-slate-400' : value >= 80 ? 'text-emerald-700' : value >= 60 ? 'text-amber-700' : 'text-red-700';
+
+const BucketTable: React.FC<{ title: string; buckets: FeedbackBucket[] }> = ({ title, buckets }) => (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <h3 className="px-4 py-3 border-b border-slate-100 text-sm font-bold text-slate-700">{title}</h3>
+        {buckets.length === 0 ? (
+            <p className="px-4 py-6 text-xs text-slate-400 text-center">Aucun avis sur la période.</p>
+        ) : (
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-xs text-slate-500 uppercase tracking-wide">
+                        <th className="text-left font-semibold px-4 py-2"></th>
+                        <th className="text-right font-semibold px-2 py-2"><ThumbsUp className="w-3.5 h-3.5 inline" /></th>
+                        <th className="text-right font-semibold px-2 py-2"><ThumbsDown className="w-3.5 h-3.5 inline" /></th>
+                        <th className="text-right font-semibold px-4 py-2">Satisf.</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {buckets.map(b => (
+                        <tr key={b.key} className="border-t border-slate-50">
+                            <td className="px-4 py-2 text-slate-700 truncate max-w-[14rem]" title={b.label}>{b.label}</td>
+                            <td className="px-2 py-2 text-right tabular-nums text-emerald-700">{b.up}</td>
+                            <td className="px-2 py-2 text-right tabular-nums text-red-700">{b.down}</td>
+                            <td className={`px-4 py-2 text-right tabular-nums font-bold ${satisfactionClass(b.satisfaction)}`}>
+                                {b.satisfaction === null ? '—' : `${b.satisfaction} %`}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+    </div>
+);
+
+/**
+ * Qualité du Conseiller IA : avis pouce haut / bas des clients agrégés dans le temps,
+ * par dossier, par question rapide, par modèle et par version du prompt, et réponses mal notées à relire.
+ */
+const AiFeedbackAnalytics: React.FC<AiFeedbackAnalyticsProps> = ({ clients, isAdmin = false }) => {
+    const [months, setMonths] = useState<number>(6);
+    const [feedback, setFeedback] = useState<AiFeedback[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [exchanges, setExchanges] = useState<Record<string, AiFeedbackExchange>>({});
+    const [clientFilter, setClientFilter] = useState<string>('ALL');
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        const now = new Date();
+        getAiFeedback(new Date(now.getFullYear(), now.getMonth() - months + 1, 1)).then(items => {
+            if (cancelled) return;
+            setFeedback(items);
+            setIsLoading(false);
+        });
+        return () => { cancelled = true; };
+    }, [months]);
+
+    const clientNames = useMemo(
+        () => Object.fromEntries(clients.map(c => [c.id, c.companyName])),
+        [clients]
+    );
+
+    const filtered = useMemo(
+        () => clientFilter === 'ALL' ? feedback : feedback.filter(f => f.clientId === clientFilter),
+        [feedback, clientFilter]
+    );
+
+    const summary = useMemo(() => summarizeFeedback(filtered), [filtered]);
+    const monthly = useMemo(() => feedbackByMonth(filtered, months), [filtered, months]);
+    const byClient = useMemo(() => feedbackByClient(feedback, clientNames), [feedback, clientNames]);
+    const byQuickReply = useMemo(() => feedbackByQuickReply(filtered), [filtered]);
+    const byModel = useMemo(() => feedbackByModel(filtered), [filtered]);
+
+    const downvotes = useMemo(() => filtered.filter(f => f.rating === 'down'), [filtered]);
+
+    // Complète les avis négatifs sans échange enregistré
+    useEffect(() => {
+        const budget = MAX_EXCHANGE_LOOKUPS - Object.keys(exchanges).length;
+        const missing = downvotes.filter(f => !f.answer && !exchanges[f.id]).slice(0, Math.max(budget, 0));
+        if (missing.length === 0) return;
+        let cancelled = false;
+        Promise.all(missing.map(async f => [f.id, await getFeedbackExchange(f.clientId, f.messageId)] as const)).then(entries => {
+            if (!cancelled) setExchanges(prev => ({ ...prev, ...Object.fromEntries(entries) }));
+        });
+        return () => { cancelled = true; };
+    }, [downvotes, exchanges]);
+
+    const withExchange = (f: AiFeedback): AiFeedback => f.answer ? f : { ...f, ...exchanges[f.id] };
+
+    const handleExport = () => {
+        const csv = buildDownvotesCsv(downvotes.map(withExchange), clientNames);
+        const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `avis_ia_negatifs_${new Date().toISOString().slice(0, 10)}.csv`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+                <div>
+                    <p className="eyebrow mb-2">Pilotage Cabinet</p>
+                    <h2 className="font-display text-3xl font-semibold text-paper-900 tracking-tight flex items-center gap-2">
+                        <Sparkles className="w-6 h-6 text-brand-500" /> Qualité de l'IA
+                    </h2>
+                    <p className="text-slate-500 text-sm mt-1">Avis des clients sur les réponses du Conseiller IA.</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <select
+                        value={clientFilter}
+                        onChange={(e) => setClientFilter(e.target.value)}
+                        className="text-sm border border-slate-200 rounded-lg px-3 py-2 bg-white"
+                        aria-label="Filtrer par dossier"
+                    >
+                        <option value="ALL">Tous les dossiers</option>
+                        {byClient.map(b => <option key={b.key} value={b.key}>{b.label}</option>)}
+                    </select>
+                    <div className="flex bg-slate-100 rounded-lg p-1">
+                        {PERIODS.map(p => (
+                            <button
+                                key={p}
+                                onClick={() => setMonths(p)}
+                                className={`px-3 py-1 rounded-md text-xs font-bold transition ${months === p ? 'bg-white text-brand-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                            >
+                                {p} mois
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="flex items-center justify-center gap-2 py-16 text-sm text-slate-500">
+                    <Loader2 className="w-4 h-4 animate-spin" /> Chargement des avis…
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                        {[
+                            { label: 'Avis', value: summary.total, className: 'text-slate-900' },
+                            { label: 'Pouces haut', value: summary.up, className: 'text-emerald-700' },
+                            { label: 'Pouces bas', value: summary.down, className: 'text-red-700' },
+                            { label: 'Satisfaction', value: summary.satisfaction === null ? '—' : `${summary.satisfaction} %`, className: satisfactionClass(summary.satisfaction) },
+                        ].map(card => (
+                            <div key={card.label} className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+                                <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">{card.label}</p>
+                                <p className={`text-2xl font-bold tabular-nums mt-1 ${card.className}`}>{card.value}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+                        <h3 className="text-sm font-bold text-slate-700 mb-3">Avis par mois</h3>
+                        <div className="h-56">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={monthly} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                                    <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#64748b' }} dy={5} />
+                                    <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#64748b' }} />
+                                    <Tooltip cursor={{ fill: '#f8fafc' }} />
+                                    <Bar dataKey="up" stackId="rating" fill="#10b981" name="Pouces haut" />
+                                    <Bar dataKey="down" stackId="rating" fill="#ef4444" radius={[3, 3, 0, 0]} name="Pouces bas" />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                        <BucketTable title="Par dossier" buckets={clientFilter === 'ALL' ? byClient : byClient.filter(b => b.key === clientFilter)} />
+                        <BucketTable title="Par question rapide" buckets={byQuickReply} />
+                        <BucketTable title="Par modèle" buckets={byModel} />
+                    </div>
+
+                    <PromptVersionsPanel feedback={filtered} isAdmin={isAdmin} />
+
+                    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+                            <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                                <ThumbsDown className="w-4 h-4 text-red-500" /> Réponses mal notées
+                                <span className="font-medium text-slate-400 tabular-nums">({downvotes.length})</span>
+                            </h3>
+                            <button
+                                onClick={handleExport}
+                                disabled={downvotes.length === 0}
+                                className="flex items-center gap-2 px-3 py-1.5 bg-white border border-brand-200 text-brand-700 rounded-lg hover:bg-brand-50 transition text-xs font-bold shadow-sm disabled:opacity-50"
+                            >
+                                <Download className="w-3.5 h-3.5" /> Exporter (CSV)
+                            </button>
+                        </div>
+                        {downvotes.length === 0 ? (
+                            <p className="px-4 py-10 text-sm text-slate-400 text-center">Aucune réponse mal notée sur la période.</p>
+                        ) : (
+                            <div className="divide-y divide-slate-100">
+                                {downvotes.map(withExchange).map(f => (
+                                    <div key={f.id} className="p-4">
+                                        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500 mb-3">
+                                            <span className="font-bold text-slate-700">{clientNames[f.clientId] || f.clientId}</span>
+                                            <span>·</span>
+                                            <span>{feedbackDate(f)?.toLocaleString('fr-FR', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' }) || '...'}</span>
+                                            {f.quickReply && <span className="px-2 py-0.5 rounded-full bg-brand-50 text-brand-700 font-medium">{f.quickReply}</span>}
+                                            {f.model && <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 font-mono">{f.model}</span>}
+                                            {f.promptVersion && <span className="px-2 py-0.5 rounded-full bg-brand-50 text-brand-700 font-mono">prompt {f.promptVersion}</span>}
+                                        </div>
+                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                            <div className="p-3 bg-slate-50 rounded-lg">
+                                                <p className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-1 flex items-center gap-1">
+                                                    <MessageSquare className="w-3 h-3" /> Question
+                                                </p>
+                                                <p className="text-sm text-slate-700 whitespace-pre-line">{f.question || '—'}</p>
+                                            </div>
+                                            <div className="p-3 bg-red-50/50 border border-red-100 rounded-lg">
+                                                <p className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-1 flex items-center gap-1">
+                                                    <Sparkles className="w-3 h-3" /> Réponse
+                                                </p>
+                                                <p className="text-sm text-slate-700 whitespace-pre-line max-h-64 overflow-y-auto">{f.answer || '—'}</p>
+                                            </div>
+                                        </div>
+                                        {f.comment && <p className="text-xs text-slate-600 italic mt-2">« {f.comment} »</p>}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AiFeedbackAnalytics;
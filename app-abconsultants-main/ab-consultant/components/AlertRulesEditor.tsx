@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RotateCcw, Save } from 'lucide-react';
+import { AlertRuleId, AlertRulesConfig, AlertRulesOverride } from '../types';
+import { diffAlertRules, mergeAlertRules } from '../services/alertRulesService';
+import { ToggleSwitch } from './ui/ToggleSwitch';
+
+interface AlertRulesEditorProps {
+    inherited: AlertRulesConfig;        // règles héritées (défauts, ou règles du cabinet pour un dossier)
+    override?: AlertRulesOverride;      // surcharge enregistrée
+    inheritedLabel: string;             // "par défaut" / "du cabinet"
+    onSave: (override: AlertRulesOverride) => Promise<void>;
+}
+
+type NumericField = { key: string; label: string; unit: string; min?: number; max?: number };
+
+const RULES: { id: AlertRuleId; label: string; description: string; fields: NumericField[] }[] = [
+    { id: 'treasuryBelow', label: 'Trésorerie basse', description: 'Trésorerie de fin de mois sous le seuil', fields: [{ key: 'threshold', label: 'Seuil', unit: '€' }] },
+    { id: 'dsoAbove', label: 'Délai clients', description: 'Créances clients / CA × 30 au-delà du seuil', fields: [{ key: 'days', label: 'Seuil', unit: 'jours', min: 0 }] },
+    { id: 'marginRateDrop', label: 'Baisse du taux de marge', description: 'Par rapport au même mois N-1', fields: [{ key: 'points', label: 'Baisse', unit: 'points', min: 0 }] },
+    {
+        id: 'overtimeSpike', label: 'Pic d\'heures sup.', description: 'Par rapport à la moyenne des 3 mois précédents',
+        fields: [{ key: 'pct', label: 'Hausse', unit: '%', min: 0 }, { key: 'minHours', label: 'À partir de', unit: 'h', min: 0 }],
+    },
+    { id: 'missingMonth', label: 'Mois non saisi', description: 'Mois précédent toujours absent à partir du jour', fields: [{ key: 'day', label: 'Jour', unit: 'du mois', min: 1, max: 28 }] },
+];
+
+/** Édition des seuils d'alerte ; seule la différence avec les règles héritées est enregistrée. */
+const AlertRulesEditor: React.FC<AlertRulesEditorProps> = ({ inherited, override, inheritedLabel, onSave }) => {
+    const [rules, setRules] = useState<AlertRulesConfig>(() => mergeAlertRules(inherited, override));
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setRules(mergeAlertRules(inherited, override));
+    }, [inherited, override]);
+
+    const pending = diffAlertRules(inherited, rules);
+    const isDirty = JSON.stringify(pending) !== JSON.stringify(diffAlertRules(inherited, mergeAlertRules(inherited, override)));
+    const hasOverride = Object.keys(pending).length > 0;
+
+    const update = (id: AlertRuleId, key: string, value: boolean | number) => {
+        setRules(prev => ({ ...prev, [id]: { ...prev[id], [key]: value } }));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave(pending);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            {RULES.map(rule => {
+                const current = rules[rule.id] as unknown as Record<string, number | boolean>;
+                const base = inherited[rule.id] as unknown as Record<string, number | boolean>;
+                const overridden = rule.id in pending;
+                return (
+                    <div key={rule.id} className={`p-2 rounded-lg border ${overridden ? 'border-brand-200 bg-brand-50/40' : 'border-paper-200'}`}>
+                        <div className="flex items-start justify-between gap-2">
+                            <div className="min-w-0">
+                                <p className="text-xs font-bold text-paper-800">{rule.label}</p>
+                                <p className="text-xs text-paper-500">{rule.description}</p>
+                            </div>
+                            <ToggleSwitch
+                                enabled={!!current.enabled}
+                                onChange={next => update(rule.id, 'enabled', next)}
+                                ariaLabel={`${current.enabled ? 'Désactiver' : 'Activer'} la règle ${rule.label}`}
+                            />
+                        </div>
+                        {current.enabled && (
+                            <div className="flex flex-wrap gap-2 mt-2">
+                                {rule.fields.map(field => (
+                                    <label key={field.key} className="flex items-center gap-1.5 text-xs text-paper-500">
+                                        <span className="font-bold uppercase">{field.label}</span>
+                                        <input
+                                            type="number"
+                                            min={field.min}
+                                            max={field.max}
+                                            value={String(current[field.key])}
+                                            onChange={e => {
+                                                const value = Number(e.target.value);
+                                                if (Number.isFinite(value)) update(rule.id, field.key, value);
+                                            }}
+                                            className="w-20 px-2 py-1 text-xs border border-slate-200 rounded-lg font-mono text-slate-700 focus:ring-1 focus:ring-brand-500 outline-none"
+                                        />
+                                        <span>{field.unit}</span>
+                                        {current[field.key] !== base[field.key] && (
+                                            <span className="text-paper-400">({String(base[field.key])} {inheritedLabel})</span>
+                                        )}
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+
+            <div className="flex items-center gap-2 pt-1">
+                <button
+                    onClick={() => setRules(mergeAlertRules(inherited))}
+                    disabled={isSaving || !hasOverride}
+                    className="px-3 py-2 text-xs font-bold text-paper-600 border border-paper-200 rounded-lg hover:bg-paper-50 transition flex items-center gap-1.5 disabled:opacity-40"
+                >
+                    <RotateCcw className="w-3 h-3" /> Règles {inheritedLabel}
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving || !isDirty}
+                    className="flex-1 py-2 bg-brand-600 text-white text-xs font-bold rounded-lg hover:bg-brand-700 transition flex items-center justify-center gap-1.5 disabled:opacity-50"
+                >
+                    {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Enregistrer les règles
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default AlertRulesEditor;
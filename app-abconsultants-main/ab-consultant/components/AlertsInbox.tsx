@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BellRing, CheckCircle, Clock, Settings } from 'lucide-react';
+import { Client, Consultant } from '../types';
+import { ConsultantAlert, getConsultants, markAlertResolved, reassignAlert, updateAlertStatus } from '../services/dataService';
+import { ALERT_STATUS_LABELS, formatSlaRemaining, getAlertStatus, isAlertOverdue, sortAlertsForInbox } from '../services/alertSla';
+import { auth } from '../firebase';
+
+export const ALERT_TYPE_LABELS: Record<ConsultantAlert['type'], string> = {
+    chat_handoff: 'Demande de contact',
+    urgent_treasury: 'Trésorerie',
+    compliance: 'Saisie manquante',
+    kpi_threshold: 'Indicateur',
+    manual: 'Manuelle',
+};
+
+const STATUS_BADGE: Record<string, string> = {
+    new: 'bg-amber-100 text-amber-700',
+    acknowledged: 'bg-brand-50 text-brand-700',
+    in_progress: 'bg-purple-50 text-purple-700',
+};
+
+export type AlertsScope = 'mine' | 'all';
+
+interface AlertsInboxProps {
+    alerts: ConsultantAlert[];
+    clients: Client[];
+    scope: AlertsScope;
+    onScopeChange: (scope: AlertsScope) => void;
+    onSelectClient: (client: Client) => void;
+    onOpenRules: () => void;
+}
+
+const AlertsInbox: React.FC<AlertsInboxProps> = ({ alerts, clients, scope, onScopeChange, onSelectClient, onOpenRules }) => {
+    const [now, setNow] = useState(() => Date.now());
+    const [consultants, setConsultants] = useState<Consultant[]>([]);
+    const [showAll, setShowAll] = useState(false);
+    const [resolvingId, setResolvingId] = useState<string | null>(null);
+    const [resolutionNote, setResolutionNote] = useState('');
+
+    // Le compteur SLA avance sans attendre un changement dans Firestore
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 60_000);
+        return () => clearInterval(timer);
+    }, []);
+
+    useEffect(() => {
+        getConsultants().then(setConsultants).catch(err => console.error('getConsultants:', err));
+    }, []);
+
+    const sorted = useMemo(() => sortAlertsForInbox(alerts, now), [alerts, now]);
+    const overdueCount = sorted.filter(a => isAlertOverdue(a, now)).length;
+    const visible = showAll ? sorted : sorted.slice(0, 5);
+    const me = auth.currentUser?.email || 'unknown';
+
+    const run = (label: string, action: Promise<void>) => {
+        action.catch(err => console.error(`${label}:`, err));
+    };
+
+    const handleResolve = (alert: ConsultantAlert) => {
+        run('markAlertResolved', markAlertResolved(alert.id, me, resolutionNote));
+        setResolvingId(null);
+        setResolutionNote('');
+    };
+
+    return (
+        <div id="alerts-section" className="bg-white rounded-xl shadow-paper border border-paper-200 p-5 scroll-mt-6">
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+                <BellRing className="w-4 h-4 text-amber-600" />
+                <h3 className="font-display text-lg font-semibold text-paper-900 tracking-tight">Alertes dossiers</h3>
+                <span className="text-xs text-paper-500">({alerts.length})</span>
+                {overdueCount > 0 && (
+                    <span className="px-1.5 py-0.5 rounded text-xs font-bold bg-red-100 text-red-700">{overdueCount} hors SLA</span>
+                )}
+                <div className="ml-auto flex items-center gap-3">
+                    <div className="flex rounded-lg border border-paper-200 overflow-hidden text-xs font-semibold">
+                        {(['mine', 'all'] as AlertsScope[]).map(s => (
+                            <button
+                                key={s}
+                                onClick={() => onScopeChange(s)}
+                                className={`px-2.5 py-1 transition ${scope === s ? 'bg-brand-600 text-white' : 'text-paper-600 hover:bg-paper-50'}`}
+                            >
+                                {s === 'mine' ? 'Mes alertes' : 'Toutes'}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={onOpenRules}
+                        className="text-xs font-semibold text-paper-500 hover:text-paper-800 flex items-center gap-1"
+                    >
+                        <Settings className="w-3.5 h-3.5" /> Règles d'alerte
+                    </button>
+                </div>
+            </div>
+            {alerts.length === 0 && (
+                <p className="text-xs text-paper-500">Aucune alerte ouverte.</p>
+            )}
+            <div className="space-y-2">
+                {visible.map(a => {
+                    const status = getAlertStatus(a);
+                    const overdue = isAlertOverdue(a, now);
+                    const sla = formatSlaRemaining(a, now);
+                    return (
+                        <div
+                            key={a.id}
+                            className={`flex items-start gap-3 p-3 rounded-lg border transition ${overdue ? 'border-red-300 bg-red-50/40' : 'border-paper-200 hover:border-amber-300 hover:bg-amber-50/30'}`}
+                        >
+                            <div className={`w-2 h-2 rounded-full mt-2 shrink-0 ${overdue || a.type === 'urgent_treasury' ? 'bg-red-500' : 'bg-amber-500'}`} />
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center justify-between gap-2 mb-0.5">
+                                    <p className="font-semibold text-sm text-paper-900 truncate">
+                                        {a.clientName}
+                                        <span className="ml-2 text-xs font-normal text-paper-400">{ALERT_TYPE_LABELS[a.type] || a.type}</span>
+                                    </p>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        {sla && (
+                                            <span className={`text-xs font-semibold flex items-center gap-1 ${overdue ? 'text-red-600' : 'text-paper-500'}`}>
+                                                <Clock className="w-3 h-3" /> {sla}
+                                            </span>
+                                        )}
+                                        <span className={`px-1.5 py-0.5 rounded text-xs font-bold ${STATUS_BADGE[status] || 'bg-paper-100 text-paper-600'}`}>
+                                            {ALERT_STATUS_LABELS[status]}
+                                        </span>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-paper-400 mb-1">
+                                    {a.createdAt?.toDate ? new Date(a.createdAt.toDate()).toLocaleString('fr-FR', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' }) : '...'}
+                                    {a.acknowledgedBy && ` · prise en compte par ${a.acknowledgedBy}`}
+                                </p>
+                                <p className="text-xs text-paper-600 line-clamp-2 mb-2">{a.message}</p>
+
+                                {resolvingId === a.id ? (
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            autoFocus
+                                            value={resolutionNote}
+                                            onChange={e => setResolutionNote(e.target.value)}
+                                            onKeyDown={e => { if (e.key === 'Enter') handleResolve(a); }}
+                                            placeholder="Note de résolution (facultative)"
+                                            className="flex-1 min-w-0 px-2 py-1 text-xs border border-paper-200 rounded-lg focus:ring-1 focus:ring-brand-500 outline-none"
+                                        />
+                                        <button onClick={() => handleResolve(a)} className="text-xs font-semibold text-emerald-700 hover:underline flex items-center gap-1">
+                                            <CheckCircle className="w-3 h-3" /> Résoudre
+                                        </button>
+                                        <button onClick={() => { setResolvingId(null); setResolutionNote(''); }} className="text-xs font-semibold text-paper-500 hover:text-paper-800">
+                                            Annuler
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                                        <button
+                                            onClick={() => {
+                                                const c = clients.find(c => c.id === a.clientId);
+                                                if (c) onSelectClient(c);
+                                            }}
+                                            className="text-xs font-semibold text-brand-600 hover:underline"
+                                        >
+                                            Ouvrir le dossier →
+                                        </button>
+                                        {status === 'new' && (
+                                            <button onClick={() => run('updateAlertStatus', updateAlertStatus(a, 'acknowledged', me))} className="text-xs font-semibold text-paper-600 hover:text-paper-900">
+                                                Prendre en compte
+                                            </button>
+                                        )}
+                                        {status !== 'in_progress' && (
+                                            <button onClick={() => run('updateAlertStatus', updateAlertStatus(a, 'in_progress', me))} className="text-xs font-semibold text-paper-600 hover:text-paper-900">
+                                                Passer en cours
+                                            </button>
+                                        )}
+                                        <button onClick={() => setResolvingId(a.id)} className="text-xs font-semibold text-paper-500 hover:text-paper-800">
+                                            Résoudre…
+                                        </button>
+                                        {consultants.length > 0 && (
+                                            <select
+                                                value={a.assignedTo || ''}
+                                                onChange={e => run('reassignAlert', reassignAlert(a.id, e.target.value, me))}
+                                                aria-label="Consultant assigné"
+                                                className="ml-auto px-1.5 py-0.5 text-xs border border-paper-200 rounded text-paper-600 bg-white"
+                                            >
+                                                <option value="">Non assignée</option>
+                                                {consultants.map(c => (
+                                                    <option key={c.id} value={c.email.toLowerCase()}>{c.name || c.email}</option>
+                                                ))}
+                                            </select>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+                {sorted.length > 5 && (
+                    <button onClick={() => setShowAll(!showAll)} className="w-full text-xs font-semibold text-paper-500 hover:text-paper-800 text-center pt-2">
+                        {showAll ? 'Réduire' : `+ ${sorted.length - 5} autres alertes`}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AlertsInbox;
@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Landmark, Upload, Trash2, AlertTriangle, Check } from 'lucide-react';
+import { Month } from '../types';
+import { BankStatement, parseBankStatement, computeMonthEndBalances, maskAccountId, normalizeAccountId } from '../services/bankStatementService';
+import { readFecFile } from '../services/fecImportService';
+
+interface BankStatementImportModalProps {
+    isOpen: boolean;
+    year: number;
+    month: Month;
+    onClose: () => void;
+    /** Soldes de fin de mois par compte pour le mois saisi. */
+    onApply: (accounts: Record<string, number>) => void;
+}
+
+interface LoadedStatement {
+    fileName: string;
+    statement: BankStatement;
+}
+
+const FORMAT_LABELS: Record<BankStatement['format'], string> = { ofx: 'OFX', camt053: 'CAMT.053', csv: 'CSV' };
+
+const formatEuro = (v: number) =>
+    new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 2 }).format(v);
+
+const formatDate = (iso: string) => iso.split('-').reverse().join('/');
+
+/**
+ * Import de relevés bancaires (un ou plusieurs comptes) pour remplir la trésorerie du mois saisi.
+ * Les soldes de fin de mois sont recalculés à partir du solde de référence de chaque relevé ;
+ * un CSV sans colonne Solde demande le solde de fin de période, un CSV sans numéro de compte
+ * demande le compte (deux exports du même compte doivent tomber sur la même clé).
+ */
+const BankStatementImportModal: React.FC<BankStatementImportModalProps> = ({ isOpen, year, month, onClose, onApply }) => {
+    const [loaded, setLoaded] = useState<LoadedStatement[]>([]);
+    const [manualBalances, setManualBalances] = useState<Record<number, string>>({});
+    const [manualAccounts, setManualAccounts] = useState<Record<number, string>>({});
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setLoaded([]);
+            setManualBalances({});
+            setManualAccounts({});
+            setError(null);
+        }
+    }, [isOpen]);
+
+    // Relevés sans solde de référence ou sans compte : solde de fin de période et compte saisis à la main
+    const statements = useMemo(() => loaded.map(({ statement }, i) => {
+        let result = statement;
+        if (!statement.accountKey && manualAccounts[i]) {
+            result = { ...result, accountKey: normalizeAccountId(manualAccounts[i]) };
+        }
+        if (!statement.closingBalance && manualBalances[i]) {
+            const amount = parseFloat(manualBalances[i].replace(/\s/g, '').replace(',', '.'));
+            if (!isNaN(amount)) result = { ...result, closingBalance: { date: statement.endDate, amount } };
+        }
+        return result;
+    }), [loaded, manualBalances, manualAccounts]);
+
+    const monthEnds = useMemo(() => computeMonthEndBalances(statements), [statements]);
+    const accountKeys = useMemo(() => [...new Set(statements.map(s => s.accountKey).filter(Boolean))], [statements]);
+    const target = monthEnds.find(m => m.year === year && m.month === month) || null;
+
+    if (!isOpen) return null;
+
+    const handleFiles = async (files: FileList | null) => {
+        if (!files) return;
+        setError(null);
+        const added: LoadedStatement[] = [];
+        for (const file of Array.from(files)) {
+            try {
+                const text = await readFecFile(file);
+                parseBankStatement(text).forEach(statement => added.push({ fileName: file.name, statement }));
+            } catch (err: any) {
+                setError(`${file.name} : ${err.message || 'fichier illisible.'}`);
+            }
+        }
+        setLoaded(prev => [...prev, ...added]);
+    };
+
+    const removeStatement = (index: number) => {
+        const shift = (prev: Record<number, string>) => {
+            const next: Record<number, string> = {};
+            Object.entries(prev).forEach(([k, v]) => {
+                const i = Number(k);
+                if (i !== index) next[i > index ? i - 1 : i] = v;
+            });
+            return next;
+        };
+        setLoaded(prev => prev.filter((_, i) => i !== index));
+        setManualBalances(shift);
+        setManualAccounts(shift);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+            <div className="bg-white rounded-2xl shadow-paper-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-paper-200 bg-paper-50">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 rounded-lg"><Landmark className="w-5 h-5 text-brand-700" /></div>
+                        <div>
+                            <p className="eyebrow text-paper-500 mb-0.5">Trésorerie · {month} {year}</p>
+                            <h2 className="font-display text-lg font-semibold text-paper-900 leading-tight">Import de relevés bancaires</h2>
+                        </div>
+                    </div>
+                    <button onClick={onClose} aria-label="Fermer" title="Fermer" className="p-2 text-paper-400 hover:text-paper-700 hover:bg-paper-100 rounded-lg transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-5">
+                    <label className="cursor-pointer block">
+                        <input type="file" multiple accept=".ofx,.qfx,.xml,.csv,.txt" className="hidden" onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }} />
+                        <div className="border-2 border-dashed border-paper-300 hover:border-brand-400 hover:bg-brand-50/30 rounded-2xl p-6 flex flex-col items-center transition-colors">
+                            <Upload className="w-6 h-6 text-brand-600 mb-2" />
+                            <p className="text-sm font-bold text-paper-900">Ajouter un ou plusieurs relevés</p>
+                            <p className="text-xs text-paper-500 mt-1">OFX, CAMT.053 (XML) ou export CSV de la banque — un fichier par compte</p>
+                        </div>
+                    </label>
+
+                    {error && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700 flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" /> {error}
+                        </div>
+                    )}
+
+                    {loaded.length > 0 && (
+                        <div className="space-y-2">
+                            {loaded.map(({ fileName, statement }, i) => (
+                                <div key={`${fileName}-${i}`} className="flex flex-wrap items-center gap-3 p-3 border border-paper-200 rounded-lg text-xs">
+                                    <span className="px-1.5 py-0.5 rounded bg-paper-100 text-paper-600 font-bold">{FORMAT_LABELS[statement.format]}</span>
+                                    {statement.accountKey ? (
+                                        <span className="font-mono font-bold text-paper-900" title={statement.accountKey}>{maskAccountId(statement.accountKey)}</span>
+                                    ) : (
+                                        <input
+                                            type="text"
+                                            value={manualAccounts[i] || ''}
+                                            onChange={(e) => setManualAccounts(prev => ({ ...prev, [i]: e.target.value }))}
+                                            placeholder="IBAN ou n° de compte"
+                                            aria-label={`Compte du relevé ${fileName}`}
+                                            className="w-48 px-2 py-1 font-mono border border-amber-300 rounded bg-amber-50 focus:ring-1 focus:ring-amber-500 outline-none"
+                                        />
+                                    )}
+                                    <span className="text-paper-500">du {formatDate(statement.startDate)} au {formatDate(statement.endDate)} · {statement.transactions.length} opérations</span>
+                                    <span className="ml-auto flex items-center gap-2">
+                                        {statement.closingBalance ? (
+                                            <span className="text-paper-600">Solde au {formatDate(statement.closingBalance.date)} : <span className="font-bold tabular-nums">{formatEuro(statement.closingBalance.amount)}</span></span>
+                                        ) : (
+                                            <label className="flex items-center gap-1.5 text-amber-700">
+                                                Solde au {formatDate(statement.endDate)}
+                                                <input
+                                                    type="text"
+                                                    inputMode="decimal"
+                                                    value={manualBalances[i] || ''}
+                                                    onChange={(e) => setManualBalances(prev => ({ ...prev, [i]: e.target.value }))}
+                                                    placeholder="à saisir"
+                                                    className="w-28 px-2 py-1 text-right border border-amber-300 rounded bg-amber-50 focus:ring-1 focus:ring-amber-500 outline-none"
+                                                />
+                                            </label>
+                                        )}
+                                        <button onClick={() => removeStatement(i)} aria-label="Retirer" title="Retirer" className="p-1 text-paper-400 hover:text-red-600 rounded transition-colors">
+                                            <Trash2 className="w-3.5 h-3.5" />
+                                        </button>
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {monthEnds.length > 0 && (
+                        <div className="overflow-x-auto border border-paper-200 rounded-lg">
+                            <table className="w-full text-xs">
+                                <thead className="bg-paper-50 text-paper-500">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left font-bold">Fin de mois</th>
+                                        {accountKeys.map(key => <th key={key} title={key} className="px-3 py-2 text-right font-mono font-bold">{maskAccountId(key)}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {monthEnds.map(m => {
+                                        const isTarget = m === target;
+                                        return (
+                                            <tr key={`${m.year}-${m.month}`} className={`border-t border-paper-100 ${isTarget ? 'bg-brand-50 font-bold text-brand-900' : 'text-paper-700'}`}>
+                                                <td className="px-3 py-1.5">{m.month} {m.year}</td>
+                                                {accountKeys.map(key => (
+                                                    <td key={key} className={`px-3 py-1.5 text-right tabular-nums ${(m.accounts[key] ?? 0) < 0 ? 'text-red-600' : ''}`}>
+                                                        {m.accounts[key] !== undefined ? formatEuro(m.accounts[key]) : '—'}
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {loaded.length > 0 && !target && (
+                        <p className="text-xs text-amber-700 flex items-center gap-1.5">
+                            <AlertTriangle className="w-3.5 h-3.5" />
+                            Aucun relevé ne couvre la fin du mois de {month} {year}.
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between px-6 py-4 border-t border-paper-200 bg-paper-50">
+                    <p className="text-xs text-paper-500">
+                        Comptes positifs → disponibilités, comptes négatifs → concours bancaires.
+                    </p>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-paper-600 hover:bg-paper-100 rounded-lg transition">
+                            Annuler
+                        </button>
+                        <button
+                            onClick={() => { if (target) { onApply(target.accounts); onClose(); } }}
+                            disabled={!target}
+                            className="px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 transition flex items-center gap-2 disabled:opacity-50"
+                        >
+                            <Check className="w-4 h-4" />
+                            Appliquer à {month} {year}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BankStatementImportModal;
@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Target, Loader2, Save, History, Copy } from 'lucide-react';
+import { Budget, BudgetMonth, Client, FinancialRecord, Month } from '../types';
+import { toShortMonth, getFiscalMonthOrder, getCalendarYear, formatFiscalYear } from '../services/dataService';
+import { buildBudgetFromActuals, budgetMonthRevenue, emptyBudgetMonth } from '../services/budgetService';
+import { useConfirmDialog } from '../contexts/ConfirmContext';
+
+interface BudgetEditorModalProps {
+    isOpen: boolean;
+    client: Client;
+    fiscalYear: number;
+    records: FinancialRecord[];
+    budget: Budget | null;
+    onClose: () => void;
+    onSave: (months: Partial<Record<Month, BudgetMonth>>) => Promise<void>;
+}
+
+type BudgetField = 'revenue' | 'marginRate' | 'salaries' | 'treasuryFloor';
+
+const formatAmount = (v: number) => new Intl.NumberFormat('fr-FR', { maximumFractionDigits: 0 }).format(v);
+
+const BudgetEditorModal: React.FC<BudgetEditorModalProps> = ({ isOpen, client, fiscalYear, records, budget, onClose, onSave }) => {
+    const profitCenters = client.profitCenters || [];
+    const monthOrder = useMemo(() => getFiscalMonthOrder(client.fiscalYearEnd), [client.fiscalYearEnd]);
+    const [months, setMonths] = useState<Partial<Record<Month, BudgetMonth>>>({});
+    const [growthRate, setGrowthRate] = useState(0);
+    const [isSaving, setIsSaving] = useState(false);
+    const confirm = useConfirmDialog();
+
+    useEffect(() => {
+        if (isOpen) setMonths(JSON.parse(JSON.stringify(budget?.months || {})));
+    }, [isOpen, budget]);
+
+    const hasPreviousActuals = useMemo(
+        () => monthOrder.some(m => records.some(r => r.year === getCalendarYear(fiscalYear - 1, m, client.fiscalYearEnd) && r.month === m)),
+        [records, monthOrder, fiscalYear, client.fiscalYearEnd]
+    );
+
+    if (!isOpen) return null;
+
+    const getMonth = (m: Month): BudgetMonth => months[m] || emptyBudgetMonth();
+
+    const setField = (m: Month, field: BudgetField, value: number) => {
+        setMonths(prev => ({ ...prev, [m]: { ...emptyBudgetMonth(), ...prev[m], [field]: value } }));
+    };
+
+    const setPcRevenue = (m: Month, pcId: string, value: number) => {
+        setMonths(prev => {
+            const current = { ...emptyBudgetMonth(), ...prev[m] };
+            const revenueBreakdown = { ...(current.revenueBreakdown || {}), [pcId]: value };
+            const next = { ...current, revenueBreakdown };
+            return { ...prev, [m]: { ...next, revenue: budgetMonthRevenue(next) } };
+        });
+    };
+
+    // Recopie la valeur du premier mois de l'exercice sur les 11 suivants
+    const fillRow = (apply: (m: Month, source: BudgetMonth) => void) => {
+        const source = getMonth(monthOrder[0]);
+        monthOrder.slice(1).forEach(m => apply(m, source));
+    };
+
+    const handlePrefill = async () => {
+        if (Object.keys(months).length > 0) {
+            const ok = await confirm({
+                title: 'Remplacer le budget saisi ?',
+                message: `Les montants actuels seront remplacés par les réalisés de l'exercice ${formatFiscalYear(fiscalYear - 1, client.fiscalYearEnd)}${growthRate ? ` (${growthRate > 0 ? '+' : ''}${growthRate} %)` : ''}.`,
+                variant: 'default',
+                confirmLabel: 'Pré-remplir',
+            });
+            if (!ok) return;
+        }
+        setMonths(buildBudgetFromActuals(records, fiscalYear - 1, client.fiscalYearEnd, profitCenters, growthRate));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave(months);
+            onClose();
+        } catch {
+            // Erreur déjà notifiée par le parent : la modale reste ouverte pour ne rien perdre
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const rowTotal = (pick: (b: BudgetMonth) => number) => monthOrder.reduce((s, m) => s + (months[m] ? pick(months[m]!) : 0), 0);
+    const totalRevenue = rowTotal(budgetMonthRevenue);
+    const totalMargin = rowTotal(b => budgetMonthRevenue(b) * (b.marginRate || 0) / 100);
+
+    const cellInput = (value: number, onChange: (v: number) => void, suffix?: string) => (
+        <input
+            type="number"
+            value={value || ''}
+            placeholder="0"
+            step={suffix === '%' ? 0.1 : 100}
+            onChange={e => {
+                const v = parseFloat(e.target.value.replace(',', '.'));
+                onChange(isNaN(v) ? 0 : v);
+            }}
+            className="w-full min-w-[72px] px-1.5 py-1 text-xs text-right font-mono border border-transparent hover:border-paper-200 focus:border-brand-500 focus:ring-1 focus:ring-brand-500 rounded outline-none bg-transparent"
+        />
+    );
+
+    const rowHeader = (label: string, onFill?: () => void, sub = false) => (
+        <td className={`sticky left-0 bg-white px-3 py-1.5 text-xs whitespace-nowrap ${sub ? 'pl-6 text-paper-600' : 'font-bold text-paper-800'}`}>
+            <div className="flex items-center justify-between gap-2">
+                <span className="truncate max-w-[160px]" title={label}>{label}</span>
+                {onFill && (
+                    <button onClick={onFill} title={`Recopier ${toShortMonth(monthOrder[0])} sur tout l'exercice`} className="p-0.5 text-paper-300 hover:text-brand-600 transition">
+                        <Copy className="w-3 h-3" />
+                    </button>
+                )}
+            </div>
+        </td>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={(e) => { if (e.target === e.currentTarget && !isSaving) onClose(); }}>
+            <div className="bg-white rounded-2xl shadow-paper-xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-paper-200 bg-paper-50">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 rounded-lg">
+                            <Target className="w-5 h-5 text-brand-700" />
+                        </div>
+                        <div>
+                            <p className="eyebrow text-paper-500 mb-0.5">Budget · {client.companyName}</p>
+                            <h2 className="font-display text-lg font-semibold text-paper-900 leading-tight">Exercice {formatFiscalYear(fiscalYear, client.fiscalYearEnd)}</h2>
+                        </div>
+                    </div>
+                    <button onClick={onClose} disabled={isSaving} aria-label="Fermer" title="Fermer" className="p-2 text-paper-400 hover:text-paper-700 hover:bg-paper-100 rounded-lg transition-colors disabled:opacity-30">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Pré-remplissage depuis N-1 */}
+                <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-paper-100">
+                    <span className="text-xs font-bold text-paper-500 uppercase">Pré-remplir depuis {formatFiscalYear(fiscalYear - 1, client.fiscalYearEnd)}</span>
+                    <div className="flex items-center gap-1">
+                        <input
+                            type="number"
+                            value={growthRate}
+                            step={0.5}
+                            onChange={e => setGrowthRate(parseFloat(e.target.value) || 0)}
+                            aria-label="Évolution appliquée"
+                            className="w-16 px-2 py-1 text-xs text-right font-mono border border-paper-200 rounded-lg focus:ring-1 focus:ring-brand-500 outline-none"
+                        />
+                        <span className="text-xs text-paper-500">% d'évolution</span>
+                    </div>
+                    <button
+                        onClick={handlePrefill}
+                        disabled={!hasPreviousActuals}
+                        title={hasPreviousActuals ? undefined : 'Aucun réalisé sur l\'exercice précédent'}
+                        className="px-3 py-1.5 text-xs font-bold text-brand-700 bg-white border border-brand-200 rounded-lg hover:bg-brand-50 transition flex items-center gap-1.5 disabled:opacity-40"
+                    >
+                        <History className="w-3 h-3" /> Réalisé N-1
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-auto">
+                    <table className="min-w-full text-xs">
+                        <thead className="sticky top-0 bg-paper-50 z-10">
+                            <tr className="text-paper-500 uppercase">
+                                <th className="sticky left-0 bg-paper-50 px-3 py-2 text-left font-bold">Poste</th>
+                                {monthOrder.map(m => (
+                                    <th key={m} className="px-1.5 py-2 text-right font-bold">{toShortMonth(m)}</th>
+                                ))}
+                                <th className="px-3 py-2 text-right font-bold">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {profitCenters.length > 0 ? (
+                                <>
+                                    {profitCenters.map(pc => (
+                                        <tr key={pc.id} className="border-t border-paper-100">
+                                            {rowHeader(`CA · ${pc.name}`, () => fillRow((m, src) => setPcRevenue(m, pc.id, src.revenueBreakdown?.[pc.id] || 0)), true)}
+                                            {monthOrder.map(m => (
+                                                <td key={m} className="px-0.5">{cellInput(getMonth(m).revenueBreakdown?.[pc.id] || 0, v => setPcRevenue(m, pc.id, v))}</td>
+                                            ))}
+                                            <td className="px-3 text-right font-mono text-paper-600">{formatAmount(rowTotal(b => b.revenueBreakdown?.[pc.id] || 0))}</td>
+                                        </tr>
+                                    ))}
+                                    <tr className="border-t border-paper-200 bg-paper-50/60">
+                                        {rowHeader("Chiffre d'affaires")}
+                                        {monthOrder.map(m => (
+                                            <td key={m} className="px-1.5 py-1.5 text-right font-mono font-bold text-paper-800">{formatAmount(budgetMonthRevenue(months[m]))}</td>
+                                        ))}
+                                        <td className="px-3 text-right font-mono font-bold text-paper-900">{formatAmount(totalRevenue)}</td>
+                                    </tr>
+                                </>
+                            ) : (
+                                <tr className="border-t border-paper-100">
+                                    {rowHeader("Chiffre d'affaires", () => fillRow((m, src) => setField(m, 'revenue', src.revenue)))}
+                                    {monthOrder.map(m => (
+                                        <td key={m} className="px-0.5">{cellInput(getMonth(m).revenue, v => setField(m, 'revenue', v))}</td>
+                                    ))}
+                                    <td className="px-3 text-right font-mono font-bold text-paper-900">{formatAmount(totalRevenue)}</td>
+                                </tr>
+                            )}
+                            <tr className="border-t border-paper-100">
+                                {rowHeader('Taux de marge (%)', () => fillRow((m, src) => setField(m, 'marginRate', src.marginRate)))}
+                                {monthOrder.map(m => (
+                                    <td key={m} className="px-0.5">{cellInput(getMonth(m).marginRate, v => setField(m, 'marginRate', v), '%')}</td>
+                                ))}
+                                <td className="px-3 text-right font-mono text-paper-600">
+                                    {totalRevenue > 0 ? `${((totalMargin / totalRevenue) * 100).toFixed(1)} %` : '—'}
+                                </td>
+                            </tr>
+                            <tr className="border-t border-paper-100">
+                                {rowHeader('Masse salariale', () => fillRow((m, src) => setField(m, 'salaries', src.salaries)))}
+                                {monthOrder.map(m => (
+                                    <td key={m} className="px-0.5">{cellInput(getMonth(m).salaries, v => setField(m, 'salaries', v))}</td>
+                                ))}
+                                <td className="px-3 text-right font-mono font-bold text-paper-900">{formatAmount(rowTotal(b => b.salaries))}</td>
+                            </tr>
+                            <tr className="border-t border-paper-100">
+                                {rowHeader('Plancher trésorerie', () => fillRow((m, src) => setField(m, 'treasuryFloor', src.treasuryFloor)))}
+                                {monthOrder.map(m => (
+                                    <td key={m} className="px-0.5">{cellInput(getMonth(m).treasuryFloor, v => setField(m, 'treasuryFloor', v))}</td>
+                                ))}
+                                <td className="px-3 text-right text-paper-400">—</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex items-center justify-between px-6 py-4 border-t border-paper-200 bg-paper-50">
+                    <p className="text-xs text-paper-500">
+                        {budget?.updatedBy ? `Dernière modification par ${budget.updatedBy}` : 'Aucun budget enregistré pour cet exercice.'}
+                    </p>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} disabled={isSaving} className="px-4 py-2 text-sm font-medium text-paper-600 hover:bg-paper-100 rounded-lg transition">
+                            Annuler
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 transition flex items-center gap-2 disabled:opacity-50"
+                        >
+                            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                            Enregistrer le budget
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BudgetEditorModal;
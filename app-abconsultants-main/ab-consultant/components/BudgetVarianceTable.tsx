@@ -0,0 +1,68 @@
+import React from 'react';
+import { Target, Settings2 } from 'lucide-react';
+import { BudgetVarianceLine } from '../services/budgetService';
+
+interface BudgetVarianceTableProps {
+    lines: BudgetVarianceLine[];
+    periodLabel: string;
+    onEdit?: () => void;
+}
+
+const formatEuro = (v: number) =>
+    new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(v);
+
+/**
+ * Tableau Budget / Réel / Écart sur la période affichée par le Dashboard.
+ * Vert = écart favorable (CA, marge, trésorerie au-dessus ; masse salariale en dessous).
+ */
+const BudgetVarianceTable: React.FC<BudgetVarianceTableProps> = ({ lines, periodLabel, onEdit }) => {
+    return (
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-brand-100">
+            <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                    <Target className="w-4 h-4 text-brand-600" />
+                    <p className="eyebrow">Budget vs Réel</p>
+                    <span className="text-xs text-paper-400">{periodLabel}</span>
+                </div>
+                {onEdit && (
+                    <button onClick={onEdit} className="flex items-center gap-1 text-xs font-bold text-brand-600 hover:text-brand-800 print:hidden">
+                        <Settings2 className="w-3.5 h-3.5" /> Modifier
+                    </button>
+                )}
+            </div>
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                    <thead>
+                        <tr className="text-xs text-paper-500 uppercase border-b border-paper-100">
+                            <th className="py-2 text-left font-bold">Poste</th>
+                            <th className="py-2 text-right font-bold">Budget</th>
+                            <th className="py-2 text-right font-bold">Réel</th>
+                            <th className="py-2 text-right font-bold">Écart €</th>
+                            <th className="py-2 text-right font-bold">Écart %</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {lines.map(line => {
+                            const tone = line.favorable ? 'text-emerald-600' : 'text-rose-600';
+                            return (
+                                <tr key={line.key} className="border-b border-paper-50 last:border-0">
+                                    <td className={`py-1.5 ${line.isSubLine ? 'pl-4 text-xs text-paper-500' : 'font-semibold text-paper-800'}`}>{line.label}</td>
+                                    <td className="py-1.5 text-right font-mono tabular-nums text-paper-600">{formatEuro(line.budget)}</td>
+                                    <td className="py-1.5 text-right font-mono tabular-nums text-paper-900">{formatEuro(line.actual)}</td>
+                                    <td className={`py-1.5 text-right font-mono tabular-nums font-bold ${tone}`}>
+                                        {line.variance > 0 ? '+' : ''}{formatEuro(line.variance)}
+                                    </td>
+                                    <td className={`py-1.5 text-right font-mono tabular-nums ${tone}`}>
+                                        {line.variancePct === null ? '—' : `${line.variancePct > 0 ? '+' : ''}${line.variancePct.toFixed(1)} %`}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default BudgetVarianceTable;
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { BellRing, Loader2, X } from 'lucide-react';
+import { AlertRulesOverride, DEFAULT_ALERT_RULES } from '../types';
+import { getCabinetAlertRules, saveCabinetAlertRules } from '../services/dataService';
+import AlertRulesEditor from './AlertRulesEditor';
+
+interface CabinetAlertRulesModalProps {
+    onClose: () => void;
+}
+
+/** Seuils d'alerte du cabinet, appliqués à tous les dossiers sauf surcharge dans la configuration du dossier. */
+const CabinetAlertRulesModal: React.FC<CabinetAlertRulesModalProps> = ({ onClose }) => {
+    const [rules, setRules] = useState<AlertRulesOverride | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        getCabinetAlertRules().then(setRules);
+    }, []);
+
+    const handleSave = async (override: AlertRulesOverride) => {
+        setError(null);
+        try {
+            await saveCabinetAlertRules(override);
+            setRules(override);
+            setSaved(true);
+            setTimeout(() => setSaved(false), 2000);
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+            <div className="bg-white rounded-2xl shadow-paper-xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-paper-200 bg-paper-50">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-red-100 rounded-lg"><BellRing className="w-5 h-5 text-red-700" /></div>
+                        <div>
+                            <p className="eyebrow text-paper-500 mb-0.5">Tous les dossiers</p>
+                            <h2 className="font-display text-lg font-semibold text-paper-900 leading-tight">Règles d'alerte du cabinet</h2>
+                        </div>
+                    </div>
+                    <button onClick={onClose} aria-label="Fermer" title="Fermer" className="p-2 text-paper-400 hover:text-paper-700 hover:bg-paper-100 rounded-lg transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-3">
+                    <p className="text-xs text-paper-500">
+                        Évaluées à chaque saisie et chaque matin. Une alerte se clôt d'elle-même quand la situation revient sous le seuil ;
+                        un dossier peut avoir ses propres seuils (Configuration Rapide).
+                    </p>
+                    {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+                    {saved && (
+                        <div className="bg-emerald-50 border border-emerald-200 text-emerald-700 text-xs font-bold px-3 py-2 rounded-lg text-center">
+                            Règles enregistrées
+                        </div>
+                    )}
+                    {rules ? (
+                        <AlertRulesEditor
+                            inherited={DEFAULT_ALERT_RULES}
+                            override={rules}
+                            inheritedLabel="par défaut"
+                            onSave={handleSave}
+                        />
+                    ) : (
+                        <div className="flex items-center gap-2 text-sm text-paper-500 py-6 justify-center">
+                            <Loader2 className="w-4 h-4 animate-spin" /> Chargement des règles…
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CabinetAlertRulesModal;
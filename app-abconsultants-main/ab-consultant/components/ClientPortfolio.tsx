@@ -1,16 +1,17 @@
 
 import React, { useEffect, useState, useMemo, useRef } from 'react';
-import { Client, FinancialRecord, ProfitCenter } from '../types';
+import { Client, FinancialRecord, ProfitCenter, AlertRulesOverride } from '../types';
 import { getRecordsByClient } from '../services/dataService';
 import {
     Users, Plus, Edit2, Search, Briefcase, Archive, X, Loader2,
     ArrowUpDown, ArrowUp, ArrowDown, TrendingDown, CheckCircle,
     Clock, MoreVertical, Copy, Power,
     Activity, Settings, Mail,
-    Rows3, AlertTriangle, MinusCircle
+    Rows3, AlertTriangle, MinusCircle, Download
 } from 'lucide-react';
 import ActivityTimeline from './ActivityTimeline';
 import QuickConfigPanel from './QuickConfigPanel';
+import PortfolioExportModal from './PortfolioExportModal';
 import InfoTip, { getPerfColor } from './ui/InfoTip';
 import { callSendClientInvitation } from '../lib/cloudFunctions';
 import { useConfirmDialog } from '../contexts/ConfirmContext';
@@ -32,7 +33,10 @@ interface ClientPortfolioProps {
     onToggleFuelModule?: (client: Client) => void;
     onToggleCommercialMargin?: (client: Client) => void;
     onToggleAiAssistant?: (client: Client) => void;
+    onUpdateAiQuota?: (client: Client, quota: number) => Promise<void>;
+    onUpdateAlertRules?: (client: Client, rules: AlertRulesOverride) => Promise<void>;
     onUpdateClientStatus?: (client: Client, status: 'active' | 'inactive') => void;
+    onUndoImport?: (client: Client, batchId: string) => Promise<void>;
 }
 
 interface ClientWithKpis {
@@ -200,7 +204,7 @@ const ClientPortfolio: React.FC<ClientPortfolioProps> = ({
     onSetClientViewMode, onSetClientSearchQuery,
     onSelectClient, onEditClient, onNewClient, onToggleStatus,
     onSaveClient, onUpdateProfitCenters, onToggleFuelModule,
-    onToggleCommercialMargin, onToggleAiAssistant, onUpdateClientStatus
+    onToggleCommercialMargin, onToggleAiAssistant, onUpdateAiQuota, onUpdateAlertRules, onUpdateClientStatus, onUndoImport
 }) => {
     const [clientKpis, setClientKpis] = useState<ClientWithKpis[]>([]);
     const [isLoading, setIsLoading] = useState(false);
@@ -226,6 +230,9 @@ const ClientPortfolio: React.FC<ClientPortfolioProps> = ({
         try { localStorage.setItem(DENSE_VIEW_STORAGE_KEY, denseView ? '1' : '0'); } catch { /* ignore */ }
     }, [denseView]);
 
+    // Export cabinet : liste affichée ou sélection
+    const [exportScope, setExportScope] = useState<{ clientIds: string[]; label: string } | null>(null);
+
     // Connection-status filter (KPI strip)
     const [connectionFilter, setConnectionFilter] = useState<ConnectionStatus | null>(null);
 
@@ -597,9 +604,22 @@ Expertise & Stratégie Financière`;
                                 <span className="font-sans text-sm font-normal text-paper-400">({filtered.length} dossier{filtered.length !== 1 ? 's' : ''})</span>
                             </h2>
                         </div>
-                        <button onClick={onNewClient} className="flex items-center gap-2 bg-brand-600 text-white px-4 py-2 rounded-lg hover:bg-brand-700 font-bold shadow-sm transition">
-                            <Plus className="w-4 h-4" /> Nouveau Dossier
-                        </button>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setExportScope({
+                                    clientIds: sorted.map(s => s.client.id),
+                                    label: `${sorted.length} dossier${sorted.length !== 1 ? 's' : ''} affiché${sorted.length !== 1 ? 's' : ''}`,
+                                })}
+                                disabled={sorted.length === 0}
+                                className="flex items-center gap-2 bg-white text-brand-700 border border-brand-200 px-4 py-2 rounded-lg hover:bg-brand-50 font-bold shadow-sm transition disabled:opacity-50"
+                                title="Export CSV de tous les dossiers affichés"
+                            >
+                                <Download className="w-4 h-4" /> Export cabinet
+                            </button>
+                            <button onClick={onNewClient} className="flex items-center gap-2 bg-brand-600 text-white px-4 py-2 rounded-lg hover:bg-brand-700 font-bold shadow-sm transition">
+                                <Plus className="w-4 h-4" /> Nouveau Dossier
+                            </button>
+                        </div>
                     </div>
 
                     {/* Connection KPI strip */}
@@ -725,6 +745,17 @@ Expertise & Stratégie Financière`;
                                     Inviter ({invitableSelected.length})
                                 </button>
                             )}
+                            <button
+                                onClick={() => setExportScope({
+                                    clientIds: selectedClients.map(c => c.id),
+                                    label: `${selectedClients.length} dossier${selectedClients.length > 1 ? 's' : ''} sélectionné${selectedClients.length > 1 ? 's' : ''}`,
+                                })}
+                                disabled={isBulkProcessing}
+                                className="inline-flex items-center gap-1.5 text-xs font-bold px-3 py-1.5 rounded-md border border-brand-300 text-brand-700 bg-white hover:bg-brand-50 transition disabled:opacity-50"
+                            >
+                                <Download className="w-3.5 h-3.5" />
+                                Exporter ({selectedClients.length})
+                            </button>
                             <button
                                 onClick={handleBulkToggleStatus}
                                 disabled={isBulkProcessing}
@@ -1199,7 +1230,7 @@ Expertise & Stratégie Financière`;
                     {/* Panel Body */}
                     <div className="p-4 max-h-[calc(100vh-220px)] overflow-y-auto custom-scrollbar">
                         {panelTab === 'timeline' ? (
-                            <ActivityTimeline clientId={panelClient.id} clientName={panelClient.companyName} />
+                            <ActivityTimeline clientId={panelClient.id} clientName={panelClient.companyName} onUndoImport={onUndoImport ? (batchId) => onUndoImport(panelClient, batchId) : undefined} />
                         ) : (
                             onSaveClient && onUpdateProfitCenters && onToggleFuelModule && onToggleCommercialMargin && onUpdateClientStatus ? (
                                 <QuickConfigPanel
@@ -1209,6 +1240,8 @@ Expertise & Stratégie Financière`;
                                     onToggleFuelModule={() => onToggleFuelModule(panelClient)}
                                     onToggleCommercialMargin={() => onToggleCommercialMargin(panelClient)}
                                     onToggleAiAssistant={onToggleAiAssistant ? () => onToggleAiAssistant(panelClient) : undefined}
+                                    onUpdateAiQuota={onUpdateAiQuota ? (quota) => onUpdateAiQuota(panelClient, quota) : undefined}
+                                    onUpdateAlertRules={onUpdateAlertRules ? (rules) => onUpdateAlertRules(panelClient, rules) : undefined}
                                     onUpdateClientStatus={onUpdateClientStatus}
                                 />
                             ) : (
@@ -1220,6 +1253,13 @@ Expertise & Stratégie Financière`;
                     </div>
                 </div>
             )}
+
+            <PortfolioExportModal
+                isOpen={!!exportScope}
+                clientIds={exportScope?.clientIds || []}
+                scopeLabel={exportScope?.label || ''}
+                onClose={() => setExportScope(null)}
+            />
         </div>
     );
 };
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { X, Sparkles, Loader2, AlertTriangle, Check, RefreshCw } from 'lucide-react';
+import { draftExpertComment } from '../lib/cloudFunctions';
+import { approveCommentDraft, getCommentDraft } from '../services/dataService';
+
+interface CommentDraftModalProps {
+    isOpen: boolean;
+    clientId: string;
+    year: number;
+    month: string;
+    /** Commentaire actuellement enregistré sur le mois (remplacé à la validation). */
+    currentComment?: string;
+    /** Record enregistré : le commentaire y est écrit avec la validation du brouillon. */
+    recordId?: string;
+    /** Appelé une fois le brouillon validé (mise à jour du formulaire, rafraîchissement…). */
+    onApprove: (comment: string) => Promise<void> | void;
+    onClose: () => void;
+}
+
+/**
+ * Brouillon IA du commentaire de l'expert : généré côté serveur à partir des chiffres du mois,
+ * relu et modifié par le consultant. Le brouillon reste dans `commentDrafts` (invisible du client)
+ * tant qu'il n'est pas validé.
+ */
+const CommentDraftModal: React.FC<CommentDraftModalProps> = ({ isOpen, clientId, year, month, currentComment, recordId, onApprove, onClose }) => {
+    const [draftId, setDraftId] = useState<string | null>(null);
+    const [text, setText] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        setError(null);
+        setDraftId(null);
+        setText('');
+        setIsLoading(true);
+        // Reprend un brouillon non validé du même mois plutôt que d'en générer un nouveau
+        getCommentDraft(clientId, year, month).then(draft => {
+            if (cancelled || !draft || draft.status !== 'draft') return;
+            setDraftId(draft.id);
+            setText(draft.text);
+        }).finally(() => {
+            if (!cancelled) setIsLoading(false);
+        });
+        return () => { cancelled = true; };
+    }, [isOpen, clientId, year, month]);
+
+    if (!isOpen) return null;
+
+    const handleGenerate = async () => {
+        setIsGenerating(true);
+        setError(null);
+        try {
+            const result = await draftExpertComment({ clientId, year, month });
+            setDraftId(result.draftId);
+            setText(result.text);
+        } catch (err: any) {
+            setError(err?.message || 'Erreur lors de la génération du brouillon.');
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const handleApprove = async () => {
+        if (!draftId || !text.trim()) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await approveCommentDraft(draftId, text.trim(), recordId);
+            await onApprove(text.trim());
+            onClose();
+        } catch (err: any) {
+            setError(err?.message || 'Erreur lors de l\'enregistrement du commentaire.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const isBusy = isLoading || isGenerating || isSaving;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={(e) => { if (e.target === e.currentTarget && !isSaving) onClose(); }}>
+            <div className="bg-white rounded-2xl shadow-paper-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-paper-200 bg-paper-50">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 rounded-lg"><Sparkles className="w-5 h-5 text-brand-700" /></div>
+                        <div>
+                            <p className="eyebrow text-paper-500 mb-0.5">{month} {year}</p>
+                            <h2 className="font-display text-lg font-semibold text-paper-900 leading-tight">Proposer un commentaire</h2>
+                        </div>
+                    </div>
+                    <button onClick={onClose} aria-label="Fermer" title="Fermer" className="p-2 text-paper-400 hover:text-paper-700 hover:bg-paper-100 rounded-lg transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    {currentComment?.trim() && (
+                        <div>
+                            <p className="eyebrow text-paper-500 mb-2">Commentaire actuel</p>
+                            <p className="text-sm text-paper-600 bg-paper-50 border border-paper-200 rounded-lg p-3 whitespace-pre-line">{currentComment}</p>
+                        </div>
+                    )}
+
+                    {isLoading ? (
+                        <div className="flex items-center gap-2 text-sm text-paper-500 py-6 justify-center">
+                            <Loader2 className="w-4 h-4 animate-spin" /> Chargement du brouillon…
+                        </div>
+                    ) : draftId ? (
+                        <div>
+                            <div className="flex items-center justify-between mb-2">
+                                <p className="eyebrow text-paper-500">Brouillon IA · à relire</p>
+                                <button
+                                    type="button"
+                                    onClick={handleGenerate}
+                                    disabled={isBusy}
+                                    className="px-2 py-0.5 rounded text-xs font-bold text-brand-600 hover:bg-brand-50 flex items-center gap-1 disabled:opacity-50"
+                                >
+                                    {isGenerating ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />} Régénérer
+                                </button>
+                            </div>
+                            <textarea
+                                value={text}
+                                onChange={(e) => setText(e.target.value)}
+                                rows={9}
+                                className="w-full p-3 text-sm border border-paper-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none resize-y"
+                            />
+                            <p className="text-xs text-paper-500 mt-2">
+                                Le client ne voit ce texte qu'après votre validation.
+                            </p>
+                        </div>
+                    ) : (
+                        <div className="text-center py-6">
+                            <p className="text-sm text-paper-600 mb-4">
+                                L'IA rédige un commentaire à partir des chiffres du mois, des écarts N-1 et M-1,
+                                de l'atteinte de l'objectif et de l'évolution du BFR, dans le ton de vos commentaires précédents.
+                            </p>
+                            <button
+                                onClick={handleGenerate}
+                                disabled={isBusy}
+                                className="px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 transition inline-flex items-center gap-2 disabled:opacity-50"
+                            >
+                                {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                                Générer le brouillon
+                            </button>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700 flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" /> {error}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-paper-200 bg-paper-50">
+                    <button onClick={onClose} disabled={isSaving} className="px-4 py-2 text-sm font-medium text-paper-600 hover:bg-paper-100 rounded-lg transition">
+                        Annuler
+                    </button>
+                    <button
+                        onClick={handleApprove}
+                        disabled={isBusy || !draftId || !text.trim()}
+                        className="px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 transition flex items-center gap-2 disabled:opacity-50"
+                    >
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                        Valider le commentaire
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CommentDraftModal;
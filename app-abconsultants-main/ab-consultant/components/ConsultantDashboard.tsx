@@ -1,17 +1,20 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
 import { Client, FinancialRecord } from '../types';
-import { getRecordsByClient, subscribeToConsultantAlerts, markAlertResolved, ConsultantAlert } from '../services/dataService';
+import { getRecordsByClient, subscribeToConsultantAlerts, ConsultantAlert } from '../services/dataService';
+import { isAlertOverdue } from '../services/alertSla';
 import { auth } from '../firebase';
 import {
     AlertTriangle, Clock, CheckCircle, TrendingDown, TrendingUp, MessageSquare,
     ArrowRight, Briefcase, Loader2, Filter, Shield, Search, X, ChevronDown,
     ChevronLeft, ChevronRight as ChevronRightIcon,
     DollarSign, Percent, Landmark, Target, Activity, CalendarClock,
-    Calendar, MapPin, FileCheck, FileX, ChevronUp, Zap, ShieldCheck, Sparkles
+    Calendar, MapPin, FileCheck, FileX, ChevronUp, Zap, ShieldCheck, BellRing, Settings
 } from 'lucide-react';
 import { DashboardSkeleton } from './ui/Skeleton';
 import InfoTip, { getPerfColor } from './ui/InfoTip';
+import CabinetAlertRulesModal from './CabinetAlertRulesModal';
+import AlertsInbox, { AlertsScope } from './AlertsInbox';
 
 interface ConsultantDashboardProps {
     clients: Client[];
@@ -420,12 +423,15 @@ const ConsultantDashboard: React.FC<ConsultantDashboardProps> = ({ clients, onSe
     const [searchQuery, setSearchQuery] = useState('');
     const [activePanel, setActivePanel] = useState<PanelType>(null);
     const [alerts, setAlerts] = useState<ConsultantAlert[]>([]);
+    const [showAlertRules, setShowAlertRules] = useState(false);
+    const [alertsScope, setAlertsScope] = useState<AlertsScope>('mine');
 
-    // Subscribe to live consultant alerts (chat handoffs etc.)
+    // Subscribe to live consultant alerts (chat handoffs, règles d'alerte du cabinet),
+    // routées par défaut vers le consultant connecté
     useEffect(() => {
-        const unsub = subscribeToConsultantAlerts(setAlerts);
+        const unsub = subscribeToConsultantAlerts(setAlerts, alertsScope === 'mine' ? auth.currentUser?.email || undefined : undefined);
         return () => unsub();
-    }, []);
+    }, [alertsScope]);
 
     const MONTHS = ['Janvier','Février','Mars','Avril','Mai','Juin','Juillet','Août','Septembre','Octobre','Novembre','Décembre'];
 
@@ -743,6 +749,7 @@ const ConsultantDashboard: React.FC<ConsultantDashboardProps> = ({ clients, onSe
                     document.getElementById('alerts-section')?.scrollIntoView({ behavior: 'smooth' });
                 };
                 const alertsIaCount = alerts.length;
+                const overdueHandoffCount = alerts.filter(a => a.type === 'chat_handoff' && isAlertOverdue(a)).length;
 
                 return (
                     <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5">
@@ -844,25 +851,27 @@ const ConsultantDashboard: React.FC<ConsultantDashboardProps> = ({ clients, onSe
                                 </p>
                             </button>
 
-                            {/* Alertes IA */}
+                            {/* Alertes dossiers — les demandes de contact hors SLA passent en rouge */}
                             <button
                                 onClick={handleAlertsIaClick}
-                                className="text-left p-3 rounded-lg border border-slate-200 hover:border-amber-300 hover:bg-amber-50/50 hover:shadow-sm transition-all group"
+                                className={`text-left p-3 rounded-lg border hover:shadow-sm transition-all group ${overdueHandoffCount > 0 ? 'border-red-300 bg-red-50/60 hover:bg-red-50' : 'border-slate-200 hover:border-amber-300 hover:bg-amber-50/50'}`}
                             >
                                 <div className="flex items-center gap-2 mb-2">
-                                    <div className="w-8 h-8 rounded-lg bg-amber-100 text-amber-600 flex items-center justify-center">
-                                        <Sparkles className="w-4 h-4" />
+                                    <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${overdueHandoffCount > 0 ? 'bg-red-100 text-red-600' : 'bg-amber-100 text-amber-600'}`}>
+                                        <BellRing className="w-4 h-4" />
                                     </div>
                                     {alertsIaCount > 0 ? (
-                                        <span className="font-display text-3xl font-semibold text-amber-700 tabular-nums tracking-tight">{alertsIaCount}</span>
+                                        <span className={`font-display text-3xl font-semibold tabular-nums tracking-tight ${overdueHandoffCount > 0 ? 'text-red-700' : 'text-amber-700'}`}>{alertsIaCount}</span>
                                     ) : (
                                         <CheckCircle className="w-5 h-5 text-emerald-500 ml-auto" />
                                     )}
                                 </div>
-                                <p className="text-xs font-bold text-slate-700">Alertes IA</p>
-                                <p className="text-xs text-slate-500">
-                                    {alertsIaCount > 0
-                                        ? `${alertsIaCount > 1 ? 'Demandes' : 'Demande'} de contact consultant`
+                                <p className="text-xs font-bold text-slate-700">Alertes dossiers</p>
+                                <p className={`text-xs ${overdueHandoffCount > 0 ? 'text-red-600 font-semibold' : 'text-slate-500'}`}>
+                                    {overdueHandoffCount > 0
+                                        ? `${overdueHandoffCount} ${overdueHandoffCount > 1 ? 'demandes client' : 'demande client'} hors délai`
+                                        : alertsIaCount > 0
+                                        ? `${alertsIaCount > 1 ? 'Alertes' : 'Alerte'} à traiter`
                                         : "Pas d'alertes"}
                                 </p>
                             </button>
@@ -1026,52 +1035,16 @@ const ConsultantDashboard: React.FC<ConsultantDashboardProps> = ({ clients, onSe
                 />
             )}
 
-            {/* ═══ ALERTES IA (handoffs chat, etc.) ═══ */}
-            {alerts.length > 0 && (
-                <div id="alerts-section" className="bg-white rounded-xl shadow-paper border border-paper-200 p-5 scroll-mt-6">
-                    <div className="flex items-center gap-2 mb-4">
-                        <Sparkles className="w-4 h-4 text-amber-600" />
-                        <h3 className="font-display text-lg font-semibold text-paper-900 tracking-tight">Alertes IA</h3>
-                        <span className="text-xs text-paper-500">({alerts.length})</span>
-                    </div>
-                    <div className="space-y-2">
-                        {alerts.slice(0, 5).map(a => (
-                            <div key={a.id} className="flex items-start gap-3 p-3 rounded-lg border border-paper-200 hover:border-amber-300 hover:bg-amber-50/30 transition">
-                                <div className="w-2 h-2 rounded-full bg-amber-500 mt-2 shrink-0" />
-                                <div className="flex-1 min-w-0">
-                                    <div className="flex items-center justify-between gap-2 mb-0.5">
-                                        <p className="font-semibold text-sm text-paper-900 truncate">{a.clientName}</p>
-                                        <span className="text-xs text-paper-400 shrink-0">
-                                            {a.createdAt?.toDate ? new Date(a.createdAt.toDate()).toLocaleString('fr-FR', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' }) : '...'}
-                                        </span>
-                                    </div>
-                                    <p className="text-xs text-paper-600 line-clamp-2 mb-2">{a.message}</p>
-                                    <div className="flex gap-2">
-                                        <button
-                                            onClick={() => {
-                                                const c = clients.find(c => c.id === a.clientId);
-                                                if (c) onSelectClient(c);
-                                            }}
-                                            className="text-xs font-semibold text-brand-600 hover:underline"
-                                        >
-                                            Ouvrir le dossier →
-                                        </button>
-                                        <button
-                                            onClick={() => { markAlertResolved(a.id, auth.currentUser?.email || 'unknown').catch(err => console.error('markAlertResolved:', err)); }}
-                                            className="text-xs font-semibold text-paper-500 hover:text-paper-800"
-                                        >
-                                            Marquer comme traité
-                                        </button>
-                                    </div>
-                                </div>
-                            </div>
-                        ))}
-                        {alerts.length > 5 && (
-                            <p className="text-xs text-paper-500 text-center pt-2">+ {alerts.length - 5} autres alertes</p>
-                        )}
-                    </div>
-                </div>
-            )}
+            {/* ═══ ALERTES (handoffs chat, règles d'alerte du cabinet) ═══ */}
+            <AlertsInbox
+                alerts={alerts}
+                clients={clients}
+                scope={alertsScope}
+                onScopeChange={setAlertsScope}
+                onSelectClient={onSelectClient}
+                onOpenRules={() => setShowAlertRules(true)}
+            />
+            {showAlertRules && <CabinetAlertRulesModal onClose={() => setShowAlertRules(false)} />}
 
             {/* ═══ FILE D'ATTENTE RDV ═══ */}
             <div id="rdv-section" className="space-y-3 scroll-mt-6">
@@ -3,11 +3,18 @@ import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Line, ComposedChart, ReferenceLine, AreaChart, Area, PieChart, Pie, Cell, LineChart
 } from 'recharts';
-import { FinancialRecord, Month, Client } from '../types';
-import { TrendingUp, TrendingDown, DollarSign, Users, MousePointerClick, Calendar, Filter, Check, Trophy, AlertCircle, Target, Droplets, ArrowRight, ArrowUpRight, ArrowDownRight, FileText, ShieldAlert, MessageSquare, Send, Bell, Clock, Fuel, Briefcase, Zap, Activity, ShoppingBag, Percent, Landmark, Maximize2, Minimize2, Printer, BarChart3 } from 'lucide-react';
+import { FinancialRecord, Month, Client, BudgetMonth } from '../types';
+import { TrendingUp, TrendingDown, DollarSign, Users, MousePointerClick, Calendar, Filter, Check, Trophy, AlertCircle, Target, Droplets, ArrowRight, ArrowUpRight, ArrowDownRight, FileText, ShieldAlert, MessageSquare, Send, Bell, Clock, Fuel, Briefcase, Zap, Activity, ShoppingBag, Percent, Landmark, Maximize2, Minimize2, FileDown, BarChart3 } from 'lucide-react';
 // @ts-ignore
 import confetti from 'canvas-confetti';
-import { toShortMonth } from '../services/dataService';
+import { toShortMonth, getFiscalMonthOrder, getFiscalYear, getCalendarYear, formatFiscalYear } from '../services/dataService';
+import { computeBudgetVariance } from '../services/budgetService';
+import { useBudget } from '../hooks/useBudget';
+import BudgetVarianceTable from './BudgetVarianceTable';
+import BudgetEditorModal from './BudgetEditorModal';
+import TreasuryForecastPanel from './TreasuryForecastPanel';
+import AgingBalanceCard from './AgingBalanceCard';
+import WhatIfSimulatorPanel from './WhatIfSimulatorPanel';
 
 interface DashboardProps {
   data: FinancialRecord[];
@@ -16,6 +23,8 @@ interface DashboardProps {
   onSaveComment: (record: FinancialRecord) => void;
   isPresentationMode?: boolean;
   onTogglePresentation?: () => void;
+  onSaveBudget?: (fiscalYear: number, months: Partial<Record<Month, BudgetMonth>>) => Promise<void>;
+  onDownloadReport?: (record: FinancialRecord) => void;
 }
 
 const COLORS_RECEIVABLES = ['#0891b2', '#06b6d4', '#22d3ee', '#67e8f9']; // Cyan/Teal shades for Assets
@@ -86,11 +95,16 @@ const formatCurrency = (value: number, fractionDigits?: number) =>
         minimumFractionDigits: fractionDigits !== undefined ? fractionDigits : 0  // Default min 0
     }).format(value);
 
-const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveComment, isPresentationMode = false, onTogglePresentation }) => {
-  
-  // Year Selection
+const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveComment, isPresentationMode = false, onTogglePresentation, onSaveBudget, onDownloadReport }) => {
+
+  // Exercice d'un record (= année civile si pas de clôture décalée)
+  const fiscalYearOf = (r: { year: number; month: string }) => getFiscalYear(r.year, r.month, client.fiscalYearEnd);
+
+  // Year Selection (selectedYear = exercice, identifié par son année de clôture)
   const [selectedYear, setSelectedYear] = useState<number>(
-    data.length > 0 ? Math.max(...data.map(d => d.year)) : new Date().getFullYear()
+    data.length > 0
+      ? Math.max(...data.map(fiscalYearOf))
+      : getFiscalYear(new Date().getFullYear(), standardMonthOrder[new Date().getMonth()], client.fiscalYearEnd)
   );
 
   // Multi-Month Selection State (Empty array means "All Year")
@@ -109,38 +123,27 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
   // Update selected year when data changes (e.g. initial load)
   useEffect(() => {
     if (data.length > 0) {
-      const years: number[] = Array.from(new Set(data.map(d => d.year)));
+      const years: number[] = Array.from(new Set(data.map(fiscalYearOf)));
       if (!years.includes(selectedYear)) {
         setSelectedYear(Math.max(...years));
       }
     }
-  }, [data, selectedYear]);
+  }, [data, selectedYear, client.fiscalYearEnd]);
 
   // --- FISCAL YEAR LOGIC ---
-  const fiscalMonthOrder = useMemo(() => {
-      if (!client.fiscalYearEnd) return standardMonthOrder;
-      const parts = client.fiscalYearEnd.split('/');
-      if (parts.length !== 2) return standardMonthOrder;
-      const closeMonthIndex = parseInt(parts[1], 10) - 1;
-      if (isNaN(closeMonthIndex) || closeMonthIndex < 0 || closeMonthIndex > 11) return standardMonthOrder;
-      const startMonthIndex = (closeMonthIndex + 1) % 12;
-      return [
-          ...standardMonthOrder.slice(startMonthIndex),
-          ...standardMonthOrder.slice(0, startMonthIndex)
-      ];
-  }, [client.fiscalYearEnd]);
+  const fiscalMonthOrder = useMemo(() => getFiscalMonthOrder(client.fiscalYearEnd), [client.fiscalYearEnd]);
 
   // --- M-1 LOGIC: Default view = completed months only ---
   const currentYear = new Date().getFullYear();
   const currentMonthIndex = new Date().getMonth(); // 0=Jan, 1=Feb...
-  // For current year: only months before current month (M-1)
-  // For past years: null = show all months
+  const currentFiscalYear = getFiscalYear(currentYear, standardMonthOrder[currentMonthIndex], client.fiscalYearEnd);
+  // For current fiscal year: only months before current month (M-1), in exercise order
+  // For past fiscal years: null = show all months
   const defaultMonthsUpToM1 = useMemo(() => {
-    if (selectedYear < currentYear) return null;
-    if (selectedYear > currentYear) return [];
-    if (currentMonthIndex === 0) return []; // January: no completed month yet
-    return standardMonthOrder.slice(0, currentMonthIndex);
-  }, [selectedYear]);
+    if (selectedYear < currentFiscalYear) return null;
+    if (selectedYear > currentFiscalYear) return [];
+    return fiscalMonthOrder.slice(0, fiscalMonthOrder.indexOf(standardMonthOrder[currentMonthIndex]));
+  }, [selectedYear, currentFiscalYear, fiscalMonthOrder]);
 
   // --- ROLLING PERIOD DATA (12M / 6M glissants) ---
   const rollingData = useMemo(() => {
@@ -213,7 +216,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
 
   // --- DATA PROCESSING ---
   const yearData = useMemo(() => {
-    let filtered = data.filter(d => d.year === selectedYear);
+    let filtered = data.filter(d => fiscalYearOf(d) === selectedYear);
     filtered.sort((a, b) => fiscalMonthOrder.indexOf(a.month) - fiscalMonthOrder.indexOf(b.month));
     return filtered;
   }, [data, selectedYear, fiscalMonthOrder]);
@@ -235,10 +238,24 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
     return yearData;
   }, [yearData, selectedMonths, defaultMonthsUpToM1, rollingMode, rollingData]);
 
+  // --- BUDGET (exercice sélectionné) ---
+  const budget = useBudget(client.id, selectedYear);
+  const [showBudgetEditor, setShowBudgetEditor] = useState(false);
+  const canEditBudget = userRole === 'ab_consultant' && !!onSaveBudget;
+  const budgetLines = useMemo(
+    () => rollingMode ? [] : computeBudgetVariance(displayData, budget, client.profitCenters || []),
+    [displayData, budget, client.profitCenters, rollingMode]
+  );
+
   const snapshotRecord = useMemo(() => {
     return displayData.length > 0 ? displayData[displayData.length - 1] : null;
   }, [displayData]);
 
+  // Rapport PDF : dernier mois publié de la période affichée
+  const reportRecord = useMemo(() => {
+    return [...displayData].reverse().find(r => r.isPublished) || null;
+  }, [displayData]);
+
   useEffect(() => {
       setCommentText(snapshotRecord?.expertComment || '');
   }, [snapshotRecord]);
@@ -272,6 +289,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
          bfrVariation: null,
          marginVariation: null,
          dso: 0, dpo: 0, dio: 0, bfrDays: 0, masseSalarialeRate: 0, caPerHour: 0, costPerHour: 0,
+         n1Records: [] as FinancialRecord[],
        };
     }
 
@@ -385,7 +403,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
         .filter(r => r.record !== null)
         .map(r => r.record!);
     } else {
-      const n1Data = data.filter(d => d.year === selectedYear - 1);
+      const n1Data = data.filter(d => fiscalYearOf(d) === selectedYear - 1);
       n1Filtered = selectedMonths.length > 0
         ? n1Data.filter(d => selectedMonths.includes(d.month))
         : defaultMonthsUpToM1 !== null
@@ -435,8 +453,9 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
       masseSalarialeRate,
       caPerHour,
       costPerHour,
+      n1Records: n1Filtered,
     };
-  }, [displayData, snapshotRecord, yearData, client.profitCenters, selectedMonths, defaultMonthsUpToM1, data, selectedYear, rollingMode, rollingData]);
+  }, [displayData, snapshotRecord, yearData, client.profitCenters, client.fiscalYearEnd, selectedMonths, defaultMonthsUpToM1, data, selectedYear, rollingMode, rollingData]);
 
   // Celebration
   useEffect(() => {
@@ -450,11 +469,11 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
 
   // Calculate Average Objective for the selected year (Global, not filtered by month selection)
   const averageObjectiveN = useMemo(() => {
-    const recordsN = data.filter(d => d.year === selectedYear);
+    const recordsN = data.filter(d => fiscalYearOf(d) === selectedYear);
     if (recordsN.length === 0) return null;
     const totalObj = recordsN.reduce((acc, curr) => acc + curr.revenue.objective, 0);
     return totalObj / recordsN.length;
-  }, [data, selectedYear]);
+  }, [data, selectedYear, client.fiscalYearEnd]);
 
 
   // 5. Prepare Chart Data
@@ -510,22 +529,23 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
     }
 
     // --- STANDARD MODE: single year ---
-    const recordsN = data.filter(d => d.year === selectedYear);
+    const recordsN = data.filter(d => fiscalYearOf(d) === selectedYear);
     // FIX: Filter only months with revenue to avoid dragging down average with future/empty months
     const activeRecordsN = recordsN.filter(r => r.revenue.total > 0);
     const annualAverageN = activeRecordsN.length > 0
         ? activeRecordsN.reduce((acc: number, curr: FinancialRecord) => acc + curr.revenue.total, 0) / activeRecordsN.length
         : null;
 
-    const recordsN1 = data.filter(d => d.year === selectedYear - 1);
+    const recordsN1 = data.filter(d => fiscalYearOf(d) === selectedYear - 1);
     const activeRecordsN1 = recordsN1.filter(r => r.revenue.total > 0);
     const annualAverageN1 = activeRecordsN1.length > 0
         ? activeRecordsN1.reduce((acc: number, curr: FinancialRecord) => acc + curr.revenue.total, 0) / activeRecordsN1.length
         : null;
 
     const fullYearChartData = fiscalMonthOrder.map(m => {
-      const recordN = data.find(d => d.year === selectedYear && d.month === m);
-      const recordN1 = data.find(d => d.year === selectedYear - 1 && d.month === m);
+      const calendarYear = getCalendarYear(selectedYear, m, client.fiscalYearEnd);
+      const recordN = data.find(d => d.year === calendarYear && d.month === m);
+      const recordN1 = data.find(d => d.year === calendarYear - 1 && d.month === m);
 
       const productivityRate = (recordN && recordN.expenses.hoursWorked > 0) ? recordN.revenue.total / recordN.expenses.hoursWorked : null;
       const productivityRateN1 = (recordN1 && recordN1.expenses.hoursWorked > 0) ? recordN1.revenue.total / recordN1.expenses.hoursWorked : null;
@@ -533,6 +553,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
       return {
         name: toShortMonth(m), // Using short month name for Axis
         fullMonth: m,
+        _year: calendarYear,
         CA: recordN ? recordN.revenue.total : null,
         CA_N1: recordN1 ? recordN1.revenue.total : null,
         Objectif: recordN ? recordN.revenue.objective : null, 
@@ -573,7 +594,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
     }
     return fullYearChartData.filter(d => selectedMonths.includes(d.fullMonth));
 
-  }, [data, selectedYear, selectedMonths, fiscalMonthOrder, defaultMonthsUpToM1, rollingMode, rollingData]);
+  }, [data, selectedYear, selectedMonths, fiscalMonthOrder, client.fiscalYearEnd, defaultMonthsUpToM1, rollingMode, rollingData]);
 
   const receivablesData = useMemo(() => {
     if (!snapshotRecord) return [];
@@ -781,8 +802,8 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
                       disabled={!!rollingMode}
                       className="appearance-none bg-brand-50 border border-brand-200 text-brand-900 text-sm rounded-lg focus:ring-brand-500 focus:border-brand-500 block pl-3 pr-8 py-2 font-bold cursor-pointer hover:bg-brand-100 transition-colors disabled:cursor-not-allowed"
                     >
-                       {Array.from(new Set([...data.map(d => d.year), currentYear])).sort((a,b)=>b-a).map(y => (
-                           <option key={y} value={y}>{y}</option>
+                       {Array.from(new Set([...data.map(fiscalYearOf), currentFiscalYear])).sort((a,b)=>b-a).map(y => (
+                           <option key={y} value={y}>{formatFiscalYear(y, client.fiscalYearEnd)}</option>
                        ))}
                     </select>
                     <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-brand-500">
@@ -826,6 +847,16 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
 
            {/* Presentation & Print Controls */}
            <div className="flex items-center gap-2 print:hidden">
+             {canEditBudget && !isPresentationMode && (
+               <button
+                 onClick={() => setShowBudgetEditor(true)}
+                 className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg bg-white text-brand-600 border border-brand-200 hover:bg-brand-50 transition-all"
+                 title={`Budget de l'exercice ${formatFiscalYear(selectedYear, client.fiscalYearEnd)}`}
+               >
+                 <Target className="w-3.5 h-3.5" />
+                 Budget
+               </button>
+             )}
              {onTogglePresentation && (
                <button
                  onClick={onTogglePresentation}
@@ -840,14 +871,17 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
                  {isPresentationMode ? 'Quitter' : 'Présentation'}
                </button>
              )}
-             <button
-               onClick={() => window.print()}
-               className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg bg-white text-brand-600 border border-brand-200 hover:bg-brand-50 transition-all"
-               title="Imprimer / Exporter PDF"
-             >
-               <Printer className="w-3.5 h-3.5" />
-               PDF
-             </button>
+             {onDownloadReport && (
+               <button
+                 onClick={() => reportRecord && onDownloadReport(reportRecord)}
+                 disabled={!reportRecord}
+                 className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg bg-white text-brand-600 border border-brand-200 hover:bg-brand-50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                 title={reportRecord ? `Rapport PDF ${reportRecord.month} ${reportRecord.year}` : 'Aucun mois publié sur la période'}
+               >
+                 <FileDown className="w-3.5 h-3.5" />
+                 PDF
+               </button>
+             )}
            </div>
 
            {/* Active Filters Display */}
@@ -866,7 +900,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
            ) : defaultMonthsUpToM1 !== null && defaultMonthsUpToM1.length > 0 ? (
              <div className="flex items-center gap-2 bg-brand-50 text-brand-500 px-3 py-1.5 rounded-full text-xs font-bold border border-brand-200">
                  <Calendar className="w-3 h-3" />
-                 Jusqu'a {defaultMonthsUpToM1[defaultMonthsUpToM1.length - 1]} {selectedYear}
+                 Jusqu'a {defaultMonthsUpToM1[defaultMonthsUpToM1.length - 1]} {getCalendarYear(selectedYear, defaultMonthsUpToM1[defaultMonthsUpToM1.length - 1], client.fiscalYearEnd)}
              </div>
            ) : null}
          </div>
@@ -877,7 +911,8 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
               const hasData = yearData.some(d => d.month === m);
               const isSelected = selectedMonths.includes(m);
               const shortName = toShortMonth(m);
-              const isFutureMonth = selectedYear === currentYear && standardMonthOrder.indexOf(m) >= currentMonthIndex;
+              const monthCalendarYear = getCalendarYear(selectedYear, m, client.fiscalYearEnd);
+              const isFutureMonth = monthCalendarYear > currentYear || (monthCalendarYear === currentYear && standardMonthOrder.indexOf(m) >= currentMonthIndex);
               return (
                 <button
                   key={m}
@@ -1051,6 +1086,16 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
          </div>
       </div>
 
+      {/* SIMULATEUR "ET SI ?" (leviers sur la période affichée, rien n'est enregistré dans les records) */}
+      <WhatIfSimulatorPanel
+        records={displayData}
+        n1Records={kpis.n1Records}
+        client={client}
+        userRole={userRole}
+        fiscalYear={selectedYear}
+        isPresentationMode={isPresentationMode}
+      />
+
       {/* RATIOS FINANCIERS BADGES */}
       {kpis.revenue > 0 && (
         <div className="bg-white p-4 rounded-xl shadow-sm border border-brand-100">
@@ -1078,6 +1123,15 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
         </div>
       )}
 
+      {/* BUDGET VS RÉEL (masqué en période glissante : le budget est par exercice) */}
+      {budgetLines.length > 0 && (
+        <BudgetVarianceTable
+          lines={budgetLines}
+          periodLabel={`Exercice ${formatFiscalYear(selectedYear, client.fiscalYearEnd)} · ${displayData.length} mois`}
+          onEdit={canEditBudget && !isPresentationMode ? () => setShowBudgetEditor(true) : undefined}
+        />
+      )}
+
       {/* ============================================= */}
       {/* ROW 1: CA + Trésorerie side by side           */}
       {/* ============================================= */}
@@ -1160,6 +1214,9 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
          </div>
       </div>
 
+      {/* PRÉVISIONNEL DE TRÉSORERIE 13 SEMAINES (amorcé par le dernier mois saisi) */}
+      <TreasuryForecastPanel records={data} client={client} userRole={userRole} />
+
       {/* ============================================= */}
       {/* ROW 2: BFR Evolution + Repartition BFR        */}
       {/* ============================================= */}
@@ -1273,6 +1330,9 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
          </div>
       </div>
 
+      {/* BALANCE ÂGÉE (dernière balance importée de la période) */}
+      <AgingBalanceCard records={displayData} />
+
       {/* ============================================= */}
       {/* ROW 3: Productivite + Activite side by side  */}
       {/* ============================================= */}
@@ -1568,6 +1628,17 @@ const Dashboard: React.FC<DashboardProps> = ({ data, client, userRole, onSaveCom
           </div>
       </div>
 
+      {canEditBudget && (
+        <BudgetEditorModal
+          isOpen={showBudgetEditor}
+          client={client}
+          fiscalYear={selectedYear}
+          records={data}
+          budget={budget}
+          onClose={() => setShowBudgetEditor(false)}
+          onSave={(months) => onSaveBudget!(selectedYear, months)}
+        />
+      )}
     </div>
   );
 };
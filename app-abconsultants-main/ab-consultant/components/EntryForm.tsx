@@ -1,9 +1,29 @@
 
 import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
-import { FinancialRecord, Month, ProfitCenter } from '../types';
-import { Save, Lock, Calendar, HelpCircle, ArrowUpCircle, ArrowDownCircle, Wallet, TrendingUp, TrendingDown, Landmark, ShoppingBag, Target, PieChart, Droplets, Users, Clock, Calculator, Scale, Briefcase, ArrowRight, Truck, Percent, Sigma, CheckCircle, History, AlertTriangle, ShieldAlert, Upload, FileText, RotateCcw, Send, FileSpreadsheet, Loader2, Check } from 'lucide-react';
-import { MONTH_ORDER } from '../services/dataService';
+import { DocumentExtraction, ExtractedField, ExtractedFieldPath, FinancialRecord, Month, ProfitCenter } from '../types';
+import { Save, Lock, Calendar, HelpCircle, ArrowUpCircle, ArrowDownCircle, Wallet, TrendingUp, TrendingDown, Landmark, ShoppingBag, Target, PieChart, Droplets, Users, Clock, Calculator, Scale, Briefcase, ArrowRight, Truck, Percent, Sigma, CheckCircle, History, AlertTriangle, ShieldAlert, Upload, FileText, RotateCcw, Send, FileSpreadsheet, Loader2, Check, Sparkles, ScanLine, X } from 'lucide-react';
+import { MONTH_ORDER, getFiscalYear } from '../services/dataService';
+import { budgetMonthRevenue } from '../services/budgetService';
+import { useBudget } from '../hooks/useBudget';
 import { useConfirmDialog } from '../contexts/ConfirmContext';
+import { applyBankBalances, maskAccountId } from '../services/bankStatementService';
+import BankStatementImportModal from './BankStatementImportModal';
+import CommentDraftModal from './CommentDraftModal';
+import { extractFinancialDocument } from '../lib/cloudFunctions';
+import {
+    DOCUMENT_TYPE_LABELS,
+    EXTRACTION_FIELD_LABELS,
+    EXTRACTION_MIME_TYPES,
+    LOW_CONFIDENCE,
+    MAX_EXTRACTION_FILE_BYTES,
+    applyExtractedField,
+    canApplyExtractedField,
+    extractedPathForInput,
+    fileToBase64,
+    formatConfidence,
+    isOtherPeriod,
+    revertExtractedField,
+} from '../services/documentExtractionService';
 
 const DEFINITIONS = {
   revenue: "Chiffre d'Affaires Hors Taxe facturé sur la période.",
@@ -25,6 +45,25 @@ const formatForDisplay = (val: number | undefined | null) => {
     }).format(val);
 };
 
+// Montant « proposé par extraction » : à confirmer ou écarter champ par champ
+const ExtractionProposalBadge = ({ field, onConfirm, onReject }: { field: ExtractedField; onConfirm: () => void; onReject: () => void }) => {
+    const uncertain = field.confidence < LOW_CONFIDENCE;
+    return (
+        <div className={`flex items-center gap-1.5 text-xs font-semibold rounded-md px-2 py-1 ${uncertain ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-800'}`}>
+            <ScanLine className="w-3 h-3 shrink-0" />
+            <span className="truncate" title={field.source ? `Lu dans le document : ${field.source}` : undefined}>
+                Proposé par extraction · {formatConfidence(field.confidence)}{uncertain ? ' (incertain)' : ''}
+            </span>
+            <button type="button" onClick={onConfirm} className="ml-auto p-0.5 rounded hover:bg-white text-emerald-700" title="Confirmer ce montant" aria-label="Confirmer ce montant">
+                <Check className="w-3.5 h-3.5" />
+            </button>
+            <button type="button" onClick={onReject} className="p-0.5 rounded hover:bg-white text-slate-500" title="Écarter (reprendre la valeur précédente)" aria-label="Écarter ce montant">
+                <X className="w-3.5 h-3.5" />
+            </button>
+        </div>
+    );
+};
+
 // --- SMART INPUT COMPONENTS ---
 // (Les composants SmartNumberInput, SmartBigInput, etc. restent inchangés ici, je les inclus pour le contexte mais ils sont identiques)
 const SmartNumberInput = ({ 
@@ -38,7 +77,9 @@ const SmartNumberInput = ({
     suffix = "€",
     placeholder = "0",
     n1Value,
-    icon: Icon
+    budgetValue,
+    icon: Icon,
+    proposal
 }: any) => {
     const [isFocused, setIsFocused] = useState(false);
 
@@ -67,8 +108,11 @@ const SmartNumberInput = ({
                     )}
                 </label>
             </div>
+            {proposal && (
+                <ExtractionProposalBadge field={proposal.field} onConfirm={proposal.onConfirm} onReject={proposal.onReject} />
+            )}
             
-            <div className="flex items-stretch gap-0 border border-slate-300 rounded-lg overflow-hidden focus-within:ring-2 focus-within:ring-brand-500 focus-within:border-brand-500 transition-all bg-white shadow-sm hover:border-brand-300">
+            <div className={`flex items-stretch gap-0 border rounded-lg ${proposal ? 'border-amber-400 ring-1 ring-amber-200' : 'border-slate-300'} overflow-hidden focus-within:ring-2 focus-within:ring-brand-500 focus-within:border-brand-500 transition-all bg-white shadow-sm hover:border-brand-300`}>
                 {/* Main Input */}
                 <div className="relative flex-1 group">
                     {prefix && <div className="absolute left-3 top-2.5 pointer-events-none font-bold text-slate-600">{prefix}</div>}
@@ -104,6 +148,16 @@ const SmartNumberInput = ({
                         )}
                     </div>
                 )}
+
+                {/* Budget Column */}
+                {budgetValue !== undefined && (
+                    <div className="flex flex-col justify-center px-3 border-l border-slate-100 bg-brand-50/60 min-w-[80px] text-right" title={`Budget : ${formatForDisplay(budgetValue)}`}>
+                        <span className="text-xs font-bold text-brand-400 uppercase tracking-tight">Budget</span>
+                        <div className="text-xs font-bold text-brand-700">
+                            {formatForDisplay(budgetValue)}
+                        </div>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -197,6 +251,7 @@ interface EntryFormProps {
   clientId: string;
   initialData: FinancialRecord | null;
   existingRecords: FinancialRecord[];
+  fiscalYearEnd?: string;
   profitCenters?: ProfitCenter[];
   onSave: (record: FinancialRecord) => void;
   onCancel: () => void;
@@ -214,6 +269,7 @@ const EntryForm: React.FC<EntryFormProps> = ({
   clientId,
   initialData,
   existingRecords,
+  fiscalYearEnd,
   profitCenters = [],
   onSave,
   onCancel,
@@ -382,6 +438,15 @@ const EntryForm: React.FC<EntryFormProps> = ({
     // --- STEPPER MODE (guided wizard) ---
     // Clients get the step-by-step view by default, consultants get the full page.
     const [stepMode, setStepMode] = useState<boolean>(userRole === 'client' && !isLocked);
+    const [showBankImport, setShowBankImport] = useState(false);
+    const [showCommentDraft, setShowCommentDraft] = useState(false);
+    // Extraction de document : champs proposés en attente de confirmation, et saisie d'avant l'extraction
+    const documentInputRef = useRef<HTMLInputElement>(null);
+    const [isExtracting, setIsExtracting] = useState(false);
+    const [extraction, setExtraction] = useState<DocumentExtraction | null>(null);
+    const [extractionBase, setExtractionBase] = useState<FinancialRecord | null>(null);
+    const [pendingFields, setPendingFields] = useState<ExtractedField[]>([]);
+    const hasPendingExtraction = pendingFields.length > 0;
     const [currentStep, setCurrentStep] = useState<number>(0);
     useEffect(() => {
         if (isLocked) setStepMode(false);
@@ -391,6 +456,10 @@ const EntryForm: React.FC<EntryFormProps> = ({
         return existingRecords.find(r => r.year === formData.year - 1 && r.month === formData.month);
     }, [existingRecords, formData.year, formData.month]);
 
+    // --- BUDGET DU MOIS (exercice du mois saisi) ---
+    const budget = useBudget(clientId, getFiscalYear(formData.year, formData.month, fiscalYearEnd));
+    const budgetMonth = budget?.months[formData.month];
+
     // --- REPRENDRE M-1 LOGIC ---
     const previousMonthRecord = useMemo(() => {
         const currentMonthIdx = MONTH_ORDER.indexOf(formData.month);
@@ -452,7 +521,7 @@ const EntryForm: React.FC<EntryFormProps> = ({
     // Auto-save debounced (every 5 seconds of inactivity)
     const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     useEffect(() => {
-        if (isLocked || isFormEmpty) return;
+        if (isLocked || isFormEmpty || hasPendingExtraction) return;
         if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
         saveTimerRef.current = setTimeout(() => {
             try {
@@ -463,7 +532,7 @@ const EntryForm: React.FC<EntryFormProps> = ({
             } catch {}
         }, 5000);
         return () => { if (saveTimerRef.current) clearTimeout(saveTimerRef.current); };
-    }, [formData, draftKey, isLocked, isFormEmpty]);
+    }, [formData, draftKey, isLocked, isFormEmpty, hasPendingExtraction]);
 
     // --- AUTO-SAVE TO FIRESTORE (client only) ---
     // State/refs are declared here; the effects that reference `wrappedOnSave`
@@ -627,6 +696,17 @@ const EntryForm: React.FC<EntryFormProps> = ({
     }, [draftKey, originalOnSave, currentUserEmail]);
 
     const wrappedOnSave = useCallback(async (record: FinancialRecord) => {
+        // Les montants proposés par extraction ne partent qu'une fois confirmés
+        if (hasPendingExtraction) {
+            await confirm({
+                title: 'Montants à confirmer',
+                message: `Confirmez ou écartez chaque montant proposé par extraction avant d'enregistrer :\n\n• ${pendingFields.map(f => EXTRACTION_FIELD_LABELS[f.path]).join('\n• ')}`,
+                variant: 'info',
+                confirmLabel: 'Compris',
+                showCancel: false,
+            });
+            return;
+        }
         // Check for aberrant values before saving (explicit user action only)
         const warnings = detectAberrantValues(record);
         if (warnings.length > 0) {
@@ -639,7 +719,7 @@ const EntryForm: React.FC<EntryFormProps> = ({
             if (!ok) return;
         }
         await silentSave(record);
-    }, [silentSave, confirm]);
+    }, [silentSave, confirm, hasPendingExtraction, pendingFields]);
 
     // --- AUTO-SAVE EFFECTS ---
     // Debounces formData changes by 1.5s, then persists via silentSave with
@@ -660,7 +740,7 @@ const EntryForm: React.FC<EntryFormProps> = ({
             }
             return;
         }
-        if (isFormEmpty) return;
+        if (isFormEmpty || hasPendingExtraction) return;
 
         // Skip if a save is already in flight (e.g. confirm modal pending).
         if (autoSaveInFlightRef.current) return;
@@ -696,7 +776,7 @@ const EntryForm: React.FC<EntryFormProps> = ({
                 autoSaveTimerRef.current = null;
             }
         };
-    }, [formData, canAutoSave, isFormEmpty, silentSave]);
+    }, [formData, canAutoSave, isFormEmpty, hasPendingExtraction, silentSave]);
 
     // Reset auto-save bookkeeping when the record being edited changes
     // (e.g. switching months) so the new record's initial state isn't treated as "dirty".
@@ -829,6 +909,9 @@ const EntryForm: React.FC<EntryFormProps> = ({
     };
 
     const handleChange = (section: keyof FinancialRecord, field: string, value: any, subField?: string) => {
+        // Corriger un montant proposé vaut confirmation de la valeur saisie
+        const extractedPath = extractedPathForInput(section, field, subField);
+        if (extractedPath) setPendingFields(prev => prev.filter(f => f.path !== extractedPath));
         setFormData(prev => {
             const newData = { ...prev };
             if (section === 'expenses' || section === 'cashFlow') {
@@ -872,6 +955,8 @@ const EntryForm: React.FC<EntryFormProps> = ({
             }
             if (section === 'cashFlow') {
                 newData.cashFlow.treasury = newData.cashFlow.active - newData.cashFlow.passive;
+                // Saisie manuelle : le détail par compte issu des relevés n'est plus à jour
+                newData.cashFlow.accounts = undefined;
             }
             if ((section === 'margin' && field === 'total') || (section === 'revenue' && field === 'total')) {
                 const rev = newData.revenue.total || 0;
@@ -901,6 +986,72 @@ const EntryForm: React.FC<EntryFormProps> = ({
         });
     };
     
+    const handleBankBalances = (accounts: Record<string, number>) => {
+        setFormData(prev => ({ ...prev, cashFlow: applyBankBalances(prev.cashFlow, accounts) }));
+    };
+
+    const handleDocumentExtraction = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (documentInputRef.current) documentInputRef.current.value = '';
+        if (!file) return;
+        if (!EXTRACTION_MIME_TYPES.includes(file.type) || file.size > MAX_EXTRACTION_FILE_BYTES) {
+            await confirm({ title: 'Document non pris en charge', message: `${file.name} : PDF ou image (PNG, JPEG, WebP) de 7 Mo maximum.`, variant: 'danger', confirmLabel: 'OK', showCancel: false });
+            return;
+        }
+        setIsExtracting(true);
+        try {
+            const data = await fileToBase64(file);
+            const result = await extractFinancialDocument({
+                clientId,
+                year: formData.year,
+                month: formData.month,
+                attachments: [{ mimeType: file.type, data, name: file.name }],
+            });
+            if (result.fields.length === 0) {
+                await confirm({ title: 'Aucun montant reconnu', message: `Aucun montant de la saisie n'a été trouvé dans ${file.name}.`, variant: 'info', confirmLabel: 'OK', showCancel: false });
+                return;
+            }
+            // Trésorerie détaillée par compte bancaire : le solde net extrait n'est pas reporté
+            const fields = result.fields.filter(f => canApplyExtractedField(formData, f.path));
+            if (fields.length < result.fields.length) {
+                await confirm({ title: 'Trésorerie non reportée', message: `La trésorerie de ${formData.month} ${formData.year} est détaillée par compte bancaire : mettez-la à jour par l'import des relevés plutôt que depuis ${file.name}.`, variant: 'info', confirmLabel: 'OK', showCancel: false });
+                if (fields.length === 0) return;
+            }
+            // Base de retour arrière : la saisie telle qu'avant la première extraction encore en attente
+            setExtractionBase(prev => (hasPendingExtraction && prev) ? prev : JSON.parse(JSON.stringify(formData)));
+            setFormData(prev => fields.reduce(applyExtractedField, prev));
+            setPendingFields(prev => [...prev.filter(p => !fields.some(f => f.path === p.path)), ...fields]);
+            setExtraction({ ...result, fields });
+        } catch (err: any) {
+            console.error('extractFinancialDocument:', err);
+            await confirm({ title: 'Extraction impossible', message: err?.message || 'Le document n\'a pas pu être analysé. Réessayez ou saisissez les montants.', variant: 'danger', confirmLabel: 'OK', showCancel: false });
+        } finally {
+            setIsExtracting(false);
+        }
+    };
+
+    const confirmExtractedField = (path: ExtractedFieldPath) => {
+        setPendingFields(prev => prev.filter(f => f.path !== path));
+    };
+
+    const rejectExtractedField = (path: ExtractedFieldPath) => {
+        if (extractionBase) setFormData(prev => revertExtractedField(prev, extractionBase, path));
+        setPendingFields(prev => prev.filter(f => f.path !== path));
+    };
+
+    const rejectAllExtractedFields = () => {
+        if (extractionBase) setFormData(prev => pendingFields.reduce((acc, f) => revertExtractedField(acc, extractionBase, f.path), prev));
+        setPendingFields([]);
+    };
+
+    // Props `proposal` d'un SmartNumberInput ; la trésorerie s'affiche sur le solde qui l'a reçue
+    const proposalFor = (path: ExtractedFieldPath, cashSide?: 'active' | 'passive') => {
+        const field = pendingFields.find(f => f.path === path);
+        if (!field) return undefined;
+        if (cashSide && (field.value < 0) !== (cashSide === 'passive')) return undefined;
+        return { field, onConfirm: () => confirmExtractedField(path), onReject: () => rejectExtractedField(path) };
+    };
+
     const formatCurrency = (val: number) => formatForDisplay(val) + ' €';
     const formatLitres = (val: number) => formatForDisplay(val) + ' L';
 
@@ -914,6 +1065,13 @@ const EntryForm: React.FC<EntryFormProps> = ({
                 accept=".csv" 
                 onChange={handleFileImport} 
             />
+            <input
+                type="file"
+                ref={documentInputRef}
+                className="hidden"
+                accept={EXTRACTION_MIME_TYPES.join(',')}
+                onChange={handleDocumentExtraction}
+            />
 
             {/* HEADER */}
             <div className={`flex justify-between items-center p-6 border-b border-slate-100 rounded-t-xl ${isAdminOverride ? 'bg-amber-50' : 'bg-slate-50'}`}>
@@ -952,6 +1110,15 @@ const EntryForm: React.FC<EntryFormProps> = ({
                                     <FileSpreadsheet className="w-4 h-4" /> <span className="hidden sm:inline">Excel</span>
                                 </button>
                             )}
+                            <button
+                                onClick={() => documentInputRef.current?.click()}
+                                disabled={isExtracting}
+                                className="ml-1 flex items-center gap-2 px-3 py-2 bg-white border border-amber-300 text-amber-700 rounded-lg hover:bg-amber-50 transition font-medium text-sm shadow-sm disabled:opacity-60"
+                                title="Pré-remplir trésorerie, créances, dettes et salaires depuis un relevé bancaire, une déclaration de TVA ou une situation comptable (PDF, image)"
+                            >
+                                {isExtracting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanLine className="w-4 h-4" />}
+                                <span className="hidden sm:inline">{isExtracting ? 'Lecture…' : 'Document'}</span>
+                            </button>
                         </div>
                     )}
 
@@ -1131,6 +1298,31 @@ const EntryForm: React.FC<EntryFormProps> = ({
                     </div>
                 )}
 
+                {hasPendingExtraction && extraction && (
+                    <div className="mb-4 bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-center justify-between gap-4 animate-in slide-in-from-top-2 duration-200">
+                        <div className="flex items-center gap-3">
+                            <ScanLine className="w-5 h-5 text-amber-600 shrink-0" />
+                            <div>
+                                <p className="text-sm font-bold text-amber-800">
+                                    {pendingFields.length} montant{pendingFields.length > 1 ? 's' : ''} proposé{pendingFields.length > 1 ? 's' : ''} par extraction
+                                    <span className="font-normal"> · {DOCUMENT_TYPE_LABELS[extraction.documentType]}{extraction.period ? ` ${extraction.period.month} ${extraction.period.year}` : ''}</span>
+                                </p>
+                                <p className="text-xs text-amber-600">
+                                    Vérifiez chaque champ marqué puis confirmez-le (✓) ou écartez-le (✕) : {pendingFields.map(f => EXTRACTION_FIELD_LABELS[f.path]).join(', ')}.
+                                </p>
+                                {isOtherPeriod(extraction, formData.year, formData.month) && (
+                                    <p className="text-xs font-bold text-red-600 mt-1 flex items-center gap-1">
+                                        <AlertTriangle className="w-3 h-3" /> Le document semble porter sur une autre période que {formData.month} {formData.year}.
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                        <button onClick={rejectAllExtractedFields} className="px-3 py-1.5 bg-white border border-amber-200 text-amber-700 text-xs font-bold rounded-lg hover:bg-amber-100 transition shrink-0">
+                            Tout écarter
+                        </button>
+                    </div>
+                )}
+
                 {stepMode && currentStep > 0 && (
                     <div className="mb-4 inline-flex items-center gap-2 bg-white border border-slate-200 rounded-full px-3 py-1.5 shadow-sm">
                         <Calendar className="w-3.5 h-3.5 text-brand-600" />
@@ -1198,6 +1390,12 @@ const EntryForm: React.FC<EntryFormProps> = ({
                                 <div className="mt-2 text-center">
                                     <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block">N-1</span>
                                     <span className="text-xs font-bold text-slate-600">{comparisonRecord ? formatCurrency(comparisonRecord.revenue.total) : '-'}</span>
+                                    {budgetMonth && (
+                                        <>
+                                            <span className="text-xs font-bold text-brand-400 uppercase tracking-wider block mt-1">Budget</span>
+                                            <span className="text-xs font-bold text-brand-700">{formatCurrency(budgetMonthRevenue(budgetMonth))}</span>
+                                        </>
+                                    )}
                                 </div>
                             </div>
                             
@@ -1218,6 +1416,9 @@ const EntryForm: React.FC<EntryFormProps> = ({
                                             <span className="font-display text-3xl font-semibold text-paper-900 tabular-nums tracking-tight">{formData.margin?.rate?.toFixed(1) || 0}%</span>
                                         </div>
                                         <span className="text-xs text-slate-500 font-medium mt-1">Calculé (Marge € / CA €)</span>
+                                        {budgetMonth && budgetMonth.marginRate > 0 && (
+                                            <span className="text-xs font-bold text-brand-700 mt-1">Budget : {budgetMonth.marginRate.toFixed(1)}%</span>
+                                        )}
                                     </div>
                                 </>
                             )}
@@ -1238,6 +1439,7 @@ const EntryForm: React.FC<EntryFormProps> = ({
                                         const marginVal = formData.margin?.breakdown?.[pc.id] || 0;
                                         const rateVal = caVal > 0 ? (marginVal / caVal) * 100 : 0;
                                         const n1CA = comparisonRecord?.revenue?.breakdown?.[pc.id];
+                                        const budgetCA = budgetMonth?.revenueBreakdown?.[pc.id];
                                         return (
                                             <div key={pc.id} className="grid grid-cols-12 gap-3 items-center bg-slate-50 p-3 rounded-lg border border-slate-200 hover:border-brand-300 hover:shadow-sm transition-all">
                                                 <div className={showCommercialMargin ? "col-span-3" : "col-span-6"}>
@@ -1255,6 +1457,12 @@ const EntryForm: React.FC<EntryFormProps> = ({
                                                                 <span className="text-xs text-slate-600 font-bold">{n1CA > 999 ? (n1CA/1000).toFixed(0) + 'k' : n1CA}</span>
                                                             </div>
                                                         )}
+                                                        {budgetCA !== undefined && (
+                                                            <div className="bg-brand-50 border-l border-brand-100 px-2 flex flex-col justify-center min-w-[60px] text-right" title="CA budgété">
+                                                                <span className="text-xs text-brand-400 font-bold">Bud.</span>
+                                                                <span className="text-xs text-brand-700 font-bold">{budgetCA > 999 ? (budgetCA/1000).toFixed(0) + 'k' : budgetCA}</span>
+                                                            </div>
+                                                        )}
                                                     </div>
                                                 </div>
                                                 {showCommercialMargin && (
@@ -1329,7 +1537,7 @@ const EntryForm: React.FC<EntryFormProps> = ({
 
                         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                             <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
-                                <SmartNumberInput label="Masse Salariale Chargée" value={formData.expenses.salaries} onChange={(v: number) => handleChange('expenses', 'salaries', v)} disabled={isLocked} definition={DEFINITIONS.salaries} n1Value={comparisonRecord?.expenses.salaries} />
+                                <SmartNumberInput label="Masse Salariale Chargée" value={formData.expenses.salaries} onChange={(v: number) => handleChange('expenses', 'salaries', v)} disabled={isLocked} definition={DEFINITIONS.salaries} n1Value={comparisonRecord?.expenses.salaries} budgetValue={budgetMonth?.salaries || undefined} proposal={proposalFor('expenses.salaries')} />
                                 <div className="grid grid-cols-2 gap-3">
                                     <SmartNumberInput label="Heures Travaillées" value={formData.expenses.hoursWorked} onChange={(v: number) => handleChange('expenses', 'hoursWorked', v)} disabled={isLocked} suffix="h" n1Value={comparisonRecord?.expenses.hoursWorked} icon={Clock} />
                                     <SmartNumberInput label="Dont Heures Sup." value={formData.expenses.overtimeHours} onChange={(v: number) => handleChange('expenses', 'overtimeHours', v)} disabled={isLocked} suffix="h" className="border-amber-200 focus:ring-amber-500 bg-amber-50 text-amber-800" n1Value={comparisonRecord?.expenses.overtimeHours} />
@@ -1348,15 +1556,15 @@ const EntryForm: React.FC<EntryFormProps> = ({
                         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 items-center">
                              <div className="space-y-4">
                                 <div className="flex items-center gap-2 text-cyan-700 border-b border-cyan-100 pb-2"><div className="p-1.5 bg-cyan-100 rounded-lg"><ArrowUpCircle className="w-4 h-4" /></div><span className="font-bold text-sm uppercase tracking-wide">Actif Circulant</span></div>
-                                <SmartNumberInput label="Créances Clients" value={formData.bfr.receivables.clients} onChange={(v: number) => handleChange('bfr', 'receivables', v, 'clients')} disabled={isLocked} className="border-cyan-200 focus:ring-cyan-500 bg-cyan-50" />
+                                <SmartNumberInput label="Créances Clients" value={formData.bfr.receivables.clients} onChange={(v: number) => handleChange('bfr', 'receivables', v, 'clients')} disabled={isLocked} className="border-cyan-200 focus:ring-cyan-500 bg-cyan-50" proposal={proposalFor('bfr.receivables.clients')} />
                                 <SmartNumberInput label="Stocks Marchandises" value={formData.bfr.stock.goods} onChange={(v: number) => handleChange('bfr', 'stock', v, 'goods')} disabled={isLocked} className="border-cyan-200 focus:ring-cyan-500 bg-cyan-50" />
                                 <SmartNumberInput label="Autres Créances" value={formData.bfr.receivables.other} onChange={(v: number) => handleChange('bfr', 'receivables', v, 'other')} disabled={isLocked} className="border-cyan-200 focus:ring-cyan-500 bg-cyan-50" />
                              </div>
                              <div className="space-y-4 lg:border-l lg:border-r border-slate-100 lg:px-6">
                                 <div className="flex items-center gap-2 text-red-700 border-b border-red-100 pb-2"><div className="p-1.5 bg-red-100 rounded-lg"><ArrowDownCircle className="w-4 h-4" /></div><span className="font-bold text-sm uppercase tracking-wide">Dettes Exploitation</span></div>
-                                <SmartNumberInput label="Fournisseurs" value={formData.bfr.debts.suppliers} onChange={(v: number) => handleChange('bfr', 'debts', v, 'suppliers')} disabled={isLocked} className="border-red-200 focus:ring-red-500 bg-red-50" />
-                                <SmartNumberInput label="Dettes Fiscales (État)" value={formData.bfr.debts.state} onChange={(v: number) => { handleChange('bfr', 'debts', v, 'state'); }} disabled={isLocked} className="border-red-200 focus:ring-red-500 bg-red-50" />
-                                <SmartNumberInput label="Dettes Sociales (URSSAF...)" value={formData.bfr.debts.social} onChange={(v: number) => { handleChange('bfr', 'debts', v, 'social'); }} disabled={isLocked} className="border-red-200 focus:ring-red-500 bg-red-50" />
+                                <SmartNumberInput label="Fournisseurs" value={formData.bfr.debts.suppliers} onChange={(v: number) => handleChange('bfr', 'debts', v, 'suppliers')} disabled={isLocked} className="border-red-200 focus:ring-red-500 bg-red-50" proposal={proposalFor('bfr.debts.suppliers')} />
+                                <SmartNumberInput label="Dettes Fiscales (État)" value={formData.bfr.debts.state} onChange={(v: number) => { handleChange('bfr', 'debts', v, 'state'); }} disabled={isLocked} className="border-red-200 focus:ring-red-500 bg-red-50" proposal={proposalFor('bfr.debts.state')} />
+                                <SmartNumberInput label="Dettes Sociales (URSSAF...)" value={formData.bfr.debts.social} onChange={(v: number) => { handleChange('bfr', 'debts', v, 'social'); }} disabled={isLocked} className="border-red-200 focus:ring-red-500 bg-red-50" proposal={proposalFor('bfr.debts.social')} />
                                 <SmartNumberInput label="Autres Dettes" value={formData.bfr.debts.other} onChange={(v: number) => handleChange('bfr', 'debts', v, 'other')} disabled={isLocked} className="border-red-200 focus:ring-red-500 bg-red-50" />
                              </div>
                              <div className="flex flex-col h-full justify-center">
@@ -1369,23 +1577,79 @@ const EntryForm: React.FC<EntryFormProps> = ({
                     <div className={stepMode && currentStep !== (showFuelTracking ? 4 : 3) ? 'hidden' : ''}>
                     <SectionCard className={`scroll-mt-20 ${isLocked ? "opacity-90 grayscale-[0.2]" : ""}`} id="section-tresorerie">
                         <SectionHeader number={4 + (showFuelTracking ? 1 : 0)} title="Situation de Trésorerie" icon={Landmark} colorClass="text-brand-700" bgClass="bg-brand-100" hideNumber={stepMode} subtitle={stepMode ? "Soldes bancaires à la fin du mois : vos disponibilités (comptes positifs) et vos concours (découverts)." : undefined} />
+                        {!isLocked && (
+                            <div className="flex justify-end -mt-2 mb-4">
+                                <button
+                                    type="button"
+                                    onClick={() => setShowBankImport(true)}
+                                    className="flex items-center gap-2 px-3 py-1.5 bg-white border border-brand-200 text-brand-700 rounded-lg hover:bg-brand-50 transition text-xs font-bold shadow-sm"
+                                    title="Calculer les soldes de fin de mois à partir des relevés bancaires (OFX, CAMT.053, CSV)"
+                                >
+                                    <Upload className="w-3.5 h-3.5" /> Importer des relevés bancaires
+                                </button>
+                            </div>
+                        )}
                         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 items-center">
                             <div className="space-y-4">
                                 <div className="flex items-center gap-2 text-emerald-700 border-b border-emerald-100 pb-2"><div className="p-1.5 bg-emerald-100 rounded-lg"><TrendingUp className="w-4 h-4" /></div><span className="font-bold text-sm uppercase tracking-wide">Disponibilités</span></div>
-                                <SmartNumberInput label="Soldes Créditeurs" value={formData.cashFlow.active} onChange={(val: number) => handleChange('cashFlow', 'active', val)} className="border-emerald-200 focus:ring-emerald-500 focus:border-emerald-500 bg-emerald-50 text-emerald-900 font-bold" disabled={isLocked} definition={DEFINITIONS.treasuryPositive} n1Value={comparisonRecord?.cashFlow.active} prefix={<span className="text-emerald-500 font-bold">+</span>} />
+                                <SmartNumberInput label="Soldes Créditeurs" value={formData.cashFlow.active} onChange={(val: number) => handleChange('cashFlow', 'active', val)} className="border-emerald-200 focus:ring-emerald-500 focus:border-emerald-500 bg-emerald-50 text-emerald-900 font-bold" disabled={isLocked} definition={DEFINITIONS.treasuryPositive} n1Value={comparisonRecord?.cashFlow.active} prefix={<span className="text-emerald-500 font-bold">+</span>} proposal={proposalFor('cashFlow.treasury', 'active')} />
                                 <p className="text-xs text-slate-500 font-medium leading-tight">Comptes courants créditeurs, caisse espèces, livrets et placements disponibles.</p>
                             </div>
                             <div className="space-y-4 lg:border-l lg:border-r border-slate-100 lg:px-8">
                                 <div className="flex items-center gap-2 text-red-700 border-b border-red-100 pb-2"><div className="p-1.5 bg-red-100 rounded-lg"><TrendingDown className="w-4 h-4" /></div><span className="font-bold text-sm uppercase tracking-wide">Concours Bancaires</span></div>
-                                <SmartNumberInput label="Soldes Débiteurs" value={formData.cashFlow.passive} onChange={(val: number) => handleChange('cashFlow', 'passive', val)} className="border-red-200 focus:ring-red-500 focus:border-red-500 bg-red-50 text-red-900 font-bold" disabled={isLocked} definition={DEFINITIONS.treasuryNegative} n1Value={comparisonRecord?.cashFlow.passive} prefix={<span className="text-red-500 font-bold">-</span>} />
+                                <SmartNumberInput label="Soldes Débiteurs" value={formData.cashFlow.passive} onChange={(val: number) => handleChange('cashFlow', 'passive', val)} className="border-red-200 focus:ring-red-500 focus:border-red-500 bg-red-50 text-red-900 font-bold" disabled={isLocked} definition={DEFINITIONS.treasuryNegative} n1Value={comparisonRecord?.cashFlow.passive} prefix={<span className="text-red-500 font-bold">-</span>} proposal={proposalFor('cashFlow.treasury', 'passive')} />
                                 <p className="text-xs text-slate-500 font-medium leading-tight">Découverts autorisés ou non, facilités de caisse, emprunts court terme.</p>
                             </div>
                             <div className="flex flex-col h-full justify-center">
                                 <ResultCard label="Trésorerie Nette" value={formatCurrency(formData.cashFlow.treasury)} subtext="Active - Passive" icon={Landmark} colorClass={formData.cashFlow.treasury >= 0 ? 'text-emerald-800' : 'text-red-800'} bgClass={formData.cashFlow.treasury >= 0 ? 'bg-emerald-50' : 'bg-red-50'} />
+                                {budgetMonth && budgetMonth.treasuryFloor !== 0 && (
+                                    <p className={`mt-2 text-xs font-bold text-center ${formData.cashFlow.treasury < budgetMonth.treasuryFloor ? 'text-red-600' : 'text-brand-700'}`}>
+                                        {formData.cashFlow.treasury < budgetMonth.treasuryFloor && <AlertTriangle className="w-3 h-3 inline mr-1 -mt-0.5" />}
+                                        Plancher budgété : {formatCurrency(budgetMonth.treasuryFloor)}
+                                    </p>
+                                )}
                             </div>
                         </div>
+                        {formData.cashFlow.accounts && Object.keys(formData.cashFlow.accounts).length > 0 && (
+                            <div className="mt-6 pt-4 border-t border-slate-100">
+                                <p className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">Détail par compte (relevés bancaires)</p>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                                    {Object.entries(formData.cashFlow.accounts).map(([account, balance]) => (
+                                        <div key={account} className="flex items-center justify-between px-3 py-2 bg-slate-50 rounded-lg text-sm">
+                                            <span className="font-mono text-slate-600" title={account}>{maskAccountId(account)}</span>
+                                            <span className={`font-bold tabular-nums ${balance < 0 ? 'text-red-700' : 'text-emerald-700'}`}>{formatCurrency(balance)}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                     </SectionCard>
                     </div>
+
+                    {/* COMMENTAIRE DE L'EXPERT (cabinet uniquement, visible du client après publication) */}
+                    {userRole === 'ab_consultant' && (
+                        <SectionCard className="scroll-mt-20" id="section-commentaire">
+                            <SectionHeader title="Commentaire de l'expert" icon={FileText} colorClass="text-brand-700" bgClass="bg-brand-100" hideNumber subtitle="Affiché au client dans son tableau de bord et son rapport mensuel une fois le mois publié." />
+                            <div className="flex justify-end -mt-2 mb-4">
+                                <button
+                                    type="button"
+                                    onClick={() => setShowCommentDraft(true)}
+                                    disabled={!initialData}
+                                    className="flex items-center gap-2 px-3 py-1.5 bg-white border border-brand-200 text-brand-700 rounded-lg hover:bg-brand-50 transition text-xs font-bold shadow-sm disabled:opacity-50"
+                                    title={initialData ? 'Rédiger un brouillon à partir des chiffres enregistrés du mois' : 'Enregistrez d\'abord la saisie du mois'}
+                                >
+                                    <Sparkles className="w-3.5 h-3.5" /> Proposer un commentaire
+                                </button>
+                            </div>
+                            <textarea
+                                value={formData.expertComment || ''}
+                                onChange={(e) => setFormData(prev => ({ ...prev, expertComment: e.target.value }))}
+                                rows={5}
+                                placeholder="Analyse du mois à destination du dirigeant..."
+                                className="w-full p-3 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none resize-y"
+                            />
+                        </SectionCard>
+                    )}
                 </div>
 
                 {/* STEPPER NAVIGATION */}
@@ -1449,6 +1713,26 @@ const EntryForm: React.FC<EntryFormProps> = ({
                     );
                 })()}
             </div>
+
+            <BankStatementImportModal
+                isOpen={showBankImport}
+                year={formData.year}
+                month={formData.month}
+                onClose={() => setShowBankImport(false)}
+                onApply={handleBankBalances}
+            />
+
+            {showCommentDraft && (
+                <CommentDraftModal
+                    isOpen
+                    clientId={clientId}
+                    year={formData.year}
+                    month={formData.month}
+                    currentComment={formData.expertComment}
+                    onApprove={(comment) => setFormData(prev => ({ ...prev, expertComment: comment }))}
+                    onClose={() => setShowCommentDraft(false)}
+                />
+            )}
         </div>
     );
 };
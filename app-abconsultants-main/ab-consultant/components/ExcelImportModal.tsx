@@ -1,30 +1,50 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { X, Upload, FileSpreadsheet, CheckCircle, AlertTriangle, AlertCircle, ChevronRight, ChevronDown, Eye, Layers, Fuel, ShoppingBag, XCircle, Plus, ArrowRight, Loader2, ClipboardList } from 'lucide-react';
-import { ProfitCenter, FinancialRecord, Month } from '../types';
+import { X, Upload, FileSpreadsheet, CheckCircle, AlertTriangle, AlertCircle, ChevronRight, ChevronDown, Eye, Layers, Fuel, ShoppingBag, XCircle, Plus, ArrowRight, Loader2, ClipboardList, Lock, Unlock, Hourglass } from 'lucide-react';
+import { ProfitCenter, FinancialRecord, ImportMappingProfile, Month } from '../types';
 import {
   ParsedSheet,
   SheetMapping,
   readExcelFile,
   detectSheetType,
   detectYear,
-  parseRevenueSheet,
-  parseFuelSheet,
   buildImportData,
+  applySheetLayout,
+  detectLabelColumn,
+  hasMonthHeaders,
+  detectFamilies,
+  familyAliasKey,
+  detectAgingMonth,
 } from '../services/excelImportService';
+import { FecEntry, readFecFile, isFecContent, parseFec, buildFecImportData } from '../services/fecImportService';
+import { ImportPolicy, ImportMonthDiff, computeImportDiff, applyImportPolicy } from '../services/importDiffService';
 
 interface ExcelImportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImport: (records: FinancialRecord[], newProfitCenters: ProfitCenter[], allProfitCenters: ProfitCenter[]) => void;
+  onImport: (records: FinancialRecord[], newProfitCenters: ProfitCenter[], allProfitCenters: ProfitCenter[], mapping: ImportMappingProfile, meta: { source: 'excel' | 'fec'; fileName: string }) => void;
   clientId: string;
   existingRecords: FinancialRecord[];
   existingProfitCenters: ProfitCenter[];
   year: number;
+  savedMapping?: ImportMappingProfile;
+  canUnlockProtected?: boolean;   // consultant : peut réécrire un mois validé / publié
 }
 
+const POLICY_LABELS: Record<ImportPolicy, string> = {
+  overwrite: 'Écraser',
+  fill_blanks: 'Compléter les vides',
+  skip: 'Ignorer',
+};
+
+const isAgedType = (type: SheetMapping['type']) => type === 'aged_receivables' || type === 'aged_payables';
+
 const formatNum = (val: number) =>
   new Intl.NumberFormat('fr-FR', { maximumFractionDigits: 0 }).format(val);
 
+// Column index -> Excel letter (0 -> A, 26 -> AA)
+const columnLetter = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : columnLetter(Math.floor(index / 26) - 1) + columnLetter(index % 26);
+
 const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
   isOpen,
   onClose,
@@ -33,10 +53,22 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
   existingRecords,
   existingProfitCenters,
   year: defaultYear,
+  savedMapping,
+  canUnlockProtected = false,
 }) => {
   const [step, setStep] = useState<'upload' | 'mapping' | 'preview' | 'importing'>('upload');
   const [sheets, setSheets] = useState<ParsedSheet[]>([]);
+  // Import FEC : les écritures remplacent les feuilles, pas d'étape de mapping
+  const [fecEntries, setFecEntries] = useState<FecEntry[] | null>(null);
   const [mappings, setMappings] = useState<SheetMapping[]>([]);
+  const [familyAliases, setFamilyAliases] = useState<Record<string, string>>({});
+  // Écarts avec le mapping mémorisé : feuilles nouvelles ou dont la mise en page ne correspond plus
+  const [sheetFlags, setSheetFlags] = useState<Record<string, 'new' | 'layout'>>({});
+  const [missingSheets, setMissingSheets] = useState<string[]>([]);
+  // Simulation : politique par mois ("2026-Janvier") et mois protégés déverrouillés
+  const [policies, setPolicies] = useState<Record<string, ImportPolicy>>({});
+  const [unlockedMonths, setUnlockedMonths] = useState<string[]>([]);
+  const [expandedMonth, setExpandedMonth] = useState<string | null>(null);
   const [year, setYear] = useState(defaultYear);
   const [yearConfirmed, setYearConfirmed] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -54,7 +86,11 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
     if (isOpen) {
       setStep('upload');
       setSheets([]);
+      setFecEntries(null);
       setMappings([]);
+      setFamilyAliases(savedMapping?.familyAliases || {});
+      setSheetFlags({});
+      setMissingSheets([]);
       setYear(defaultYear);
       setYearConfirmed(false);
       setError(null);
@@ -63,20 +99,21 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
       setExpandedSheet(null);
       setIsDragging(false);
     }
-  }, [isOpen, defaultYear]);
+  }, [isOpen, defaultYear, savedMapping]);
 
   const processFile = useCallback(async (file: File) => {
     setError(null);
 
-    // Validate type (.xlsx / .xls)
+    // Validate type (.xlsx / .xls, ou FEC .txt / .csv)
     const validMimes = [
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
       'application/vnd.ms-excel',
     ];
     const lowerName = file.name.toLowerCase();
-    const hasValidExt = lowerName.endsWith('.xlsx') || lowerName.endsWith('.xls');
+    const isTextFile = lowerName.endsWith('.txt') || lowerName.endsWith('.csv');
+    const hasValidExt = lowerName.endsWith('.xlsx') || lowerName.endsWith('.xls') || isTextFile;
     if (!hasValidExt && !validMimes.includes(file.type)) {
-      setError('Format de fichier invalide. Seuls les fichiers .xlsx ou .xls sont acceptés.');
+      setError('Format de fichier invalide. Seuls les fichiers .xlsx, .xls ou FEC (.txt) sont acceptés.');
       return;
     }
 
@@ -89,7 +126,25 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
     setFileName(file.name);
     setFileSize(file.size);
 
+    if (isTextFile) {
+      try {
+        const text = await readFecFile(file);
+        if (!isFecContent(text)) {
+          setError('Fichier texte non reconnu comme FEC (en-têtes JournalCode, CompteNum, EcritureDate… attendus).');
+          return;
+        }
+        setFecEntries(parseFec(text));
+        setSheets([]);
+        setMappings([]);
+        setStep('preview');
+      } catch (err: any) {
+        setError(err.message || 'Erreur lors de la lecture du fichier FEC.');
+      }
+      return;
+    }
+
     try {
+      setFecEntries(null);
       const parsed = await readExcelFile(file);
       if (parsed.length === 0) {
         setError('Le fichier ne contient aucune feuille.');
@@ -106,23 +161,33 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
       }, null) || (parsed.length > 0 ? detectYear(parsed[0]) : defaultYear);
       setYear(detectedYear);
 
-      // Auto-detect mappings
-      const detectionResults = parsed.map(sheet => ({
-        sheetName: sheet.name,
-        detectedType: detectSheetType(sheet),
-      }));
-
-      const autoMappings: SheetMapping[] = detectionResults.map(d => ({
-        sheetName: d.sheetName,
-        type: d.detectedType === 'unknown' ? 'ignore' : d.detectedType,
-      })) as SheetMapping[];
-
+      // Saved mapping first (same sheet name), auto-detection otherwise
+      const flags: Record<string, 'new' | 'layout'> = {};
+      const autoMappings: SheetMapping[] = parsed.map(sheet => {
+        const saved = savedMapping?.sheets.find(m => m.sheetName === sheet.name);
+        if (saved) {
+          if (isAgedType(saved.type)) return { ...saved, month: detectAgingMonth(sheet) || undefined };
+          if (saved.type !== 'ignore' && !hasMonthHeaders(applySheetLayout(sheet, saved))) flags[sheet.name] = 'layout';
+          return { ...saved };
+        }
+        if (savedMapping) flags[sheet.name] = 'new';
+        const detectedType = detectSheetType(sheet);
+        if (detectedType === 'aged_receivables' || detectedType === 'aged_payables') {
+          return { sheetName: sheet.name, type: detectedType, month: detectAgingMonth(sheet) || undefined };
+        }
+        return { sheetName: sheet.name, type: detectedType === 'unknown' ? 'ignore' : detectedType };
+      });
+
+      setSheetFlags(flags);
+      setMissingSheets((savedMapping?.sheets || [])
+        .filter(m => m.type !== 'ignore' && !parsed.some(sheet => sheet.name === m.sheetName))
+        .map(m => m.sheetName));
       setMappings(autoMappings);
       setStep('mapping');
     } catch (err: any) {
       setError(err.message || 'Erreur lors de la lecture du fichier.');
     }
-  }, [defaultYear]);
+  }, [defaultYear, savedMapping]);
 
   const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -153,25 +218,85 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
     await processFile(file);
   }, [processFile]);
 
-  const updateMapping = useCallback((sheetName: string, type: SheetMapping['type']) => {
-    setMappings(prev => prev.map(m => m.sheetName === sheetName ? { ...m, type } : m));
+  const updateMapping = useCallback((sheetName: string, changes: Partial<SheetMapping>) => {
+    setMappings(prev => prev.map(m => m.sheetName === sheetName ? { ...m, ...changes } : m));
+  }, []);
+
+  // Familles détectées dans les feuilles "CA par Famille", à rapprocher des activités du client
+  const detectedFamilies = useMemo(
+    () => (step === 'mapping' ? detectFamilies(sheets, mappings, year) : []),
+    [step, sheets, mappings, year]
+  );
+  const familyTarget = useCallback((family: string) => {
+    const aliased = familyAliases[familyAliasKey(family)];
+    if (aliased && existingProfitCenters.some(pc => pc.id === aliased)) return aliased;
+    return existingProfitCenters.find(pc => pc.name.toLowerCase().trim() === familyAliasKey(family))?.id || '';
+  }, [familyAliases, existingProfitCenters]);
+  const isKnownFamily = (family: string) => !savedMapping || familyAliasKey(family) in savedMapping.familyAliases;
+
+  const updateFamilyAlias = useCallback((family: string, pcId: string) => {
+    setFamilyAliases(prev => {
+      const next = { ...prev };
+      if (pcId) next[familyAliasKey(family)] = pcId;
+      else delete next[familyAliasKey(family)];
+      return next;
+    });
   }, []);
 
   // Build preview data
   const previewResult = useMemo(() => {
-    if (step !== 'preview' || sheets.length === 0) return { data: null, error: null };
+    if (step !== 'preview') return { data: null, error: null };
+
+    if (fecEntries) {
+      try {
+        return { data: buildFecImportData(fecEntries, clientId, existingRecords, existingProfitCenters, familyAliases), error: null };
+      } catch (err: any) {
+        console.error('FEC preview build error:', err);
+        return { data: null, error: err?.message || 'Erreur lors de la lecture des écritures FEC.' };
+      }
+    }
+    if (sheets.length === 0) return { data: null, error: null };
 
     try {
-      const result = buildImportData(sheets, mappings, year, clientId, existingRecords, existingProfitCenters);
+      const result = buildImportData(sheets, mappings, year, clientId, existingRecords, existingProfitCenters, familyAliases);
       return { data: result, error: null };
     } catch (err: any) {
       console.error('Preview build error:', err);
       return { data: null, error: err?.message || 'Erreur lors de la construction des données. Vérifiez le mapping des feuilles.' };
     }
-  }, [step, sheets, mappings, year, clientId, existingRecords, existingProfitCenters]);
+  }, [step, fecEntries, sheets, mappings, year, clientId, existingRecords, existingProfitCenters, familyAliases]);
 
   const previewData = previewResult.data;
 
+  // Un FEC peut couvrir un exercice à cheval sur deux années civiles
+  const previewYears = useMemo(() => {
+    const years = [...new Set((previewData?.records || []).map(r => r.year))].sort();
+    return years.length > 0 ? years : [year];
+  }, [previewData, year]);
+  const isMultiYear = previewYears.length > 1;
+
+  // Diff champ par champ contre les records existants
+  const monthDiffs = useMemo(
+    () => (previewData ? computeImportDiff(previewData.records, existingRecords, previewData.allProfitCenters) : []),
+    [previewData, existingRecords]
+  );
+
+  useEffect(() => {
+    setPolicies({});
+    setUnlockedMonths([]);
+    setExpandedMonth(null);
+  }, [previewData]);
+
+  const policyFor = useCallback((diff: ImportMonthDiff): ImportPolicy => {
+    if (diff.isProtected && !unlockedMonths.includes(diff.key)) return 'skip';
+    return policies[diff.key] ?? diff.defaultPolicy;
+  }, [policies, unlockedMonths]);
+
+  const recordsToWrite = useMemo(
+    () => monthDiffs.map(d => applyImportPolicy(d, policyFor(d))).filter((r): r is FinancialRecord => r !== null),
+    [monthDiffs, policyFor]
+  );
+
   // Sync error state from preview computation
   useEffect(() => {
     if (step === 'preview') {
@@ -194,13 +319,25 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
   }, [mappings, yearConfirmed]);
 
   const handleImport = useCallback(() => {
-    if (!previewData) return;
+    if (!previewData || recordsToWrite.length === 0) return;
     setStep('importing');
     // Small delay for UI feedback
+    // Mapping mémorisé sur le client : feuilles (sauf import FEC) + table d'alias résolue
+    const mapping: ImportMappingProfile = {
+      sheets: fecEntries ? savedMapping?.sheets || [] : mappings.map(m => {
+        const sheet = sheets.find(sh => sh.name === m.sheetName);
+        if (!sheet || m.type === 'ignore') return { sheetName: m.sheetName, type: m.type };
+        if (isAgedType(m.type)) return { sheetName: m.sheetName, type: m.type };  // closing month re-detected at each import
+        const laidOut = applySheetLayout(sheet, m);
+        return { sheetName: m.sheetName, type: m.type, headerRow: laidOut.headerRow, labelColumn: detectLabelColumn(laidOut) };
+      }),
+      familyAliases: { ...(savedMapping?.familyAliases || {}), ...previewData.familyAliases },
+      updatedAt: new Date().toISOString(),
+    };
     setTimeout(() => {
-      onImport(previewData.records, previewData.newProfitCenters, previewData.allProfitCenters);
+      onImport(recordsToWrite, previewData.newProfitCenters, previewData.allProfitCenters, mapping, { source: fecEntries ? 'fec' : 'excel', fileName });
     }, 300);
-  }, [previewData, onImport]);
+  }, [previewData, recordsToWrite, onImport, fecEntries, savedMapping, mappings, sheets, fileName]);
 
   if (!isOpen) return null;
 
@@ -217,7 +354,7 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
               <p className="eyebrow text-paper-500 mb-0.5">Import Données</p>
               <h2 className="font-display text-lg font-semibold text-paper-900 leading-tight">Import Excel Multi-Feuilles</h2>
               <p className="text-xs text-paper-500 mt-0.5">
-                {step === 'upload' && 'Chargez votre classeur Excel (.xlsx)'}
+                {step === 'upload' && 'Chargez votre classeur Excel (.xlsx) ou un FEC (.txt)'}
                 {step === 'mapping' && 'Associez chaque feuille à un type de données'}
                 {step === 'preview' && 'Vérifiez les données avant import'}
                 {step === 'importing' && 'Import en cours…'}
@@ -265,7 +402,7 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
               <label className="cursor-pointer group">
                 <input
                   type="file"
-                  accept=".xlsx,.xls"
+                  accept=".xlsx,.xls,.txt,.csv"
                   onChange={handleFileSelect}
                   className="hidden"
                 />
@@ -284,8 +421,8 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                     <Upload className="w-8 h-8 text-brand-600" />
                   </div>
                   <p className="font-display text-xl font-semibold text-paper-900 mb-1">Glissez ou cliquez pour charger</p>
-                  <p className="text-sm text-paper-500">Fichiers .xlsx acceptés</p>
-                  <p className="text-xs text-paper-500 mt-2">Format : .xlsx ou .xls — Taille max : 10 Mo</p>
+                  <p className="text-sm text-paper-500">Fichiers .xlsx ou FEC acceptés</p>
+                  <p className="text-xs text-paper-500 mt-2">Format : .xlsx, .xls ou FEC (.txt) — Taille max : 10 Mo</p>
                   {fileName && fileSize != null && (
                     <p className="text-xs text-paper-500 mt-3">
                       <span className="font-mono">{fileName}</span>{' '}
@@ -297,6 +434,7 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
               <p className="text-xs text-paper-500 mt-6 text-center max-w-md leading-relaxed">
                 Le fichier doit contenir des feuilles avec les mois en colonnes (Janvier, Février, etc.)
                 et les familles de produits / types de carburant en lignes.
+                Un FEC exporté du logiciel comptable est converti directement en mois (CA par compte 70x, marge, salaires, BFR, trésorerie).
               </p>
             </div>
           )}
@@ -339,12 +477,33 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                 </p>
               </div>
 
+              {/* Saved mapping status */}
+              {savedMapping && (
+                <div className={`p-3 rounded-xl border text-xs ${Object.keys(sheetFlags).length > 0 || missingSheets.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-brand-50 border-brand-200 text-brand-800'}`}>
+                  <p className="font-bold">
+                    Mapping enregistré appliqué (
+                    {new Date(savedMapping.updatedAt).toLocaleDateString('fr-FR')}
+                    {savedMapping.updatedBy && ` · ${savedMapping.updatedBy}`})
+                  </p>
+                  {Object.keys(sheetFlags).length === 0 && missingSheets.length === 0 ? (
+                    <p className="mt-0.5">Classeur identique au précédent import : seules les familles nouvelles sont à vérifier.</p>
+                  ) : (
+                    <p className="mt-0.5">
+                      {Object.keys(sheetFlags).length > 0 && `${Object.keys(sheetFlags).length} feuille(s) à vérifier. `}
+                      {missingSheets.length > 0 && `Feuille(s) absente(s) : ${missingSheets.join(', ')}.`}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Sheet mappings */}
               <div className="space-y-3">
                 {sheets.map(sheet => {
                   const mapping = mappings.find(m => m.sheetName === sheet.name);
                   const isExpanded = expandedSheet === sheet.name;
                   const autoType = detectSheetType(sheet);
+                  const laidOut = mapping ? applySheetLayout(sheet, mapping) : sheet;
+                  const flag = sheetFlags[sheet.name];
 
                   return (
                     <div key={sheet.name} className="border border-paper-200 rounded-xl overflow-hidden shadow-paper-sm">
@@ -355,10 +514,11 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                         </button>
 
                         {/* Sheet icon */}
-                        <div className={`p-1.5 rounded-lg ${mapping?.type === 'analyse_activite' ? 'bg-purple-100 text-purple-600' : mapping?.type === 'revenue_by_family' ? 'bg-emerald-100 text-emerald-600' : mapping?.type === 'fuel_volumes' ? 'bg-blue-100 text-blue-600' : 'bg-paper-100 text-paper-400'}`}>
+                        <div className={`p-1.5 rounded-lg ${mapping?.type === 'analyse_activite' ? 'bg-purple-100 text-purple-600' : mapping?.type === 'revenue_by_family' ? 'bg-emerald-100 text-emerald-600' : mapping?.type === 'fuel_volumes' ? 'bg-blue-100 text-blue-600' : mapping && isAgedType(mapping.type) ? 'bg-cyan-100 text-cyan-600' : 'bg-paper-100 text-paper-400'}`}>
                           {mapping?.type === 'analyse_activite' ? <ClipboardList className="w-4 h-4" /> :
                            mapping?.type === 'revenue_by_family' ? <ShoppingBag className="w-4 h-4" /> :
                            mapping?.type === 'fuel_volumes' ? <Fuel className="w-4 h-4" /> :
+                           mapping && isAgedType(mapping.type) ? <Hourglass className="w-4 h-4" /> :
                            <Layers className="w-4 h-4" />}
                         </div>
 
@@ -366,15 +526,39 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                         <div className="flex-1">
                           <span className="text-sm font-bold text-paper-900">{sheet.name}</span>
                           <span className="text-xs text-paper-500 ml-2 font-mono">({sheet.rows.length} lignes, {sheet.headers.length} colonnes)</span>
-                          {autoType !== 'unknown' && (
+                          {flag === 'new' && (
+                            <span className="ml-2 text-xs bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded-full font-bold">nouvelle feuille</span>
+                          )}
+                          {flag === 'layout' && (
+                            <span className="ml-2 text-xs bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded-full font-bold">mise en page modifiée</span>
+                          )}
+                          {!flag && savedMapping?.sheets.some(m => m.sheetName === sheet.name) ? (
+                            <span className="ml-2 text-xs bg-brand-50 text-brand-600 px-1.5 py-0.5 rounded-full font-bold">mémorisé</span>
+                          ) : !flag && autoType !== 'unknown' && (
                             <span className="ml-2 text-xs bg-emerald-50 text-emerald-600 px-1.5 py-0.5 rounded-full font-bold">auto-détecté</span>
                           )}
                         </div>
 
+                        {/* Closing month of an aged balance (snapshot sheet) */}
+                        {mapping && isAgedType(mapping.type) && (
+                          <select
+                            value={mapping.month || ''}
+                            onChange={(e) => updateMapping(sheet.name, { month: (e.target.value || undefined) as Month | undefined })}
+                            aria-label="Mois d'arrêté de la balance"
+                            className={`px-2 py-1.5 rounded-lg border text-xs font-bold ${mapping.month ? 'border-cyan-300 bg-white text-cyan-700' : 'border-amber-300 bg-amber-50 text-amber-700'}`}
+                          >
+                            <option value="">Mois d'arrêté ?</option>
+                            {Object.values(Month).map(m => <option key={m} value={m}>{m}</option>)}
+                          </select>
+                        )}
+
                         {/* Type selector */}
                         <select
                           value={mapping?.type || 'ignore'}
-                          onChange={(e) => updateMapping(sheet.name, e.target.value as SheetMapping['type'])}
+                          onChange={(e) => {
+                            const type = e.target.value as SheetMapping['type'];
+                            updateMapping(sheet.name, { type, month: isAgedType(type) ? mapping?.month || detectAgingMonth(sheet) || undefined : undefined });
+                          }}
                           className={`px-3 py-1.5 rounded-lg border text-xs font-bold transition-colors ${
                             mapping?.type === 'analyse_activite'
                               ? 'border-purple-300 bg-purple-50 text-purple-700'
@@ -382,6 +566,8 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                               ? 'border-emerald-300 bg-emerald-50 text-emerald-700'
                               : mapping?.type === 'fuel_volumes'
                               ? 'border-blue-300 bg-blue-50 text-blue-700'
+                              : mapping && isAgedType(mapping.type)
+                              ? 'border-cyan-300 bg-cyan-50 text-cyan-700'
                               : 'border-paper-300 bg-paper-50 text-paper-600'
                           }`}
                         >
@@ -389,16 +575,50 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                           <option value="analyse_activite">Feuille de Saisie</option>
                           <option value="revenue_by_family">CA par Famille</option>
                           <option value="fuel_volumes">Volumes Carburant</option>
+                          <option value="aged_receivables">Balance âgée clients</option>
+                          <option value="aged_payables">Balance âgée fournisseurs</option>
                         </select>
                       </div>
 
                       {/* Preview when expanded */}
                       {isExpanded && (
                         <div className="border-t border-paper-200 bg-paper-50 p-4 overflow-x-auto animate-in fade-in slide-in-from-top-2 duration-200">
+                          {/* Layout: header row and label column (saved with the mapping) */}
+                          <div className="flex flex-wrap items-center gap-4 mb-3 text-xs">
+                            <label className="flex items-center gap-2 font-bold text-paper-700">
+                              Ligne d'en-tête
+                              <input
+                                type="number"
+                                min={1}
+                                max={Math.min(sheet.rawData.length, 50)}
+                                value={laidOut.headerRow + 1}
+                                onChange={(e) => {
+                                  const row = parseInt(e.target.value);
+                                  if (!isNaN(row) && row >= 1) updateMapping(sheet.name, { headerRow: row - 1 });
+                                }}
+                                className="w-16 px-2 py-1 rounded-lg border border-paper-300 bg-white font-mono focus:ring-2 focus:ring-brand-500 outline-none"
+                              />
+                            </label>
+                            <label className="flex items-center gap-2 font-bold text-paper-700">
+                              Colonne des libellés
+                              <select
+                                value={detectLabelColumn(laidOut)}
+                                onChange={(e) => updateMapping(sheet.name, { labelColumn: parseInt(e.target.value) })}
+                                className="px-2 py-1 rounded-lg border border-paper-300 bg-white font-mono focus:ring-2 focus:ring-brand-500 outline-none"
+                              >
+                                {Array.from({ length: Math.max(1, Math.min(laidOut.headers.length, 14)) }, (_, i) => (
+                                  <option key={i} value={i}>{columnLetter(i)}{laidOut.headers[i] ? ` — ${laidOut.headers[i]}` : ''}</option>
+                                ))}
+                              </select>
+                            </label>
+                            {!hasMonthHeaders(laidOut) && !(mapping && isAgedType(mapping.type)) && (
+                              <span className="text-amber-600 font-bold">Aucun mois détecté sur cette ligne</span>
+                            )}
+                          </div>
                           <table className="min-w-full text-xs">
                             <thead>
                               <tr>
-                                {sheet.headers.slice(0, 14).map((h, i) => (
+                                {laidOut.headers.slice(0, 14).map((h, i) => (
                                   <th key={i} className="px-2 py-1 text-left font-bold text-paper-700 bg-paper-100 border border-paper-200 whitespace-nowrap">
                                     {h || `Col ${i + 1}`}
                                   </th>
@@ -406,7 +626,7 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                               </tr>
                             </thead>
                             <tbody>
-                              {sheet.rows.slice(0, 8).map((row, ri) => (
+                              {laidOut.rows.slice(0, 8).map((row, ri) => (
                                 <tr key={ri}>
                                   {row.slice(0, 14).map((cell: any, ci: number) => (
                                     <td key={ci} className="px-2 py-1 border border-paper-200 text-paper-700 whitespace-nowrap font-mono">
@@ -417,8 +637,8 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                               ))}
                             </tbody>
                           </table>
-                          {sheet.rows.length > 8 && (
-                            <p className="text-xs text-paper-500 mt-2">… et {sheet.rows.length - 8} lignes de plus</p>
+                          {laidOut.rows.length > 8 && (
+                            <p className="text-xs text-paper-500 mt-2">… et {laidOut.rows.length - 8} lignes de plus</p>
                           )}
                         </div>
                       )}
@@ -426,6 +646,39 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                   );
                 })}
               </div>
+
+              {/* Family -> profit center aliases */}
+              {detectedFamilies.length > 0 && (
+                <div className="border border-paper-200 rounded-xl overflow-hidden shadow-paper-sm">
+                  <div className="bg-paper-50 px-4 py-3 border-b border-paper-200">
+                    <p className="eyebrow text-paper-500 mb-0.5">Correspondance des familles</p>
+                    <span className="text-xs text-paper-500">Rapprochement mémorisé pour les prochains imports de ce client.</span>
+                  </div>
+                  <div className="divide-y divide-paper-100">
+                    {detectedFamilies.map(family => (
+                      <div key={family} className="flex items-center gap-3 px-4 py-2 text-xs">
+                        <span className="flex-1 font-bold text-paper-900">
+                          {family}
+                          {!isKnownFamily(family) && (
+                            <span className="ml-2 bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded-full">nouvelle</span>
+                          )}
+                        </span>
+                        <ArrowRight className="w-3 h-3 text-paper-400" />
+                        <select
+                          value={familyTarget(family)}
+                          onChange={(e) => updateFamilyAlias(family, e.target.value)}
+                          className="px-2 py-1 rounded-lg border border-paper-300 bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+                        >
+                          <option value="">Créer une nouvelle famille</option>
+                          {existingProfitCenters.map(pc => (
+                            <option key={pc.id} value={pc.id}>{pc.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -476,6 +729,12 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                     <div className="text-xs font-bold text-blue-600 mt-1">Carburant inclus</div>
                   </div>
                 )}
+                {previewData.summary.hasAging && (
+                  <div className="p-4 bg-cyan-50 rounded-xl border border-cyan-200 text-center shadow-paper-sm">
+                    <div className="text-cyan-700"><Hourglass className="w-6 h-6 mx-auto" /></div>
+                    <div className="text-xs font-bold text-cyan-600 mt-1">Balance âgée incluse</div>
+                  </div>
+                )}
               </div>
 
               {/* New families alert */}
@@ -504,8 +763,15 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                   <p className="eyebrow text-paper-500 mb-0.5">Données à importer</p>
                   <span className="font-display text-sm font-semibold text-paper-900 flex items-center gap-1.5">
                     <Eye className="w-4 h-4 text-paper-500" />
-                    Aperçu des données ({year})
+                    Aperçu des données ({previewYears.join(' – ')}){fecEntries && ' · FEC'}
                   </span>
+                  <p className="text-xs text-paper-500 mt-1">
+                    {monthDiffs.filter(d => !d.existing).length} nouveau(x)
+                    {' · '}{monthDiffs.filter(d => d.existing && policyFor(d) !== 'skip').length} mis à jour
+                    {' · '}{monthDiffs.filter(d => policyFor(d) === 'skip').length} ignoré(s)
+                    {monthDiffs.some(d => d.isProtected) && ` · ${monthDiffs.filter(d => d.isProtected).length} validé(s) ou publié(s) protégé(s)`}
+                    {' — '}cliquez sur un mois pour voir le détail des écarts.
+                  </p>
                 </div>
                 <div className="overflow-x-auto">
                   <table className="min-w-full text-xs">
@@ -513,7 +779,7 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                       <tr className="bg-paper-100">
                         <th className="px-3 py-2 text-left font-bold text-paper-700 border-b border-paper-200">Mois</th>
                         <th className="px-3 py-2 text-right font-bold text-paper-700 border-b border-paper-200">CA Total</th>
-                        {previewData.summary.hasAnalyseActivite && (
+                        {(previewData.summary.hasBalances || previewData.summary.hasAging) && (
                           <>
                             <th className="px-3 py-2 text-right font-bold text-purple-600 border-b border-paper-200">Marge</th>
                             <th className="px-3 py-2 text-right font-bold text-paper-700 border-b border-paper-200">Salaires</th>
@@ -532,24 +798,35 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                         {previewData.summary.hasFuel && (
                           <th className="px-3 py-2 text-right font-bold text-blue-600 border-b border-paper-200">Vol. Carburant</th>
                         )}
-                        <th className="px-3 py-2 text-center font-bold text-paper-700 border-b border-paper-200">Statut</th>
+                        <th className="px-3 py-2 text-center font-bold text-paper-700 border-b border-paper-200">Politique</th>
                       </tr>
                     </thead>
                     <tbody>
-                      {previewData.records
-                        .sort((a, b) => {
-                          const months = Object.values(Month);
-                          return months.indexOf(a.month) - months.indexOf(b.month);
-                        })
-                        .map(record => {
-                          const existing = existingRecords.find(r => r.year === year && r.month === record.month);
+                      {monthDiffs.map(diff => {
+                          const record = diff.imported;
+                          const existing = diff.existing;
+                          const policy = policyFor(diff);
+                          const isLocked = diff.isProtected && !unlockedMonths.includes(diff.key);
+                          const isExpandedMonth = expandedMonth === diff.key;
+                          const columnCount = 3 + (previewData.summary.hasBalances || previewData.summary.hasAging ? 4 : 0)
+                            + Math.min(previewData.allProfitCenters.length, 4) + (previewData.summary.hasFuel ? 1 : 0);
                           return (
-                            <tr key={record.month} className="hover:bg-paper-50 transition-colors">
-                              <td className="px-3 py-2 font-bold text-paper-900 border-b border-paper-100">{record.month}</td>
+                            <React.Fragment key={diff.key}>
+                            <tr className={`hover:bg-paper-50 transition-colors ${policy === 'skip' ? 'opacity-50' : ''}`}>
+                              <td className="px-3 py-2 font-bold text-paper-900 border-b border-paper-100">
+                                <button
+                                  onClick={() => setExpandedMonth(isExpandedMonth ? null : diff.key)}
+                                  className="flex items-center gap-1 hover:text-brand-700"
+                                  aria-label={isExpandedMonth ? 'Masquer les écarts' : 'Afficher les écarts'}
+                                >
+                                  {isExpandedMonth ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                                  {record.month}{isMultiYear && ` ${record.year}`}
+                                </button>
+                              </td>
                               <td className="px-3 py-2 text-right font-mono font-bold text-brand-700 border-b border-paper-100">
                                 {formatNum(record.revenue.total)} {record.revenue.total > 0 ? '€' : '-'}
                               </td>
-                              {previewData.summary.hasAnalyseActivite && (
+                              {(previewData.summary.hasBalances || previewData.summary.hasAging) && (
                                 <>
                                   <td className="px-3 py-2 text-right font-mono text-purple-600 border-b border-paper-100">
                                     {record.margin?.total ? `${formatNum(record.margin.total)} €` : '-'}
@@ -575,14 +852,75 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
                                   {record.fuel?.volume ? `${formatNum(record.fuel.volume)} L` : '-'}
                                 </td>
                               )}
-                              <td className="px-3 py-2 text-center border-b border-paper-100">
-                                {existing ? (
-                                  <span className="text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full font-bold">Mise à jour</span>
-                                ) : (
+                              <td className="px-3 py-2 text-center border-b border-paper-100 whitespace-nowrap">
+                                {!existing ? (
                                   <span className="text-xs bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded-full font-bold">Nouveau</span>
+                                ) : (
+                                  <div className="flex items-center justify-center gap-1.5">
+                                    {diff.isProtected && (
+                                      canUnlockProtected ? (
+                                        <button
+                                          onClick={() => setUnlockedMonths(prev => isLocked ? [...prev, diff.key] : prev.filter(k => k !== diff.key))}
+                                          title={isLocked ? 'Déverrouiller ce mois pour l\'import' : 'Reverrouiller ce mois'}
+                                          className={`p-1 rounded transition-colors ${isLocked ? 'text-amber-600 hover:bg-amber-50' : 'text-red-600 hover:bg-red-50'}`}
+                                        >
+                                          {isLocked ? <Lock className="w-3.5 h-3.5" /> : <Unlock className="w-3.5 h-3.5" />}
+                                        </button>
+                                      ) : (
+                                        <Lock className="w-3.5 h-3.5 text-amber-600" aria-label="Mois protégé" />
+                                      )
+                                    )}
+                                    <select
+                                      value={policy}
+                                      disabled={isLocked}
+                                      onChange={(e) => setPolicies(prev => ({ ...prev, [diff.key]: e.target.value as ImportPolicy }))}
+                                      title={isLocked ? `Mois ${existing.isPublished ? 'publié' : 'validé'} : protégé` : undefined}
+                                      className="px-2 py-0.5 rounded-lg border border-paper-300 bg-white text-xs font-bold disabled:bg-paper-100 disabled:cursor-not-allowed"
+                                    >
+                                      {(Object.keys(POLICY_LABELS) as ImportPolicy[]).map(p => (
+                                        <option key={p} value={p}>{POLICY_LABELS[p]}</option>
+                                      ))}
+                                    </select>
+                                  </div>
                                 )}
                               </td>
                             </tr>
+                            {isExpandedMonth && (
+                              <tr>
+                                <td colSpan={columnCount} className="px-6 py-3 bg-paper-50 border-b border-paper-200">
+                                  {diff.fields.filter(f => f.changed).length === 0 ? (
+                                    <p className="text-xs text-paper-500">Aucun écart avec les données existantes.</p>
+                                  ) : (
+                                    <table className="text-xs">
+                                      <thead>
+                                        <tr className="text-paper-500">
+                                          <th className="pr-6 py-1 text-left font-bold">Champ</th>
+                                          <th className="pr-6 py-1 text-right font-bold">Actuel</th>
+                                          <th className="pr-6 py-1 text-right font-bold">Importé</th>
+                                          {existing && <th className="py-1 text-left font-bold">Résultat</th>}
+                                        </tr>
+                                      </thead>
+                                      <tbody>
+                                        {diff.fields.filter(f => f.changed).map(f => {
+                                          const kept = policy === 'skip' || (policy === 'fill_blanks' && !!f.current);
+                                          return (
+                                            <tr key={f.path}>
+                                              <td className="pr-6 py-0.5 text-paper-700">{f.label}</td>
+                                              <td className="pr-6 py-0.5 text-right font-mono text-paper-500">{f.current === null ? '—' : formatNum(f.current)}</td>
+                                              <td className="pr-6 py-0.5 text-right font-mono font-bold text-paper-900">{formatNum(f.next)}</td>
+                                              {existing && (
+                                                <td className={`py-0.5 font-bold ${kept ? 'text-paper-400' : 'text-emerald-600'}`}>{kept ? 'conservé' : 'remplacé'}</td>
+                                              )}
+                                            </tr>
+                                          );
+                                        })}
+                                      </tbody>
+                                    </table>
+                                  )}
+                                </td>
+                              </tr>
+                            )}
+                            </React.Fragment>
                           );
                         })}
                     </tbody>
@@ -607,7 +945,7 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
           <div>
             {step !== 'upload' && step !== 'importing' && (
               <button
-                onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+                onClick={() => setStep(step === 'preview' && !fecEntries ? 'mapping' : 'upload')}
                 className="px-4 py-2 text-sm text-paper-700 font-bold hover:bg-white border border-transparent hover:border-paper-300 rounded-lg transition-colors"
               >
                 Retour
@@ -629,10 +967,11 @@ const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
             {step === 'preview' && previewData && (
               <button
                 onClick={handleImport}
-                className="px-5 py-2 text-sm text-white font-bold bg-emerald-600 hover:bg-emerald-700 rounded-lg shadow-paper-sm hover:shadow-paper-md transition-all flex items-center gap-2"
+                disabled={recordsToWrite.length === 0}
+                className="px-5 py-2 text-sm text-white font-bold bg-emerald-600 hover:bg-emerald-700 rounded-lg shadow-paper-sm hover:shadow-paper-md transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <CheckCircle className="w-4 h-4" />
-                Importer {previewData.summary.monthCount} mois
+                Importer {recordsToWrite.length} mois
               </button>
             )}
           </div>
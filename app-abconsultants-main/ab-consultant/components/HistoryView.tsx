@@ -1,15 +1,21 @@
 
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Database, Download, CheckCircle, Clock, Edit2, ShieldCheck, Unlock, Eye, EyeOff, Trash2, CheckSquare, Square, FileSpreadsheet, MoreVertical, Lock } from 'lucide-react';
-import { FinancialRecord, Month } from '../types';
-import { toShortMonth, MONTH_ORDER } from '../services/dataService';
+import { Database, Download, CheckCircle, Clock, Edit2, ShieldCheck, Unlock, Eye, EyeOff, Trash2, CheckSquare, Square, FileSpreadsheet, MoreVertical, Lock, History, FileDown, Sparkles } from 'lucide-react';
+import { FinancialRecord, Month, ProfitCenter, RecordRevision } from '../types';
+import { toShortMonth, MONTH_ORDER, getFiscalYear, formatFiscalYear, isFiscalYearShifted } from '../services/dataService';
 import { useConfirmDialog } from '../contexts/ConfirmContext';
+import RecordRevisionsPanel from './RecordRevisionsPanel';
+import CommentDraftModal from './CommentDraftModal';
 
 interface HistoryViewProps {
     data: FinancialRecord[];
     userRole: 'ab_consultant' | 'client';
     onNewRecord: () => void;
-    onExportCSV: () => void;
+    onExportCSV: (fiscalYear?: number) => void;
+    onExportXLSX?: (fiscalYear?: number) => void;
+    onDownloadReport?: (record: FinancialRecord) => void;
+    /** Enregistre le commentaire expert validé depuis le brouillon IA (consultant). */
+    onApproveComment?: (record: FinancialRecord) => Promise<void>;
     onEdit: (record: FinancialRecord) => void;
     onDelete: (record: FinancialRecord) => void;
     onValidate: (record: FinancialRecord) => void;
@@ -19,6 +25,9 @@ interface HistoryViewProps {
     onBulkPublish?: (records: FinancialRecord[]) => void;
     onBulkDelete?: (records: FinancialRecord[]) => void;
     onImportExcel?: () => void;
+    onRestoreRevision?: (revision: RecordRevision) => Promise<void>;
+    profitCenters?: ProfitCenter[];
+    fiscalYearEnd?: string;
 }
 
 const HistoryView: React.FC<HistoryViewProps> = ({
@@ -26,6 +35,9 @@ const HistoryView: React.FC<HistoryViewProps> = ({
     userRole,
     onNewRecord,
     onExportCSV,
+    onExportXLSX,
+    onDownloadReport,
+    onApproveComment,
     onEdit,
     onDelete,
     onValidate,
@@ -34,11 +46,16 @@ const HistoryView: React.FC<HistoryViewProps> = ({
     onBulkValidate,
     onBulkPublish,
     onBulkDelete,
-    onImportExcel
+    onImportExcel,
+    onRestoreRevision,
+    profitCenters,
+    fiscalYearEnd
 }) => {
     const [historyYearFilter, setHistoryYearFilter] = useState<number | 'ALL'>('ALL');
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
     const [openMenuId, setOpenMenuId] = useState<string | null>(null);
+    const [revisionsRecord, setRevisionsRecord] = useState<FinancialRecord | null>(null);
+    const [commentRecord, setCommentRecord] = useState<FinancialRecord | null>(null);
     const menuRef = useRef<HTMLDivElement>(null);
     const confirm = useConfirmDialog();
 
@@ -53,23 +70,23 @@ const HistoryView: React.FC<HistoryViewProps> = ({
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, [openMenuId]);
 
-    // 1. Get Available Years
+    // 1. Get Available Years (exercices, identifiés par leur année de clôture)
     const historyAvailableYears = useMemo(() => {
-        const years = new Set(data.map(r => r.year));
+        const years = new Set(data.map(r => getFiscalYear(r.year, r.month, fiscalYearEnd)));
         return Array.from(years).sort((a: number, b: number) => b - a);
-    }, [data]);
+    }, [data, fiscalYearEnd]);
 
     // 2. Filter & Sort Data
     const filteredHistoryData = useMemo(() => {
         let filtered = data;
         if (historyYearFilter !== 'ALL') {
-            filtered = filtered.filter(r => r.year === historyYearFilter);
+            filtered = filtered.filter(r => getFiscalYear(r.year, r.month, fiscalYearEnd) === historyYearFilter);
         }
         return [...filtered].sort((a, b) => {
             if (b.year !== a.year) return b.year - a.year;
             return MONTH_ORDER.indexOf(b.month) - MONTH_ORDER.indexOf(a.month);
         });
-    }, [data, historyYearFilter]);
+    }, [data, historyYearFilter, fiscalYearEnd]);
 
     // --- BULK SELECTION ---
     const toggleSelect = (id: string) => {
@@ -163,8 +180,17 @@ const HistoryView: React.FC<HistoryViewProps> = ({
                             <FileSpreadsheet className="w-4 h-4 text-emerald-600" /> Import Excel
                         </button>
                     )}
+                    {onExportXLSX && (
+                        <button
+                            onClick={() => onExportXLSX(historyYearFilter === 'ALL' ? undefined : historyYearFilter)}
+                            title="Classeur Excel : une feuille par exercice, activités, carburant et BFR"
+                            className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-white border border-brand-300 text-brand-700 rounded-lg hover:bg-brand-50 transition shadow-sm font-medium"
+                        >
+                            <FileSpreadsheet className="w-4 h-4" /> Export Excel
+                        </button>
+                    )}
                     <button
-                        onClick={onExportCSV}
+                        onClick={() => onExportCSV(historyYearFilter === 'ALL' ? undefined : historyYearFilter)}
                         className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 transition shadow-sm font-medium"
                     >
                         <Download className="w-4 h-4" /> Export CSV
@@ -174,7 +200,7 @@ const HistoryView: React.FC<HistoryViewProps> = ({
 
             {/* HISTORY FILTERS */}
             <div className="flex items-center gap-4 bg-slate-100 p-2 rounded-lg w-fit">
-                <span className="text-xs font-bold text-slate-500 px-2 uppercase">Filtrer par année :</span>
+                <span className="text-xs font-bold text-slate-500 px-2 uppercase">{isFiscalYearShifted(fiscalYearEnd) ? 'Filtrer par exercice :' : 'Filtrer par année :'}</span>
                 <button
                     onClick={() => setHistoryYearFilter('ALL')}
                     className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${historyYearFilter === 'ALL' ? 'bg-white text-brand-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
@@ -187,7 +213,7 @@ const HistoryView: React.FC<HistoryViewProps> = ({
                         onClick={() => setHistoryYearFilter(year)}
                         className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${historyYearFilter === year ? 'bg-white text-brand-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
                     >
-                        {year}
+                        {formatFiscalYear(year, fiscalYearEnd)}
                     </button>
                 ))}
             </div>
@@ -269,6 +295,18 @@ const HistoryView: React.FC<HistoryViewProps> = ({
                                 </div>
                             </div>
 
+                            {/* Client : rapport PDF du mois */}
+                            {userRole === 'client' && onDownloadReport && record.isPublished && (
+                                <div className="mt-3 pt-3 border-t border-slate-100 flex justify-end" onClick={(e) => e.stopPropagation()}>
+                                    <button
+                                        onClick={() => onDownloadReport(record)}
+                                        className="px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition text-xs font-bold flex items-center gap-1.5"
+                                    >
+                                        <FileDown className="w-3.5 h-3.5" /> Rapport PDF
+                                    </button>
+                                </div>
+                            )}
+
                             {/* Consultant action row */}
                             {userRole === 'ab_consultant' && (
                                 <div className="mt-3 pt-3 border-t border-slate-100 flex items-center justify-end gap-1.5" onClick={(e) => e.stopPropagation()}>
@@ -409,6 +447,48 @@ const HistoryView: React.FC<HistoryViewProps> = ({
                                                     </button>
                                                 )}
 
+                                                {onDownloadReport && record.isPublished && (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            setOpenMenuId(null);
+                                                            onDownloadReport(record);
+                                                        }}
+                                                        className="w-full flex items-center gap-2.5 px-4 py-2.5 text-sm text-slate-700 hover:bg-slate-50 hover:text-slate-900 transition text-left"
+                                                    >
+                                                        <FileDown className="w-3.5 h-3.5 text-slate-400" />
+                                                        Rapport PDF
+                                                    </button>
+                                                )}
+
+                                                {onApproveComment && (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            setOpenMenuId(null);
+                                                            setCommentRecord(record);
+                                                        }}
+                                                        className="w-full flex items-center gap-2.5 px-4 py-2.5 text-sm text-slate-700 hover:bg-slate-50 hover:text-slate-900 transition text-left"
+                                                    >
+                                                        <Sparkles className="w-3.5 h-3.5 text-slate-400" />
+                                                        Proposer un commentaire
+                                                    </button>
+                                                )}
+
+                                                {onRestoreRevision && (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            setOpenMenuId(null);
+                                                            setRevisionsRecord(record);
+                                                        }}
+                                                        className="w-full flex items-center gap-2.5 px-4 py-2.5 text-sm text-slate-700 hover:bg-slate-50 hover:text-slate-900 transition text-left"
+                                                    >
+                                                        <History className="w-3.5 h-3.5 text-slate-400" />
+                                                        Historique des modifications
+                                                    </button>
+                                                )}
+
                                                 <div className="border-t border-slate-100 my-1" />
 
                                                 <button
@@ -661,6 +741,48 @@ const HistoryView: React.FC<HistoryViewProps> = ({
                                                                         </button>
                                                                     )}
 
+                                                                    {onDownloadReport && record.isPublished && (
+                                                                        <button
+                                                                            onClick={(e) => {
+                                                                                e.stopPropagation();
+                                                                                setOpenMenuId(null);
+                                                                                onDownloadReport(record);
+                                                                            }}
+                                                                            className="w-full flex items-center gap-2.5 px-4 py-2.5 text-sm text-slate-700 hover:bg-slate-50 hover:text-slate-900 transition text-left"
+                                                                        >
+                                                                            <FileDown className="w-3.5 h-3.5 text-slate-400" />
+                                                                            Rapport PDF
+                                                                        </button>
+                                                                    )}
+
+                                                                    {onApproveComment && (
+                                                                        <button
+                                                                            onClick={(e) => {
+                                                                                e.stopPropagation();
+                                                                                setOpenMenuId(null);
+                                                                                setCommentRecord(record);
+                                                                            }}
+                                                                            className="w-full flex items-center gap-2.5 px-4 py-2.5 text-sm text-slate-700 hover:bg-slate-50 hover:text-slate-900 transition text-left"
+                                                                        >
+                                                                            <Sparkles className="w-3.5 h-3.5 text-slate-400" />
+                                                                            Proposer un commentaire
+                                                                        </button>
+                                                                    )}
+
+                                                                    {onRestoreRevision && (
+                                                                        <button
+                                                                            onClick={(e) => {
+                                                                                e.stopPropagation();
+                                                                                setOpenMenuId(null);
+                                                                                setRevisionsRecord(record);
+                                                                            }}
+                                                                            className="w-full flex items-center gap-2.5 px-4 py-2.5 text-sm text-slate-700 hover:bg-slate-50 hover:text-slate-900 transition text-left"
+                                                                        >
+                                                                            <History className="w-3.5 h-3.5 text-slate-400" />
+                                                                            Historique des modifications
+                                                                        </button>
+                                                                    )}
+
                                                                     <div className="border-t border-slate-100 my-1" />
 
                                                                     <button
@@ -685,9 +807,16 @@ const HistoryView: React.FC<HistoryViewProps> = ({
                                                         </div>
                                                     </>
                                                 ) : (
-                                                    <button onClick={() => onEdit(record)} className="px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition text-xs font-bold shadow-sm flex items-center gap-1">
-                                                        <Eye className="w-3 h-3" /> Voir le détail
-                                                    </button>
+                                                    <>
+                                                        {onDownloadReport && record.isPublished && (
+                                                            <button onClick={() => onDownloadReport(record)} className="p-1.5 text-slate-400 hover:text-brand-600 rounded-lg hover:bg-slate-100 transition" title="Rapport PDF" aria-label="Rapport PDF">
+                                                                <FileDown className="w-4 h-4" />
+                                                            </button>
+                                                        )}
+                                                        <button onClick={() => onEdit(record)} className="px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition text-xs font-bold shadow-sm flex items-center gap-1">
+                                                            <Eye className="w-3 h-3" /> Voir le détail
+                                                        </button>
+                                                    </>
                                                 )}
                                             </div>
                                         </td>
@@ -708,6 +837,28 @@ const HistoryView: React.FC<HistoryViewProps> = ({
                     </table>
                 </div>
             </div>
+
+            {onRestoreRevision && (
+                <RecordRevisionsPanel
+                    record={revisionsRecord}
+                    profitCenters={profitCenters}
+                    onClose={() => setRevisionsRecord(null)}
+                    onRestore={onRestoreRevision}
+                />
+            )}
+
+            {commentRecord && onApproveComment && (
+                <CommentDraftModal
+                    isOpen
+                    clientId={commentRecord.clientId}
+                    year={commentRecord.year}
+                    month={commentRecord.month}
+                    currentComment={commentRecord.expertComment}
+                    recordId={commentRecord.id}
+                    onApprove={() => onApproveComment(commentRecord)}
+                    onClose={() => setCommentRecord(null)}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download, Loader2, AlertTriangle, Check } from 'lucide-react';
+import { Month } from '../types';
+import { exportPortfolioCSV } from '../lib/cloudFunctions';
+
+interface PortfolioExportModalProps {
+    isOpen: boolean;
+    /** Dossiers exportés (liste filtrée ou sélection du portefeuille). */
+    clientIds: string[];
+    scopeLabel: string;
+    onClose: () => void;
+}
+
+const MONTHS = Object.values(Month);
+
+const QUARTERS: { label: string; months: Month[] }[] = [
+    { label: 'T1', months: MONTHS.slice(0, 3) },
+    { label: 'T2', months: MONTHS.slice(3, 6) },
+    { label: 'T3', months: MONTHS.slice(6, 9) },
+    { label: 'T4', months: MONTHS.slice(9, 12) },
+];
+
+/**
+ * Export CSV du portefeuille pour la réunion des associés : une ligne par client × mois,
+ * généré côté serveur sur les années et mois choisis.
+ */
+const PortfolioExportModal: React.FC<PortfolioExportModalProps> = ({ isOpen, clientIds, scopeLabel, onClose }) => {
+    const currentYear = new Date().getFullYear();
+    const availableYears = [currentYear - 3, currentYear - 2, currentYear - 1, currentYear];
+
+    const [years, setYears] = useState<number[]>([currentYear]);
+    const [months, setMonths] = useState<Month[]>([]);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setError(null);
+            setResult(null);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const toggleYear = (year: number) =>
+        setYears(prev => prev.includes(year) ? prev.filter(y => y !== year) : [...prev, year].sort());
+
+    const toggleMonth = (month: Month) =>
+        setMonths(prev => prev.includes(month) ? prev.filter(m => m !== month) : MONTHS.filter(m => m === month || prev.includes(m)));
+
+    const selectQuarter = (quarter: Month[]) =>
+        setMonths(prev => quarter.every(m => prev.includes(m)) ? prev.filter(m => !quarter.includes(m)) : MONTHS.filter(m => quarter.includes(m) || prev.includes(m)));
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError(null);
+        setResult(null);
+        try {
+            const { rowCount, clientCount } = await exportPortfolioCSV({ clientIds, years, months });
+            setResult(`${rowCount} ligne${rowCount > 1 ? 's' : ''} exportée${rowCount > 1 ? 's' : ''} pour ${clientCount} dossier${clientCount > 1 ? 's' : ''}.`);
+        } catch (err: any) {
+            setError(err?.message || 'Erreur lors de l\'export du portefeuille.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const chipClass = (active: boolean) =>
+        `px-3 py-1.5 rounded-md text-xs font-bold border transition ${active ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-paper-600 border-paper-200 hover:border-brand-300'}`;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+            <div className="bg-white rounded-2xl shadow-paper-xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-paper-200 bg-paper-50">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 rounded-lg"><Download className="w-5 h-5 text-brand-700" /></div>
+                        <div>
+                            <p className="eyebrow text-paper-500 mb-0.5">Portefeuille · {scopeLabel}</p>
+                            <h2 className="font-display text-lg font-semibold text-paper-900 leading-tight">Export cabinet</h2>
+                        </div>
+                    </div>
+                    <button onClick={onClose} aria-label="Fermer" title="Fermer" className="p-2 text-paper-400 hover:text-paper-700 hover:bg-paper-100 rounded-lg transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-5">
+                    <div>
+                        <p className="eyebrow text-paper-500 mb-2">Années</p>
+                        <div className="flex flex-wrap gap-2">
+                            {availableYears.map(year => (
+                                <button key={year} type="button" onClick={() => toggleYear(year)} className={chipClass(years.includes(year))}>
+                                    {year}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <p className="eyebrow text-paper-500">Mois</p>
+                            <div className="flex gap-1">
+                                {QUARTERS.map(q => (
+                                    <button key={q.label} type="button" onClick={() => selectQuarter(q.months)} className="px-2 py-0.5 rounded text-xs font-bold text-brand-600 hover:bg-brand-50">
+                                        {q.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-4 gap-2">
+                            {MONTHS.map(month => (
+                                <button key={month} type="button" onClick={() => toggleMonth(month)} className={chipClass(months.includes(month))}>
+                                    {month}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-xs text-paper-500 mt-2">
+                            {months.length === 0 ? 'Aucun mois sélectionné : tous les mois sont exportés.' : `${months.length} mois sélectionné${months.length > 1 ? 's' : ''}.`}
+                        </p>
+                    </div>
+
+                    {error && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700 flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" /> {error}
+                        </div>
+                    )}
+                    {result && (
+                        <div className="p-3 bg-emerald-50 border border-emerald-200 rounded-lg text-xs text-emerald-700 flex items-start gap-2">
+                            <Check className="w-4 h-4 shrink-0 mt-0.5" /> {result}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between px-6 py-4 border-t border-paper-200 bg-paper-50">
+                    <p className="text-xs text-paper-500">
+                        {clientIds.length} dossier{clientIds.length > 1 ? 's' : ''} · une ligne par mois
+                    </p>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-paper-600 hover:bg-paper-100 rounded-lg transition">
+                            Fermer
+                        </button>
+                        <button
+                            onClick={handleExport}
+                            disabled={isExporting || years.length === 0 || clientIds.length === 0}
+                            className="px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 transition flex items-center gap-2 disabled:opacity-50"
+                        >
+                            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                            Exporter le CSV
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PortfolioExportModal;
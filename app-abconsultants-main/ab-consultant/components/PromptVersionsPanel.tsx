@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileText, Plus, Trophy, Loader2, X, Save, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { PromptTemplate } from '../types';
+import { AiFeedback, createPromptTemplate, subscribeToPromptTemplates, updatePromptTraffic } from '../services/dataService';
+import { feedbackByPromptVersion } from '../services/aiFeedbackAnalytics';
+import {
+    MIN_FEEDBACK_TO_PROMOTE,
+    PROMPT_PLACEHOLDERS,
+    PROMPT_STATUS_LABELS,
+    nextPromptVersion,
+    promotionUpdates,
+    trafficShares,
+    trafficUpdates,
+    validatePromptTemplate,
+} from '../services/promptVersionService';
+import { useConfirmDialog } from '../contexts/ConfirmContext';
+import { auth } from '../firebase';
+
+interface PromptVersionsPanelProps {
+    feedback: AiFeedback[];
+    isAdmin: boolean;
+}
+
+const STATUS_BADGE: Record<PromptTemplate['status'], string> = {
+    active: 'bg-emerald-50 text-emerald-700',
+    draft: 'bg-amber-50 text-amber-700',
+    retired: 'bg-slate-100 text-slate-500',
+};
+
+const versionOrder = (a: PromptTemplate, b: PromptTemplate) =>
+    (Number(b.id.slice(1)) || 0) - (Number(a.id.slice(1)) || 0);
+
+/** Nouvelle version du prompt, rédigée à partir d'une version existante. */
+const NewPromptVersionModal: React.FC<{
+    templates: PromptTemplate[];
+    onClose: () => void;
+}> = ({ templates, onClose }) => {
+    const version = nextPromptVersion(templates);
+    const [basedOn, setBasedOn] = useState(templates[0]?.id || '');
+    const [text, setText] = useState(templates[0]?.template || '');
+    const [description, setDescription] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const errors = validatePromptTemplate(text);
+
+    const handleBase = (id: string) => {
+        setBasedOn(id);
+        setText(templates.find(t => t.id === id)?.template || '');
+    };
+
+    const handleSave = async () => {
+        if (errors.length > 0) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await createPromptTemplate(version, text, description, basedOn || undefined, auth.currentUser?.email || 'unknown');
+            onClose();
+        } catch (e: any) {
+            setError(e.message);
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+                    <h3 className="font-display text-xl font-semibold text-paper-900 tracking-tight">Nouvelle version du prompt · {version}</h3>
+                    <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Fermer"><X className="w-5 h-5" /></button>
+                </div>
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <label className="text-xs font-bold text-slate-600 uppercase">
+                            À partir de
+                            <select value={basedOn} onChange={e => handleBase(e.target.value)} className="mt-1 w-full text-sm font-normal normal-case border border-slate-200 rounded-lg px-3 py-2 bg-white">
+                                {templates.map(t => <option key={t.id} value={t.id}>{t.id}{t.description ? ` — ${t.description}` : ''}</option>)}
+                            </select>
+                        </label>
+                        <label className="md:col-span-2 text-xs font-bold text-slate-600 uppercase">
+                            Ce qui change
+                            <input value={description} onChange={e => setDescription(e.target.value)} placeholder="Ex. réponses plus courtes, tableau systématique" className="mt-1 w-full text-sm font-normal normal-case border border-slate-200 rounded-lg px-3 py-2" />
+                        </label>
+                    </div>
+                    <textarea
+                        value={text}
+                        onChange={e => setText(e.target.value)}
+                        rows={18}
+                        className="w-full font-mono text-xs border border-slate-200 rounded-lg p-3 focus:ring-2 focus:ring-brand-500 outline-none"
+                        aria-label="Texte du prompt"
+                    />
+                    <p className="text-xs text-slate-500">
+                        Emplacements disponibles : {PROMPT_PLACEHOLDERS.map(p => `{{${p}}}`).join(', ')}. {'{{financialBlock}}'} insère les données du dossier et les règles d'usage des outils.
+                    </p>
+                    {errors.length > 0 && (
+                        <ul className="text-xs text-red-600 font-semibold list-disc pl-5">{errors.map(e => <li key={e}>{e}</li>)}</ul>
+                    )}
+                    {error && <p className="text-xs text-red-600 font-semibold">{error}</p>}
+                </div>
+                <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-slate-100">
+                    <p className="text-xs text-slate-500">Créée en brouillon : elle ne reçoit des conversations qu'une fois du trafic attribué.</p>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || errors.length > 0}
+                        className="flex items-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 transition text-sm font-bold disabled:opacity-50"
+                    >
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Enregistrer {version}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Versions du prompt système : avis par version sur la période, répartition du trafic A/B
+ * et promotion de la version gagnante (administrateurs uniquement).
+ */
+const PromptVersionsPanel: React.FC<PromptVersionsPanelProps> = ({ feedback, isAdmin }) => {
+    const confirm = useConfirmDialog();
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+    const [weights, setWeights] = useState<Record<string, number>>({});
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [showNew, setShowNew] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => subscribeToPromptTemplates(items => setTemplates(items.sort(versionOrder))), []);
+
+    const buckets = useMemo(() => Object.fromEntries(feedbackByPromptVersion(feedback).map(b => [b.key, b])), [feedback]);
+    const shares = useMemo(() => trafficShares(templates), [templates]);
+    const pending = useMemo(() => trafficUpdates(templates, weights), [templates, weights]);
+    const me = auth.currentUser?.email || 'unknown';
+
+    const apply = async (updates: ReturnType<typeof trafficUpdates>) => {
+        setIsSaving(true);
+        try {
+            await updatePromptTraffic(updates, me);
+            setWeights({});
+        } catch (e: any) {
+            await confirm({ title: 'Erreur', message: e.message, variant: 'danger', confirmLabel: 'OK', showCancel: false });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handlePromote = async (template: PromptTemplate) => {
+        const total = buckets[template.id]?.total || 0;
+        const ok = await confirm({
+            title: `Promouvoir ${template.id} ?`,
+            message: `${template.id} recevra toutes les conversations ; les autres versions actives seront retirées.`
+                + (total < MIN_FEEDBACK_TO_PROMOTE ? `\n\nAttention : seulement ${total} avis sur la période, la comparaison est peu fiable.` : ''),
+            variant: total < MIN_FEEDBACK_TO_PROMOTE ? 'danger' : 'info',
+            confirmLabel: 'Promouvoir',
+        });
+        if (ok) await apply(promotionUpdates(templates, template.id));
+    };
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b border-slate-100">
+                <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                    <FileText className="w-4 h-4 text-brand-500" /> Versions du prompt système
+                </h3>
+                {isAdmin && (
+                    <div className="flex items-center gap-2">
+                        {pending.length > 0 && (
+                            <button
+                                onClick={() => apply(pending)}
+                                disabled={isSaving}
+                                className="flex items-center gap-2 px-3 py-1.5 bg-brand-600 text-white rounded-lg hover:bg-brand-700 transition text-xs font-bold disabled:opacity-50"
+                            >
+                                {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />} Appliquer la répartition
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setShowNew(true)}
+                            disabled={templates.length === 0}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-white border border-brand-200 text-brand-700 rounded-lg hover:bg-brand-50 transition text-xs font-bold shadow-sm disabled:opacity-50"
+                        >
+                            <Plus className="w-3.5 h-3.5" /> Nouvelle version
+                        </button>
+                    </div>
+                )}
+            </div>
+            {templates.length === 0 ? (
+                <p className="px-4 py-6 text-xs text-slate-400 text-center">La version d'origine (v1) est enregistrée à la première question posée au Conseiller IA.</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-xs text-slate-500 uppercase tracking-wide">
+                            <th className="text-left font-semibold px-4 py-2">Version</th>
+                            <th className="text-left font-semibold px-2 py-2">Statut</th>
+                            <th className="text-right font-semibold px-2 py-2">Trafic</th>
+                            <th className="text-right font-semibold px-2 py-2"><ThumbsUp className="w-3.5 h-3.5 inline" /></th>
+                            <th className="text-right font-semibold px-2 py-2"><ThumbsDown className="w-3.5 h-3.5 inline" /></th>
+                            <th className="text-right font-semibold px-2 py-2">Satisf.</th>
+                            {isAdmin && <th className="px-4 py-2"></th>}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {templates.map(t => {
+                            const b = buckets[t.id];
+                            return (
+                                <React.Fragment key={t.id}>
+                                    <tr className="border-t border-slate-50 align-middle">
+                                        <td className="px-4 py-2">
+                                            <button onClick={() => setExpanded(expanded === t.id ? null : t.id)} className="font-mono font-bold text-brand-700 hover:underline">{t.id}</button>
+                                            {t.description && <span className="ml-2 text-xs text-slate-500">{t.description}</span>}
+                                        </td>
+                                        <td className="px-2 py-2">
+                                            <span className={`px-1.5 py-0.5 rounded text-xs font-bold ${STATUS_BADGE[t.status]}`}>{PROMPT_STATUS_LABELS[t.status]}</span>
+                                        </td>
+                                        <td className="px-2 py-2 text-right tabular-nums">
+                                            {isAdmin && t.status !== 'retired' ? (
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    value={weights[t.id] ?? t.weight}
+                                                    onChange={e => setWeights(prev => ({ ...prev, [t.id]: Number(e.target.value) || 0 }))}
+                                                    className="w-16 text-right text-xs border border-slate-200 rounded px-1.5 py-0.5"
+                                                    aria-label={`Poids de ${t.id}`}
+                                                    title={shares[t.id] !== undefined ? `${shares[t.id]} % des dossiers` : 'Aucun trafic'}
+                                                />
+                                            ) : (
+                                                <span className="text-slate-600">{shares[t.id] !== undefined ? `${shares[t.id]} %` : '—'}</span>
+                                            )}
+                                        </td>
+                                        <td className="px-2 py-2 text-right tabular-nums text-emerald-700">{b?.up ?? 0}</td>
+                                        <td className="px-2 py-2 text-right tabular-nums text-red-700">{b?.down ?? 0}</td>
+                                        <td className="px-2 py-2 text-right tabular-nums font-bold text-slate-700">{b?.satisfaction == null ? '—' : `${b.satisfaction} %`}</td>
+                                        {isAdmin && (
+                                            <td className="px-4 py-2 text-right">
+                                                {t.status !== 'retired' && !(t.status === 'active' && shares[t.id] === 100) && (
+                                                    <button onClick={() => handlePromote(t)} disabled={isSaving} className="text-xs font-semibold text-amber-700 hover:underline inline-flex items-center gap-1 disabled:opacity-50">
+                                                        <Trophy className="w-3 h-3" /> Promouvoir
+                                                    </button>
+                                                )}
+                                            </td>
+                                        )}
+                                    </tr>
+                                    {expanded === t.id && (
+                                        <tr>
+                                            <td colSpan={isAdmin ? 7 : 6} className="px-4 pb-3">
+                                                <pre className="text-xs text-slate-600 bg-slate-50 rounded-lg p-3 max-h-64 overflow-y-auto whitespace-pre-wrap">{t.template}</pre>
+                                                <p className="text-xs text-slate-400 mt-1">
+                                                    Créée par {t.createdBy}{t.basedOn ? ` à partir de ${t.basedOn}` : ''}
+                                                </p>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            )}
+            {showNew && <NewPromptVersionModal templates={templates} onClose={() => setShowNew(false)} />}
+        </div>
+    );
+};
+
+export default PromptVersionsPanel;
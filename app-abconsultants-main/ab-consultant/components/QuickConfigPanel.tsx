@@ -3,9 +3,22 @@ import React, { useState, useEffect } from 'react';
 import {
     Settings, Building, ShoppingBag, Droplets, PieChart, Save,
     Plus, Trash2, Percent, Power, Archive, ChevronDown, ChevronUp,
-    Phone, MapPin, User, Mail, ShieldCheck, Sparkles
+    Phone, MapPin, User, Mail, ShieldCheck, Sparkles, BellRing
 } from 'lucide-react';
-import { Client, ProfitCenter } from '../types';
+import { Client, ProfitCenter, AiUsage, DEFAULT_AI_MONTHLY_QUOTA, AlertRulesConfig, AlertRulesOverride, DEFAULT_ALERT_RULES } from '../types';
+import { getAiUsage, getCabinetAlertRules } from '../services/dataService';
+import { mergeAlertRules } from '../services/alertRulesService';
+import AlertRulesEditor from './AlertRulesEditor';
+
+const currentUsagePeriod = () => {
+    const now = new Date();
+    return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+const formatUsagePeriod = (period: string) => {
+    const [year, month] = period.split('-').map(Number);
+    return new Date(year, month - 1, 1).toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' });
+};
 
 interface QuickConfigPanelProps {
     client: Client;
@@ -14,6 +27,8 @@ interface QuickConfigPanelProps {
     onToggleFuelModule: () => void;
     onToggleCommercialMargin: () => void;
     onToggleAiAssistant?: () => void;
+    onUpdateAiQuota?: (quota: number) => Promise<void>;
+    onUpdateAlertRules?: (rules: AlertRulesOverride) => Promise<void>;
     onUpdateClientStatus: (client: Client, status: 'active' | 'inactive') => void;
 }
 
@@ -24,6 +39,8 @@ const QuickConfigPanel: React.FC<QuickConfigPanelProps> = ({
     onToggleFuelModule,
     onToggleCommercialMargin,
     onToggleAiAssistant,
+    onUpdateAiQuota,
+    onUpdateAlertRules,
     onUpdateClientStatus
 }) => {
     const [expandedSection, setExpandedSection] = useState<string | null>('identity');
@@ -31,12 +48,38 @@ const QuickConfigPanel: React.FC<QuickConfigPanelProps> = ({
     const [profitCenters, setProfitCenters] = useState<ProfitCenter[]>(client.profitCenters || []);
     const [isSaving, setIsSaving] = useState(false);
     const [savedFeedback, setSavedFeedback] = useState(false);
+    const [aiUsage, setAiUsage] = useState<AiUsage[]>([]);
+    const [aiQuotaInput, setAiQuotaInput] = useState<string>(String(client.settings?.aiMonthlyQuota ?? DEFAULT_AI_MONTHLY_QUOTA));
+    const [cabinetAlertRules, setCabinetAlertRules] = useState<AlertRulesConfig | null>(null);
 
     useEffect(() => {
         setEditableClient(client);
         setProfitCenters(client.profitCenters || []);
+        setAiQuotaInput(String(client.settings?.aiMonthlyQuota ?? DEFAULT_AI_MONTHLY_QUOTA));
     }, [client]);
 
+    useEffect(() => {
+        if (expandedSection !== 'modules' || !client.settings?.enableAiAssistant) return;
+        let cancelled = false;
+        getAiUsage(client.id).then(usage => { if (!cancelled) setAiUsage(usage); });
+        return () => { cancelled = true; };
+    }, [client.id, client.settings?.enableAiAssistant, expandedSection]);
+
+    useEffect(() => {
+        if (expandedSection !== 'alertRules' || cabinetAlertRules) return;
+        let cancelled = false;
+        getCabinetAlertRules().then(rules => { if (!cancelled) setCabinetAlertRules(mergeAlertRules(DEFAULT_ALERT_RULES, rules)); });
+        return () => { cancelled = true; };
+    }, [expandedSection, cabinetAlertRules]);
+
+    const alertOverrideCount = Object.keys(client.settings?.alertRules || {}).length;
+
+    const aiQuota = client.settings?.aiMonthlyQuota ?? DEFAULT_AI_MONTHLY_QUOTA;
+    // Seules les requêtes du client entrent dans son quota (celles des consultants sont suivies à part)
+    const currentUsage = aiUsage.find(u => u.period === currentUsagePeriod());
+    const aiUsedThisMonth = Math.max(0, (currentUsage?.count || 0) - (currentUsage?.consultantCount || 0));
+    const aiUsagePercent = aiQuota > 0 ? Math.min(100, Math.round((aiUsedThisMonth / aiQuota) * 100)) : 100;
+
     const toggleSection = (section: string) => {
         setExpandedSection(expandedSection === section ? null : section);
     };
@@ -49,6 +92,16 @@ const QuickConfigPanel: React.FC<QuickConfigPanelProps> = ({
         setTimeout(() => setSavedFeedback(false), 2000);
     };
 
+    const handleSaveAiQuota = async () => {
+        if (!onUpdateAiQuota) return;
+        const quota = Math.max(0, Math.floor(Number(aiQuotaInput) || 0));
+        setIsSaving(true);
+        await onUpdateAiQuota(quota);
+        setIsSaving(false);
+        setSavedFeedback(true);
+        setTimeout(() => setSavedFeedback(false), 2000);
+    };
+
     const handleSaveProfitCenters = () => {
         onUpdateProfitCenters(profitCenters);
         setSavedFeedback(true);
@@ -227,6 +280,53 @@ const QuickConfigPanel: React.FC<QuickConfigPanelProps> = ({
                                 </button>
                             </div>
                         )}
+
+                        {/* Consommation IA du dossier (quota mensuel) */}
+                        {onToggleAiAssistant && client.settings?.enableAiAssistant && (
+                            <div className="p-2 rounded-lg border border-paper-200 space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs font-bold text-slate-500 uppercase">Consommation ce mois</span>
+                                    <span className={`text-xs font-mono font-bold ${aiUsagePercent >= 90 ? 'text-red-600' : 'text-paper-800'}`}>
+                                        {aiUsedThisMonth} / {aiQuota}
+                                    </span>
+                                </div>
+                                <div className="h-1.5 bg-paper-100 rounded-full overflow-hidden">
+                                    <div
+                                        className={`h-full rounded-full ${aiUsagePercent >= 90 ? 'bg-red-500' : aiUsagePercent >= 70 ? 'bg-amber-500' : 'bg-brand-600'}`}
+                                        style={{ width: `${aiUsagePercent}%` }}
+                                    />
+                                </div>
+                                {aiUsage.filter(u => u.period !== currentUsagePeriod()).length > 0 && (
+                                    <div className="flex flex-wrap gap-1">
+                                        {aiUsage.filter(u => u.period !== currentUsagePeriod()).map(u => (
+                                            <span key={u.id} className="text-xs text-paper-500 bg-paper-50 px-1.5 py-0.5 rounded">
+                                                {formatUsagePeriod(u.period)} : <span className="font-mono font-bold">{u.count}</span>
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                                {onUpdateAiQuota && (
+                                    <div className="flex items-center gap-2">
+                                        <label className="text-xs font-bold text-slate-400 uppercase whitespace-nowrap">Quota / mois</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={aiQuotaInput}
+                                            onChange={e => setAiQuotaInput(e.target.value)}
+                                            className="flex-1 min-w-0 px-2 py-1 text-xs border border-slate-200 rounded-lg font-mono text-slate-700 focus:ring-1 focus:ring-brand-500 outline-none"
+                                        />
+                                        <button
+                                            onClick={handleSaveAiQuota}
+                                            disabled={isSaving || Number(aiQuotaInput) === aiQuota}
+                                            aria-label="Enregistrer le quota IA"
+                                            className="p-1.5 bg-brand-600 text-white rounded-lg hover:bg-brand-700 transition disabled:opacity-40"
+                                        >
+                                            <Save className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
@@ -283,6 +383,33 @@ const QuickConfigPanel: React.FC<QuickConfigPanelProps> = ({
                 )}
             </div>
 
+            {/* === RÈGLES D'ALERTE === */}
+            {onUpdateAlertRules && (
+                <div className="border border-paper-200 rounded-xl overflow-hidden bg-white shadow-paper-sm">
+                    <SectionHeader
+                        id="alertRules"
+                        icon={<BellRing className="w-4 h-4 text-red-600" />}
+                        title="Règles d'Alerte"
+                        subtitle={alertOverrideCount > 0 ? `${alertOverrideCount} règle${alertOverrideCount > 1 ? 's' : ''} personnalisée${alertOverrideCount > 1 ? 's' : ''}` : 'Règles du cabinet'}
+                        iconBg="bg-red-50"
+                    />
+                    {expandedSection === 'alertRules' && (
+                        <div className="px-3 pb-3 animate-in slide-in-from-top-2 duration-200">
+                            {cabinetAlertRules ? (
+                                <AlertRulesEditor
+                                    inherited={cabinetAlertRules}
+                                    override={client.settings?.alertRules}
+                                    inheritedLabel="du cabinet"
+                                    onSave={onUpdateAlertRules}
+                                />
+                            ) : (
+                                <div className="text-center py-4 text-paper-400 text-xs">Chargement…</div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* === STATUT === */}
             <div className="border border-paper-200 rounded-xl overflow-hidden bg-white shadow-paper-sm">
                 <SectionHeader
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { X, History, Loader2, RotateCcw, FilePlus, Edit2, ArrowRight, Trash2 } from 'lucide-react';
+import { FinancialRecord, ProfitCenter, RecordFieldChange, RecordRevision } from '../types';
+import { subscribeToRecordRevisions } from '../services/dataService';
+import { useConfirmDialog } from '../contexts/ConfirmContext';
+
+interface RecordRevisionsPanelProps {
+    record: FinancialRecord | null;
+    profitCenters?: ProfitCenter[];
+    onClose: () => void;
+    onRestore: (revision: RecordRevision) => Promise<void>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    'isValidated': 'Validé',
+    'isPublished': 'Publié',
+    'isSubmitted': 'Transmis',
+    'submittedBy': 'Saisi par',
+    'expertComment': 'Commentaire expert',
+    'revenue.goods': 'CA marchandises',
+    'revenue.services': 'CA services',
+    'revenue.total': 'CA total',
+    'revenue.objective': 'Objectif CA',
+    'fuel.volume': 'Volume carburant',
+    'fuel.objective': 'Objectif carburant',
+    'margin.rate': 'Taux de marge',
+    'margin.total': 'Marge totale',
+    'margin.theoretical': 'Marge théorique',
+    'expenses.salaries': 'Masse salariale',
+    'expenses.hoursWorked': 'Heures travaillées',
+    'expenses.overtimeHours': 'Heures sup.',
+    'bfr.receivables.clients': 'Créances clients',
+    'bfr.receivables.state': 'Créances État',
+    'bfr.receivables.social': 'Créances sociales',
+    'bfr.receivables.other': 'Autres créances',
+    'bfr.receivables.total': 'Total créances',
+    'bfr.stock.goods': 'Stock marchandises',
+    'bfr.stock.floating': 'Stock flottant',
+    'bfr.stock.total': 'Total stocks',
+    'bfr.debts.suppliers': 'Dettes fournisseurs',
+    'bfr.debts.state': 'Dettes État',
+    'bfr.debts.social': 'Dettes sociales',
+    'bfr.debts.salaries': 'Dettes salaires',
+    'bfr.debts.other': 'Autres dettes',
+    'bfr.debts.total': 'Total dettes',
+    'bfr.total': 'BFR net',
+    'cashFlow.active': 'Trésorerie active',
+    'cashFlow.passive': 'Trésorerie passive',
+    'cashFlow.treasury': 'Trésorerie nette',
+};
+
+const FUEL_LABELS: Record<string, string> = { gasoil: 'Gasoil', sansPlomb: 'Sans plomb', gnr: 'GNR' };
+
+const ACTION_CONFIG: Record<RecordRevision['action'], { label: string; icon: React.ReactNode; className: string }> = {
+    create: { label: 'Création', icon: <FilePlus className="w-3 h-3" />, className: 'bg-emerald-100 text-emerald-700' },
+    update: { label: 'Modification', icon: <Edit2 className="w-3 h-3" />, className: 'bg-blue-100 text-blue-700' },
+    restore: { label: 'Restauration', icon: <RotateCcw className="w-3 h-3" />, className: 'bg-amber-100 text-amber-700' },
+    delete: { label: 'Suppression', icon: <Trash2 className="w-3 h-3" />, className: 'bg-red-100 text-red-700' },
+};
+
+const labelForPath = (path: string, profitCenters: ProfitCenter[]): string => {
+    if (FIELD_LABELS[path]) return FIELD_LABELS[path];
+    const breakdown = path.match(/^(revenue|margin)\.breakdown\.(.+)$/);
+    if (breakdown) {
+        const pcName = profitCenters.find(pc => pc.id === breakdown[2])?.name || breakdown[2];
+        return `${breakdown[1] === 'revenue' ? 'CA' : 'Marge'} · ${pcName}`;
+    }
+    const fuel = path.match(/^fuel\.details\.(\w+)\.(volume|objective)$/);
+    if (fuel) return `${FUEL_LABELS[fuel[1]] || fuel[1]} · ${fuel[2] === 'volume' ? 'volume' : 'objectif'}`;
+    return path;
+};
+
+const formatValue = (change: RecordFieldChange, side: 'from' | 'to'): string => {
+    const v = change[side];
+    if (v === null) return '—';
+    if (Array.isArray(v)) return `${v.length} élément${v.length > 1 ? 's' : ''}`;
+    if (typeof v === 'boolean') return v ? 'Oui' : 'Non';
+    if (typeof v === 'number') {
+        if (change.path === 'margin.rate') return `${v.toLocaleString('fr-FR', { maximumFractionDigits: 1 })} %`;
+        if (change.path.startsWith('fuel.')) return `${new Intl.NumberFormat('fr-FR').format(v)} L`;
+        if (change.path.startsWith('expenses.hours') || change.path === 'expenses.overtimeHours') return `${v} h`;
+        return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(v);
+    }
+    return v.length > 80 ? `${v.slice(0, 80)}…` : v;
+};
+
+const formatDate = (ts: any): string => {
+    if (!ts) return '';
+    const date = ts.toDate ? ts.toDate() : new Date(ts);
+    return date.toLocaleString('fr-FR', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+const RecordRevisionsPanel: React.FC<RecordRevisionsPanelProps> = ({ record, profitCenters = [], onClose, onRestore }) => {
+    const [revisions, setRevisions] = useState<RecordRevision[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+    const confirm = useConfirmDialog();
+
+    useEffect(() => {
+        if (!record) return;
+        setIsLoading(true);
+        return subscribeToRecordRevisions(record.id, (items) => {
+            setRevisions(items);
+            setIsLoading(false);
+        });
+    }, [record]);
+
+    if (!record) return null;
+
+    const handleRestore = async (revision: RecordRevision) => {
+        const ok = await confirm({
+            title: 'Restaurer cette version ?',
+            message: `Les données de ${record.month} ${record.year} seront remplacées par la version du ${formatDate(revision.createdAt)}.\nLa restauration est elle-même tracée dans l'historique.`,
+            variant: 'default',
+            confirmLabel: 'Restaurer',
+        });
+        if (!ok) return;
+        setRestoringId(revision.id);
+        try {
+            await onRestore(revision);
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={(e) => { if (e.target === e.currentTarget && !restoringId) onClose(); }}>
+            <div className="bg-white rounded-2xl shadow-paper-xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-paper-200 bg-paper-50">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 rounded-lg">
+                            <History className="w-5 h-5 text-brand-700" />
+                        </div>
+                        <div>
+                            <p className="eyebrow text-paper-500 mb-0.5">{record.month} {record.year}</p>
+                            <h2 className="font-display text-lg font-semibold text-paper-900 leading-tight">Historique des modifications</h2>
+                        </div>
+                    </div>
+                    <button onClick={onClose} disabled={!!restoringId} aria-label="Fermer" title="Fermer" className="p-2 text-paper-400 hover:text-paper-700 hover:bg-paper-100 rounded-lg transition-colors disabled:opacity-30">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center py-12 text-paper-400">
+                            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                            <span className="text-sm">Chargement de l'historique…</span>
+                        </div>
+                    ) : revisions.length === 0 ? (
+                        <div className="p-10 text-center">
+                            <div className="w-14 h-14 mx-auto rounded-full bg-paper-100 border border-paper-200 flex items-center justify-center mb-4">
+                                <History className="w-6 h-6 text-paper-400" />
+                            </div>
+                            <p className="font-display text-lg font-semibold text-paper-900 mb-1">Aucune révision enregistrée</p>
+                            <p className="text-sm text-paper-500 leading-relaxed">Les prochaines modifications de ce rapport seront tracées ici.</p>
+                        </div>
+                    ) : (
+                        revisions.map((revision, idx) => {
+                            const action = ACTION_CONFIG[revision.action] || ACTION_CONFIG.update;
+                            const isCurrent = idx === 0;
+                            return (
+                                <div key={revision.id} className="border border-paper-200 rounded-xl overflow-hidden shadow-paper-sm">
+                                    <div className="flex items-center justify-between gap-3 px-4 py-3 bg-paper-50 border-b border-paper-200">
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-bold ${action.className}`}>
+                                                {action.icon} {action.label}
+                                            </span>
+                                            <span className="text-xs font-mono text-paper-600">{formatDate(revision.createdAt)}</span>
+                                            {revision.authorEmail && (
+                                                <span className="text-xs text-paper-500 truncate">· {revision.authorEmail}</span>
+                                            )}
+                                        </div>
+                                        {isCurrent ? (
+                                            <span className="text-xs font-bold text-emerald-600">Version actuelle</span>
+                                        ) : (
+                                            <button
+                                                onClick={() => handleRestore(revision)}
+                                                disabled={!!restoringId}
+                                                className="px-3 py-1 text-xs font-bold text-brand-700 bg-white border border-brand-200 rounded-lg hover:bg-brand-50 transition flex items-center gap-1.5 disabled:opacity-50"
+                                            >
+                                                {restoringId === revision.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                                                Restaurer
+                                            </button>
+                                        )}
+                                    </div>
+                                    {revision.changes.length === 0 ? (
+                                        <p className="px-4 py-3 text-xs text-paper-500">Aucun champ modifié.</p>
+                                    ) : (
+                                        <table className="min-w-full text-xs">
+                                            <thead>
+                                                <tr className="text-paper-500 uppercase">
+                                                    <th className="px-4 py-2 text-left font-bold">Champ</th>
+                                                    <th className="px-4 py-2 text-right font-bold">Avant</th>
+                                                    <th className="w-6" />
+                                                    <th className="px-4 py-2 text-right font-bold">Après</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {revision.changes.map(change => (
+                                                    <tr key={change.path} className="border-t border-paper-100">
+                                                        <td className="px-4 py-1.5 text-paper-700 font-medium">{labelForPath(change.path, profitCenters)}</td>
+                                                        <td className="px-4 py-1.5 text-right font-mono text-paper-500 line-through decoration-paper-300">{formatValue(change, 'from')}</td>
+                                                        <td className="text-center text-paper-300"><ArrowRight className="w-3 h-3 inline" /></td>
+                                                        <td className="px-4 py-1.5 text-right font-mono font-bold text-paper-900">{formatValue(change, 'to')}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RecordRevisionsPanel;
@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo } from 'react';
-import { LayoutDashboard, PenLine, Settings, ClipboardList, Users, Briefcase, Eye, EyeOff, LogOut, ChevronRight, ShieldCheck, UserCircle, ChevronDown, ChevronUp, MessageSquare, PieChart, Search, HelpCircle, X, BookOpen, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
+import { LayoutDashboard, PenLine, Settings, ClipboardList, Users, Briefcase, Eye, EyeOff, LogOut, ChevronRight, ShieldCheck, UserCircle, ChevronDown, ChevronUp, MessageSquare, PieChart, Search, HelpCircle, X, BookOpen, PanelLeftClose, PanelLeftOpen, Sparkles } from 'lucide-react';
 import { View, Client, APP_VERSION } from '../types';
 
 interface SidebarProps {
@@ -254,6 +254,7 @@ const Sidebar: React.FC<SidebarProps> = ({
 
                         <NavItem view={View.Clients} icon={Users} label="Portefeuille Clients" tooltip="Gérer tous les dossiers clients" />
                         <NavItem view={View.Messages} icon={MessageSquare} label="Messagerie" badge={unreadCount} tooltip="Messagerie interne avec les clients" />
+                        <NavItem view={View.AiQuality} icon={Sparkles} label="Qualité IA" tooltip="Avis des clients sur le Conseiller IA" />
                         {isSuperAdmin && (
                             <div className="mt-1">
                                 <NavItem view={View.Team} icon={Briefcase} label="Mon Équipe" tooltip="Gestion des collaborateurs du cabinet" />
@@ -0,0 +1,310 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Area, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Landmark, AlertTriangle, SlidersHorizontal, Save, Trash2, Plus, X, Loader2 } from 'lucide-react';
+import { Client, FinancialRecord, ForecastAssumptions, ForecastOneOffFlow, ForecastScenario } from '../types';
+import { MONTH_ORDER, getForecastScenarios, saveForecastScenario, deleteForecastScenario } from '../services/dataService';
+import { buildTreasuryForecast, deriveForecastAssumptions, FORECAST_WEEKS } from '../services/forecastService';
+import { useConfirmDialog } from '../contexts/ConfirmContext';
+
+interface TreasuryForecastPanelProps {
+    records: FinancialRecord[];
+    client: Client;
+    userRole: 'ab_consultant' | 'client';
+}
+
+const formatEuro = (v: number) =>
+    new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(v);
+
+const formatDate = (iso: string) => iso.split('-').reverse().slice(0, 2).join('/');
+
+const ASSUMPTION_FIELDS: { key: keyof Omit<ForecastAssumptions, 'oneOffFlows'>; label: string; suffix: string }[] = [
+    { key: 'dso', label: 'DSO clients', suffix: 'j' },
+    { key: 'dpo', label: 'DPO fournisseurs', suffix: 'j' },
+    { key: 'monthlyRevenue', label: 'CA mensuel', suffix: '€' },
+    { key: 'monthlyPurchases', label: 'Achats mensuels', suffix: '€' },
+    { key: 'monthlySalaries', label: 'Salaires nets', suffix: '€' },
+    { key: 'monthlySocial', label: 'Charges sociales', suffix: '€' },
+    { key: 'socialDueDay', label: 'Échéance sociale', suffix: 'le' },
+    { key: 'monthlyTax', label: 'TVA / impôts', suffix: '€' },
+    { key: 'taxDueDay', label: 'Échéance fiscale', suffix: 'le' },
+];
+
+const ForecastTooltip = ({ active, payload }: any) => {
+    if (!active || !payload || !payload.length) return null;
+    const w = payload[0].payload;
+    const rows: [string, number][] = [
+        ['Encaissements clients', w.collections],
+        ['Fournisseurs', -w.supplierPayments],
+        ['Salaires', -w.salaries],
+        ['Social', -w.social],
+        ['Fiscal', -w.tax],
+        ['Ponctuels', w.oneOff],
+    ];
+    return (
+        <div className="bg-white p-3 rounded-lg shadow-paper-md border border-paper-200 text-xs min-w-[200px]">
+            <p className="font-bold text-paper-800 mb-1">Semaine du {formatDate(w.start)} au {formatDate(w.end)}</p>
+            {rows.filter(([, v]) => v !== 0).map(([label, v]) => (
+                <div key={label} className="flex justify-between gap-4 text-paper-600">
+                    <span>{label}</span>
+                    <span className={`font-mono ${v < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>{formatEuro(v)}</span>
+                </div>
+            ))}
+            <div className="flex justify-between gap-4 border-t border-paper-100 mt-1 pt-1 font-bold">
+                <span>Trésorerie fin de semaine</span>
+                <span className={`font-mono ${w.treasury < 0 ? 'text-rose-600' : 'text-paper-900'}`}>{formatEuro(w.treasury)}</span>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Prévisionnel de trésorerie sur 13 semaines, amorcé par le dernier mois saisi.
+ * Le consultant ajuste les hypothèses et les enregistre en scénarios nommés ; le client les consulte.
+ */
+const TreasuryForecastPanel: React.FC<TreasuryForecastPanelProps> = ({ records, client, userRole }) => {
+    const isConsultant = userRole === 'ab_consultant';
+    const confirm = useConfirmDialog();
+
+    const sortedRecords = useMemo(
+        () => [...records].sort((a, b) => a.year - b.year || MONTH_ORDER.indexOf(a.month) - MONTH_ORDER.indexOf(b.month)),
+        [records]
+    );
+    const seed = sortedRecords[sortedRecords.length - 1];
+    const defaultAssumptions = useMemo(() => deriveForecastAssumptions(sortedRecords), [sortedRecords]);
+
+    const [scenarios, setScenarios] = useState<ForecastScenario[]>([]);
+    const [selectedScenarioId, setSelectedScenarioId] = useState('');
+    const [assumptions, setAssumptions] = useState<ForecastAssumptions>(defaultAssumptions);
+    const [showAssumptions, setShowAssumptions] = useState(false);
+    const [scenarioName, setScenarioName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getForecastScenarios(client.id).then(list => { if (!cancelled) setScenarios(list); });
+        return () => { cancelled = true; };
+    }, [client.id]);
+
+    // Sans scénario sélectionné, les hypothèses suivent les derniers chiffres saisis
+    useEffect(() => {
+        if (!selectedScenarioId) setAssumptions(defaultAssumptions);
+    }, [defaultAssumptions, selectedScenarioId]);
+
+    const forecast = useMemo(() => seed ? buildTreasuryForecast(seed, assumptions) : null, [seed, assumptions]);
+
+    if (!seed || !forecast) return null;
+
+    const selectScenario = (id: string) => {
+        setSelectedScenarioId(id);
+        setError(null);
+        const scenario = scenarios.find(s => s.id === id);
+        setAssumptions(scenario ? { ...defaultAssumptions, ...scenario.assumptions } : defaultAssumptions);
+        setScenarioName(scenario?.name || '');
+    };
+
+    const setField = (key: keyof Omit<ForecastAssumptions, 'oneOffFlows'>, value: number) =>
+        setAssumptions(prev => ({ ...prev, [key]: value }));
+
+    const updateFlow = (id: string, patch: Partial<ForecastOneOffFlow>) =>
+        setAssumptions(prev => ({ ...prev, oneOffFlows: prev.oneOffFlows.map(f => f.id === id ? { ...f, ...patch } : f) }));
+
+    const addFlow = () => setAssumptions(prev => ({
+        ...prev,
+        oneOffFlows: [...prev.oneOffFlows, { id: `flow-${Date.now()}`, label: '', date: forecast.openingDate, amount: 0 }],
+    }));
+
+    const removeFlow = (id: string) => setAssumptions(prev => ({ ...prev, oneOffFlows: prev.oneOffFlows.filter(f => f.id !== id) }));
+
+    const handleSave = async () => {
+        const name = scenarioName.trim();
+        if (!name) { setError('Nommez le scénario avant de l\'enregistrer.'); return; }
+        const existing = scenarios.find(s => s.name.toLowerCase() === name.toLowerCase());
+        setIsSaving(true);
+        setError(null);
+        try {
+            const id = await saveForecastScenario({ id: existing?.id, clientId: client.id, name, assumptions });
+            setScenarios(await getForecastScenarios(client.id));
+            setSelectedScenarioId(id);
+        } catch (e: any) {
+            setError(e?.message || 'Erreur lors de l\'enregistrement.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        const scenario = scenarios.find(s => s.id === selectedScenarioId);
+        if (!scenario) return;
+        const ok = await confirm({
+            title: 'Supprimer ce scénario ?',
+            message: `Le scénario « ${scenario.name} » sera supprimé pour ce dossier.`,
+            variant: 'danger',
+            confirmLabel: 'Supprimer',
+        });
+        if (!ok) return;
+        try {
+            await deleteForecastScenario(scenario.id);
+            setScenarios(prev => prev.filter(s => s.id !== scenario.id));
+            selectScenario('');
+        } catch (e: any) {
+            setError(e?.message || 'Erreur lors de la suppression.');
+        }
+    };
+
+    const negative = forecast.firstNegativeWeek;
+
+    return (
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-brand-100">
+            <div className="flex flex-wrap justify-between items-start gap-3 mb-4">
+                <div>
+                    <h3 className="font-display text-xl font-semibold text-paper-900 tracking-tight flex items-center gap-2">
+                        <Landmark className="w-4 h-4 text-brand-600" />
+                        Prévisionnel de trésorerie · {FORECAST_WEEKS} semaines
+                    </h3>
+                    <p className="text-xs text-paper-500 mt-0.5">
+                        Base : {seed.month} {seed.year} · trésorerie {formatEuro(forecast.openingTreasury)}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2 print:hidden">
+                    <select
+                        value={selectedScenarioId}
+                        onChange={e => selectScenario(e.target.value)}
+                        className="text-xs font-bold border border-paper-200 rounded-lg px-2 py-1.5 bg-white focus:ring-1 focus:ring-brand-500 outline-none"
+                        aria-label="Scénario"
+                    >
+                        <option value="">Hypothèses par défaut</option>
+                        {scenarios.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                    {isConsultant && (
+                        <button
+                            onClick={() => setShowAssumptions(v => !v)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg border transition-all ${showAssumptions ? 'bg-brand-900 text-white border-brand-800' : 'bg-white text-brand-600 border-brand-200 hover:bg-brand-50'}`}
+                        >
+                            <SlidersHorizontal className="w-3.5 h-3.5" /> Hypothèses
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {negative && (
+                <div className="flex items-start gap-2 mb-4 px-3 py-2 rounded-lg bg-rose-50 border border-rose-200 text-rose-700 text-xs font-medium">
+                    <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                    <span>
+                        Trésorerie négative prévue la semaine du {formatDate(negative.start)} ({formatEuro(negative.treasury)}).
+                        Point bas sur la période : <strong>{formatEuro(forecast.minTreasury)}</strong>.
+                    </span>
+                </div>
+            )}
+
+            <div className="h-[250px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={forecast.weeks} margin={{ top: 5, right: 5, left: -10, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                        <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#64748b' }} dy={5} interval={1} />
+                        <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#64748b' }} tickFormatter={(val: any) => { const v = Number(val); return !isNaN(v) && Math.abs(v) >= 1000 ? `${(v / 1000).toFixed(0)}k` : String(val); }} />
+                        <Tooltip content={<ForecastTooltip />} cursor={{ fill: '#f8fafc' }} />
+                        <ReferenceLine y={0} stroke="#e11d48" strokeDasharray="4 4" />
+                        <Bar dataKey="net" fill="#cbd5e1" radius={[3, 3, 0, 0]} barSize={12} name="Flux net" />
+                        <Area type="monotone" dataKey="treasury" stroke="#0f172a" fill="#0f172a" fillOpacity={0.08} strokeWidth={2} name="Trésorerie" />
+                    </ComposedChart>
+                </ResponsiveContainer>
+            </div>
+
+            {isConsultant && showAssumptions && (
+                <div className="mt-5 pt-4 border-t border-paper-100 space-y-4 print:hidden">
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+                        {ASSUMPTION_FIELDS.map(f => (
+                            <label key={f.key} className="flex flex-col gap-1">
+                                <span className="text-xs font-bold text-paper-500 uppercase">{f.label}</span>
+                                <div className="flex items-center border border-paper-200 rounded-lg overflow-hidden focus-within:ring-1 focus-within:ring-brand-500">
+                                    {f.suffix === 'le' && <span className="pl-2 text-xs text-paper-400">le</span>}
+                                    <input
+                                        type="number"
+                                        value={assumptions[f.key] || 0}
+                                        min={f.suffix === 'le' ? 1 : undefined}
+                                        max={f.suffix === 'le' ? 31 : undefined}
+                                        onChange={e => setField(f.key, parseFloat(e.target.value) || 0)}
+                                        className="w-full px-2 py-1.5 text-xs text-right font-mono outline-none"
+                                    />
+                                    {f.suffix !== 'le' && <span className="pr-2 text-xs text-paper-400">{f.suffix}</span>}
+                                </div>
+                            </label>
+                        ))}
+                    </div>
+
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="text-xs font-bold text-paper-500 uppercase">Flux ponctuels</span>
+                            <button onClick={addFlow} className="flex items-center gap-1 text-xs font-bold text-brand-600 hover:text-brand-800">
+                                <Plus className="w-3.5 h-3.5" /> Ajouter
+                            </button>
+                        </div>
+                        {assumptions.oneOffFlows.length === 0 ? (
+                            <p className="text-xs text-paper-400">Aucun flux ponctuel (investissement, emprunt, remboursement de TVA…).</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {assumptions.oneOffFlows.map(f => (
+                                    <div key={f.id} className="flex items-center gap-2">
+                                        <input
+                                            type="date"
+                                            value={f.date}
+                                            onChange={e => updateFlow(f.id, { date: e.target.value })}
+                                            className="px-2 py-1.5 text-xs border border-paper-200 rounded-lg outline-none focus:ring-1 focus:ring-brand-500"
+                                        />
+                                        <input
+                                            type="text"
+                                            value={f.label}
+                                            placeholder="Libellé"
+                                            onChange={e => updateFlow(f.id, { label: e.target.value })}
+                                            className="flex-1 px-2 py-1.5 text-xs border border-paper-200 rounded-lg outline-none focus:ring-1 focus:ring-brand-500"
+                                        />
+                                        <input
+                                            type="number"
+                                            value={f.amount || ''}
+                                            placeholder="+ encaissement / - décaissement"
+                                            onChange={e => updateFlow(f.id, { amount: parseFloat(e.target.value) || 0 })}
+                                            className="w-40 px-2 py-1.5 text-xs text-right font-mono border border-paper-200 rounded-lg outline-none focus:ring-1 focus:ring-brand-500"
+                                        />
+                                        <button onClick={() => removeFlow(f.id)} aria-label="Retirer ce flux" className="p-1 text-paper-400 hover:text-rose-600">
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            type="text"
+                            value={scenarioName}
+                            placeholder="Nom du scénario (ex. Prudent)"
+                            onChange={e => setScenarioName(e.target.value)}
+                            className="w-56 px-2 py-1.5 text-xs border border-paper-200 rounded-lg outline-none focus:ring-1 focus:ring-brand-500"
+                        />
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 transition disabled:opacity-50"
+                        >
+                            {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+                            Enregistrer le scénario
+                        </button>
+                        {selectedScenarioId && (
+                            <button onClick={handleDelete} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-rose-600 bg-white border border-rose-200 rounded-lg hover:bg-rose-50 transition">
+                                <Trash2 className="w-3.5 h-3.5" /> Supprimer
+                            </button>
+                        )}
+                        <button onClick={() => selectScenario(selectedScenarioId)} className="text-xs font-bold text-paper-500 hover:text-paper-800">
+                            Réinitialiser
+                        </button>
+                        {error && <span className="text-xs font-medium text-rose-600">{error}</span>}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TreasuryForecastPanel;
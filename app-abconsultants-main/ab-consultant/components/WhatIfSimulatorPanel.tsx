@@ -0,0 +1,293 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FlaskConical, ChevronDown, ChevronUp, RotateCcw, Save, Trash2, Loader2 } from 'lucide-react';
+import { Client, FinancialRecord, Simulation, SimulationLevers } from '../types';
+import { getSimulations, saveSimulation, deleteSimulation, formatFiscalYear } from '../services/dataService';
+import { simulatePeriod, emptyLevers, hasActiveLevers, SimulationLine, UNALLOCATED_REVENUE_KEY } from '../services/simulationService';
+import { useConfirmDialog } from '../contexts/ConfirmContext';
+import { auth } from '../firebase';
+
+interface WhatIfSimulatorPanelProps {
+    records: FinancialRecord[];      // période affichée par le Dashboard
+    n1Records: FinancialRecord[];    // même période, exercice précédent
+    client: Client;
+    userRole: 'ab_consultant' | 'client';
+    fiscalYear: number;
+    isPresentationMode: boolean;
+}
+
+const formatValue = (v: number, unit: SimulationLine['unit']) => {
+    if (unit === '€') return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(v);
+    if (unit === '%') return `${v.toFixed(1)} %`;
+    return `${v.toFixed(0)} j`;
+};
+
+const formatDelta = (delta: number, unit: SimulationLine['unit']) => {
+    const sign = delta > 0 ? '+' : '';
+    if (unit === '%') return `${sign}${delta.toFixed(1)} pt`;
+    return `${sign}${formatValue(delta, unit)}`;
+};
+
+const deltaTone = (delta: number, higherIsBetter: boolean) => {
+    if (Math.abs(delta) < 0.05) return 'text-paper-400';
+    return (delta > 0) === higherIsBetter ? 'text-emerald-600' : 'text-rose-600';
+};
+
+const LeverSlider: React.FC<{ label: string; value: number; min: number; max: number; step: number; unit: string; disabled?: boolean; onChange: (v: number) => void }> = ({ label, value, min, max, step, unit, disabled, onChange }) => (
+    <label className="block">
+        <div className="flex justify-between items-baseline mb-1">
+            <span className="text-xs font-bold text-paper-600 truncate" title={label}>{label}</span>
+            <span className={`text-xs font-mono font-bold ${value === 0 ? 'text-paper-400' : 'text-brand-700'}`}>{value > 0 ? '+' : ''}{value} {unit}</span>
+        </div>
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            disabled={disabled}
+            onChange={e => onChange(parseFloat(e.target.value))}
+            className="w-full accent-brand-600"
+        />
+    </label>
+);
+
+/**
+ * Simulateur « Et si ? » : applique des leviers (CA par activité, taux de marge, masse salariale, délais)
+ * à la période affichée et recalcule marge, BFR, trésorerie et comparaisons N-1 sans rien enregistrer.
+ * Les simulations sauvegardées sont rejouées en mode présentation.
+ */
+const WhatIfSimulatorPanel: React.FC<WhatIfSimulatorPanelProps> = ({ records, n1Records, client, userRole, fiscalYear, isPresentationMode }) => {
+    const profitCenters = client.profitCenters || [];
+    const confirm = useConfirmDialog();
+    const [isOpen, setIsOpen] = useState(false);
+    const [levers, setLevers] = useState<SimulationLevers>(emptyLevers);
+    const [simulations, setSimulations] = useState<Simulation[]>([]);
+    const [selectedId, setSelectedId] = useState('');
+    const [name, setName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getSimulations(client.id).then(list => { if (!cancelled) setSimulations(list); });
+        return () => { cancelled = true; };
+    }, [client.id]);
+
+    // En présentation, on rejoue la simulation choisie (la plus récente par défaut)
+    const presented = isPresentationMode ? (simulations.find(s => s.id === selectedId) || simulations[0]) : undefined;
+    const activeLevers = presented ? presented.levers : levers;
+
+    const hasUnallocatedRevenue = useMemo(() => {
+        const allocated = records.reduce((s, r) => s + profitCenters.reduce((a, pc) => a + (r.revenue.breakdown?.[pc.id] || 0), 0), 0);
+        return profitCenters.length === 0 || records.reduce((s, r) => s + r.revenue.total, 0) - allocated > 0.5;
+    }, [records, profitCenters]);
+
+    const lines = useMemo(
+        () => simulatePeriod(records, activeLevers, profitCenters, n1Records),
+        [records, activeLevers, profitCenters, n1Records]
+    );
+
+    if (records.length === 0) return null;
+    if (isPresentationMode && !presented) return null;
+
+    const setRevenuePct = (key: string, value: number) =>
+        setLevers(prev => ({ ...prev, revenueChangePct: { ...prev.revenueChangePct, [key]: value } }));
+
+    const loadSimulation = (sim: Simulation) => {
+        setLevers({ ...emptyLevers(), ...sim.levers });
+        setSelectedId(sim.id);
+        setName(sim.name);
+        setIsOpen(true);
+    };
+
+    const canDelete = (sim: Simulation) => userRole === 'ab_consultant' || sim.createdBy === auth.currentUser?.email;
+
+    const handleSave = async () => {
+        const trimmed = name.trim();
+        if (!trimmed) { setError('Nommez la simulation avant de l\'enregistrer.'); return; }
+        setIsSaving(true);
+        setError(null);
+        try {
+            const id = await saveSimulation({
+                clientId: client.id,
+                name: trimmed,
+                fiscalYear,
+                months: records.map(r => r.month),
+                levers,
+            });
+            setSimulations(await getSimulations(client.id));
+            setSelectedId(id);
+        } catch (e: any) {
+            setError(e?.message || 'Erreur lors de l\'enregistrement.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (sim: Simulation) => {
+        const ok = await confirm({
+            title: 'Supprimer cette simulation ?',
+            message: `La simulation « ${sim.name} » sera retirée du dossier.`,
+            variant: 'danger',
+            confirmLabel: 'Supprimer',
+        });
+        if (!ok) return;
+        try {
+            await deleteSimulation(sim.id);
+            setSimulations(prev => prev.filter(s => s.id !== sim.id));
+            if (selectedId === sim.id) setSelectedId('');
+        } catch (e: any) {
+            setError(e?.message || 'Erreur lors de la suppression.');
+        }
+    };
+
+    const resultsTable = (
+        <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+                <thead>
+                    <tr className="text-xs text-paper-500 uppercase border-b border-paper-100">
+                        <th className="py-2 text-left font-bold">Indicateur</th>
+                        <th className="py-2 text-right font-bold">Réel</th>
+                        <th className="py-2 text-right font-bold">Simulé</th>
+                        <th className="py-2 text-right font-bold">Écart</th>
+                        <th className="py-2 text-right font-bold">N-1</th>
+                        <th className="py-2 text-right font-bold">Simulé vs N-1</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {lines.map(l => {
+                        const delta = l.simulated - l.baseline;
+                        const vsN1 = l.n1 !== null ? l.simulated - l.n1 : null;
+                        return (
+                            <tr key={l.key} className="border-b border-paper-50 last:border-0">
+                                <td className="py-1.5 font-semibold text-paper-800">{l.label}</td>
+                                <td className="py-1.5 text-right font-mono tabular-nums text-paper-500">{formatValue(l.baseline, l.unit)}</td>
+                                <td className="py-1.5 text-right font-mono tabular-nums font-bold text-paper-900">{formatValue(l.simulated, l.unit)}</td>
+                                <td className={`py-1.5 text-right font-mono tabular-nums ${deltaTone(delta, l.higherIsBetter)}`}>{formatDelta(delta, l.unit)}</td>
+                                <td className="py-1.5 text-right font-mono tabular-nums text-paper-400">{l.n1 !== null ? formatValue(l.n1, l.unit) : '—'}</td>
+                                <td className={`py-1.5 text-right font-mono tabular-nums ${vsN1 !== null ? deltaTone(vsN1, l.higherIsBetter) : 'text-paper-300'}`}>
+                                    {vsN1 !== null ? formatDelta(vsN1, l.unit) : '—'}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+
+    // --- MODE PRÉSENTATION : lecture seule des simulations enregistrées ---
+    if (isPresentationMode && presented) {
+        return (
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-brand-100">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                    <div className="flex items-center gap-2">
+                        <FlaskConical className="w-4 h-4 text-brand-600" />
+                        <p className="eyebrow">Simulation · {presented.name}</p>
+                    </div>
+                    {simulations.length > 1 && (
+                        <select
+                            value={presented.id}
+                            onChange={e => setSelectedId(e.target.value)}
+                            aria-label="Simulation présentée"
+                            className="text-xs font-bold border border-paper-200 rounded-lg px-2 py-1.5 bg-white outline-none print:hidden"
+                        >
+                            {simulations.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                    )}
+                </div>
+                {resultsTable}
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-brand-100 print:hidden">
+            <button onClick={() => setIsOpen(v => !v)} className="w-full flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <FlaskConical className="w-4 h-4 text-brand-600" />
+                    <p className="eyebrow">Simulateur « Et si ? »</p>
+                    {hasActiveLevers(levers) && <span className="text-xs font-bold text-brand-700 bg-brand-50 border border-brand-200 px-2 py-0.5 rounded-full">Leviers actifs</span>}
+                </div>
+                {isOpen ? <ChevronUp className="w-4 h-4 text-paper-400" /> : <ChevronDown className="w-4 h-4 text-paper-400" />}
+            </button>
+
+            {isOpen && (
+                <div className="mt-4 grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <div className="space-y-4">
+                        {profitCenters.map(pc => (
+                            <LeverSlider key={pc.id} label={`CA · ${pc.name}`} value={levers.revenueChangePct[pc.id] || 0} min={-50} max={50} step={1} unit="%" onChange={v => setRevenuePct(pc.id, v)} />
+                        ))}
+                        {hasUnallocatedRevenue && (
+                            <LeverSlider
+                                label={profitCenters.length > 0 ? 'CA non ventilé' : "Chiffre d'affaires"}
+                                value={levers.revenueChangePct[UNALLOCATED_REVENUE_KEY] || 0}
+                                min={-50} max={50} step={1} unit="%"
+                                onChange={v => setRevenuePct(UNALLOCATED_REVENUE_KEY, v)}
+                            />
+                        )}
+                        <LeverSlider label="Taux de marge" value={levers.marginRateDelta} min={-10} max={10} step={0.5} unit="pt" onChange={v => setLevers(p => ({ ...p, marginRateDelta: v }))} />
+                        <label className="block">
+                            <span className="text-xs font-bold text-paper-600">Masse salariale (€ / mois)</span>
+                            <input
+                                type="number"
+                                step={500}
+                                value={levers.salariesMonthlyDelta || ''}
+                                placeholder="ex. +3 500 pour une embauche"
+                                onChange={e => setLevers(p => ({ ...p, salariesMonthlyDelta: parseFloat(e.target.value) || 0 }))}
+                                className="mt-1 w-full px-2 py-1.5 text-xs text-right font-mono border border-paper-200 rounded-lg outline-none focus:ring-1 focus:ring-brand-500"
+                            />
+                        </label>
+                        <LeverSlider label="Délai clients" value={levers.dsoDelta} min={-30} max={30} step={1} unit="j" onChange={v => setLevers(p => ({ ...p, dsoDelta: v }))} />
+                        <LeverSlider label="Délai fournisseurs" value={levers.dpoDelta} min={-30} max={30} step={1} unit="j" onChange={v => setLevers(p => ({ ...p, dpoDelta: v }))} />
+                        <button onClick={() => { setLevers(emptyLevers()); setSelectedId(''); setName(''); }} className="flex items-center gap-1 text-xs font-bold text-paper-500 hover:text-paper-800">
+                            <RotateCcw className="w-3 h-3" /> Réinitialiser les leviers
+                        </button>
+                    </div>
+
+                    <div className="lg:col-span-2 space-y-4">
+                        {resultsTable}
+
+                        <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-paper-100">
+                            <input
+                                type="text"
+                                value={name}
+                                placeholder="Nom de la simulation (ex. Embauche chauffeur)"
+                                onChange={e => setName(e.target.value)}
+                                className="w-64 px-2 py-1.5 text-xs border border-paper-200 rounded-lg outline-none focus:ring-1 focus:ring-brand-500"
+                            />
+                            <button
+                                onClick={handleSave}
+                                disabled={isSaving || !hasActiveLevers(levers)}
+                                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 transition disabled:opacity-50"
+                            >
+                                {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+                                Enregistrer
+                            </button>
+                            {error && <span className="text-xs font-medium text-rose-600">{error}</span>}
+                        </div>
+
+                        {simulations.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                                {simulations.map(sim => (
+                                    <div key={sim.id} className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border text-xs font-bold ${sim.id === selectedId ? 'bg-brand-900 text-white border-brand-800' : 'bg-white text-brand-700 border-brand-200'}`}>
+                                        <button onClick={() => loadSimulation(sim)} title={`Exercice ${formatFiscalYear(sim.fiscalYear, client.fiscalYearEnd)} · ${sim.months.length} mois`}>
+                                            {sim.name}
+                                        </button>
+                                        {canDelete(sim) && (
+                                            <button onClick={() => handleDelete(sim)} aria-label={`Supprimer ${sim.name}`} className="p-1 opacity-60 hover:opacity-100">
+                                                <Trash2 className="w-3 h-3" />
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WhatIfSimulatorPanel;
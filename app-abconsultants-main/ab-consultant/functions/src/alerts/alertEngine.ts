@@ -0,0 +1,113 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { AlertFinding, evaluateAlertRules, resolveAlertRules, ruleAlertId } from './alertRules';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const COLL_ALERTS = 'consultantAlerts';
+const CABINET_ALERT_RULES_DOC = 'cabinetSettings/alertRules';
+
+export const RULES_ALERT_SOURCE = 'rules';
+
+export interface AlertRunResult {
+  created: number;
+  updated: number;
+  resolved: number;
+}
+
+/**
+ * Évalue les règles d'alerte d'un dossier et synchronise `consultantAlerts` :
+ *
+ * - une alerte par dossier × règle × mois (identifiant déterministe) : jamais de doublon,
+ *   routée vers le consultant assigné au dossier ;
+ * - une alerte encore ouverte est mise à jour avec les derniers chiffres ;
+ * - une alerte clôturée à la main par un consultant n'est pas rouverte pour le même mois ;
+ *   une alerte clôturée automatiquement est rouverte si la condition réapparaît ;
+ * - les alertes ouvertes dont la condition a disparu sont clôturées automatiquement.
+ */
+export async function runAlertRules(clientId: string, now: Date = new Date()): Promise<AlertRunResult> {
+  const [clientDoc, cabinetDoc, recordsSnap, openSnap] = await Promise.all([
+    db.collection('clients').doc(clientId).get(),
+    db.doc(CABINET_ALERT_RULES_DOC).get(),
+    db.collection('records').where('clientId', '==', clientId).get(),
+    db.collection(COLL_ALERTS).where('clientId', '==', clientId).where('resolved', '==', false).get(),
+  ]);
+  const result: AlertRunResult = { created: 0, updated: 0, resolved: 0 };
+  if (!clientDoc.exists) return result;
+
+  const client = clientDoc.data() || {};
+  const rules = resolveAlertRules(cabinetDoc.data()?.rules, client.settings?.alertRules);
+  // Dossier désactivé : plus d'alerte, les alertes ouvertes sont clôturées
+  const findings: AlertFinding[] = (client.status || 'active') === 'active'
+    ? evaluateAlertRules(recordsSnap.docs.map(d => d.data()), rules, now)
+    : [];
+
+  const batch = db.batch();
+  const timestamp = admin.firestore.FieldValue.serverTimestamp();
+  const activeIds = new Set<string>();
+  const assignee = String(client.assignedConsultantEmail || '').toLowerCase();
+
+  const existing = await Promise.all(findings.map(f => db.collection(COLL_ALERTS).doc(ruleAlertId(clientId, f)).get()));
+  findings.forEach((finding, i) => {
+    const ref = existing[i].ref;
+    const current = existing[i].data();
+    activeIds.add(ref.id);
+    const content = {
+      clientName: client.companyName || '',
+      type: finding.type,
+      message: finding.message,
+      metadata: { rule: finding.ruleId, period: finding.period, value: finding.value, threshold: finding.threshold },
+    };
+
+    if (!current) {
+      batch.set(ref, {
+        clientId,
+        ...content,
+        source: RULES_ALERT_SOURCE,
+        ruleId: finding.ruleId,
+        period: finding.period,
+        createdAt: timestamp,
+        status: 'new',
+        assignedTo: assignee,
+        resolved: false,
+      });
+      result.created++;
+    } else if (!current.resolved) {
+      if (current.message !== finding.message) {
+        batch.update(ref, { ...content, updatedAt: timestamp });
+        result.updated++;
+      }
+    } else if (current.autoResolved) {
+      batch.update(ref, {
+        ...content,
+        status: 'new',
+        assignedTo: assignee,
+        resolved: false,
+        autoResolved: admin.firestore.FieldValue.delete(),
+        resolvedAt: admin.firestore.FieldValue.delete(),
+        resolvedBy: admin.firestore.FieldValue.delete(),
+        resolutionNote: admin.firestore.FieldValue.delete(),
+        acknowledgedAt: admin.firestore.FieldValue.delete(),
+        acknowledgedBy: admin.firestore.FieldValue.delete(),
+        updatedAt: timestamp,
+      });
+      result.created++;
+    }
+  });
+
+  for (const doc of openSnap.docs) {
+    if (doc.data().source !== RULES_ALERT_SOURCE || activeIds.has(doc.id)) continue;
+    batch.update(doc.ref, { status: 'resolved', resolved: true, autoResolved: true, resolvedAt: timestamp, resolvedBy: 'system' });
+    result.resolved++;
+  }
+
+  if (result.created || result.updated || result.resolved) {
+    await batch.commit();
+    functions.logger.info('Alert rules applied', { clientId, ...result });
+  }
+  return result;
+}
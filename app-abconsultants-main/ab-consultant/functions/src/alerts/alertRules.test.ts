@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ALERT_RULES, evaluateAlertRules, resolveAlertRules, ruleAlertId } from './alertRules';
+
+const record = (year: number, month: string, extra: Record<string, any> = {}) => ({
+  year,
+  month,
+  revenue: { total: 10000 },
+  margin: { total: 4000 },
+  expenses: { overtimeHours: 10 },
+  cashFlow: { treasury: 5000 },
+  bfr: { receivables: { clients: 10000 } },
+  ...extra,
+});
+
+const NOW = new Date(2025, 3, 20); // 20 avril 2025
+
+describe('alert rules', () => {
+  it('layers cabinet then client overrides on top of defaults, ignoring invalid values', () => {
+    const rules = resolveAlertRules(
+      { dsoAbove: { days: 45 }, treasuryBelow: { threshold: 'abc' as any } },
+      { dsoAbove: { enabled: false }, overtimeSpike: { enabled: true } },
+    );
+    expect(rules.dsoAbove).toEqual({ enabled: false, days: 45 });
+    expect(rules.treasuryBelow).toEqual(DEFAULT_ALERT_RULES.treasuryBelow);
+    expect(rules.overtimeSpike.enabled).toBe(true);
+    expect(DEFAULT_ALERT_RULES.dsoAbove.days).toBe(60);
+  });
+
+  it('flags treasury, DSO and margin drop on the latest month', () => {
+    const records = [
+      record(2024, 'Mars', { margin: { total: 5000 } }),
+      record(2025, 'Mars', { cashFlow: { treasury: -1200 }, bfr: { receivables: { clients: 25000 } } }),
+    ];
+    const findings = evaluateAlertRules(records, DEFAULT_ALERT_RULES, NOW);
+    expect(findings.map(f => f.ruleId)).toEqual(['treasuryBelow', 'dsoAbove', 'marginRateDrop']);
+    expect(findings[0]).toMatchObject({ type: 'urgent_treasury', period: '2025-03', value: -1200 });
+    expect(findings[1].value).toBe(75);
+    expect(findings[2]).toMatchObject({ type: 'kpi_threshold', value: 10 });
+  });
+
+  it('detects an overtime spike against the previous three months', () => {
+    const rules = resolveAlertRules({ overtimeSpike: { enabled: true } });
+    const records = [
+      record(2024, 'Décembre'),
+      record(2025, 'Janvier'),
+      record(2025, 'Février'),
+      record(2025, 'Mars', { expenses: { overtimeHours: 20 } }),
+    ];
+    const finding = evaluateAlertRules(records, rules, NOW).find(f => f.ruleId === 'overtimeSpike');
+    expect(finding?.value).toBe(100);
+  });
+
+  it('reports the previous month as missing from day D only', () => {
+    const records = [record(2025, 'Février')];
+    expect(evaluateAlertRules(records, DEFAULT_ALERT_RULES, new Date(2025, 3, 10))).toEqual([]);
+    const [missing] = evaluateAlertRules(records, DEFAULT_ALERT_RULES, NOW);
+    expect(missing).toMatchObject({ ruleId: 'missingMonth', type: 'compliance', period: '2025-03' });
+    expect(ruleAlertId('c1', missing)).toBe('rule_c1_missingMonth_2025-03');
+    expect(evaluateAlertRules([], DEFAULT_ALERT_RULES, NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import { MONTH_ORDER, compareRecordsChronologically } from '../api/fiscalYear';
+
+/**
+ * Règles d'alerte du cabinet, évaluées côté serveur à chaque écriture de record
+ * et chaque matin (mois manquant).
+ *
+ * Les seuils sont fixés pour le cabinet (`cabinetSettings/alertRules`) et peuvent être
+ * surchargés règle par règle sur un dossier (`clients/{id}.settings.alertRules`).
+ * L'évaluation est pure : `alertEngine` se charge de créer, dédoublonner et clore les alertes.
+ */
+
+type RecordData = Record<string, any>;
+
+export interface AlertRulesConfig {
+  treasuryBelow: { enabled: boolean; threshold: number };                 // trésorerie fin de mois < X €
+  dsoAbove: { enabled: boolean; days: number };                           // délai clients > N jours
+  marginRateDrop: { enabled: boolean; points: number };                   // taux de marge en baisse de Y points vs N-1
+  overtimeSpike: { enabled: boolean; pct: number; minHours: number };     // heures sup. > moyenne des 3 mois précédents + pct %
+  missingMonth: { enabled: boolean; day: number };                        // mois M-1 non saisi au jour D du mois M
+}
+
+export type AlertRuleId = keyof AlertRulesConfig;
+
+export type AlertRulesOverride = { [K in AlertRuleId]?: Partial<AlertRulesConfig[K]> };
+
+export const DEFAULT_ALERT_RULES: AlertRulesConfig = {
+  treasuryBelow: { enabled: true, threshold: 0 },
+  dsoAbove: { enabled: true, days: 60 },
+  marginRateDrop: { enabled: true, points: 5 },
+  overtimeSpike: { enabled: false, pct: 50, minHours: 10 },
+  missingMonth: { enabled: true, day: 15 },
+};
+
+/** Type de l'alerte créée par chaque règle (cf. ConsultantAlert.type côté front). */
+export const ALERT_RULE_TYPES: Record<AlertRuleId, 'urgent_treasury' | 'kpi_threshold' | 'compliance'> = {
+  treasuryBelow: 'urgent_treasury',
+  dsoAbove: 'kpi_threshold',
+  marginRateDrop: 'kpi_threshold',
+  overtimeSpike: 'kpi_threshold',
+  missingMonth: 'compliance',
+};
+
+export interface AlertFinding {
+  ruleId: AlertRuleId;
+  type: 'urgent_treasury' | 'kpi_threshold' | 'compliance';
+  period: string;             // mois concerné, "AAAA-MM"
+  message: string;
+  value: number | null;
+  threshold: number;
+}
+
+const num = (v: unknown) => Number(v) || 0;
+const round1 = (v: number) => Math.round(v * 10) / 10;
+const fmtEur = (v: number) => `${Math.round(v).toLocaleString('fr-FR').replace(/[\u00a0\u202f]/g, ' ')} €`;
+const rankOf = (r: RecordData) => Number(r.year) * 12 + MONTH_ORDER.indexOf(r.month);
+const periodOf = (rank: number) => `${Math.floor(rank / 12)}-${String((rank % 12) + 1).padStart(2, '0')}`;
+const labelOf = (rank: number) => `${MONTH_ORDER[rank % 12]} ${Math.floor(rank / 12)}`;
+
+/** Règles effectives : défauts, puis réglages du cabinet, puis surcharges du dossier (valeurs invalides ignorées). */
+export function resolveAlertRules(cabinet?: AlertRulesOverride | null, client?: AlertRulesOverride | null): AlertRulesConfig {
+  const resolved = JSON.parse(JSON.stringify(DEFAULT_ALERT_RULES)) as AlertRulesConfig;
+  for (const layer of [cabinet, client]) {
+    if (!layer || typeof layer !== 'object') continue;
+    for (const ruleId of Object.keys(DEFAULT_ALERT_RULES) as AlertRuleId[]) {
+      const override = layer[ruleId] as Record<string, unknown> | undefined;
+      if (!override || typeof override !== 'object') continue;
+      const target = resolved[ruleId] as unknown as Record<string, unknown>;
+      for (const [key, value] of Object.entries(override)) {
+        if (!(key in target)) continue;
+        if (key === 'enabled' ? typeof value === 'boolean' : Number.isFinite(value)) target[key] = value;
+      }
+    }
+  }
+  return resolved;
+}
+
+/** Alertes levées par les règles sur le dernier mois saisi (et le mois attendu pour `missingMonth`). */
+export function evaluateAlertRules(records: RecordData[], rules: AlertRulesConfig, now: Date = new Date()): AlertFinding[] {
+  const findings: AlertFinding[] = [];
+  const sorted = [...records].sort(compareRecordsChronologically);
+  const byRank = new Map(sorted.map(r => [rankOf(r), r]));
+  const latest = sorted[sorted.length - 1];
+
+  if (latest) {
+    const rank = rankOf(latest);
+    const label = labelOf(rank);
+    const finding = (ruleId: AlertRuleId, message: string, value: number | null, threshold: number) =>
+      findings.push({ ruleId, type: ALERT_RULE_TYPES[ruleId], period: periodOf(rank), message, value, threshold });
+
+    const treasury = num(latest.cashFlow?.treasury);
+    if (rules.treasuryBelow.enabled && treasury < rules.treasuryBelow.threshold) {
+      finding('treasuryBelow', `Trésorerie de ${fmtEur(treasury)} fin ${label}, sous le seuil de ${fmtEur(rules.treasuryBelow.threshold)}.`, treasury, rules.treasuryBelow.threshold);
+    }
+
+    const revenue = num(latest.revenue?.total);
+    const dso = revenue > 0 ? round1((num(latest.bfr?.receivables?.clients) / revenue) * 30) : null;
+    if (rules.dsoAbove.enabled && dso !== null && dso > rules.dsoAbove.days) {
+      finding('dsoAbove', `Délai clients de ${Math.round(dso)} jours en ${label} (seuil : ${rules.dsoAbove.days} jours).`, dso, rules.dsoAbove.days);
+    }
+
+    const previous = byRank.get(rank - 12);
+    const previousRevenue = num(previous?.revenue?.total);
+    if (rules.marginRateDrop.enabled && revenue > 0 && previousRevenue > 0) {
+      const rate = (num(latest.margin?.total) / revenue) * 100;
+      const previousRate = (num(previous?.margin?.total) / previousRevenue) * 100;
+      const drop = round1(previousRate - rate);
+      if (drop > rules.marginRateDrop.points) {
+        finding('marginRateDrop', `Taux de marge de ${round1(rate)} % en ${label}, en baisse de ${drop} points par rapport à N-1 (${round1(previousRate)} %).`, drop, rules.marginRateDrop.points);
+      }
+    }
+
+    const overtime = num(latest.expenses?.overtimeHours);
+    const history = [1, 2, 3].map(i => byRank.get(rank - i)).filter((r): r is RecordData => !!r);
+    if (rules.overtimeSpike.enabled && history.length > 0 && overtime >= rules.overtimeSpike.minHours) {
+      const average = history.reduce((s, r) => s + num(r.expenses?.overtimeHours), 0) / history.length;
+      const increase = average > 0 ? round1(((overtime - average) / average) * 100) : null;
+      if (increase === null || increase > rules.overtimeSpike.pct) {
+        finding(
+          'overtimeSpike',
+          `${Math.round(overtime)} heures supplémentaires en ${label}, contre ${round1(average)} h en moyenne sur les mois précédents.`,
+          increase,
+          rules.overtimeSpike.pct,
+        );
+      }
+    }
+  }
+
+  // Mois précédent attendu à partir du jour D (uniquement pour un dossier déjà alimenté)
+  if (rules.missingMonth.enabled && latest && now.getDate() >= rules.missingMonth.day) {
+    const expected = now.getFullYear() * 12 + now.getMonth() - 1;
+    if (!byRank.has(expected)) {
+      findings.push({
+        ruleId: 'missingMonth',
+        type: ALERT_RULE_TYPES.missingMonth,
+        period: periodOf(expected),
+        message: `Saisie de ${labelOf(expected)} toujours manquante au ${rules.missingMonth.day} ${MONTH_ORDER[now.getMonth()].toLowerCase()}.`,
+        value: null,
+        threshold: rules.missingMonth.day,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/** Identifiant de l'alerte d'une règle pour un mois : une seule alerte par dossier, règle et mois. */
+export function ruleAlertId(clientId: string, finding: Pick<AlertFinding, 'ruleId' | 'period'>): string {
+  return `rule_${clientId}_${finding.ruleId}_${finding.period}`;
+}
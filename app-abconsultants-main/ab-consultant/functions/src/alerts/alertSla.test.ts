@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { alertSlaDeadline, escalationEmail, isAlertOverdue } from './alertSla';
+
+const HOUR = 3600_000;
+const createdAt = { seconds: 1_700_000_000 };
+const created = createdAt.seconds * 1000;
+
+describe('alert SLA', () => {
+  it('gives chat handoffs a 4-hour acknowledgement deadline', () => {
+    expect(alertSlaDeadline({ type: 'chat_handoff', createdAt })).toBe(created + 4 * HOUR);
+    expect(alertSlaDeadline({ type: 'unknown', createdAt })).toBe(created + 48 * HOUR);
+    expect(alertSlaDeadline({ type: 'chat_handoff' })).toBeNull();
+  });
+
+  it('is overdue only while the alert is still new', () => {
+    const alert = { type: 'chat_handoff', createdAt, resolved: false };
+    expect(isAlertOverdue(alert, created + 3 * HOUR)).toBe(false);
+    expect(isAlertOverdue(alert, created + 5 * HOUR)).toBe(true);
+    expect(isAlertOverdue({ ...alert, status: 'new' }, created + 5 * HOUR)).toBe(true);
+    expect(isAlertOverdue({ ...alert, status: 'acknowledged' }, created + 5 * HOUR)).toBe(false);
+    expect(isAlertOverdue({ ...alert, resolved: true }, created + 5 * HOUR)).toBe(false);
+  });
+
+  it('escapes the client name and the chat summary in the escalation email', () => {
+    const email = escalationEmail(
+      { message: '</pre><a href="https://phish.example">Cliquez</a>' },
+      { companyName: 'Dupont <img src=x onerror=alert(1)>', assignedConsultantEmail: 'Consultant@cabinet.fr' },
+      'alert-1'
+    );
+    expect(email.to).toBe('admin@ab-consultants.fr, consultant@cabinet.fr');
+    expect(email.html).toContain('Dupont &lt;img src=x onerror=alert(1)&gt;');
+    expect(email.html).toContain('&lt;/pre&gt;&lt;a href=&quot;https://phish.example&quot;&gt;');
+    expect(email.html).not.toContain('<img');
+    expect(email.html).not.toContain('<a ');
+  });
+
+  it('addresses the escalation from the client file, never from the alert', () => {
+    const forged = { message: 'help', assignedTo: 'attacker@example.com', clientName: 'Faux' };
+    const email = escalationEmail(forged, { companyName: 'Garage', assignedConsultantEmail: '' }, 'alert-1');
+    expect(email.to).toBe('admin@ab-consultants.fr');
+    expect(email.subject).toContain('Garage');
+    expect(escalationEmail(forged, null, 'alert-1').to).toBe('admin@ab-consultants.fr');
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * SLA des alertes consultant : délai de prise en compte (statut `new` → `acknowledged`)
+ * par type d'alerte, à l'identique de `services/alertSla.ts` côté front.
+ *
+ * Une demande de relais du chat est une promesse faite au client (« votre consultant vous
+ * répond sous 4 heures ») : passé ce délai, elle est escaladée au cabinet.
+ */
+
+export type AlertType = 'chat_handoff' | 'urgent_treasury' | 'compliance' | 'kpi_threshold' | 'manual';
+
+export const ALERT_SLA_HOURS: Record<AlertType, number> = {
+  chat_handoff: 4,
+  urgent_treasury: 24,
+  kpi_threshold: 72,
+  compliance: 72,
+  manual: 48,
+};
+
+export const CABINET_ESCALATION_EMAIL = 'admin@ab-consultants.fr';
+
+const toMillis = (value: any): number | null => {
+  if (!value) return null;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (typeof value.seconds === 'number') return value.seconds * 1000;
+  const ms = new Date(value).getTime();
+  return Number.isFinite(ms) ? ms : null;
+};
+
+/** Échéance de prise en compte, ou null si la date de création est inconnue. */
+export function alertSlaDeadline(alert: { type?: string; createdAt?: any }): number | null {
+  const createdAt = toMillis(alert.createdAt);
+  const hours = ALERT_SLA_HOURS[alert.type as AlertType] ?? ALERT_SLA_HOURS.manual;
+  return createdAt === null ? null : createdAt + hours * 3600_000;
+}
+
+/** Alerte toujours non prise en compte au-delà de son SLA. */
+export function isAlertOverdue(alert: { type?: string; createdAt?: any; status?: string; resolved?: boolean }, now: number = Date.now()): boolean {
+  if (alert.resolved || (alert.status && alert.status !== 'new')) return false;
+  const deadline = alertSlaDeadline(alert);
+  return deadline !== null && now > deadline;
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Email d'escalade d'une demande de relais. L'alerte est écrite par le client : destinataire et
+ * nom du dossier viennent de `clients/{id}`, et le résumé du chat est échappé avant d'entrer
+ * dans le HTML.
+ */
+export function escalationEmail(
+  alert: { message?: string },
+  client: { companyName?: string; assignedConsultantEmail?: string } | null,
+  alertId: string
+): { to: string; subject: string; html: string } {
+  const clientName = client?.companyName || '';
+  const assignee = String(client?.assignedConsultantEmail || '').toLowerCase();
+  return {
+    to: [CABINET_ESCALATION_EMAIL, assignee].filter(Boolean).join(', '),
+    subject: `[AB Consultants] Demande client sans réponse depuis ${ALERT_SLA_HOURS.chat_handoff} h — ${clientName || alertId}`,
+    html: `<p><strong>${escapeHtml(clientName || 'Un client')}</strong> a demandé à parler à son consultant et la demande n'a pas été prise en compte.</p>
+<p>Consultant assigné : <strong>${escapeHtml(assignee || 'aucun')}</strong></p>
+<p><strong>Résumé :</strong></p><pre>${escapeHtml(String(alert.message || '').slice(0, 1000))}</pre>`,
+  };
+}
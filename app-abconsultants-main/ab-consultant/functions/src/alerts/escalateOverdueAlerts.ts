@@ -0,0 +1,54 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { sendMail } from '../email/emailService';
+import { escalationEmail, isAlertOverdue } from './alertSla';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * escalateOverdueAlerts — Scheduled Cloud Function (CRON)
+ *
+ * Toutes les 30 minutes : les demandes de relais du chat non prises en compte dans leur SLA
+ * sont escaladées une seule fois (`escalatedAt`) au cabinet, consultant assigné en copie.
+ * Destinataire et nom du dossier sont relus dans `clients/{clientId}` : l'alerte est écrite
+ * par le client. Un envoi en échec n'interrompt pas les autres et sera retenté au passage suivant.
+ */
+export const escalateOverdueAlerts = functions.region('europe-west1').pubsub
+  .schedule('every 30 minutes')
+  .timeZone('Indian/Reunion')
+  .onRun(async () => {
+    const snap = await db.collection('consultantAlerts')
+      .where('type', '==', 'chat_handoff')
+      .where('resolved', '==', false)
+      .get();
+
+    const now = Date.now();
+    let escalated = 0;
+    let failed = 0;
+    const clients = new Map<string, admin.firestore.DocumentData | null>();
+    for (const doc of snap.docs) {
+      const alert = doc.data();
+      if (alert.escalatedAt || !isAlertOverdue(alert, now)) continue;
+
+      try {
+        const clientId = String(alert.clientId || '');
+        if (clientId && !clients.has(clientId)) {
+          const clientSnap = await db.collection('clients').doc(clientId).get();
+          clients.set(clientId, clientSnap.data() || null);
+        }
+        const sent = await sendMail(escalationEmail(alert, clients.get(clientId) || null, doc.id));
+        if (!sent) throw new Error('Email non envoyé');
+        await doc.ref.update({ escalatedAt: admin.firestore.FieldValue.serverTimestamp() });
+        escalated++;
+      } catch (err: any) {
+        failed++;
+        functions.logger.error('Overdue alert escalation failed', { alertId: doc.id, error: err?.message });
+      }
+    }
+
+    functions.logger.info('Overdue alerts escalated', { open: snap.size, escalated, failed });
+  });
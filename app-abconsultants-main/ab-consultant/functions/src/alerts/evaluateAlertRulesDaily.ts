@@ -0,0 +1,51 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { runAlertRules } from './alertEngine';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * evaluateAlertRulesDaily — Scheduled Cloud Function (CRON)
+ *
+ * Les écritures de records déclenchent déjà les règles (onRecordWrite). Ce passage quotidien
+ * couvre ce qui dépend de la date : le mois non saisi au jour D, et sa clôture une fois saisi.
+ *
+ * Reprise au passage des alertes ouvertes antérieures au routage : sans champ `assignedTo`,
+ * aucune boîte consultant ne les sélectionne. Elles passent à '' (visibles de tous).
+ */
+export const evaluateAlertRulesDaily = functions.region('europe-west1').pubsub
+  .schedule('0 7 * * *')
+  .timeZone('Indian/Reunion')
+  .onRun(async () => {
+    const openAlerts = await db.collection('consultantAlerts').where('resolved', '==', false).get();
+    const unrouted = openAlerts.docs.filter(d => d.data().assignedTo === undefined);
+    for (let i = 0; i < unrouted.length; i += 450) {
+      const batch = db.batch();
+      unrouted.slice(i, i + 450).forEach(d => batch.update(d.ref, { assignedTo: '' }));
+      await batch.commit();
+    }
+
+    const clientsSnap = await db.collection('clients')
+      .where('status', '==', 'active')
+      .get();
+
+    let created = 0;
+    let resolved = 0;
+    let failed = 0;
+    for (const clientDoc of clientsSnap.docs) {
+      try {
+        const result = await runAlertRules(clientDoc.id);
+        created += result.created;
+        resolved += result.resolved;
+      } catch (err: any) {
+        failed++;
+        functions.logger.error('Alert rules failed', { clientId: clientDoc.id, error: err?.message });
+      }
+    }
+
+    functions.logger.info('Daily alert rules done', { clients: clientsSnap.size, created, resolved, failed, rerouted: unrouted.length });
+  });
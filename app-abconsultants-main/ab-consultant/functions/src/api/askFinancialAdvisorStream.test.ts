@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// SSE de bout en bout, hors ligne : fournisseur LLM scripté, Firebase simulé.
+vi.mock('firebase-admin', () => ({
+  apps: [{}],
+  initializeApp: vi.fn(),
+  auth: () => ({
+    verifyIdToken: async (token: string) => {
+      if (token !== 'valid-token') throw new Error('invalid');
+      return { uid: 'u1', role: 'client', clientId: 'c1' };
+    },
+  }),
+  firestore: () => ({}),
+}));
+
+vi.mock('../middleware/rateLimiter', () => ({
+  checkDistributedRateLimit: async () => ({ allowed: true, remaining: 29, resetAt: Date.now() + 3600000 }),
+  enforceRateLimit: async () => ({ allowed: true, remaining: 29, resetAt: Date.now() + 3600000 }),
+}));
+
+vi.mock('../middleware/aiQuota', () => ({
+  consumeAiQuota: async () => ({ allowed: true }),
+  aiQuotaDeniedMessage: () => '',
+}));
+
+vi.mock('./financialContext', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./financialContext')>()),
+  loadFinancialDataset: async () => ({
+    client: { companyName: 'ACME' },
+    records: [{ year: 2025, month: 'Mars', revenue: { total: 1200 }, cashFlow: { treasury: 300 } }],
+  }),
+}));
+
+vi.mock('./promptRegistry', async () => {
+  const { DEFAULT_SYSTEM_PROMPT_TEMPLATE, renderSystemPrompt } = await import('./systemPrompt');
+  return {
+    resolveSystemPrompt: async (_clientId: string, context: Record<string, any>) =>
+      ({ version: 'v2', text: renderSystemPrompt(DEFAULT_SYSTEM_PROMPT_TEMPLATE, context) }),
+  };
+});
+
+import { askFinancialAdvisorStream } from './geminiProxy';
+
+function fakeRequest(body: Record<string, unknown>, token = 'valid-token') {
+  const headers: Record<string, string> = { authorization: `Bearer ${token}`, origin: 'http://localhost:5173' };
+  return { method: 'POST', body, get: (name: string) => headers[name.toLowerCase()], on: vi.fn() };
+}
+
+function fakeResponse() {
+  const res: any = { statusCode: 200, chunks: [] as string[], jsonBody: null, ended: false };
+  res.setHeader = vi.fn();
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (body: unknown) => { res.jsonBody = body; res.ended = true; return res; };
+  res.send = () => { res.ended = true; return res; };
+  res.write = (chunk: string) => { res.chunks.push(chunk); return true; };
+  res.end = () => { res.ended = true; };
+  return res;
+}
+
+const events = (res: any) => res.chunks.map((c: string) => JSON.parse(c.replace(/^data: /, '').trim()));
+
+describe('askFinancialAdvisorStream (scripted provider)', () => {
+  beforeEach(() => { process.env.LLM_PROVIDER = 'scripted'; });
+  afterEach(() => { delete process.env.LLM_PROVIDER; });
+
+  it('resolves tool calls server-side and streams the final answer', async () => {
+    const res = fakeResponse();
+    await (askFinancialAdvisorStream as any)(fakeRequest({ query: 'Quel est mon CA ?' }), res);
+
+    const sent = events(res);
+    const text = sent.filter((e: any) => e.text).map((e: any) => e.text).join('');
+    expect(text).toContain('Quel est mon CA ?');
+    expect(text).toContain('list_available_periods');
+    expect(text).toContain('"exercice":"2025"');
+    expect(sent[sent.length - 1]).toEqual({ done: true, remaining: 29, model: 'scripted-chat', promptVersion: 'v2' });
+    expect(res.ended).toBe(true);
+  });
+
+  it('rejects an invalid token before streaming', async () => {
+    const res = fakeResponse();
+    await (askFinancialAdvisorStream as any)(fakeRequest({ query: 'CA ?' }, 'bad'), res);
+    expect(res.statusCode).toBe(401);
+    expect(res.chunks).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { enforceRateLimit } from '../middleware/rateLimiter';
+import { consumeAiQuota } from '../middleware/aiQuota';
+import { loadFinancialDataset } from './financialContext';
+import { MONTH_ORDER } from './fiscalYear';
+import { getLlmProvider } from '../llm';
+import {
+  EXPERT_COMMENT_SYSTEM_PROMPT,
+  buildExpertCommentFacts,
+  buildExpertCommentPrompt,
+  pickToneExamples,
+} from '../reports/expertComment';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const COLL_COMMENT_DRAFTS = 'commentDrafts';
+
+/** Identifiant du brouillon d'un mois : un brouillon courant par record. */
+export function commentDraftId(clientId: string, year: number, month: string): string {
+  return `${clientId}_${year}_${String(MONTH_ORDER.indexOf(month) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Brouillon IA du commentaire de l'expert (réservé aux consultants).
+ *
+ * Le brouillon est rédigé à partir des chiffres du mois (écarts N-1 et M-1, objectif, BFR),
+ * dans le ton des derniers commentaires du dossier. Il est conservé dans `commentDrafts`,
+ * collection illisible par les clients : le texte n'atteint le record (`expertComment`)
+ * qu'après relecture et validation par le consultant, depuis l'application.
+ */
+export const draftExpertComment = functions.region('europe-west1').https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentification requise.');
+  }
+  if (context.auth.token.role !== 'consultant') {
+    throw new functions.https.HttpsError('permission-denied', 'Fonction réservée au cabinet.');
+  }
+
+  const clientId = typeof data?.clientId === 'string' ? data.clientId : '';
+  const year = Number(data?.year);
+  const month = String(data?.month || '');
+  if (!clientId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Dossier client requis.');
+  }
+  if (!Number.isInteger(year) || year < 2000 || year > 2100 || !MONTH_ORDER.includes(month)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Mois ou année invalide.');
+  }
+
+  await enforceRateLimit(`comment-draft:${context.auth.uid}`, 60, 60 * 60 * 1000, 'heure');
+
+  let llm;
+  try {
+    llm = getLlmProvider();
+  } catch (err: any) {
+    functions.logger.error('LLM provider not configured', { error: err?.message });
+    throw new functions.https.HttpsError('internal', 'Service IA non configuré.');
+  }
+
+  const dataset = await loadFinancialDataset(clientId, 'consultant');
+  const facts = buildExpertCommentFacts(dataset, year, month);
+  if (!facts) {
+    throw new functions.https.HttpsError('failed-precondition', `Aucune saisie pour ${month} ${year}.`);
+  }
+
+  // Comptabilisé sur le suivi IA du dossier, sans entamer le quota du client
+  await consumeAiQuota(clientId, 'consultant');
+
+  let text: string;
+  try {
+    const response = await llm.generate({
+      mode: 'chat',
+      systemInstruction: EXPERT_COMMENT_SYSTEM_PROMPT,
+      contents: [{
+        role: 'user',
+        parts: [{ text: buildExpertCommentPrompt(dataset.client.companyName, facts, pickToneExamples(dataset.records, year, month)) }],
+      }],
+      temperature: 0.4,
+      maxOutputTokens: 1024,
+    });
+    text = response.text.trim();
+  } catch (err: any) {
+    functions.logger.error('AI provider error', { uid: context.auth.uid, provider: llm.name, error: err.message });
+    throw new functions.https.HttpsError('internal', 'Erreur du service IA. Réessayez.');
+  }
+  if (!text) {
+    throw new functions.https.HttpsError('internal', 'Aucun brouillon généré. Réessayez.');
+  }
+
+  const draftId = commentDraftId(clientId, year, month);
+  await db.collection(COLL_COMMENT_DRAFTS).doc(draftId).set({
+    clientId,
+    year,
+    month,
+    text,
+    facts,
+    status: 'draft',
+    provider: llm.name,
+    model: llm.model('chat'),
+    createdBy: context.auth.token.email || context.auth.uid,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  functions.logger.info('Expert comment draft generated', {
+    uid: context.auth.uid, clientId, year, month, provider: llm.name, length: text.length,
+  });
+
+  return { draftId, text };
+});
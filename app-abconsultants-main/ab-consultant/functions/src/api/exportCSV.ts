@@ -1,5 +1,7 @@
 import * as functions from 'firebase-functions/v1';
 import * as admin from 'firebase-admin';
+import { enforceRateLimit } from '../middleware/rateLimiter';
+import { compareRecordsChronologically, formatFiscalYear, getFiscalYear, isFiscalYearShifted } from './fiscalYear';
 
 if (!admin.apps.length) {
   admin.initializeApp();
@@ -7,17 +9,15 @@ if (!admin.apps.length) {
 
 const db = admin.firestore();
 
-const MONTH_ORDER = [
-  'Janvier', 'Février', 'Mars', 'Avril', 'Mai', 'Juin',
-  'Juillet', 'Août', 'Septembre', 'Octobre', 'Novembre', 'Décembre'
-];
-
 /**
  * Export CSV côté serveur.
  *
  * Sécurisé :
  * - Consultant peut exporter les données de n'importe quel client
  * - Client ne peut exporter que ses propres données publiées
+ *
+ * `year` désigne l'exercice du client (année de clôture) : avec une clôture au 30/06,
+ * year=2025 exporte Juillet 2024 → Juin 2025.
  */
 export const exportClientCSV = functions.region('europe-west1').https.onCall(async (data, context) => {
   if (!context.auth) {
@@ -40,10 +40,18 @@ export const exportClientCSV = functions.region('europe-west1').https.onCall(asy
     throw new functions.https.HttpsError('permission-denied', 'Rôle non autorisé.');
   }
 
-  // Récupérer les records
+  await enforceRateLimit(`export:${context.auth.uid}`, 60, 60 * 60 * 1000, 'heure');
+
+  const clientDoc = await db.collection('clients').doc(clientId).get();
+  const fiscalYearEnd: string | undefined = clientDoc.data()?.fiscalYearEnd;
+  const shifted = isFiscalYearShifted(fiscalYearEnd);
+
+  // Récupérer les records (un exercice décalé chevauche deux années civiles)
   let query = db.collection('records').where('clientId', '==', clientId);
   if (year) {
-    query = query.where('year', '==', year);
+    query = shifted
+      ? query.where('year', 'in', [year - 1, year])
+      : query.where('year', '==', year);
   }
 
   const snap = await query.get();
@@ -55,13 +63,12 @@ export const exportClientCSV = functions.region('europe-west1').https.onCall(asy
   const records = snap.docs
     .map(d => d.data())
     .filter(r => role === 'consultant' || r.isPublished) // Client ne voit que les publiés
-    .sort((a, b) => {
-      if (a.year !== b.year) return a.year - b.year;
-      return MONTH_ORDER.indexOf(a.month) - MONTH_ORDER.indexOf(b.month);
-    });
+    .filter(r => !year || getFiscalYear(r.year, r.month, fiscalYearEnd) === year)
+    .sort(compareRecordsChronologically);
 
   // Construire le CSV
   const headers = [
+    'Exercice',
     'Année',
     'Mois',
     'CA Total HT',
@@ -88,6 +95,7 @@ export const exportClientCSV = functions.region('europe-west1').https.onCall(asy
   ];
 
   const rows = records.map(r => [
+    r.year ? formatFiscalYear(getFiscalYear(r.year, r.month, fiscalYearEnd), fiscalYearEnd) : '',
     r.year || '',
     r.month || '',
     r.revenue?.total || 0,
@@ -122,19 +130,15 @@ export const exportClientCSV = functions.region('europe-west1').https.onCall(asy
 
   // Récupérer le nom du client pour le filename
   let companyName = 'client';
-  try {
-    const clientDoc = await db.collection('clients').doc(clientId).get();
-    if (clientDoc.exists) {
-      companyName = (clientDoc.data()?.companyName || 'client')
-        .replace(/[^a-zA-Z0-9àâäéèêëïôùûüç\s-]/g, '')
-        .replace(/\s+/g, '_')
-        .substring(0, 30);
-    }
-  } catch (err) {
-    // Pas grave, on utilise 'client' par défaut
+  if (clientDoc.exists) {
+    companyName = (clientDoc.data()?.companyName || 'client')
+      .replace(/[^a-zA-Z0-9àâäéèêëïôùûüç\s-]/g, '')
+      .replace(/\s+/g, '_')
+      .substring(0, 30);
   }
 
-  const filename = `export_${companyName}_${year || 'all'}_${new Date().toISOString().slice(0, 10)}.csv`;
+  const periodLabel = year ? formatFiscalYear(year, fiscalYearEnd).replace('/', '-') : 'all';
+  const filename = `export_${companyName}_${periodLabel}_${new Date().toISOString().slice(0, 10)}.csv`;
 
   functions.logger.info('CSV export generated', { clientId, year, rowCount: rows.length });
 
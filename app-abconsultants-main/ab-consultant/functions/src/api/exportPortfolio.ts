@@ -0,0 +1,84 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { enforceRateLimit } from '../middleware/rateLimiter';
+import { MONTH_ORDER } from './fiscalYear';
+import { buildPortfolioCsv, buildPortfolioRows } from '../reports/portfolioExport';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const MAX_CLIENTS = 500;
+
+/**
+ * Export CSV du portefeuille (réservé aux consultants).
+ *
+ * - `clientIds` : sous-ensemble filtré depuis le portefeuille ; à défaut, tous les dossiers actifs
+ * - `years` / `months` : années civiles et mois retenus ; tous si absents
+ *
+ * Une ligne par client × mois, avec secteur, consultant référent, santé du dossier et KPIs.
+ * Les données sont lues côté serveur : l'export ne dépend pas des dossiers chargés dans le navigateur.
+ */
+export const exportPortfolioCSV = functions.region('europe-west1').https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentification requise.');
+  }
+  if (context.auth.token.role !== 'consultant') {
+    throw new functions.https.HttpsError('permission-denied', 'Export réservé au cabinet.');
+  }
+
+  const clientIds: string[] | undefined = Array.isArray(data?.clientIds)
+    ? data.clientIds.filter((id: unknown) => typeof id === 'string' && id)
+    : undefined;
+  const years: number[] = Array.isArray(data?.years)
+    ? data.years.map(Number).filter((y: number) => Number.isInteger(y) && y >= 2000 && y <= 2100)
+    : [];
+  const months: string[] = Array.isArray(data?.months)
+    ? data.months.filter((m: unknown) => typeof m === 'string' && MONTH_ORDER.includes(m))
+    : [];
+
+  if (clientIds && clientIds.length > MAX_CLIENTS) {
+    throw new functions.https.HttpsError('invalid-argument', `Export limité à ${MAX_CLIENTS} dossiers.`);
+  }
+
+  await enforceRateLimit(`export-portfolio:${context.auth.uid}`, 10, 60 * 60 * 1000, 'heure');
+
+  const clientDocs = clientIds
+    ? (await Promise.all(clientIds.map(id => db.collection('clients').doc(id).get()))).filter(d => d.exists)
+    : (await db.collection('clients').get()).docs.filter(d => (d.data().status || 'active') === 'active');
+
+  const now = new Date();
+  const rowsPerClient = await Promise.all(clientDocs.map(async doc => {
+    const snap = await db.collection('records').where('clientId', '==', doc.id).get();
+    return buildPortfolioRows(doc.data() || {}, snap.docs.map(d => d.data()), { years, months }, now);
+  }));
+
+  const sortedRows = rowsPerClient
+    .filter(rows => rows.length > 0)
+    .sort((a, b) => String(a[0][0]).localeCompare(String(b[0][0]), 'fr'))
+    .flat();
+
+  if (sortedRows.length === 0) {
+    return { csv: '', filename: 'export_portefeuille_vide.csv', rowCount: 0, clientCount: 0 };
+  }
+
+  const periodLabel = years.length ? [...years].sort().join('-') : 'all';
+  const filename = `export_portefeuille_${periodLabel}_${now.toISOString().slice(0, 10)}.csv`;
+
+  functions.logger.info('Portfolio CSV export generated', {
+    uid: context.auth.uid,
+    clientCount: clientDocs.length,
+    rowCount: sortedRows.length,
+    years,
+    months,
+  });
+
+  return {
+    csv: buildPortfolioCsv(sortedRows),
+    filename,
+    rowCount: sortedRows.length,
+    clientCount: rowsPerClient.filter(rows => rows.length > 0).length,
+  };
+});
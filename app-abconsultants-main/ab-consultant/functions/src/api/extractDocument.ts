@@ -0,0 +1,103 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { enforceRateLimit } from '../middleware/rateLimiter';
+import { aiQuotaDeniedMessage, consumeAiQuota } from '../middleware/aiQuota';
+import { resolveClientId } from './financialContext';
+import { MONTH_ORDER } from './fiscalYear';
+import { validateAttachments } from './geminiProxy';
+import { getLlmProvider } from '../llm';
+import {
+  DOCUMENT_EXTRACTION_SYSTEM_PROMPT,
+  buildExtractionPrompt,
+  parseExtractionResponse,
+} from '../reports/documentExtraction';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+/**
+ * Extraction des montants d'un document (relevé bancaire, déclaration de TVA, situation
+ * mensuelle du comptable) pour pré-remplir la saisie d'un mois.
+ *
+ * Le callable ne fait que lire : il renvoie un `FinancialRecord` partiel, champ par champ avec
+ * un score de confiance. Le document n'est pas conservé et rien n'est écrit dans le record ;
+ * c'est le formulaire de saisie qui propose les montants et fait confirmer chacun d'eux.
+ */
+export const extractFinancialDocument = functions.region('europe-west1').https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentification requise.');
+  }
+  const role = context.auth.token.role;
+  if (role !== 'client' && role !== 'consultant') {
+    throw new functions.https.HttpsError('permission-denied', 'Rôle non autorisé.');
+  }
+
+  const year = Number(data?.year);
+  const month = String(data?.month || '');
+  if (!Number.isInteger(year) || year < 2000 || year > 2100 || !MONTH_ORDER.includes(month)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Mois ou année invalide.');
+  }
+
+  const attCheck = validateAttachments(data?.attachments);
+  if (!attCheck.valid) {
+    throw new functions.https.HttpsError('invalid-argument', attCheck.error || 'Pièces jointes invalides.');
+  }
+  if (attCheck.attachments.length === 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'Aucun document à analyser.');
+  }
+
+  const clientId = resolveClientId(data?.clientId, context.auth.token);
+
+  await enforceRateLimit(`doc-extract:${context.auth.uid}`, 20, 60 * 60 * 1000, 'heure');
+
+  let llm;
+  try {
+    llm = getLlmProvider();
+  } catch (err: any) {
+    functions.logger.error('LLM provider not configured', { error: err?.message });
+    throw new functions.https.HttpsError('internal', 'Service IA non configuré.');
+  }
+
+  const quota = await consumeAiQuota(clientId, role);
+  if (!quota.allowed) {
+    throw new functions.https.HttpsError(
+      quota.reason === 'disabled' ? 'permission-denied' : 'resource-exhausted',
+      aiQuotaDeniedMessage(quota)
+    );
+  }
+
+  let text: string;
+  try {
+    const response = await llm.generate({
+      mode: 'chat',
+      systemInstruction: DOCUMENT_EXTRACTION_SYSTEM_PROMPT,
+      contents: [{
+        role: 'user',
+        parts: [
+          ...attCheck.attachments.map(att => ({ inlineData: { mimeType: att.mimeType, data: att.data } })),
+          { text: buildExtractionPrompt(year, month) },
+        ],
+      }],
+      temperature: 0.1,
+      maxOutputTokens: 2048,
+    });
+    text = response.text;
+  } catch (err: any) {
+    functions.logger.error('AI provider error', { uid: context.auth.uid, provider: llm.name, error: err.message });
+    throw new functions.https.HttpsError('internal', 'Erreur du service IA. Réessayez.');
+  }
+
+  const extraction = parseExtractionResponse(text);
+  if (!extraction) {
+    functions.logger.warn('Unreadable extraction response', { uid: context.auth.uid, clientId, length: text.length });
+    throw new functions.https.HttpsError('internal', 'Document illisible par l\'assistant. Réessayez ou saisissez les montants.');
+  }
+
+  functions.logger.info('Document extracted', {
+    uid: context.auth.uid, clientId, year, month, provider: llm.name,
+    documentType: extraction.documentType, fields: extraction.fields.length,
+  });
+
+  return { ...extraction, model: llm.model('chat') };
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { buildReferenceFigures, extractFigures, factCheckAnswer } from './factCheck';
+import { createFinancialQueryLayer } from './financialQueries';
+
+const record = (year: number, month: string, revenue: number, margin: number, treasury: number) => ({
+  year,
+  month,
+  revenue: { total: revenue, objective: 10000 },
+  margin: { total: margin },
+  expenses: { salaries: 3000 },
+  cashFlow: { treasury },
+  bfr: { total: 4000 },
+});
+
+const dataset = {
+  client: { companyName: 'Garage Dupuis' },
+  records: [
+    record(2024, 'Mars', 10000, 4000, 5000),
+    record(2025, 'Février', 11000, 4200, -800),
+    record(2025, 'Mars', 12345, 4938, -1200),
+  ],
+};
+const layer = createFinancialQueryLayer(dataset);
+
+describe('AI answer fact-check', () => {
+  it('extracts French-formatted amounts and percentages', () => {
+    const figures = extractFigures('CA de 12 345 €, soit 12,5 k€ ; marge 40 % et 1.250,50 euros, découvert de -1 200 €.');
+    expect(figures.map(f => [f.value, f.unit])).toEqual([
+      [12345, 'eur'], [12500, 'eur'], [40, 'pct'], [1250.5, 'eur'], [1200, 'eur'],
+    ]);
+    expect(figures[1].tolerance).toBe(125);
+  });
+
+  it('accepts figures computed server-side, including N-1 gaps and rounded amounts', () => {
+    const refs = buildReferenceFigures(dataset, layer);
+    const result = factCheckAnswer(
+      'En Mars 2025, votre CA atteint 12 345 € (+23,45 % vs N-1, soit 2 345 € de plus), environ 12,3 k€. Marge : 40 %. Trésorerie : -1 200 €.',
+      refs
+    );
+    expect(result.checked).toBe(6);
+    expect(result.unverified).toEqual([]);
+  });
+
+  it('flags amounts and percentages absent from the dossier', () => {
+    const refs = buildReferenceFigures(dataset, layer);
+    const result = factCheckAnswer('Votre CA est de 15 800 € et votre marge de 47 %.', refs);
+    expect(result.unverified.map(f => f.raw)).toEqual(['15 800 €', '47 %']);
+  });
+
+  it('trusts figures given by the user', () => {
+    const refs = buildReferenceFigures(dataset, layer, [{ role: 'user', parts: [{ text: 'Si j\'embauche à 2 500 € par mois ?' }] }]);
+    expect(factCheckAnswer('Une embauche à 2 500 € pèserait sur la trésorerie.', refs).unverified).toEqual([]);
+  });
+});
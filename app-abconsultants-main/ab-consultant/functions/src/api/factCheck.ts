@@ -0,0 +1,155 @@
+import type { LlmTurn } from '../llm';
+import { MONTH_ORDER, compareRecordsChronologically, getFiscalYear } from './fiscalYear';
+import type { FinancialDataset, FinancialQueryLayer } from './financialQueries';
+
+/**
+ * Contrôle des chiffres cités par le Conseiller IA.
+ *
+ * Les montants (€) et pourcentages de la réponse sont rapprochés des chiffres calculés côté
+ * serveur : KPI de chaque mois (et écarts N-1 / M-1), totaux et ratios de chaque exercice,
+ * résultats d'outils reçus pendant l'échange, chiffres donnés par l'utilisateur.
+ * Un chiffre sans correspondance n'est pas forcément faux (calcul intermédiaire, hypothèse) :
+ * il est signalé « à vérifier », jamais supprimé.
+ */
+
+export type FigureUnit = 'eur' | 'pct';
+
+export interface StatedFigure {
+  raw: string;          // tel qu'écrit dans la réponse, ex. "12,5 k€"
+  value: number;        // valeur absolue en € ou en points de %
+  unit: FigureUnit;
+  tolerance: number;    // écart accepté, selon la précision affichée
+}
+
+export interface FactCheckResult {
+  checked: number;
+  unverified: Array<Pick<StatedFigure, 'raw' | 'value' | 'unit'>>;
+}
+
+export interface ReferenceFigures {
+  eur: number[];
+  pct: number[];
+}
+
+// Montant ou pourcentage : "12 345 €", "12.345,50 €", "-1 200 euros", "12,5 k€", "1,2 M€", "8,4 %"
+const FIGURE_RE = /(?<![\d.,])([+\-\u2212]?)(\d{1,3}(?:[ \u00a0\u202f.]\d{3})+|\d+)(?:[,.](\d+))?\s?(k|K|M|Md)?\s?(€|euros?\b|EUR\b|%)/g;
+const MULTIPLIERS: Record<string, number> = { k: 1e3, K: 1e3, M: 1e6, Md: 1e9 };
+const MIN_CHECKED_AMOUNT = 100;   // les petits montants (prix unitaires, exemples) ne sont pas contrôlés
+
+/** Montants et pourcentages cités dans un texte. */
+export function extractFigures(text: string): StatedFigure[] {
+  const figures: StatedFigure[] = [];
+  for (const match of text.matchAll(FIGURE_RE)) {
+    const [raw, , integer, decimals = '', multiplierKey, unitSymbol] = match;
+    const multiplier = MULTIPLIERS[multiplierKey ?? ''] ?? 1;
+    const value = Number(`${integer.replace(/[ \u00a0\u202f.]/g, '')}.${decimals || '0'}`) * multiplier;
+    const step = Math.pow(10, -decimals.length) * multiplier;   // précision affichée
+    if (unitSymbol === '%') {
+      figures.push({ raw: raw.trim(), value, unit: 'pct', tolerance: Math.max(step / 2, 0.5) });
+    } else {
+      figures.push({ raw: raw.trim(), value, unit: 'eur', tolerance: Math.max(step / 2, value * 0.01, 1) });
+    }
+  }
+  return figures;
+}
+
+const PCT_KEY_RE = /pct|taux|part_|atteinte|variation|poids/;
+
+/** Range les nombres d'un résultat calculé : clés de pourcentage d'un côté, montants de l'autre. */
+function collectNumbers(value: unknown, key: string, refs: ReferenceFigures): void {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    if (key === 'valeur') {
+      refs.eur.push(Math.abs(value));
+      refs.pct.push(Math.abs(value));
+    } else {
+      (PCT_KEY_RE.test(key) ? refs.pct : refs.eur).push(Math.abs(value));
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectNumbers(item, key, refs));
+  } else if (value && typeof value === 'object') {
+    for (const [childKey, child] of Object.entries(value)) {
+      collectNumbers(child, PCT_KEY_RE.test(key) && !/^\d/.test(childKey) ? key : childKey, refs);
+    }
+  }
+}
+
+/** Chiffres de référence du dossier pour l'échange en cours. */
+export function buildReferenceFigures(
+  dataset: FinancialDataset,
+  layer: FinancialQueryLayer,
+  contents: LlmTurn[] = []
+): ReferenceFigures {
+  const refs: ReferenceFigures = { eur: [], pct: [] };
+  const records = [...dataset.records].sort(compareRecordsChronologically);
+  const monthKey = (r: Record<string, any>) => `${r.year}-${String(MONTH_ORDER.indexOf(r.month) + 1).padStart(2, '0')}`;
+
+  let previousKpis: Record<string, number> | null = null;
+  for (const record of records) {
+    const month = layer.getMonthKpis(monthKey(record));
+    collectNumbers(month, '', refs);
+    if (!month.kpis) continue;
+    // Écarts en valeur vs N-1 et vs le mois précédent, souvent cités par le modèle
+    for (const [metric, value] of Object.entries(month.kpis)) {
+      if (typeof value !== 'number') continue;
+      const n1 = (month.n1 as Record<string, number> | null)?.[metric];
+      if (typeof n1 === 'number') refs.eur.push(Math.abs(value - n1));
+      const m1 = previousKpis?.[metric];
+      if (typeof m1 === 'number') refs.eur.push(Math.abs(value - m1));
+    }
+    previousKpis = month.kpis as Record<string, number>;
+  }
+
+  const fiscalYears = Array.from(new Set(records.map(r => getFiscalYear(r.year, r.month, dataset.client.fiscalYearEnd || undefined))));
+  let previousTotals: Record<string, unknown> | null = null;
+  for (const fy of fiscalYears) {
+    const summary = layer.getFiscalYearSummary(fy) as Record<string, any>;
+    collectNumbers(summary, '', refs);
+    if (summary.periode) {
+      for (const ratio of ['poids_masse_salariale', 'ca_par_heure', 'bfr_en_jours_de_ca', 'tresorerie_en_mois_de_salaires']) {
+        collectNumbers(layer.computeRatio(ratio, summary.periode.du, summary.periode.au), '', refs);
+      }
+      collectNumbers(layer.listProfitCenterRevenue(summary.periode.du, summary.periode.au), '', refs);
+    }
+    if (previousTotals) {
+      for (const metric of ['ca', 'marge', 'masse_salariale']) {
+        const current = Number(summary[metric]);
+        const previous = Number(previousTotals[metric]);
+        refs.eur.push(Math.abs(current - previous));
+        if (previous) refs.pct.push(Math.abs(Math.round(((current - previous) / Math.abs(previous)) * 10000) / 100));
+      }
+    }
+    previousTotals = summary;
+  }
+
+  for (const turn of contents) {
+    for (const part of turn.parts) {
+      if (part.functionResponse) collectNumbers(part.functionResponse.response, '', refs);
+      // Chiffres apportés par l'utilisateur (hypothèses, montants de devis…)
+      if (turn.role === 'user' && part.text) {
+        for (const figure of extractFigures(part.text)) refs[figure.unit].push(figure.value);
+        for (const n of part.text.match(/\d[\d \u00a0\u202f.]*(?:,\d+)?/g) || []) {
+          const value = Number(n.replace(/[ \u00a0\u202f.]/g, '').replace(',', '.'));
+          if (Number.isFinite(value)) refs.eur.push(value);
+        }
+      }
+    }
+  }
+
+  return refs;
+}
+
+/** Chiffres de la réponse sans correspondance dans les références. */
+export function factCheckAnswer(text: string, refs: ReferenceFigures): FactCheckResult {
+  const figures = extractFigures(text).filter(f =>
+    f.unit === 'pct' ? f.value !== 0 && f.value !== 100 : f.value >= MIN_CHECKED_AMOUNT);
+  const unverified = figures
+    .filter(f => !refs[f.unit].some(ref => Math.abs(ref - f.value) <= f.tolerance))
+    .map(({ raw, value, unit }) => ({ raw, value, unit }));
+  return { checked: figures.length, unverified };
+}
+
+/** Consigne de régénération : une seule tentative, avant d'annoter la réponse. */
+export function buildFactCheckRetryPrompt(result: FactCheckResult): string {
+  return `CONTRÔLE DES CHIFFRES : ces valeurs de ta réponse ne correspondent à aucune donnée du dossier : ${result.unverified.map(f => f.raw).join(', ')}.
+Vérifie-les avec les outils puis réécris ta réponse complète, en ne citant que des chiffres issus des outils (ou en précisant qu'il s'agit d'une estimation).`;
+}
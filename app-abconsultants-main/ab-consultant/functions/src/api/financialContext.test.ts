@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { buildFinancialContext, resolveClientId } from './financialContext';
+
+const rec = (year: number, month: string, ca: number, treasury: number) => ({
+  clientId: 'c1', year, month,
+  revenue: { total: ca, objective: 100 },
+  margin: { total: ca / 2 },
+  expenses: { salaries: 10, hoursWorked: 5 },
+  bfr: { total: 7.4 },
+  cashFlow: { treasury },
+});
+
+describe('buildFinancialContext', () => {
+  it('summarizes coverage by year in chronological order', () => {
+    const ctx = buildFinancialContext({ companyName: 'ACME' }, [
+      rec(2025, 'Mars', 300, 3),
+      rec(2024, 'Décembre', 120, 1),
+      rec(2025, 'Janvier', 100, 2),
+    ]);
+    expect(ctx.companyName).toBe('ACME');
+    expect(ctx.couverture.map(s => s.annee)).toEqual([2024, 2025]);
+    expect(ctx.couverture[1]).toEqual({ exercice: '2025', annee: 2025, nb_mois: 2, premier_mois: 'Janvier 2025', dernier_mois: 'Mars 2025' });
+    expect(ctx.situationActuelle).toEqual({ mois: 'Mars 2025', tresorerie: 3, ca: 300, bfr: 7 });
+  });
+
+  it('tolerates missing sections and empty input', () => {
+    const ctx = buildFinancialContext({}, [{ year: 2025, month: 'Avril' }]);
+    expect(ctx.situationActuelle?.ca).toBe(0);
+    expect(buildFinancialContext({}, []).situationActuelle).toBeNull();
+    expect(buildFinancialContext({}, []).couverture).toEqual([]);
+  });
+});
+
+describe('resolveClientId', () => {
+  it('forces the client to its own dossier', () => {
+    expect(resolveClientId(undefined, { role: 'client', clientId: 'c1' })).toBe('c1');
+    expect(resolveClientId('c1', { role: 'client', clientId: 'c1' })).toBe('c1');
+    expect(() => resolveClientId('c2', { role: 'client', clientId: 'c1' })).toThrow(/non autorisé/);
+  });
+
+  it('requires an explicit clientId for consultants', () => {
+    expect(resolveClientId('c2', { role: 'consultant' })).toBe('c2');
+    expect(() => resolveClientId('', { role: 'consultant' })).toThrow(/clientId requis/);
+  });
+});
+
+describe('buildFinancialContext — fiscal year', () => {
+  it('groups a June close across two calendar years', () => {
+    const ctx = buildFinancialContext({ fiscalYearEnd: '30/06' }, [
+      rec(2024, 'Juin', 10, 1),
+      rec(2024, 'Juillet', 20, 2),
+      rec(2025, 'Juin', 30, 3),
+    ]);
+    expect(ctx.clotureExercice).toBe('30/06');
+    expect(ctx.couverture.map(s => s.exercice)).toEqual(['2023/24', '2024/25']);
+    expect(ctx.couverture[1]).toMatchObject({ nb_mois: 2, premier_mois: 'Juillet 2024', dernier_mois: 'Juin 2025' });
+  });
+});
@@ -0,0 +1,121 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { compareRecordsChronologically, formatFiscalYear, getFiscalYear, isFiscalYearShifted } from './fiscalYear';
+import type { FinancialDataset } from './financialQueries';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+/**
+ * Contexte financier injecté dans le prompt du Conseiller IA.
+ *
+ * Construit EXCLUSIVEMENT côté serveur à partir de la collection `records` :
+ * le navigateur n'envoie plus que le clientId, jamais les chiffres.
+ * Un client ne voit que les mois publiés, un consultant voit tout.
+ *
+ * Le prompt ne contient qu'une couverture compacte (exercices et mois saisis) et la situation
+ * du dernier mois : les chiffres détaillés sont obtenus par appels d'outils (cf. financialQueries),
+ * ce qui borne la taille du prompt quelle que soit la profondeur d'historique.
+ */
+export interface FinancialContext {
+  companyName?: string;
+  managerName?: string;
+  sector?: string;
+  legalForm?: string;
+  clotureExercice?: string;
+  couverture: Array<{ exercice: string; annee: number; nb_mois: number; premier_mois: string; dernier_mois: string }>;
+  situationActuelle: Record<string, any> | null;
+}
+
+export function buildFinancialContext(
+  client: Record<string, any>,
+  records: Array<Record<string, any>>
+): FinancialContext {
+  const fiscalYearEnd: string | undefined = client.fiscalYearEnd || undefined;
+  const shifted = isFiscalYearShifted(fiscalYearEnd);
+  const sorted = [...records].sort(compareRecordsChronologically);
+  const lastRecord = sorted[sorted.length - 1];
+
+  const byYear = new Map<number, Array<Record<string, any>>>();
+  for (const r of sorted) {
+    const fiscalYear = getFiscalYear(r.year, r.month, fiscalYearEnd);
+    if (!byYear.has(fiscalYear)) byYear.set(fiscalYear, []);
+    byYear.get(fiscalYear)!.push(r);
+  }
+
+  const round = (v: unknown) => Math.round(Number(v) || 0);
+
+  const couverture = Array.from(byYear.entries()).map(([year, recs]) => ({
+    exercice: formatFiscalYear(year, fiscalYearEnd),
+    annee: year,
+    nb_mois: recs.length,
+    premier_mois: `${recs[0].month} ${recs[0].year}`,
+    dernier_mois: `${recs[recs.length - 1].month} ${recs[recs.length - 1].year}`,
+  }));
+
+  return {
+    companyName: client.companyName,
+    managerName: client.managerName,
+    sector: client.sector,
+    legalForm: client.legalForm,
+    clotureExercice: shifted ? fiscalYearEnd : undefined,
+    couverture,
+    situationActuelle: lastRecord ? {
+      mois: `${lastRecord.month} ${lastRecord.year}`,
+      tresorerie: round(lastRecord.cashFlow?.treasury),
+      ca: round(lastRecord.revenue?.total),
+      bfr: round(lastRecord.bfr?.total),
+    } : null,
+  };
+}
+
+/**
+ * Détermine le dossier ciblé par l'appelant.
+ * - client : uniquement le dossier de son custom claim (le paramètre est ignoré s'il concorde, refusé sinon)
+ * - consultant : le dossier passé en paramètre
+ */
+export function resolveClientId(
+  requestedClientId: unknown,
+  token: { [claim: string]: any }
+): string {
+  const requested = typeof requestedClientId === 'string' ? requestedClientId.trim() : '';
+
+  if (token.role === 'client') {
+    if (typeof token.clientId !== 'string' || !token.clientId) {
+      throw new functions.https.HttpsError('permission-denied', 'Aucun dossier associé à ce compte.');
+    }
+    if (requested && requested !== token.clientId) {
+      throw new functions.https.HttpsError('permission-denied', 'Accès non autorisé à ce client.');
+    }
+    return token.clientId;
+  }
+
+  if (token.role === 'consultant') {
+    if (!requested) {
+      throw new functions.https.HttpsError('invalid-argument', 'clientId requis.');
+    }
+    return requested;
+  }
+
+  throw new functions.https.HttpsError('permission-denied', 'Rôle non autorisé.');
+}
+
+/** Fiche client et records visibles par le rôle appelant (publiés seulement pour un client). */
+export async function loadFinancialDataset(clientId: string, role: string): Promise<FinancialDataset> {
+  const db = admin.firestore();
+  const [clientDoc, recordsSnap] = await Promise.all([
+    db.collection('clients').doc(clientId).get(),
+    db.collection('records').where('clientId', '==', clientId).get(),
+  ]);
+
+  if (!clientDoc.exists) {
+    throw new functions.https.HttpsError('not-found', 'Dossier introuvable.');
+  }
+
+  const records = recordsSnap.docs
+    .map(d => d.data())
+    .filter(r => role === 'consultant' || r.isPublished);
+
+  return { client: clientDoc.data() || {}, records };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { createFinancialQueryLayer, executeFinancialTool, parseMonthKey } from './financialQueries';
+
+const rec = (year: number, month: string, ca: number, extra: Record<string, any> = {}) => ({
+  year, month,
+  revenue: { total: ca, objective: 100, breakdown: { a: ca * 0.75, b: ca * 0.25 } },
+  margin: { total: ca / 2, breakdown: { a: ca / 4, b: ca / 4 } },
+  expenses: { salaries: 20, hoursWorked: 10 },
+  bfr: { total: 30 },
+  cashFlow: { treasury: 40 },
+  ...extra,
+});
+
+const layer = createFinancialQueryLayer({
+  client: { fiscalYearEnd: '30/06', profitCenters: [{ id: 'a', name: 'Atelier' }, { id: 'b', name: 'Boutique' }] },
+  records: [
+    rec(2024, 'Janvier', 100),
+    rec(2024, 'Février', 200),
+    rec(2025, 'Janvier', 120),
+    rec(2025, 'Février', 300, { cashFlow: { treasury: 90 } }),
+  ],
+});
+
+describe('financial query layer', () => {
+  it('parses month keys in ISO or French form', () => {
+    expect(parseMonthKey('2025-03')).toBe(2025 * 12 + 2);
+    expect(parseMonthKey('fevrier 2025')).toBe(2025 * 12 + 1);
+    expect(() => parseMonthKey('2025-13')).toThrow(/AAAA-MM/);
+  });
+
+  it('returns a month with its N-1 comparison', () => {
+    const result: any = layer.getMonthKpis('2025-02');
+    expect(result.kpis.ca).toBe(300);
+    expect(result.n1.ca).toBe(200);
+    expect(result.variation_pct.ca).toBe(50);
+    expect(result.atteinte_objectif_pct).toBe(300);
+    expect(layer.getMonthKpis('2023-05')).toEqual({ mois: 'Mai 2023', disponible: false });
+  });
+
+  it('compares periods with totals and deltas', () => {
+    const result = layer.comparePeriods({ from: '2025-01', to: '2025-02' }, { from: '2024-01', to: '2024-02' });
+    expect(result.periode_a.ca).toBe(420);
+    expect(result.periode_b.ca).toBe(300);
+    expect(result.ecart_a_vs_b.ca).toEqual({ valeur: 120, pct: 40 });
+    expect(result.periode_a.tresorerie_fin).toBe(90);
+  });
+
+  it('reports missing months and fiscal-year totals', () => {
+    expect(layer.getPeriodTotals('2024-12', '2025-01').mois_manquants).toEqual(['2024-12']);
+    const fy: any = layer.getFiscalYearSummary(2025);
+    expect(fy.exercice).toBe('2024/25');
+    expect(fy.ca).toBe(420);
+    expect(fy.periode).toEqual({ du: '2024-07', au: '2025-02' });
+  });
+
+  it('splits revenue by profit center and computes ratios', () => {
+    const pcs = layer.listProfitCenterRevenue('2025-01', '2025-02');
+    expect(pcs.activites.map(a => [a.activite, a.ca, a.part_ca_pct])).toEqual([['Atelier', 315, 75], ['Boutique', 105, 25]]);
+    expect(layer.computeRatio('poids_masse_salariale', '2025-01', '2025-02').valeur).toBe(9.52);
+    expect(layer.computeRatio('tresorerie_en_mois_de_salaires', '2025-02', '2025-02').valeur).toBe(4.5);
+  });
+
+  it('turns bad tool arguments into tool errors', () => {
+    expect(executeFinancialTool(layer, 'compute_ratio', { ratio: 'inconnu', from: '2025-01', to: '2025-01' })).toEqual({
+      error: expect.stringMatching(/Ratio inconnu/),
+    });
+    expect(executeFinancialTool(layer, 'get_month_kpis', { month: 'hier' })).toEqual({ error: expect.stringMatching(/Mois invalide/) });
+    expect(executeFinancialTool(layer, 'nope', {})).toEqual({ error: 'Outil inconnu : nope.' });
+  });
+});
@@ -0,0 +1,331 @@
+import type { LlmToolDeclaration } from '../llm/provider';
+import { MONTH_ORDER, compareRecordsChronologically, formatFiscalYear, getFiscalCloseMonthIndex, getFiscalYear } from './fiscalYear';
+
+/**
+ * Couche de requêtes financières du Conseiller IA.
+ *
+ * Le modèle ne reçoit plus l'historique complet dans son prompt : il appelle ces outils
+ * (function calling) et obtient des chiffres calculés ici, de façon déterministe.
+ * Les périodes sont exprimées en "AAAA-MM" (mois civils), bornes incluses.
+ */
+
+type RecordData = Record<string, any>;
+
+export interface FinancialDataset {
+  client: RecordData;
+  records: RecordData[];  // déjà filtrés selon le rôle (publiés seulement pour un client)
+}
+
+interface Period {
+  from: number;  // rang = année * 12 + index du mois
+  to: number;
+}
+
+const round = (v: number) => Math.round(v);
+const round2 = (v: number) => Math.round(v * 100) / 100;
+const num = (v: unknown) => Number(v) || 0;
+const pct = (value: number, base: number) => (base !== 0 ? round2((value / base) * 100) : null);
+const variation = (current: number, previous: number | null) =>
+  previous === null || previous === 0 ? null : round2(((current - previous) / Math.abs(previous)) * 100);
+
+const rankOf = (year: number, month: string) => year * 12 + MONTH_ORDER.indexOf(month);
+const rankKey = (rank: number) => `${Math.floor(rank / 12)}-${String((rank % 12) + 1).padStart(2, '0')}`;
+const rankLabel = (rank: number) => `${MONTH_ORDER[rank % 12]} ${Math.floor(rank / 12)}`;
+
+export class ToolArgumentError extends Error {}
+
+/** "2025-03" → rang ; accepte aussi "Mars 2025". */
+export function parseMonthKey(value: unknown): number {
+  const str = String(value ?? '').trim();
+  const iso = str.match(/^(\d{4})-(\d{1,2})$/);
+  if (iso) {
+    const idx = Number(iso[2]) - 1;
+    if (idx >= 0 && idx < 12) return Number(iso[1]) * 12 + idx;
+  }
+  const named = str.match(/^(\p{L}+)\s+(\d{4})$/u);
+  if (named) {
+    const normalize = (s: string) => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    const idx = MONTH_ORDER.findIndex(m => normalize(m) === normalize(named[1]));
+    if (idx >= 0) return Number(named[2]) * 12 + idx;
+  }
+  throw new ToolArgumentError(`Mois invalide : "${str}" (format attendu AAAA-MM).`);
+}
+
+function parsePeriod(from: unknown, to: unknown): Period {
+  const start = parseMonthKey(from);
+  const end = to === undefined || to === null || to === '' ? start : parseMonthKey(to);
+  if (end < start) throw new ToolArgumentError('La fin de période précède son début.');
+  if (end - start > 119) throw new ToolArgumentError('Période limitée à 10 ans.');
+  return { from: start, to: end };
+}
+
+function kpisOf(r: RecordData) {
+  return {
+    ca: round(num(r.revenue?.total)),
+    objectif_ca: round(num(r.revenue?.objective)),
+    marge: round(num(r.margin?.total)),
+    taux_marge: pct(num(r.margin?.total), num(r.revenue?.total)),
+    masse_salariale: round(num(r.expenses?.salaries)),
+    heures: round(num(r.expenses?.hoursWorked)),
+    heures_sup: round(num(r.expenses?.overtimeHours)),
+    tresorerie: round(num(r.cashFlow?.treasury)),
+    bfr: round(num(r.bfr?.total)),
+    creances_clients: round(num(r.bfr?.receivables?.clients)),
+    stocks: round(num(r.bfr?.stock?.total)),
+    dettes_fournisseurs: round(num(r.bfr?.debts?.suppliers)),
+  };
+}
+
+export function createFinancialQueryLayer(dataset: FinancialDataset) {
+  const fiscalYearEnd: string | undefined = dataset.client.fiscalYearEnd || undefined;
+  const records = [...dataset.records].sort(compareRecordsChronologically);
+  const byRank = new Map<number, RecordData>(records.map(r => [rankOf(r.year, r.month), r]));
+  const profitCenters: RecordData[] = dataset.client.profitCenters || [];
+
+  const inPeriod = (p: Period) => records.filter(r => {
+    const rank = rankOf(r.year, r.month);
+    return rank >= p.from && rank <= p.to;
+  });
+
+  const missingMonths = (p: Period) => {
+    const missing: string[] = [];
+    for (let rank = p.from; rank <= p.to; rank++) if (!byRank.has(rank)) missing.push(rankKey(rank));
+    return missing;
+  };
+
+  const periodTotals = (p: Period) => {
+    const recs = inPeriod(p);
+    const sum = (pick: (r: RecordData) => unknown) => recs.reduce((s, r) => s + num(pick(r)), 0);
+    const last = recs[recs.length - 1];
+    const revenue = sum(r => r.revenue?.total);
+    const margin = sum(r => r.margin?.total);
+    return {
+      periode: { du: rankKey(p.from), au: rankKey(p.to) },
+      mois_disponibles: recs.length,
+      mois_manquants: missingMonths(p),
+      ca: round(revenue),
+      objectif_ca: round(sum(r => r.revenue?.objective)),
+      marge: round(margin),
+      taux_marge: pct(margin, revenue),
+      masse_salariale: round(sum(r => r.expenses?.salaries)),
+      heures: round(sum(r => r.expenses?.hoursWorked)),
+      // Postes de bilan : valeur au dernier mois disponible de la période
+      tresorerie_fin: last ? round(num(last.cashFlow?.treasury)) : null,
+      bfr_fin: last ? round(num(last.bfr?.total)) : null,
+      dernier_mois: last ? `${last.month} ${last.year}` : null,
+    };
+  };
+
+  return {
+    listAvailablePeriods() {
+      const exercices = new Map<number, RecordData[]>();
+      for (const r of records) {
+        const fy = getFiscalYear(r.year, r.month, fiscalYearEnd);
+        if (!exercices.has(fy)) exercices.set(fy, []);
+        exercices.get(fy)!.push(r);
+      }
+      return {
+        cloture_exercice: fiscalYearEnd || '31/12',
+        activites: profitCenters.map(pc => pc.name),
+        exercices: Array.from(exercices.entries()).map(([fy, recs]) => ({
+          exercice: formatFiscalYear(fy, fiscalYearEnd),
+          premier_mois: rankKey(rankOf(recs[0].year, recs[0].month)),
+          dernier_mois: rankKey(rankOf(recs[recs.length - 1].year, recs[recs.length - 1].month)),
+          nb_mois: recs.length,
+        })),
+      };
+    },
+
+    getMonthKpis(month: unknown) {
+      const rank = parseMonthKey(month);
+      const record = byRank.get(rank);
+      if (!record) return { mois: rankLabel(rank), disponible: false };
+      const previous = byRank.get(rank - 12) || null;
+      const current = kpisOf(record);
+      const n1 = previous ? kpisOf(previous) : null;
+      return {
+        mois: rankLabel(rank),
+        disponible: true,
+        exercice: formatFiscalYear(getFiscalYear(record.year, record.month, fiscalYearEnd), fiscalYearEnd),
+        kpis: current,
+        n1,
+        variation_pct: {
+          ca: variation(current.ca, n1?.ca ?? null),
+          marge: variation(current.marge, n1?.marge ?? null),
+          masse_salariale: variation(current.masse_salariale, n1?.masse_salariale ?? null),
+          tresorerie: variation(current.tresorerie, n1?.tresorerie ?? null),
+          bfr: variation(current.bfr, n1?.bfr ?? null),
+        },
+        atteinte_objectif_pct: pct(current.ca, current.objectif_ca),
+      };
+    },
+
+    getPeriodTotals(from: unknown, to: unknown) {
+      return periodTotals(parsePeriod(from, to));
+    },
+
+    getFiscalYearSummary(fiscalYear: unknown) {
+      const fy = Number(fiscalYear);
+      if (!Number.isInteger(fy)) throw new ToolArgumentError('Exercice invalide (année de clôture attendue).');
+      const recs = records.filter(r => getFiscalYear(r.year, r.month, fiscalYearEnd) === fy);
+      if (!recs.length) return { exercice: formatFiscalYear(fy, fiscalYearEnd), disponible: false };
+      // Exercice complet, borné au dernier mois saisi (exercice en cours)
+      const closeRank = fy * 12 + getFiscalCloseMonthIndex(fiscalYearEnd);
+      const lastRecord = recs[recs.length - 1];
+      const totals = periodTotals({ from: closeRank - 11, to: Math.min(closeRank, rankOf(lastRecord.year, lastRecord.month)) });
+      return { exercice: formatFiscalYear(fy, fiscalYearEnd), disponible: true, ...totals };
+    },
+
+    comparePeriods(a: { from?: unknown; to?: unknown } = {}, b: { from?: unknown; to?: unknown } = {}) {
+      const periodA = periodTotals(parsePeriod(a.from, a.to));
+      const periodB = periodTotals(parsePeriod(b.from, b.to));
+      const keys = ['ca', 'marge', 'masse_salariale', 'heures', 'tresorerie_fin', 'bfr_fin'] as const;
+      const ecarts: Record<string, { valeur: number; pct: number | null } | null> = {};
+      for (const key of keys) {
+        const va = periodA[key];
+        const vb = periodB[key];
+        ecarts[key] = va === null || vb === null ? null : { valeur: round(va - vb), pct: variation(va, vb) };
+      }
+      return { periode_a: periodA, periode_b: periodB, ecart_a_vs_b: ecarts };
+    },
+
+    listProfitCenterRevenue(from: unknown, to: unknown) {
+      const p = parsePeriod(from, to);
+      const recs = inPeriod(p);
+      const total = recs.reduce((s, r) => s + num(r.revenue?.total), 0);
+      const rows = profitCenters.map(pc => {
+        const revenue = recs.reduce((s, r) => s + num(r.revenue?.breakdown?.[pc.id]), 0);
+        const margin = recs.reduce((s, r) => s + num(r.margin?.breakdown?.[pc.id]), 0);
+        return {
+          activite: pc.name,
+          ca: round(revenue),
+          part_ca_pct: pct(revenue, total),
+          marge: round(margin),
+          taux_marge: pct(margin, revenue),
+        };
+      }).sort((x, y) => y.ca - x.ca);
+      return { periode: { du: rankKey(p.from), au: rankKey(p.to) }, ca_total: round(total), activites: rows };
+    },
+
+    computeRatio(ratio: unknown, from: unknown, to: unknown) {
+      const p = parsePeriod(from, to);
+      const t = periodTotals(p);
+      const months = t.mois_disponibles;
+      const definitions: Record<string, { libelle: string; valeur: number | null; unite: string; formule: string }> = {
+        taux_marge: { libelle: 'Taux de marge', valeur: t.taux_marge, unite: '%', formule: 'marge / CA × 100' },
+        poids_masse_salariale: { libelle: 'Masse salariale / CA', valeur: pct(t.masse_salariale, t.ca), unite: '%', formule: 'masse salariale / CA × 100' },
+        ca_par_heure: { libelle: 'CA par heure travaillée', valeur: t.heures ? round2(t.ca / t.heures) : null, unite: '€/h', formule: 'CA / heures travaillées' },
+        atteinte_objectif: { libelle: 'Atteinte de l\'objectif CA', valeur: pct(t.ca, t.objectif_ca), unite: '%', formule: 'CA / objectif × 100' },
+        bfr_en_jours_de_ca: {
+          libelle: 'BFR en jours de CA',
+          valeur: t.bfr_fin !== null && t.ca ? round2((t.bfr_fin / t.ca) * months * 30) : null,
+          unite: 'jours',
+          formule: 'BFR fin de période / CA de la période × nombre de jours',
+        },
+        tresorerie_en_mois_de_salaires: {
+          libelle: 'Trésorerie en mois de masse salariale',
+          valeur: t.tresorerie_fin !== null && t.masse_salariale ? round2(t.tresorerie_fin / (t.masse_salariale / months)) : null,
+          unite: 'mois',
+          formule: 'trésorerie fin de période / masse salariale mensuelle moyenne',
+        },
+      };
+      const definition = definitions[String(ratio)];
+      if (!definition) {
+        throw new ToolArgumentError(`Ratio inconnu : ${String(ratio)}. Ratios disponibles : ${Object.keys(definitions).join(', ')}.`);
+      }
+      return { ratio: String(ratio), ...definition, periode: t.periode, mois_disponibles: months, mois_manquants: t.mois_manquants };
+    },
+  };
+}
+
+export type FinancialQueryLayer = ReturnType<typeof createFinancialQueryLayer>;
+
+// =============================================
+// DÉCLARATIONS D'OUTILS (function calling)
+// =============================================
+
+const monthKey = { type: 'string', description: 'Mois au format AAAA-MM, ex. "2025-03".' };
+const periodSchema = {
+  type: 'object',
+  properties: { from: monthKey, to: monthKey },
+  required: ['from', 'to'],
+};
+
+export const FINANCIAL_TOOL_DECLARATIONS: LlmToolDeclaration[] = [
+  {
+    name: 'list_available_periods',
+    description: 'Liste les exercices et les mois saisis pour le dossier, et les activités (centres de profit). À appeler en premier si la période demandée est ambiguë.',
+    parametersJsonSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'get_month_kpis',
+    description: 'Indicateurs d\'un mois (CA, objectif, marge, masse salariale, heures, trésorerie, BFR…) avec le même mois N-1 et les variations en %.',
+    parametersJsonSchema: { type: 'object', properties: { month: monthKey }, required: ['month'] },
+  },
+  {
+    name: 'get_period_totals',
+    description: 'Cumuls sur une période (CA, marge, masse salariale, heures) et trésorerie / BFR au dernier mois. Indique les mois manquants.',
+    parametersJsonSchema: periodSchema,
+  },
+  {
+    name: 'get_fiscal_year_summary',
+    description: 'Cumuls d\'un exercice comptable, identifié par son année de clôture (ex. 2025 pour 2024/25 avec une clôture au 30/06).',
+    parametersJsonSchema: { type: 'object', properties: { fiscal_year: { type: 'integer' } }, required: ['fiscal_year'] },
+  },
+  {
+    name: 'compare_periods',
+    description: 'Compare deux périodes (ex. T1 2025 vs T1 2024) : cumuls de chaque période et écarts en valeur et en %.',
+    parametersJsonSchema: {
+      type: 'object',
+      properties: { period_a: periodSchema, period_b: periodSchema },
+      required: ['period_a', 'period_b'],
+    },
+  },
+  {
+    name: 'list_profit_center_revenue',
+    description: 'CA et marge par activité (centre de profit) sur une période, avec la part de chaque activité dans le CA.',
+    parametersJsonSchema: periodSchema,
+  },
+  {
+    name: 'compute_ratio',
+    description: 'Calcule un ratio sur une période (un seul mois : from = to).',
+    parametersJsonSchema: {
+      type: 'object',
+      properties: {
+        ratio: {
+          type: 'string',
+          enum: ['taux_marge', 'poids_masse_salariale', 'ca_par_heure', 'atteinte_objectif', 'bfr_en_jours_de_ca', 'tresorerie_en_mois_de_salaires'],
+        },
+        from: monthKey,
+        to: monthKey,
+      },
+      required: ['ratio', 'from', 'to'],
+    },
+  },
+];
+
+/**
+ * Exécute un appel d'outil du modèle. Retourne `{ output }` ou `{ error }`
+ * (format attendu par Gemini pour une functionResponse) — n'échoue jamais.
+ */
+export function executeFinancialTool(
+  layer: FinancialQueryLayer,
+  name: string | undefined,
+  args: Record<string, any> = {}
+): { output: unknown } | { error: string } {
+  try {
+    switch (name) {
+      case 'list_available_periods': return { output: layer.listAvailablePeriods() };
+      case 'get_month_kpis': return { output: layer.getMonthKpis(args.month) };
+      case 'get_period_totals': return { output: layer.getPeriodTotals(args.from, args.to) };
+      case 'get_fiscal_year_summary': return { output: layer.getFiscalYearSummary(args.fiscal_year) };
+      case 'compare_periods': return { output: layer.comparePeriods(args.period_a, args.period_b) };
+      case 'list_profit_center_revenue': return { output: layer.listProfitCenterRevenue(args.from, args.to) };
+      case 'compute_ratio': return { output: layer.computeRatio(args.ratio, args.from, args.to) };
+      default: return { error: `Outil inconnu : ${name}.` };
+    }
+  } catch (err: any) {
+    if (err instanceof ToolArgumentError) return { error: err.message };
+    throw err;
+  }
+}
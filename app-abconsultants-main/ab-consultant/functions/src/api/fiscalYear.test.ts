@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { getFiscalYear, formatFiscalYear, getFiscalCloseMonthIndex } from './fiscalYear';
+
+describe('fiscal year helpers', () => {
+  it('defaults to the calendar year when no close date is set', () => {
+    expect(getFiscalCloseMonthIndex(undefined)).toBe(11);
+    expect(getFiscalCloseMonthIndex('31/')).toBe(11);
+    expect(getFiscalYear(2025, 'Mars', '')).toBe(2025);
+    expect(formatFiscalYear(2025, '31/12')).toBe('2025');
+  });
+
+  it('rolls months after the close month into the next exercise', () => {
+    expect(getFiscalYear(2024, 'Juin', '30/06')).toBe(2024);
+    expect(getFiscalYear(2024, 'Juillet', '30/06')).toBe(2025);
+    expect(getFiscalYear(2025, 'Juin', '30/06')).toBe(2025);
+    expect(getFiscalYear(2024, 'Octobre', '30/09')).toBe(2025);
+  });
+
+  it('labels shifted exercises with both calendar years', () => {
+    expect(formatFiscalYear(2025, '30/06')).toBe('2024/25');
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Exercice fiscal — même convention que le front (services/dataService.ts) :
+ * un exercice est identifié par l'année civile de sa clôture.
+ * Clôture au 30/06 → l'exercice 2025 couvre Juillet 2024 → Juin 2025.
+ * Sans date de clôture (ou clôture en décembre), exercice = année civile.
+ */
+
+export const MONTH_ORDER = [
+  'Janvier', 'Février', 'Mars', 'Avril', 'Mai', 'Juin',
+  'Juillet', 'Août', 'Septembre', 'Octobre', 'Novembre', 'Décembre'
+];
+
+/** Index (0-11) du mois de clôture à partir de `fiscalYearEnd` ("JJ/MM"). Décembre par défaut. */
+export function getFiscalCloseMonthIndex(fiscalYearEnd?: string): number {
+  const monthPart = (fiscalYearEnd || '').split('/')[1];
+  const idx = parseInt(monthPart, 10) - 1;
+  return isNaN(idx) || idx < 0 || idx > 11 ? 11 : idx;
+}
+
+export function isFiscalYearShifted(fiscalYearEnd?: string): boolean {
+  return getFiscalCloseMonthIndex(fiscalYearEnd) !== 11;
+}
+
+export function getFiscalYear(year: number, month: string, fiscalYearEnd?: string): number {
+  return MONTH_ORDER.indexOf(month) > getFiscalCloseMonthIndex(fiscalYearEnd) ? year + 1 : year;
+}
+
+/** Libellé d'exercice : "2025" en année civile, "2024/25" pour un exercice décalé. */
+export function formatFiscalYear(fiscalYear: number, fiscalYearEnd?: string): string {
+  return isFiscalYearShifted(fiscalYearEnd) ? `${fiscalYear - 1}/${String(fiscalYear).slice(-2)}` : String(fiscalYear);
+}
+
+/** Tri chronologique (année civile puis mois). */
+export function compareRecordsChronologically(a: Record<string, any>, b: Record<string, any>): number {
+  if (a.year !== b.year) return a.year - b.year;
+  return MONTH_ORDER.indexOf(a.month) - MONTH_ORDER.indexOf(b.month);
+}
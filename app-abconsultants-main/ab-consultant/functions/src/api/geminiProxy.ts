@@ -1,7 +1,18 @@
 import * as functions from 'firebase-functions/v1';
 import * as admin from 'firebase-admin';
-import { GoogleGenAI } from '@google/genai';
-import { checkRateLimit } from '../middleware/rateLimiter';
+import { checkDistributedRateLimit, enforceRateLimit } from '../middleware/rateLimiter';
+import { consumeAiQuota, aiQuotaDeniedMessage, isAiAssistantEnabled } from '../middleware/aiQuota';
+import { buildFinancialContext, loadFinancialDataset, resolveClientId } from './financialContext';
+import {
+  FINANCIAL_TOOL_DECLARATIONS,
+  FinancialDataset,
+  FinancialQueryLayer,
+  createFinancialQueryLayer,
+  executeFinancialTool,
+} from './financialQueries';
+import { FactCheckResult, buildFactCheckRetryPrompt, buildReferenceFigures, factCheckAnswer } from './factCheck';
+import { resolveSystemPrompt } from './promptRegistry';
+import { LlmFunctionCall, LlmPart, LlmProvider, LlmRequest, LlmTurn, getLlmProvider } from '../llm';
 
 if (!admin.apps.length) {
   admin.initializeApp();
@@ -96,8 +107,8 @@ function buildContents(
   history: unknown,
   query: string,
   attachments: Attachment[]
-): Array<{ role: string; parts: any[] }> {
-  const contents: Array<{ role: string; parts: any[] }> = [];
+): LlmTurn[] {
+  const contents: LlmTurn[] = [];
 
   if (Array.isArray(history)) {
     for (const msg of (history as any[]).slice(-20)) {
@@ -111,7 +122,7 @@ function buildContents(
   }
 
   // Current user turn: attachments first (inlineData), text last (Gemini convention).
-  const parts: any[] = [];
+  const parts: LlmPart[] = [];
   for (const att of attachments) {
     parts.push({ inlineData: { mimeType: att.mimeType, data: att.data } });
   }
@@ -121,6 +132,64 @@ function buildContents(
   return contents;
 }
 
+// Allers-retours d'appels d'outils au plus ; au dernier, le modèle doit rédiger sa réponse.
+const MAX_TOOL_ROUNDS = 5;
+
+function chatRequest(systemInstruction: string, contents: LlmTurn[], round: number): LlmRequest {
+  return {
+    mode: 'chat',
+    systemInstruction,
+    contents,
+    temperature: 0.35,
+    maxOutputTokens: 2048,
+    tools: FINANCIAL_TOOL_DECLARATIONS,
+    toolChoice: round < MAX_TOOL_ROUNDS - 1 ? 'auto' : 'none',
+  };
+}
+
+/** Ajoute au fil le tour du modèle (appels d'outils) puis les résultats calculés côté serveur. */
+export function appendToolResults(
+  contents: LlmTurn[],
+  modelParts: LlmPart[],
+  calls: LlmFunctionCall[],
+  layer: FinancialQueryLayer
+): void {
+  contents.push({ role: 'model', parts: modelParts });
+  contents.push({
+    role: 'user',
+    parts: calls.map(call => ({
+      functionResponse: { id: call.id, name: call.name, response: executeFinancialTool(layer, call.name, call.args) },
+    })),
+  });
+}
+
+/** Boucle d'appels d'outils jusqu'à la réponse texte (le dernier tour interdit les outils). */
+async function runChatRounds(
+  llm: LlmProvider,
+  systemPrompt: string,
+  contents: LlmTurn[],
+  layer: FinancialQueryLayer
+): Promise<{ text: string; toolCalls: number }> {
+  let toolCalls = 0;
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const response = await llm.generate(chatRequest(systemPrompt, contents, round));
+    if (response.functionCalls.length === 0) return { text: response.text, toolCalls };
+    toolCalls += response.functionCalls.length;
+    appendToolResults(contents, response.parts, response.functionCalls, layer);
+  }
+  return { text: '', toolCalls };
+}
+
+/** Fournisseur LLM configuré ; une configuration absente est une erreur serveur, pas de l'appelant. */
+function loadProvider(): LlmProvider | null {
+  try {
+    return getLlmProvider();
+  } catch (err: any) {
+    functions.logger.error('LLM provider not configured', { error: err?.message });
+    return null;
+  }
+}
+
 function setCorsHeaders(req: functions.https.Request, res: functions.Response) {
   const origin = req.get('origin') || '';
   if (ALLOWED_ORIGINS.has(origin)) {
@@ -147,15 +216,10 @@ export const askFinancialAdvisor = functions.region('europe-west1').https.onCall
     throw new functions.https.HttpsError('permission-denied', 'Rôle non défini.');
   }
 
-  const rateCheck = checkRateLimit(uid, 30, 60 * 60 * 1000);
-  if (!rateCheck.allowed) {
-    throw new functions.https.HttpsError(
-      'resource-exhausted',
-      `Limite de requêtes atteinte (30/heure). Réessayez dans ${Math.ceil((rateCheck.resetAt - Date.now()) / 60000)} minutes.`
-    );
-  }
+  const rateCheck = await enforceRateLimit(`ai:${uid}`, 30, 60 * 60 * 1000, 'heure');
 
-  const { query, financialContext, history, mode, attachments } = data;
+  // Le contexte financier envoyé par le navigateur est ignoré : il est reconstruit côté serveur.
+  const { query, clientId: requestedClientId, history, mode, attachments } = data;
 
   if (!query || typeof query !== 'string' || query.trim().length === 0) {
     throw new functions.https.HttpsError('invalid-argument', 'La question est vide.');
@@ -173,48 +237,86 @@ export const askFinancialAdvisor = functions.region('europe-west1').https.onCall
     );
   }
 
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    functions.logger.error('GEMINI_API_KEY not configured.');
+  const llm = loadProvider();
+  if (!llm) {
     throw new functions.https.HttpsError('internal', 'Service IA non configuré.');
   }
 
-  const ai = new GoogleGenAI({ apiKey });
+  const clientId = resolveClientId(requestedClientId, context.auth.token);
+  let dataset: FinancialDataset;
+  try {
+    dataset = await loadFinancialDataset(clientId, role);
+  } catch (err: any) {
+    if (err instanceof functions.https.HttpsError) throw err;
+    functions.logger.error('Financial context load error', { uid, clientId, error: err.message });
+    throw new functions.https.HttpsError('internal', 'Impossible de charger les données du dossier.');
+  }
+  const financialContext = buildFinancialContext(dataset.client, dataset.records);
+
+  // Le mode résumé ne sert qu'au transfert au consultant depuis le chat, qui exige l'option
+  // Assistant IA : il n'est pas décompté du quota du client, mais reste refusé à un dossier
+  // sans l'option (sinon appels LLM gratuits hors abonnement, dans la limite du rate limit).
+  if (mode === 'summary' && !isAiAssistantEnabled(dataset.client.settings, role)) {
+    throw new functions.https.HttpsError('permission-denied', aiQuotaDeniedMessage({ reason: 'disabled', quota: 0 }));
+  }
+  if (mode !== 'summary') {
+    const quota = await consumeAiQuota(clientId, role);
+    if (!quota.allowed) {
+      throw new functions.https.HttpsError(
+        quota.reason === 'disabled' ? 'permission-denied' : 'resource-exhausted',
+        aiQuotaDeniedMessage(quota)
+      );
+    }
+  }
 
   if (mode === 'summary') {
-    return handleSummary(ai, query, financialContext, uid, rateCheck);
+    return handleSummary(llm, query, financialContext, uid, rateCheck);
   }
 
-  const systemPrompt = buildSystemPrompt(financialContext || {});
+  const { version: promptVersion, text: systemPrompt } = await resolveSystemPrompt(clientId, financialContext);
 
   const contents = buildContents(history, query, attCheck.attachments);
+  const queryLayer = createFinancialQueryLayer(dataset);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents,
-      config: {
-        systemInstruction: systemPrompt,
-        temperature: 0.35,
-        maxOutputTokens: 2048,
-      },
-    });
+    let { text, toolCalls } = await runChatRounds(llm, systemPrompt, contents, queryLayer);
+    let factCheck: FactCheckResult = factCheckAnswer(text, buildReferenceFigures(dataset, queryLayer, contents));
+
+    // Chiffres sans correspondance : une régénération, puis la réponse la plus fiable est annotée
+    if (factCheck.unverified.length > 0) {
+      const retryTurn: LlmTurn = { role: 'user', parts: [{ text: buildFactCheckRetryPrompt(factCheck) }] };
+      contents.push({ role: 'model', parts: [{ text }] }, retryTurn);
+      const retry = await runChatRounds(llm, systemPrompt, contents, queryLayer);
+      toolCalls += retry.toolCalls;
+      const retryCheck = factCheckAnswer(retry.text, buildReferenceFigures(dataset, queryLayer, contents.filter(turn => turn !== retryTurn)));
+      if (retry.text && retryCheck.unverified.length < factCheck.unverified.length) {
+        text = retry.text;
+        factCheck = retryCheck;
+      }
+    }
 
-    const text = response.text || 'Pas de réponse générée.';
+    text = text || 'Pas de réponse générée.';
 
-    functions.logger.info('Gemini response generated', {
-      uid, queryLength: query.length, responseLength: text.length, remaining: rateCheck.remaining,
+    functions.logger.info('AI response generated', {
+      uid, provider: llm.name, model: llm.model('chat'), promptVersion, queryLength: query.length, responseLength: text.length, toolCalls,
+      unverifiedFigures: factCheck.unverified.length, remaining: rateCheck.remaining,
     });
 
-    return { text, remaining: rateCheck.remaining };
+    return {
+      text,
+      remaining: rateCheck.remaining,
+      model: llm.model('chat'),
+      promptVersion,
+      ...(factCheck.unverified.length > 0 ? { factCheck } : {}),
+    };
   } catch (err: any) {
-    functions.logger.error('Gemini API error', { uid, error: err.message });
+    functions.logger.error('AI provider error', { uid, provider: llm.name, error: err.message });
     throw new functions.https.HttpsError('internal', 'Erreur du service IA. Réessayez.');
   }
 });
 
 async function handleSummary(
-  ai: GoogleGenAI,
+  llm: LlmProvider,
   transcript: string,
   context: Record<string, any>,
   uid: string,
@@ -223,20 +325,16 @@ async function handleSummary(
   const clientName = context?.companyName || 'Client';
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [{ role: 'user', parts: [{ text: `
+    const text = await llm.summarize(`
 Synthétise cette conversation pour le Consultant Senior.
 CLIENT : ${clientName}
 FORMAT : Markdown court. Points clés uniquement.
 TRANSCRIPT : ${transcript}
-      ` }] }],
-      config: { temperature: 0.1, maxOutputTokens: 1024 },
-    });
+      `, { temperature: 0.1, maxOutputTokens: 1024 });
 
-    return { text: response.text || 'Résumé non généré.', remaining: rateCheck.remaining };
+    return { text: text || 'Résumé non généré.', remaining: rateCheck.remaining };
   } catch (err: any) {
-    functions.logger.error('Gemini summary error', { uid, error: err.message });
+    functions.logger.error('AI summary error', { uid, provider: llm.name, error: err.message });
     return { text: 'Erreur résumé.', remaining: rateCheck.remaining };
   }
 }
@@ -249,10 +347,12 @@ TRANSCRIPT : ${transcript}
  *   Headers:
  *     Authorization: Bearer <Firebase ID token>
  *     Content-Type: application/json
- *   Body: { query, financialContext, history?, attachments? }
+ *   Body: { query, clientId, history?, attachments? }
+ *   (le contexte financier est reconstruit côté serveur depuis `records`)
  *   Response: text/event-stream
  *     data: {"text": "..."}\n\n     (incremental tokens)
- *     data: {"done": true, "remaining": N}\n\n
+ *     data: {"factCheck": {...}}\n\n (chiffres sans correspondance dans le dossier, s'il y en a)
+ *     data: {"done": true, "remaining": N, "model": "...", "promptVersion": "v2"}\n\n
  *     data: {"error": "..."}\n\n    (mid-stream error)
  *   Pre-stream errors: HTTP 4xx/5xx with JSON { error }.
  */
@@ -283,10 +383,12 @@ export const askFinancialAdvisorStream = functions
 
     let uid: string;
     let role: string | undefined;
+    let tokenClientId: string | undefined;
     try {
       const decoded = await admin.auth().verifyIdToken(idToken);
       uid = decoded.uid;
       role = (decoded as any).role;
+      tokenClientId = (decoded as any).clientId;
     } catch (err: any) {
       functions.logger.warn('askFinancialAdvisorStream: invalid token', { error: err?.message });
       res.status(401).json({ error: 'Token invalide ou expiré.' });
@@ -299,7 +401,7 @@ export const askFinancialAdvisorStream = functions
     }
 
     // ----- Rate limit -----
-    const rateCheck = checkRateLimit(uid, 30, 60 * 60 * 1000);
+    const rateCheck = await checkDistributedRateLimit(`ai:${uid}`, 30, 60 * 60 * 1000);
     if (!rateCheck.allowed) {
       const minutes = Math.ceil((rateCheck.resetAt - Date.now()) / 60000);
       res.status(429).json({
@@ -326,17 +428,40 @@ export const askFinancialAdvisorStream = functions
       return;
     }
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      functions.logger.error('GEMINI_API_KEY not configured (stream).');
+    const llm = loadProvider();
+    if (!llm) {
       res.status(500).json({ error: 'Service IA non configuré.' });
       return;
     }
 
+    // ----- Financial context + quota (server-side) -----
+    let dataset: FinancialDataset;
+    let clientId: string;
+    try {
+      clientId = resolveClientId(body.clientId, { role, clientId: tokenClientId });
+      dataset = await loadFinancialDataset(clientId, role);
+      const quota = await consumeAiQuota(clientId, role);
+      if (!quota.allowed) {
+        res.status(quota.reason === 'disabled' ? 403 : 429).json({ error: aiQuotaDeniedMessage(quota) });
+        return;
+      }
+    } catch (err: any) {
+      if (err instanceof functions.https.HttpsError) {
+        res.status(err.httpErrorCode.status).json({ error: err.message });
+        return;
+      }
+      functions.logger.error('Financial context load error (stream)', { uid, error: err?.message });
+      res.status(500).json({ error: 'Impossible de charger les données du dossier.' });
+      return;
+    }
+
     // ----- Build request -----
-    const ai = new GoogleGenAI({ apiKey });
-    const systemPrompt = buildSystemPrompt(body.financialContext || {});
+    const { version: promptVersion, text: systemPrompt } = await resolveSystemPrompt(
+      clientId,
+      buildFinancialContext(dataset.client, dataset.records)
+    );
     const contents = buildContents(body.history, query, attCheck.attachments);
+    const queryLayer = createFinancialQueryLayer(dataset);
 
     // ----- Start SSE response -----
     res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
@@ -361,39 +486,51 @@ export const askFinancialAdvisorStream = functions
     });
 
     let totalChars = 0;
+    let toolCalls = 0;
+    let answer = '';
     try {
-      const stream = await ai.models.generateContentStream({
-        model: 'gemini-2.5-flash',
-        contents,
-        config: {
-          systemInstruction: systemPrompt,
-          temperature: 0.35,
-          maxOutputTokens: 2048,
-        },
-      });
-
-      for await (const chunk of stream) {
-        if (aborted) break;
-        const text = (chunk as any)?.text;
-        if (typeof text === 'string' && text.length > 0) {
-          totalChars += text.length;
-          res.write(`data: ${JSON.stringify({ text })}\n\n`);
+      // Les tours d'appels d'outils sont résolus côté serveur ; seul le texte final est diffusé.
+      for (let round = 0; round < MAX_TOOL_ROUNDS && !aborted; round++) {
+        const modelParts: LlmPart[] = [];
+        const calls: LlmFunctionCall[] = [];
+        for await (const chunk of llm.stream(chatRequest(systemPrompt, contents, round))) {
+          if (aborted) break;
+          modelParts.push(...chunk.parts);
+          calls.push(...chunk.functionCalls);
+          if (chunk.text.length > 0) {
+            totalChars += chunk.text.length;
+            answer += chunk.text;
+            res.write(`data: ${JSON.stringify({ text: chunk.text })}\n\n`);
+          }
         }
+
+        if (calls.length === 0) break;
+        toolCalls += calls.length;
+        appendToolResults(contents, modelParts, calls, queryLayer);
+      }
+
+      // Le texte est déjà diffusé : pas de régénération possible, la réponse est annotée
+      const factCheck = factCheckAnswer(answer, buildReferenceFigures(dataset, queryLayer, contents));
+      if (!aborted && factCheck.unverified.length > 0) {
+        res.write(`data: ${JSON.stringify({ factCheck })}\n\n`);
       }
 
       if (!aborted) {
         res.write(
-          `data: ${JSON.stringify({ done: true, remaining: rateCheck.remaining })}\n\n`
+          `data: ${JSON.stringify({ done: true, remaining: rateCheck.remaining, model: llm.model('chat'), promptVersion })}\n\n`
         );
       }
 
       functions.logger.info('askFinancialAdvisorStream: end', {
         uid,
         totalChars,
+        toolCalls,
+        promptVersion,
+        unverifiedFigures: factCheck.unverified.length,
         aborted,
       });
     } catch (err: any) {
-      functions.logger.error('askFinancialAdvisorStream: Gemini error', {
+      functions.logger.error('askFinancialAdvisorStream: provider error', {
         uid,
         error: err?.message,
       });
@@ -410,125 +547,3 @@ export const askFinancialAdvisorStream = functions
       }
     }
   });
-
-function buildSystemPrompt(context: Record<string, any>): string {
-  const companyName = context.companyName || 'l\'entreprise';
-  const managerName = context.managerName || 'le dirigeant';
-  const sector = context.sector || 'Non spécifié';
-  const legalForm = context.legalForm || 'Non spécifié';
-
-  let financialBlock = '';
-
-  const hasYearlyData = context.syntheseAnnuelle
-    && Array.isArray(context.syntheseAnnuelle)
-    && context.syntheseAnnuelle.length > 0;
-
-  if (hasYearlyData) {
-    financialBlock = `
-DONNÉES FINANCIÈRES COMPLÈTES (issues de la base de données — vérité absolue) :
-${JSON.stringify(context.syntheseAnnuelle, null, 2)}
-
-SITUATION ACTUELLE :
-${context.situationActuelle ? JSON.stringify(context.situationActuelle) : 'Pas de données récentes.'}
-
-═══════════════════════════════════════════════════════════════════
-🚨 RÈGLE ABSOLUE SUR LES DONNÉES — CONTRAINTE DURE 🚨
-═══════════════════════════════════════════════════════════════════
-Le JSON ci-dessus est la VÉRITÉ. Toutes les années et tous les mois listés EXISTENT vraiment et ont été saisis.
-
-- Quand on te demande un chiffre annuel (ex: "CA 2025"), CALCULE le total à partir du détail mensuel fourni dans le JSON. Le champ "ca_total" est déjà calculé pour toi, utilise-le directement.
-- Quand on te demande une évolution N vs N-1, compare les synthèses annuelles disponibles.
-- Cite les chiffres précis issus des données, pas des approximations.
-- Ne dis JAMAIS "je n'ai pas accès aux données" ou "nos outils n'ont pas encore de données" tant qu'il y a au moins un mois dans le JSON. Si une année spécifique manque, dis-le précisément (ex: "Pour 2024, je n'ai que les mois de Janvier et Février sur 12") au lieu de prétendre n'avoir aucune donnée.
-- L'année courante est ${new Date().getFullYear()}. Si le client demande l'année courante, c'est l'année en cours, pas du prévisionnel.
-═══════════════════════════════════════════════════════════════════
-`;
-  } else if (context.companyName) {
-    // No financial records at all — be honest, don't fabricate
-    financialBlock = `
-DONNÉES FINANCIÈRES :
-⚠️ AUCUN RECORD FINANCIER N'EST ENREGISTRÉ pour ce dossier.
-
-RÈGLE :
-- Ne fabrique AUCUN chiffre. Si on te demande un montant, dis honnêtement que rien n'est encore saisi dans le système.
-- Propose au client de saisir ses premières données mensuelles (menu "Saisie Mensuelle") ou de contacter son consultant pour démarrer le dossier.
-- Tu peux toujours répondre à des questions générales sur la gestion d'entreprise, la fiscalité, la RH — mais sans données spécifiques.
-`;
-  }
-
-  return `IDENTITÉ & POSTURE :
-Tu es le "Senior Executive Partner" du cabinet AB Conseil. Tu ne t'exprimes pas comme une IA, mais comme un associé de cabinet de conseil en stratégie.
-Ton niveau d'exigence est l'excellence absolue. Tu es le bras droit stratégique de ${managerName}.
-
-TON OBJECTIF UNIQUE :
-Sécuriser et Optimiser la valeur de l'entreprise **${companyName}** (${sector}, ${legalForm}).
-
-═══════════════════════════════════════════════════════════════════
-🚫 PÉRIMÈTRE STRICT — RÈGLE N°1 ABSOLUE (PRIORITÉ MAXIMALE) 🚫
-═══════════════════════════════════════════════════════════════════
-
-Tu es EXCLUSIVEMENT dédié à l'entreprise **${companyName}**.
-Tu ne traites QUE les sujets en lien DIRECT avec la gestion, la stratégie, les finances, le social, la fiscalité et les opérations de CETTE entreprise.
-
-❌ REFUS IMMÉDIAT — sujets personnels ou sans lien avec l'entreprise :
-- Recettes de cuisine, loisirs, sport, culture générale
-- Achats personnels (voiture, maison, vacances…)
-- Financement personnel, questions médicales, sentimentales
-- Questions sur une AUTRE entreprise
-- Programmation, code, jeux vidéo, politique, religion
-→ Réponds : "Je suis exclusivement dédié à la gestion de **${companyName}**. Cette question sort de mon périmètre. Comment puis-je vous aider sur un sujet lié à votre entreprise ?"
-→ Ne fournis AUCUN élément de réponse sur le sujet hors-périmètre.
-
-⚠️ ZONE DE DOUTE (le sujet pourrait concerner l'entreprise) :
-→ Pose UNE question de clarification avant de répondre.
-
-✅ DANS LE PÉRIMÈTRE : finances, comptabilité, trésorerie, RH, fiscalité, investissements professionnels, stratégie commerciale, juridique lié à l'activité.
-═══════════════════════════════════════════════════════════════════
-
-${financialBlock}
-
-RÈGLES D'OR :
-1. **PRÉCISION CHIRURGICALE** : Cite les articles de loi, seuils fiscaux, ratios bancaires exacts.
-2. **VISION 360°** : Si on parle RH, pense impact financier. Si on parle Fiscalité, pense Risque Juridique.
-3. **COURAGE MANAGÉRIAL** : Si le client a une mauvaise idée, dis-le fermement mais diplomatiquement.
-4. **ANTI-LANGUE DE BOIS** : Va droit au but. Commence par la réponse.
-
-TES 4 PILIERS D'EXPERTISE :
-- **FINANCE** : Pilotage BFR, Cash-flow, Ratios bancaires, Analyse de rentabilité.
-- **RH & SOCIAL** : Code du travail, Masse salariale, Gestion des conflits.
-- **FISCALITÉ** : Optimisation légale, TVA, IS, Holding, Transmission.
-- **RESTRUCTURING** : Mandat ad hoc, Sauvegarde, RJ/LJ.
-
-MÉTHODOLOGIE :
-- Question floue → Pose 2-3 questions de qualification avant de répondre.
-- Question technique avec données → Réponse directe et chiffrée, complète et autonome. NE termine PAS par "[ALERT_HUMAN]" (voir règle stricte ci-dessous).
-
-═══════════════════════════════════════════════════════════════════
-🚨 QUAND DÉCLENCHER [ALERT_HUMAN] — CONTRAINTE DURE (RARE, RÉSERVE ABSOLUE) 🚨
-═══════════════════════════════════════════════════════════════════
-
-CECI EST UNE CONTRAINTE DURE. RELIS-LA AVANT CHAQUE RÉPONSE.
-
-❌ NE DÉCLENCHE JAMAIS [ALERT_HUMAN] sur :
-- Toute question technique courante (ex: "quel est mon CA ?", "explique mon BFR", "ma marge évolue comment ?")
-- Toute analyse chiffrée standard, même si elle est complexe
-- Toute question qui entre dans tes 4 piliers d'expertise (Finance, RH, Fiscalité, Restructuring)
-- Une simple demande de conseil, de validation d'idée, ou de seconde lecture
-
-✅ DÉCLENCHE [ALERT_HUMAN] UNIQUEMENT dans CES 4 cas précis :
-1. **Demande explicite du client** : il dit "je veux parler à un humain", "appelez-moi", "je préfère mon consultant", "je veux un rendez-vous".
-2. **Urgence financière critique** : trésorerie négative ET non-paiement imminent (URSSAF, fournisseur stratégique, salaires).
-3. **Suspicion de fraude ou conflit grave** : litige client/fournisseur > 50 k€, contrôle fiscal annoncé, plainte RH, transmission/cession en cours.
-4. **Décision irréversible imminente** : licenciement, rupture conventionnelle collective, dépôt de bilan envisagé, opération de haut de bilan.
-
-DANS TOUS LES AUTRES CAS, ne mentionne PAS "[ALERT_HUMAN]" — ni au début, ni au milieu, ni à la fin de ta réponse. Réponds normalement, complètement, en autonomie.
-
-RAPPEL FINAL (à relire) : "[ALERT_HUMAN]" est un signal d'escalade RARE. Par défaut, tu réponds seul. Si tu hésites, NE le déclenche PAS.
-═══════════════════════════════════════════════════════════════════
-
-STYLE : Direct, Percutant, Professionnel. Utilise le Markdown. Max 300 mots. Réponds en français.
-- Pour comparer plusieurs périodes ou postes : utilise un tableau Markdown (les colonnes s'affichent correctement chez le client).
-- Pour structurer une analyse longue : utilise des sous-titres \`###\` (sous-section).
-- Pour les chiffres clés : mets-les en **gras** pour qu'ils ressortent.
-`;
-}
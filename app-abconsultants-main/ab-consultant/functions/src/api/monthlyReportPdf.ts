@@ -0,0 +1,89 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
+import { enforceRateLimit } from '../middleware/rateLimiter';
+import { resolveClientId } from './financialContext';
+import { MONTH_ORDER } from './fiscalYear';
+import { buildMonthlyReportData, renderMonthlyReport } from '../reports/monthlyReport';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/** Emplacement Storage du rapport d'un mois : un fichier par record publié. */
+export function reportStoragePath(clientId: string, year: number, month: string): string {
+  return `reports/${clientId}/${year}-${String(MONTH_ORDER.indexOf(month) + 1).padStart(2, '0')}.pdf`;
+}
+
+/**
+ * Rapport mensuel PDF d'un client, généré côté serveur.
+ *
+ * - Client : uniquement son dossier ; consultant : n'importe quel dossier.
+ * - Seuls les mois publiés ont un rapport, construit à partir des seuls records publiés
+ *   (le document est destiné au client, même quand un consultant le télécharge).
+ * - Le PDF est conservé dans Storage ; il est régénéré quand les données sources changent
+ *   (empreinte des données en métadonnée `sourceHash`).
+ *
+ * Retourne le PDF encodé en base64, comme l'export CSV retourne son contenu.
+ */
+export const generateMonthlyReport = functions.region('europe-west1').https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentification requise.');
+  }
+
+  const clientId = resolveClientId(data?.clientId, context.auth.token);
+  const year = Number(data?.year);
+  const month = String(data?.month || '');
+  if (!Number.isInteger(year) || year < 2000 || year > 2100 || !MONTH_ORDER.includes(month)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Mois ou année invalide.');
+  }
+
+  await enforceRateLimit(`report:${context.auth.uid}`, 30, 60 * 60 * 1000, 'heure');
+
+  const [clientDoc, recordsSnap] = await Promise.all([
+    db.collection('clients').doc(clientId).get(),
+    db.collection('records').where('clientId', '==', clientId).get(),
+  ]);
+  if (!clientDoc.exists) {
+    throw new functions.https.HttpsError('not-found', 'Dossier introuvable.');
+  }
+
+  const published = recordsSnap.docs.map(d => d.data()).filter(r => r.isPublished);
+  const reportData = buildMonthlyReportData(clientDoc.data() || {}, published, year, month);
+  if (!reportData) {
+    throw new functions.https.HttpsError('failed-precondition', `Le mois de ${month} ${year} n'est pas publié : aucun rapport disponible.`);
+  }
+
+  const sourceHash = createHash('sha256').update(JSON.stringify(reportData)).digest('hex');
+  const file = admin.storage().bucket().file(reportStoragePath(clientId, year, month));
+
+  let pdf: Buffer | null = null;
+  try {
+    const [metadata] = await file.getMetadata();
+    if (metadata.metadata?.sourceHash === sourceHash) {
+      [pdf] = await file.download();
+    }
+  } catch {
+    // Pas encore de rapport stocké pour ce mois
+  }
+
+  if (!pdf) {
+    pdf = renderMonthlyReport(reportData);
+    await file.save(pdf, {
+      contentType: 'application/pdf',
+      resumable: false,
+      metadata: { metadata: { sourceHash, generatedBy: context.auth.token.email || context.auth.uid } },
+    });
+    functions.logger.info('Monthly report generated', { clientId, year, month, bytes: pdf.length });
+  }
+
+  const companyName = String(clientDoc.data()?.companyName || 'client')
+    .replace(/[^a-zA-Z0-9àâäéèêëïôùûüç\s-]/g, '')
+    .replace(/\s+/g, '_')
+    .substring(0, 30);
+  const filename = `rapport_${companyName}_${year}-${String(MONTH_ORDER.indexOf(month) + 1).padStart(2, '0')}.pdf`;
+
+  return { pdf: pdf.toString('base64'), filename };
+});
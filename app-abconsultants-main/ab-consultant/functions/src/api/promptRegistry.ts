@@ -0,0 +1,68 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import {
+  BUILTIN_PROMPT_VERSION,
+  DEFAULT_SYSTEM_PROMPT_TEMPLATE,
+  PromptVariant,
+  assignPromptVariant,
+  renderSystemPrompt,
+} from './systemPrompt';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const COLL_PROMPT_TEMPLATES = 'promptTemplates';
+
+// Les versions changent rarement : une lecture par minute et par instance suffit
+const CACHE_TTL_MS = 60 * 1000;
+let cache: { variants: PromptVariant[]; loadedAt: number } | null = null;
+
+const BUILTIN_VARIANT: PromptVariant = { version: BUILTIN_PROMPT_VERSION, template: DEFAULT_SYSTEM_PROMPT_TEMPLATE, weight: 100 };
+
+/**
+ * Versions actives du prompt système (`promptTemplates`, status 'active').
+ * Collection vide : le modèle d'origine y est enregistré comme v1, point de départ des
+ * versions suivantes. En cas d'erreur de lecture, le modèle d'origine est utilisé.
+ */
+async function loadActiveVariants(): Promise<PromptVariant[]> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.variants;
+
+  const db = admin.firestore();
+  let variants: PromptVariant[] = [];
+  try {
+    const snap = await db.collection(COLL_PROMPT_TEMPLATES).where('status', '==', 'active').get();
+    variants = snap.docs.map(d => ({
+      version: d.id,
+      template: String(d.data().template || ''),
+      weight: Number(d.data().weight) || 0,
+    }));
+
+    if (snap.empty && (await db.collection(COLL_PROMPT_TEMPLATES).limit(1).get()).empty) {
+      await db.collection(COLL_PROMPT_TEMPLATES).doc(BUILTIN_PROMPT_VERSION).create({
+        template: DEFAULT_SYSTEM_PROMPT_TEMPLATE,
+        description: 'Prompt d\'origine',
+        status: 'active',
+        weight: 100,
+        createdBy: 'system',
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      }).catch(() => undefined);   // déjà créé par une autre instance
+      variants = [BUILTIN_VARIANT];
+    }
+  } catch (err: any) {
+    functions.logger.error('Prompt templates load error', { error: err?.message });
+    return [BUILTIN_VARIANT];
+  }
+
+  cache = { variants, loadedAt: Date.now() };
+  return variants;
+}
+
+/** Prompt système de la conversation d'un dossier, et la version retenue (tracée sur la réponse). */
+export async function resolveSystemPrompt(
+  clientId: string,
+  context: Record<string, any>
+): Promise<{ version: string; text: string }> {
+  const variant = assignPromptVariant(clientId, await loadActiveVariants()) || BUILTIN_VARIANT;
+  return { version: variant.version, text: renderSystemPrompt(variant.template, context) };
+}
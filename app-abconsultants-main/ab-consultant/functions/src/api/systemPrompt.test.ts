@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SYSTEM_PROMPT_TEMPLATE, PromptVariant, assignPromptVariant, renderSystemPrompt } from './systemPrompt';
+
+const variants: PromptVariant[] = [
+  { version: 'v1', template: 'A {{companyName}}', weight: 50 },
+  { version: 'v2', template: 'B {{companyName}}', weight: 50 },
+];
+
+describe('versioned system prompt', () => {
+  it('renders the built-in template with the dossier and the financial block', () => {
+    const prompt = renderSystemPrompt(DEFAULT_SYSTEM_PROMPT_TEMPLATE, {
+      companyName: 'Garage Dupuis',
+      couverture: [{ exercice: '2025', mois: 3 }],
+    });
+    expect(prompt).toContain('Sécuriser et Optimiser la valeur de l\'entreprise **Garage Dupuis**');
+    expect(prompt).toContain('le bras droit stratégique de le dirigeant');
+    expect(prompt).toContain('RÈGLE ABSOLUE SUR LES CHIFFRES');
+    expect(prompt).not.toMatch(/\{\{\w+\}\}/);
+  });
+
+  it('leaves unknown placeholders untouched', () => {
+    expect(renderSystemPrompt('{{companyName}} / {{inconnu}}', { companyName: 'ACME' })).toBe('ACME / {{inconnu}}');
+  });
+
+  it('assigns a conversation deterministically, following the weights', () => {
+    expect(assignPromptVariant('client-42', variants)?.version).toBe(assignPromptVariant('client-42', [...variants].reverse())?.version);
+
+    const counts: Record<string, number> = { v1: 0, v2: 0 };
+    for (let i = 0; i < 2000; i++) counts[assignPromptVariant(`client-${i}`, variants)!.version]++;
+    expect(counts.v1).toBeGreaterThan(850);
+    expect(counts.v2).toBeGreaterThan(850);
+
+    const skewed = [{ ...variants[0], weight: 90 }, { ...variants[1], weight: 10 }];
+    let v2 = 0;
+    for (let i = 0; i < 2000; i++) if (assignPromptVariant(`client-${i}`, skewed)!.version === 'v2') v2++;
+    expect(v2).toBeGreaterThan(120);
+    expect(v2).toBeLessThan(300);
+  });
+
+  it('ignores versions without traffic', () => {
+    expect(assignPromptVariant('c1', [{ ...variants[0], weight: 0 }])).toBeNull();
+    expect(assignPromptVariant('c1', [{ ...variants[0], weight: 0 }, variants[1]])?.version).toBe('v2');
+  });
+});
@@ -3,9 +3,10 @@
  *
  * Backend sécurisé pour :
  * - Custom Claims (rôles gravés dans le token Firebase)
- * - Proxy Gemini AI (clé cachée côté serveur + rate limiting)
- * - Export CSV (génération côté serveur)
- * - Triggers Firestore (stats pré-calculées)
+ * - Proxy Gemini AI (clé cachée côté serveur + rate limiting, prompt système versionné en A/B), brouillons de commentaire expert
+ *   et extraction des montants des documents déposés par le client
+ * - Export CSV (dossier et portefeuille) et rapport mensuel PDF (génération côté serveur)
+ * - Triggers Firestore (stats pré-calculées), règles d'alerte du cabinet et escalade des alertes hors SLA
  * - Gestion des RDV (programmation, confirmation, rappels)
  */
 
@@ -14,8 +15,16 @@ export { setUserRole } from './auth/setUserRole';
 export { askFinancialAdvisor } from './api/geminiProxy';
 export { askFinancialAdvisorStream } from './api/geminiProxy';
 export { exportClientCSV } from './api/exportCSV';
+export { exportPortfolioCSV } from './api/exportPortfolio';
+export { generateMonthlyReport } from './api/monthlyReportPdf';
+export { draftExpertComment } from './api/expertCommentDraft';
+export { extractFinancialDocument } from './api/extractDocument';
 export { onRecordWrite } from './triggers/onRecordWrite';
 
+// --- ALERTS ---
+export { evaluateAlertRulesDaily } from './alerts/evaluateAlertRulesDaily';
+export { escalateOverdueAlerts } from './alerts/escalateOverdueAlerts';
+
 // --- INVITATIONS ---
 export { sendClientInvitation } from './email/sendClientInvitation';
 
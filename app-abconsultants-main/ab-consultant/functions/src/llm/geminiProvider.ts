@@ -0,0 +1,62 @@
+import { GoogleGenAI, FunctionCallingConfigMode, type Content, type GenerateContentParameters, type GenerateContentResponse } from '@google/genai';
+import { LlmMode, LlmProvider, LlmRequest, LlmResponse, partsText, resolveModel } from './provider';
+
+/** Fournisseur Gemini (API Google GenAI). */
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private env: NodeJS.ProcessEnv = process.env) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  model(mode: LlmMode): string {
+    return resolveModel(mode, this.env);
+  }
+
+  private params(request: LlmRequest): GenerateContentParameters {
+    return {
+      model: this.model(request.mode),
+      contents: request.contents as Content[],
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        ...(request.tools?.length ? {
+          tools: [{ functionDeclarations: request.tools }],
+          toolConfig: {
+            functionCallingConfig: {
+              mode: request.toolChoice === 'none' ? FunctionCallingConfigMode.NONE : FunctionCallingConfigMode.AUTO,
+            },
+          },
+        } : {}),
+      },
+    };
+  }
+
+  private static toResponse(response: GenerateContentResponse): LlmResponse {
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    return { text: partsText(parts), parts, functionCalls: response.functionCalls || [] };
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    return GeminiProvider.toResponse(await this.ai.models.generateContent(this.params(request)));
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmResponse> {
+    const stream = await this.ai.models.generateContentStream(this.params(request));
+    for await (const chunk of stream) {
+      yield GeminiProvider.toResponse(chunk);
+    }
+  }
+
+  async summarize(prompt: string, options: { temperature?: number; maxOutputTokens?: number } = {}): Promise<string> {
+    const response = await this.generate({
+      mode: 'summary',
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      temperature: options.temperature ?? 0.1,
+      maxOutputTokens: options.maxOutputTokens ?? 1024,
+    });
+    return response.text;
+  }
+}
@@ -0,0 +1,20 @@
+import { GeminiProvider } from './geminiProvider';
+import { ScriptedProvider } from './scriptedProvider';
+import { LlmConfigurationError, LlmProvider, resolveProviderName } from './provider';
+
+export * from './provider';
+export { GeminiProvider } from './geminiProvider';
+export { ScriptedProvider } from './scriptedProvider';
+export type { ScriptedStep } from './scriptedProvider';
+
+/** Fournisseur configuré pour l'environnement courant (cf. provider.ts). */
+export function getLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  if (resolveProviderName(env) === 'scripted') {
+    return new ScriptedProvider();
+  }
+  const apiKey = env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new LlmConfigurationError('GEMINI_API_KEY non configurée.');
+  }
+  return new GeminiProvider(apiKey, env);
+}
@@ -0,0 +1,91 @@
+/**
+ * Fournisseur de modèle de langage (LLM) utilisé par le Conseiller IA.
+ *
+ * Les handlers ne dépendent que de cette interface : le choix du fournisseur et du modèle
+ * par mode se fait par configuration, sans toucher au code des handlers.
+ *
+ * Variables d'environnement :
+ * - LLM_PROVIDER : 'gemini' | 'scripted' (défaut : 'gemini', ou 'scripted' dans l'émulateur sans clé)
+ * - LLM_MODEL_CHAT / LLM_MODEL_SUMMARY : modèle par mode (défaut : gemini-2.5-flash)
+ * - GEMINI_API_KEY : clé du fournisseur Gemini
+ */
+
+/** Format des messages : celui de Gemini, repris tel quel par les autres fournisseurs. */
+export interface LlmFunctionCall {
+  id?: string;
+  name?: string;
+  args?: Record<string, unknown>;
+}
+
+export interface LlmPart {
+  text?: string;
+  thought?: boolean;
+  inlineData?: { mimeType?: string; data?: string };
+  functionCall?: LlmFunctionCall;
+  functionResponse?: { id?: string; name?: string; response?: Record<string, unknown> };
+  /** Signature de réflexion Gemini : à renvoyer telle quelle avec l'appel d'outil. */
+  thoughtSignature?: string;
+}
+
+export interface LlmTurn {
+  role: 'user' | 'model';
+  parts: LlmPart[];
+}
+
+export interface LlmToolDeclaration {
+  name: string;
+  description?: string;
+  parametersJsonSchema?: unknown;
+}
+
+export type LlmMode = 'chat' | 'summary';
+
+export interface LlmRequest {
+  mode: LlmMode;
+  systemInstruction?: string;
+  contents: LlmTurn[];
+  temperature: number;
+  maxOutputTokens: number;
+  tools?: LlmToolDeclaration[];
+  /** 'none' : le modèle doit répondre sans nouvel appel d'outil. */
+  toolChoice?: 'auto' | 'none';
+}
+
+export interface LlmResponse {
+  text: string;
+  /** Parties du tour du modèle, à renvoyer telles quelles au tour suivant. */
+  parts: LlmPart[];
+  functionCalls: LlmFunctionCall[];
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  /** Modèle retenu pour un mode (journalisation). */
+  model(mode: LlmMode): string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  /** Réponse incrémentale : chaque fragment porte ses propres parties et appels d'outils. */
+  stream(request: LlmRequest): AsyncIterable<LlmResponse>;
+  /** Résumé en un seul tour, avec le modèle du mode 'summary'. */
+  summarize(prompt: string, options?: { temperature?: number; maxOutputTokens?: number }): Promise<string>;
+}
+
+export class LlmConfigurationError extends Error {}
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export function resolveModel(mode: LlmMode, env: NodeJS.ProcessEnv = process.env): string {
+  const configured = mode === 'summary' ? env.LLM_MODEL_SUMMARY : env.LLM_MODEL_CHAT;
+  return configured?.trim() || DEFAULT_MODEL;
+}
+
+/** Texte visible d'une réponse (hors parties de réflexion et appels d'outils). */
+export const partsText = (parts: LlmPart[] | undefined): string =>
+  (parts || []).filter(p => typeof p.text === 'string' && !p.thought).map(p => p.text).join('');
+
+/** Nom du fournisseur configuré. */
+export function resolveProviderName(env: NodeJS.ProcessEnv = process.env): 'gemini' | 'scripted' {
+  const configured = env.LLM_PROVIDER?.trim().toLowerCase();
+  if (configured === 'gemini' || configured === 'scripted') return configured;
+  if (configured) throw new LlmConfigurationError(`LLM_PROVIDER inconnu : ${configured}.`);
+  return env.FUNCTIONS_EMULATOR === 'true' && !env.GEMINI_API_KEY ? 'scripted' : 'gemini';
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { ScriptedProvider } from './scriptedProvider';
+import { getLlmProvider, resolveModel, resolveProviderName } from './index';
+
+const request = (overrides = {}) => ({
+  mode: 'chat' as const,
+  contents: [{ role: 'user' as const, parts: [{ text: 'Bonjour' }] }],
+  temperature: 0,
+  maxOutputTokens: 100,
+  ...overrides,
+});
+
+describe('LLM provider configuration', () => {
+  it('picks the model per mode', () => {
+    expect(resolveModel('chat', {})).toBe('gemini-2.5-flash');
+    expect(resolveModel('summary', { LLM_MODEL_SUMMARY: 'gemini-2.5-flash-lite' })).toBe('gemini-2.5-flash-lite');
+  });
+
+  it('falls back to the scripted provider in the emulator without a key', () => {
+    expect(resolveProviderName({ FUNCTIONS_EMULATOR: 'true' })).toBe('scripted');
+    expect(resolveProviderName({ FUNCTIONS_EMULATOR: 'true', GEMINI_API_KEY: 'k' })).toBe('gemini');
+    expect(() => resolveProviderName({ LLM_PROVIDER: 'autre' })).toThrow(/inconnu/);
+    expect(() => getLlmProvider({ LLM_PROVIDER: 'gemini' })).toThrow(/GEMINI_API_KEY/);
+  });
+});
+
+describe('ScriptedProvider', () => {
+  it('replays its script and records requests', async () => {
+    const llm = new ScriptedProvider([
+      { functionCalls: [{ name: 'get_month_kpis', args: { month: '2025-03' } }] },
+      { text: 'CA de mars : 1 200 €.' },
+    ]);
+    expect((await llm.generate(request())).functionCalls[0].name).toBe('get_month_kpis');
+    expect((await llm.generate(request())).text).toBe('CA de mars : 1 200 €.');
+    expect(llm.requests).toHaveLength(2);
+  });
+
+  it('streams word by word and never calls tools when told not to', async () => {
+    const llm = new ScriptedProvider([{ text: 'Deux mots', functionCalls: [{ name: 'x' }] }]);
+    const chunks = [];
+    for await (const chunk of llm.stream(request({ toolChoice: 'none' }))) chunks.push(chunk);
+    expect(chunks.map(c => c.text)).toEqual(['Deux ', 'mots']);
+    expect(chunks.every(c => c.functionCalls.length === 0)).toBe(true);
+  });
+});
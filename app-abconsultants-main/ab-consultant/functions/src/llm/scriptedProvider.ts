@@ -0,0 +1,99 @@
+import { LlmFunctionCall, LlmMode, LlmProvider, LlmRequest, LlmResponse, LlmTurn, partsText } from './provider';
+
+/** Une réponse du script : texte et/ou appels d'outils. */
+export interface ScriptedStep {
+  text?: string;
+  functionCalls?: LlmFunctionCall[];
+}
+
+/**
+ * Fournisseur local déterministe, pour l'émulateur et les tests (aucun appel réseau).
+ *
+ * - Avec un script : chaque appel consomme l'étape suivante (la dernière est rejouée ensuite).
+ * - Sans script : si des outils sont proposés et qu'aucun résultat d'outil n'a encore été reçu,
+ *   appelle le premier outil sans argument ; sinon répond en reprenant la question et les
+ *   résultats d'outils reçus.
+ *
+ * Les requêtes reçues sont conservées dans `requests` pour les assertions.
+ */
+export class ScriptedProvider implements LlmProvider {
+  readonly name = 'scripted';
+  readonly requests: LlmRequest[] = [];
+  private cursor = 0;
+
+  constructor(private script: ScriptedStep[] = []) {}
+
+  model(mode: LlmMode): string {
+    return `scripted-${mode}`;
+  }
+
+  private nextStep(request: LlmRequest): ScriptedStep {
+    this.requests.push(request);
+    if (this.script.length) {
+      const step = this.script[Math.min(this.cursor, this.script.length - 1)];
+      this.cursor++;
+      return request.toolChoice === 'none' ? { text: step.text ?? '' } : step;
+    }
+    return defaultStep(request);
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    return toResponse(this.nextStep(request));
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmResponse> {
+    const step = this.nextStep(request);
+    if (step.functionCalls?.length) {
+      yield toResponse({ functionCalls: step.functionCalls });
+    }
+    // Fragments mot à mot, espaces conservés
+    for (const piece of (step.text || '').match(/\S+\s*|\s+/g) || []) {
+      yield toResponse({ text: piece });
+    }
+  }
+
+  async summarize(prompt: string): Promise<string> {
+    const response = await this.generate({
+      mode: 'summary',
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      temperature: 0,
+      maxOutputTokens: 1024,
+    });
+    return response.text;
+  }
+}
+
+function toResponse(step: ScriptedStep): LlmResponse {
+  const calls = step.functionCalls || [];
+  const parts = [
+    ...(step.text ? [{ text: step.text }] : []),
+    ...calls.map(functionCall => ({ functionCall })),
+  ];
+  return { text: step.text || '', parts, functionCalls: calls };
+}
+
+function lastUserText(contents: LlmTurn[]): string {
+  for (let i = contents.length - 1; i >= 0; i--) {
+    const text = contents[i].role === 'user' ? partsText(contents[i].parts) : '';
+    if (text) return text;
+  }
+  return '';
+}
+
+function defaultStep(request: LlmRequest): ScriptedStep {
+  const toolResults = request.contents
+    .flatMap(turn => turn.parts)
+    .filter(part => part.functionResponse)
+    .map(part => part.functionResponse!);
+
+  if (request.tools?.length && request.toolChoice !== 'none' && toolResults.length === 0) {
+    return { functionCalls: [{ id: 'scripted-1', name: request.tools[0].name, args: {} }] };
+  }
+
+  const question = lastUserText(request.contents).slice(0, 200);
+  const lines = [`[Réponse simulée — ${request.mode}] ${question}`];
+  for (const result of toolResults) {
+    lines.push(`- ${result.name} : ${JSON.stringify(result.response).slice(0, 300)}`);
+  }
+  return { text: lines.join('\n') };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { clientRequestCount, evaluateAiQuota, isAiAssistantEnabled, resolveMonthlyQuota, usagePeriod, DEFAULT_AI_MONTHLY_QUOTA } from './aiQuota';
+
+describe('resolveMonthlyQuota', () => {
+  it('falls back to the default quota when unset or invalid', () => {
+    expect(resolveMonthlyQuota(undefined)).toBe(DEFAULT_AI_MONTHLY_QUOTA);
+    expect(resolveMonthlyQuota({ aiMonthlyQuota: -5 })).toBe(DEFAULT_AI_MONTHLY_QUOTA);
+    expect(resolveMonthlyQuota({ aiMonthlyQuota: 'abc' })).toBe(DEFAULT_AI_MONTHLY_QUOTA);
+  });
+
+  it('uses the configured quota', () => {
+    expect(resolveMonthlyQuota({ aiMonthlyQuota: 50 })).toBe(50);
+    expect(resolveMonthlyQuota({ aiMonthlyQuota: 0 })).toBe(0);
+  });
+});
+
+describe('evaluateAiQuota', () => {
+  it('blocks clients when the premium option is off', () => {
+    expect(evaluateAiQuota({ enableAiAssistant: false }, 0, 'client')).toMatchObject({ allowed: false, reason: 'disabled' });
+    expect(evaluateAiQuota(undefined, 0, 'client')).toMatchObject({ allowed: false, reason: 'disabled' });
+  });
+
+  it('blocks clients once the monthly quota is reached', () => {
+    const settings = { enableAiAssistant: true, aiMonthlyQuota: 3 };
+    expect(evaluateAiQuota(settings, 2, 'client').allowed).toBe(true);
+    expect(evaluateAiQuota(settings, 3, 'client')).toMatchObject({ allowed: false, reason: 'exhausted', quota: 3 });
+  });
+
+  it('never blocks consultants', () => {
+    expect(evaluateAiQuota({ enableAiAssistant: false, aiMonthlyQuota: 0 }, 10, 'consultant').allowed).toBe(true);
+  });
+
+  it('does not charge consultant requests to the client quota', () => {
+    const settings = { enableAiAssistant: true, aiMonthlyQuota: 3 };
+    const usage = { count: 5, consultantCount: 3 };
+    expect(clientRequestCount(usage)).toBe(2);
+    expect(evaluateAiQuota(settings, clientRequestCount(usage), 'client').allowed).toBe(true);
+    expect(evaluateAiQuota(settings, clientRequestCount({ count: 6, consultantCount: 3 }), 'client').allowed).toBe(false);
+    expect(clientRequestCount(undefined)).toBe(0);
+  });
+});
+
+describe('isAiAssistantEnabled', () => {
+  it('requires the premium option for clients only', () => {
+    expect(isAiAssistantEnabled({ enableAiAssistant: true }, 'client')).toBe(true);
+    expect(isAiAssistantEnabled({}, 'client')).toBe(false);
+    expect(isAiAssistantEnabled(undefined, 'consultant')).toBe(true);
+  });
+});
+
+describe('usagePeriod', () => {
+  it('formats the UTC month as YYYY-MM', () => {
+    expect(usagePeriod(new Date(Date.UTC(2026, 0, 31, 23, 0)))).toBe('2026-01');
+    expect(usagePeriod(new Date(Date.UTC(2026, 10, 1)))).toBe('2026-11');
+  });
+});
@@ -0,0 +1,111 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+/**
+ * Quotas mensuels du Conseiller IA, par dossier client.
+ *
+ * - L'Assistant IA est une option premium (`clients/{id}.settings.enableAiAssistant`) :
+ *   désactivée, elle bloque les requêtes des clients.
+ * - Le plafond mensuel est `settings.aiMonthlyQuota` (défaut : DEFAULT_AI_MONTHLY_QUOTA).
+ * - La consommation est comptée dans `aiUsage/{clientId}_{YYYY-MM}` (lisible par les consultants).
+ *
+ * Les requêtes des consultants sont comptabilisées (`consultantCount`) mais jamais bloquées,
+ * et ne sont pas imputées sur le quota du client.
+ */
+
+export const DEFAULT_AI_MONTHLY_QUOTA = 300;
+
+const COLL_AI_USAGE = 'aiUsage';
+
+export type AiQuotaDenial = 'disabled' | 'exhausted';
+
+export interface AiQuotaResult {
+  allowed: boolean;
+  reason?: AiQuotaDenial;
+  used: number;
+  quota: number;
+  period: string;
+}
+
+/** Période de facturation au format YYYY-MM (UTC). */
+export function usagePeriod(date: Date = new Date()): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+export function resolveMonthlyQuota(settings: Record<string, any> | undefined): number {
+  const quota = Number(settings?.aiMonthlyQuota);
+  return Number.isFinite(quota) && quota >= 0 ? Math.floor(quota) : DEFAULT_AI_MONTHLY_QUOTA;
+}
+
+/** L'appelant a-t-il accès à l'Assistant IA du dossier (option premium pour les clients) ? */
+export function isAiAssistantEnabled(settings: Record<string, any> | undefined, role: string): boolean {
+  return role === 'consultant' || !!settings?.enableAiAssistant;
+}
+
+/** Requêtes du mois imputées au client : le total moins celles des consultants. */
+export function clientRequestCount(usage: { count?: number; consultantCount?: number } | undefined): number {
+  return Math.max(0, (Number(usage?.count) || 0) - (Number(usage?.consultantCount) || 0));
+}
+
+/**
+ * Décision pure : la requête peut-elle être consommée sur le quota du dossier ?
+ * `used` est la consommation du client seul (cf. clientRequestCount).
+ */
+export function evaluateAiQuota(
+  settings: Record<string, any> | undefined,
+  used: number,
+  role: string
+): { allowed: boolean; reason?: AiQuotaDenial; quota: number } {
+  const quota = resolveMonthlyQuota(settings);
+  if (role === 'consultant') return { allowed: true, quota };
+  if (!isAiAssistantEnabled(settings, role)) return { allowed: false, reason: 'disabled', quota };
+  if (used >= quota) return { allowed: false, reason: 'exhausted', quota };
+  return { allowed: true, quota };
+}
+
+/**
+ * Consomme une requête sur le quota du mois courant (transaction : lecture du dossier + compteur).
+ */
+export async function consumeAiQuota(clientId: string, role: string): Promise<AiQuotaResult> {
+  const db = admin.firestore();
+  const period = usagePeriod();
+  const clientRef = db.collection('clients').doc(clientId);
+  const usageRef = db.collection(COLL_AI_USAGE).doc(`${clientId}_${period}`);
+
+  return db.runTransaction(async (tx) => {
+    const [clientSnap, usageSnap] = await Promise.all([tx.get(clientRef), tx.get(usageRef)]);
+    if (!clientSnap.exists) {
+      throw new functions.https.HttpsError('not-found', 'Dossier introuvable.');
+    }
+
+    const usage = usageSnap.data();
+    const used = clientRequestCount(usage);
+    const decision = evaluateAiQuota(clientSnap.data()?.settings, used, role);
+    if (!decision.allowed) {
+      return { allowed: false, reason: decision.reason, used, quota: decision.quota, period };
+    }
+
+    const isConsultant = role === 'consultant';
+    tx.set(usageRef, {
+      clientId,
+      period,
+      count: (Number(usage?.count) || 0) + 1,
+      consultantCount: (Number(usage?.consultantCount) || 0) + (isConsultant ? 1 : 0),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+
+    return { allowed: true, used: isConsultant ? used : used + 1, quota: decision.quota, period };
+  });
+}
+
+/** Message utilisateur associé à un refus de quota. */
+export function aiQuotaDeniedMessage(result: Pick<AiQuotaResult, 'reason' | 'quota'>): string {
+  if (result.reason === 'disabled') {
+    return 'L\'Assistant IA n\'est pas activé pour ce dossier. Contactez votre consultant.';
+  }
+  return `Quota mensuel de l'Assistant IA atteint (${result.quota} requêtes). Il sera renouvelé le mois prochain.`;
+}
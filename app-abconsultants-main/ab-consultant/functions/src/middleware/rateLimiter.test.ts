@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { checkRateLimit } from './rateLimiter';
+import { checkRateLimit, applySlidingWindow } from './rateLimiter';
 
 /**
  * Note: the rate limiter is module-scoped in-memory state (no reset API).
@@ -61,3 +61,19 @@ describe('checkRateLimit — in-memory counter', () => {
     expect(result.remaining).toBe(29);
   });
 });
+
+describe('applySlidingWindow — shared by memory and Firestore limiters', () => {
+  it('drops expired timestamps before counting', () => {
+    const { result, timestamps } = applySlidingWindow([0, 50, 950], 1000, 2, 100);
+    expect(result.allowed).toBe(true);
+    expect(timestamps).toEqual([950, 1000]);
+    expect(result.remaining).toBe(0);
+  });
+
+  it('does not record a rejected request', () => {
+    const { result, timestamps } = applySlidingWindow([900, 950], 1000, 2, 500);
+    expect(result.allowed).toBe(false);
+    expect(result.resetAt).toBe(1400);
+    expect(timestamps).toEqual([900, 950]);
+  });
+});
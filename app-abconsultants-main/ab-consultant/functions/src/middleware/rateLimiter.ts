@@ -1,10 +1,52 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
 /**
- * Rate Limiter en mémoire pour les Cloud Functions.
+ * Rate Limiter pour les Cloud Functions.
  *
- * Limites par UID : empêche l'abus de l'API Gemini.
- * Note : En production avec plusieurs instances, utiliser Redis ou Firestore pour le state.
- * Pour un volume modéré (< 100 users actifs), le in-memory suffit.
+ * Deux implémentations partagent la même fenêtre glissante (`applySlidingWindow`) :
+ * - `checkRateLimit` : en mémoire, par instance (tests, usage local)
+ * - `checkDistributedRateLimit` : persistée dans Firestore (`rateLimits/{key}`) via transaction,
+ *   partagée entre instances et résistante aux cold starts. À utiliser en production.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  resetAt: number;
+}
+
+const COLL_RATE_LIMITS = 'rateLimits';
+
+/**
+ * Fenêtre glissante pure : purge les horodatages expirés et ajoute `now` si la limite le permet.
+ * Le tableau retourné est trié et ne dépasse jamais `maxRequests` éléments.
  */
+export function applySlidingWindow(
+  timestamps: number[],
+  now: number,
+  maxRequests: number,
+  windowMs: number
+): { result: RateLimitResult; timestamps: number[] } {
+  const inWindow = timestamps.filter(t => now - t < windowMs);
+
+  if (inWindow.length >= maxRequests) {
+    return {
+      result: { allowed: false, remaining: 0, resetAt: inWindow[0] + windowMs },
+      timestamps: inWindow,
+    };
+  }
+
+  inWindow.push(now);
+  return {
+    result: { allowed: true, remaining: maxRequests - inWindow.length, resetAt: now + windowMs },
+    timestamps: inWindow,
+  };
+}
 
 interface RateLimitEntry {
   timestamps: number[];
@@ -29,31 +71,62 @@ export function checkRateLimit(
   uid: string,
   maxRequests: number = 30,
   windowMs: number = 60 * 60 * 1000 // 1 heure
-): { allowed: boolean; remaining: number; resetAt: number } {
-  const now = Date.now();
-
-  let entry = store.get(uid);
-  if (!entry) {
-    entry = { timestamps: [] };
-    store.set(uid, entry);
-  }
+): RateLimitResult {
+  const entry = store.get(uid) || { timestamps: [] };
+  const { result, timestamps } = applySlidingWindow(entry.timestamps, Date.now(), maxRequests, windowMs);
+  entry.timestamps = timestamps;
+  store.set(uid, entry);
+  return result;
+}
 
-  // Purger les entrées hors fenêtre
-  entry.timestamps = entry.timestamps.filter(t => now - t < windowMs);
+/**
+ * Variante distribuée : l'état est stocké dans `rateLimits/{key}` et mis à jour en transaction.
+ * La clé est libre (ex : `ai:${uid}`, `export:${uid}`) pour pouvoir limiter chaque callable séparément.
+ * En cas d'indisponibilité Firestore, on retombe sur le limiteur en mémoire plutôt que de bloquer.
+ */
+export async function checkDistributedRateLimit(
+  key: string,
+  maxRequests: number = 30,
+  windowMs: number = 60 * 60 * 1000
+): Promise<RateLimitResult> {
+  const db = admin.firestore();
+  const ref = db.collection(COLL_RATE_LIMITS).doc(key.replace(/\//g, '_'));
 
-  if (entry.timestamps.length >= maxRequests) {
-    const oldestInWindow = entry.timestamps[0];
-    return {
-      allowed: false,
-      remaining: 0,
-      resetAt: oldestInWindow + windowMs,
-    };
+  try {
+    return await db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      const previous: number[] = Array.isArray(snap.data()?.timestamps) ? snap.data()!.timestamps : [];
+      const { result, timestamps } = applySlidingWindow(previous, Date.now(), maxRequests, windowMs);
+      if (result.allowed) {
+        tx.set(ref, {
+          timestamps,
+          // Permet une politique TTL Firestore sur ce champ pour purger les clés inactives
+          expiresAt: admin.firestore.Timestamp.fromMillis(result.resetAt),
+        });
+      }
+      return result;
+    });
+  } catch (err: any) {
+    functions.logger.warn('Distributed rate limit unavailable, falling back to memory', { key, error: err?.message });
+    return checkRateLimit(key, maxRequests, windowMs);
   }
+}
 
-  entry.timestamps.push(now);
-  return {
-    allowed: true,
-    remaining: maxRequests - entry.timestamps.length,
-    resetAt: now + windowMs,
-  };
+/**
+ * Raccourci pour les callables : lève `resource-exhausted` si la limite est atteinte.
+ */
+export async function enforceRateLimit(
+  key: string,
+  maxRequests: number,
+  windowMs: number,
+  label: string
+): Promise<RateLimitResult> {
+  const check = await checkDistributedRateLimit(key, maxRequests, windowMs);
+  if (!check.allowed) {
+    throw new functions.https.HttpsError(
+      'resource-exhausted',
+      `Limite de requêtes atteinte (${maxRequests}/${label}). Réessayez dans ${Math.ceil((check.resetAt - Date.now()) / 60000)} minutes.`
+    );
+  }
+  return check;
 }
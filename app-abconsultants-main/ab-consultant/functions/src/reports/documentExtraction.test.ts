@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { DOCUMENT_EXTRACTION_SYSTEM_PROMPT, parseExtractionResponse } from './documentExtraction';
+
+describe('document extraction', () => {
+  it('lists every extractable field in the system prompt', () => {
+    expect(DOCUMENT_EXTRACTION_SYSTEM_PROMPT).toContain('- cashFlow.treasury :');
+    expect(DOCUMENT_EXTRACTION_SYSTEM_PROMPT).toContain('- expenses.salaries :');
+  });
+
+  it('keeps known fields with numeric amounts and bounded confidence', () => {
+    const result = parseExtractionResponse('```json\n' + JSON.stringify({
+      documentType: 'vat_return',
+      period: { year: 2025, month: 'Mars' },
+      fields: {
+        'bfr.debts.state': { value: 4210.5, confidence: 0.95, source: 'Ligne 28 - TVA nette due' },
+        'bfr.receivables.clients': { value: '12 345,67 €', confidence: 70 },
+        'cashFlow.treasury': { value: -1200, confidence: 150 },
+        'revenue.total': { value: 50000, confidence: 0.9 },
+        'bfr.debts.social': { value: 'non indiqué', confidence: 0.2 },
+      },
+    }) + '\n```');
+
+    expect(result).toEqual({
+      documentType: 'vat_return',
+      period: { year: 2025, month: 'Mars' },
+      fields: [
+        { path: 'bfr.debts.state', value: 4210.5, confidence: 0.95, source: 'Ligne 28 - TVA nette due' },
+        { path: 'bfr.receivables.clients', value: 12345.67, confidence: 0.7 },
+        { path: 'cashFlow.treasury', value: -1200, confidence: 1 },
+      ],
+    });
+  });
+
+  it('only allows a negative treasury', () => {
+    const result = parseExtractionResponse(JSON.stringify({
+      documentType: 'invoice',
+      period: { year: 2025, month: 'March' },
+      fields: { 'bfr.debts.suppliers': { value: -830, confidence: 0.8 } },
+    }));
+    expect(result?.documentType).toBe('other');
+    expect(result?.period).toBeNull();
+    expect(result?.fields[0].value).toBe(830);
+  });
+
+  it('ignores paths inherited from Object.prototype', () => {
+    const result = parseExtractionResponse(JSON.stringify({
+      documentType: 'bank_statement',
+      fields: { constructor: { value: 1, confidence: 1 }, toString: 2, 'cashFlow.treasury': { value: 500, confidence: 0.9 } },
+    }));
+    expect(result?.fields.map(f => f.path)).toEqual(['cashFlow.treasury']);
+  });
+
+  it('rejects an answer that is not JSON', () => {
+    expect(parseExtractionResponse('Je ne parviens pas à lire ce document.')).toBeNull();
+    expect(parseExtractionResponse('{ "fields": ')).toBeNull();
+  });
+});
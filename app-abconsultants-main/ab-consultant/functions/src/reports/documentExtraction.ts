@@ -0,0 +1,117 @@
+import { MONTH_ORDER } from '../api/fiscalYear';
+
+/**
+ * Extraction des montants d'un document déposé par le client (relevé bancaire, déclaration
+ * de TVA, situation mensuelle du comptable) vers les champs de la saisie mensuelle.
+ *
+ * Le modèle lit le document et répond en JSON ; `parseExtractionResponse` ne garde que les
+ * champs connus, aux montants numériques, avec une confiance bornée entre 0 et 1.
+ * Rien n'est écrit dans le record : la saisie pré-remplit le formulaire et le client confirme
+ * chaque champ proposé.
+ */
+
+export type ExtractedDocumentType = 'bank_statement' | 'vat_return' | 'accounting_summary' | 'other';
+
+export interface ExtractedField {
+  path: string;          // chemin pointé du champ du record, ex: "cashFlow.treasury"
+  value: number;
+  confidence: number;    // 0..1
+  source?: string;       // libellé ou ligne du document d'où vient le montant
+}
+
+export interface DocumentExtraction {
+  documentType: ExtractedDocumentType;
+  period: { year: number; month: string } | null;
+  fields: ExtractedField[];
+}
+
+/** Champs de la saisie que l'extraction peut proposer (trésorerie, créances, dettes, salaires). */
+export const EXTRACTABLE_FIELDS: Record<string, string> = {
+  'cashFlow.treasury': 'Trésorerie : solde bancaire en fin de mois (négatif si découvert)',
+  'bfr.receivables.clients': 'Créances clients restant à encaisser',
+  'bfr.debts.suppliers': 'Dettes fournisseurs restant à payer',
+  'bfr.debts.state': 'Dettes fiscales (TVA à payer, autres impôts dus)',
+  'bfr.debts.social': 'Dettes sociales (URSSAF, retraite, prévoyance)',
+  'expenses.salaries': 'Masse salariale du mois (salaires bruts + charges)',
+};
+
+const DOCUMENT_TYPES: ExtractedDocumentType[] = ['bank_statement', 'vat_return', 'accounting_summary', 'other'];
+const MAX_SOURCE_LENGTH = 120;
+
+export const DOCUMENT_EXTRACTION_SYSTEM_PROMPT = `Tu lis des documents comptables français (relevé bancaire, déclaration de TVA CA3, situation mensuelle d'un cabinet comptable) pour pré-remplir la saisie mensuelle d'une TPE.
+
+RÈGLES :
+- Réponds UNIQUEMENT par un objet JSON, sans texte autour ni balise de code.
+- Ne reporte que des montants lus dans le document. N'invente rien : un champ absent du document est omis.
+- Montants en euros, nombres JSON (ex. 12345.67), positifs, sauf la trésorerie qui est négative en cas de découvert.
+- "confidence" entre 0 et 1 : 0.9 et plus si le montant est lu tel quel sur une ligne clairement libellée, 0.5 à 0.8 s'il faut interpréter ou additionner, moins de 0.5 en cas de doute.
+- "source" : le libellé ou la ligne du document d'où vient le montant (court).
+
+FORMAT :
+{"documentType": "bank_statement" | "vat_return" | "accounting_summary" | "other",
+ "period": {"year": 2025, "month": "Mars"} ou null,
+ "fields": {"<chemin>": {"value": 0, "confidence": 0.0, "source": "..."}}}
+
+CHAMPS (chemin : définition) :
+${Object.entries(EXTRACTABLE_FIELDS).map(([path, label]) => `- ${path} : ${label}`).join('\n')}`;
+
+/** Consigne utilisateur : le mois visé par la saisie en cours. */
+export function buildExtractionPrompt(year: number, month: string): string {
+  return `Extrais les montants de ce document pour la saisie de ${month} ${year}. Si le document couvre une autre période, indique-la dans "period".`;
+}
+
+/** Montant JSON ou chaîne au format français ("12 345,67 €"). */
+function toAmount(raw: unknown): number | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? Math.round(raw * 100) / 100 : null;
+  if (typeof raw !== 'string') return null;
+  const cleaned = raw.replace(/[\s\u00a0\u202f€]/g, '').replace(/\u2212/, '-').replace(/\.(?=\d{3}(?:\D|$))/g, '').replace(',', '.');
+  const value = Number(cleaned);
+  return cleaned && Number.isFinite(value) ? Math.round(value * 100) / 100 : null;
+}
+
+function toConfidence(raw: unknown): number {
+  let value = Number(raw);
+  if (!Number.isFinite(value)) return 0;
+  if (value > 1 && value <= 100) value /= 100;   // certains modèles répondent en pourcentage
+  return Math.round(Math.min(Math.max(value, 0), 1) * 100) / 100;
+}
+
+/** Réponse du modèle → extraction validée, ou null si la réponse n'est pas un JSON exploitable. */
+export function parseExtractionResponse(text: string): DocumentExtraction | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  const documentType = DOCUMENT_TYPES.includes(parsed.documentType) ? parsed.documentType : 'other';
+  const year = Number(parsed.period?.year);
+  const period = Number.isInteger(year) && MONTH_ORDER.includes(parsed.period?.month)
+    ? { year, month: parsed.period.month as string }
+    : null;
+
+  const fields: ExtractedField[] = [];
+  const rawFields = parsed.fields && typeof parsed.fields === 'object' ? parsed.fields : {};
+  for (const [path, entry] of Object.entries<any>(rawFields)) {
+    if (!Object.prototype.hasOwnProperty.call(EXTRACTABLE_FIELDS, path)) continue;
+    const value = toAmount(entry && typeof entry === 'object' ? entry.value : entry);
+    if (value === null) continue;
+    // Seule la trésorerie peut être négative (découvert)
+    const field: ExtractedField = {
+      path,
+      value: path === 'cashFlow.treasury' ? value : Math.abs(value),
+      confidence: toConfidence(entry?.confidence),
+    };
+    if (typeof entry?.source === 'string' && entry.source.trim()) {
+      field.source = entry.source.trim().slice(0, MAX_SOURCE_LENGTH);
+    }
+    fields.push(field);
+  }
+
+  return { documentType, period, fields };
+}
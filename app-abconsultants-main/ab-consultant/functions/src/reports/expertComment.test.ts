@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { buildExpertCommentFacts, buildExpertCommentPrompt, pickToneExamples } from './expertComment';
+
+const record = (year: number, month: string, revenue: number, bfr: number, extra: Record<string, any> = {}) => ({
+  year,
+  month,
+  revenue: { total: revenue, objective: 1000, breakdown: { pc1: revenue } },
+  margin: { total: revenue / 2, breakdown: { pc1: revenue / 2 } },
+  expenses: { salaries: 300 },
+  cashFlow: { treasury: 5000 },
+  bfr: { total: bfr },
+  ...extra,
+});
+
+const dataset = {
+  client: { companyName: 'Garage Dupuis', profitCenters: [{ id: 'pc1', name: 'Atelier' }] },
+  records: [
+    record(2024, 'Janvier', 800, 400, { expertComment: 'Un début d\'année solide.' }),
+    record(2024, 'Décembre', 1000, 500, { expertComment: 'Belle fin d\'exercice.' }),
+    record(2025, 'Janvier', 1200, 450),
+  ],
+};
+
+describe('expert comment draft', () => {
+  it('computes N-1, M-1, objective and BFR deltas across the year boundary', () => {
+    const facts = buildExpertCommentFacts(dataset, 2025, 'Janvier')!;
+    expect(facts.mois).toBe('Janvier 2025');
+    expect(facts.vs_n1?.ca).toEqual({ valeur: 400, pct: 50 });
+    expect(facts.vs_m1?.ca).toEqual({ valeur: 200, pct: 20 });
+    expect(facts.atteinte_objectif_pct).toBe(120);
+    expect(facts.bfr).toEqual({
+      fin_de_mois: 450,
+      variation_m1: { valeur: -50, pct: -10 },
+      variation_n1: { valeur: 50, pct: 12.5 },
+    });
+    expect(facts.activites).toEqual([{ activite: 'Atelier', ca: 1200, part_ca_pct: 100, taux_marge: 50 }]);
+  });
+
+  it('returns null for a month without record and omits missing comparisons', () => {
+    expect(buildExpertCommentFacts(dataset, 2025, 'Février')).toBeNull();
+    const facts = buildExpertCommentFacts(dataset, 2024, 'Janvier')!;
+    expect(facts.vs_n1).toBeNull();
+    expect(facts.vs_m1).toBeNull();
+    expect(facts.bfr.variation_m1).toBeNull();
+  });
+
+  it('uses the latest earlier comments as tone examples', () => {
+    expect(pickToneExamples(dataset.records, 2025, 'Janvier')).toEqual(['Belle fin d\'exercice.', 'Un début d\'année solide.']);
+    expect(pickToneExamples(dataset.records, 2024, 'Janvier')).toEqual([]);
+
+    const prompt = buildExpertCommentPrompt('Garage Dupuis', buildExpertCommentFacts(dataset, 2025, 'Janvier')!, ['Belle fin d\'exercice.']);
+    expect(prompt).toContain('MOIS À COMMENTER : Janvier 2025');
+    expect(prompt).toContain('Belle fin d\'exercice.');
+  });
+});
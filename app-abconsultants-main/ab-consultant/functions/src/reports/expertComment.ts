@@ -0,0 +1,130 @@
+import { MONTH_ORDER } from '../api/fiscalYear';
+import { FinancialDataset, createFinancialQueryLayer } from '../api/financialQueries';
+
+/**
+ * Brouillon IA du commentaire de l'expert d'un mois.
+ *
+ * `buildExpertCommentFacts` calcule les chiffres à commenter (mois, écarts N-1 et M-1,
+ * atteinte de l'objectif, variation du BFR) ; `buildExpertCommentPrompt` les met en forme
+ * pour le modèle, avec les derniers commentaires validés du dossier comme exemples de ton.
+ * Les deux sont purs : le callable se charge des droits, de l'appel au modèle et du stockage.
+ */
+
+type RecordData = Record<string, any>;
+
+export interface CommentDelta {
+  valeur: number;
+  pct: number | null;
+}
+
+export interface ExpertCommentFacts {
+  mois: string;                        // "Mars 2025"
+  exercice: string;
+  kpis: Record<string, number | null>;
+  vs_n1: Record<string, CommentDelta> | null;   // même mois de l'année précédente
+  vs_m1: Record<string, CommentDelta> | null;   // mois précédent
+  atteinte_objectif_pct: number | null;
+  bfr: { fin_de_mois: number; variation_m1: CommentDelta | null; variation_n1: CommentDelta | null };
+  activites: { activite: string; ca: number; part_ca_pct: number | null; taux_marge: number | null }[];
+}
+
+const COMPARED_KPIS = ['ca', 'marge', 'taux_marge', 'masse_salariale', 'heures', 'tresorerie', 'bfr'] as const;
+const MAX_EXAMPLES = 3;
+
+const monthKey = (year: number, month: string) => `${year}-${String(MONTH_ORDER.indexOf(month) + 1).padStart(2, '0')}`;
+
+function previousMonth(year: number, month: string): { year: number; month: string } {
+  const idx = MONTH_ORDER.indexOf(month);
+  return idx === 0 ? { year: year - 1, month: MONTH_ORDER[11] } : { year, month: MONTH_ORDER[idx - 1] };
+}
+
+function delta(current: number | null, previous: number | null): CommentDelta | null {
+  if (current === null || previous === null) return null;
+  const valeur = Math.round((current - previous) * 100) / 100;
+  const pct = previous !== 0 ? Math.round((valeur / Math.abs(previous)) * 10000) / 100 : null;
+  return { valeur, pct };
+}
+
+function deltas(current: Record<string, number | null>, previous: Record<string, number | null> | null) {
+  if (!previous) return null;
+  const result: Record<string, CommentDelta> = {};
+  for (const key of COMPARED_KPIS) {
+    const d = delta(current[key], previous[key]);
+    if (d) result[key] = d;
+  }
+  return result;
+}
+
+/** Chiffres du mois à commenter ; null si le mois n'est pas saisi. */
+export function buildExpertCommentFacts(dataset: FinancialDataset, year: number, month: string): ExpertCommentFacts | null {
+  const layer = createFinancialQueryLayer(dataset);
+  const current = layer.getMonthKpis(monthKey(year, month));
+  const kpis = current.kpis;
+  if (!kpis) return null;
+
+  const prev = previousMonth(year, month);
+  const m1 = layer.getMonthKpis(monthKey(prev.year, prev.month));
+  const m1Kpis = m1.kpis || null;
+  const n1Kpis = current.n1 || null;
+
+  const activites = layer.listProfitCenterRevenue(monthKey(year, month), monthKey(year, month)).activites
+    .filter(a => a.ca !== 0)
+    .map(({ activite, ca, part_ca_pct, taux_marge }) => ({ activite, ca, part_ca_pct, taux_marge }));
+
+  return {
+    mois: current.mois,
+    exercice: current.exercice || '',
+    kpis,
+    vs_n1: deltas(kpis, n1Kpis),
+    vs_m1: deltas(kpis, m1Kpis),
+    atteinte_objectif_pct: kpis.objectif_ca ? current.atteinte_objectif_pct ?? null : null,
+    bfr: {
+      fin_de_mois: kpis.bfr,
+      variation_m1: m1Kpis ? delta(kpis.bfr, m1Kpis.bfr) : null,
+      variation_n1: n1Kpis ? delta(kpis.bfr, n1Kpis.bfr) : null,
+    },
+    activites,
+  };
+}
+
+/** Derniers commentaires rédigés par le cabinet sur ce dossier, hors mois commenté (exemples de ton). */
+export function pickToneExamples(records: RecordData[], year: number, month: string): string[] {
+  const target = year * 12 + MONTH_ORDER.indexOf(month);
+  return records
+    .filter(r => typeof r.expertComment === 'string' && r.expertComment.trim())
+    .map(r => ({ rank: Number(r.year) * 12 + MONTH_ORDER.indexOf(r.month), text: r.expertComment.trim() as string }))
+    .filter(r => r.rank < target)
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, MAX_EXAMPLES)
+    .map(r => r.text);
+}
+
+export const EXPERT_COMMENT_SYSTEM_PROMPT = `
+Tu es expert-comptable au cabinet AB Consultants. Tu rédiges le commentaire mensuel
+adressé au dirigeant d'une TPE/PME, à partir des chiffres fournis.
+
+RÈGLES :
+1. Utilise uniquement les chiffres fournis, sans en inventer ni en recalculer d'autres.
+2. Vouvoiement, ton professionnel, direct et bienveillant. Pas de jargon inutile.
+3. 4 à 6 phrases, en texte brut (pas de Markdown, pas de titres, pas de listes).
+4. Structure : performance du mois (CA, marge) ; comparaison au même mois N-1 et au mois précédent ;
+   atteinte de l'objectif si disponible ; évolution du BFR et de la trésorerie ; une recommandation concrète.
+5. Montants en euros arrondis (ex : 12 500 €), pourcentages à une décimale.
+6. Si une comparaison n'est pas disponible, n'en parle pas.
+`.trim();
+
+export function buildExpertCommentPrompt(companyName: string, facts: ExpertCommentFacts, examples: string[]): string {
+  const lines = [
+    `DOSSIER : ${companyName || 'Client'}`,
+    `MOIS À COMMENTER : ${facts.mois} (exercice ${facts.exercice})`,
+    '',
+    'CHIFFRES (JSON) :',
+    JSON.stringify(facts, null, 2),
+  ];
+  if (examples.length) {
+    lines.push('', 'COMMENTAIRES PRÉCÉDENTS DU CABINET (reprends leur ton et leur style, pas leurs chiffres) :');
+    examples.forEach((text, i) => lines.push(`--- Exemple ${i + 1} ---`, text));
+  }
+  lines.push('', 'Rédige le commentaire de l\'expert pour ce mois.');
+  return lines.join('\n');
+}
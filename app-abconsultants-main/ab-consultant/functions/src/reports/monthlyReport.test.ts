@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import * as zlib from 'zlib';
+import { buildMonthlyReportData, renderMonthlyReport } from './monthlyReport';
+
+const record = (year: number, month: string, revenue: number, extra: Record<string, any> = {}) => ({
+  year,
+  month,
+  isPublished: true,
+  revenue: { total: revenue, breakdown: { pc1: revenue } },
+  margin: { total: revenue * 0.4, breakdown: { pc1: revenue * 0.4 } },
+  cashFlow: { treasury: 1000 },
+  bfr: { total: 500 },
+  ...extra,
+});
+
+const client = {
+  companyName: 'Boulangerie Martin',
+  fiscalYearEnd: '30/06',
+  profitCenters: [{ id: 'pc1', name: 'Boutique' }],
+};
+
+const records = [
+  record(2024, 'Juillet', 100),
+  record(2024, 'Août', 200),
+  record(2025, 'Juillet', 150),
+  record(2025, 'Août', 250, { expertComment: 'Bon mois.' }),
+];
+
+describe('monthly report', () => {
+  it('returns null for a month without published record', () => {
+    expect(buildMonthlyReportData(client, records, 2025, 'Septembre')).toBeNull();
+  });
+
+  it('compares with N-1 and accumulates the fiscal year to date', () => {
+    const data = buildMonthlyReportData(client, records, 2025, 'Août')!;
+    expect(data.fiscalYearLabel).toBe('2025/26');
+    expect(data.previous?.revenue.total).toBe(200);
+    expect(data.fiscalToDate).toEqual({ revenue: 400, revenueN1: 300, months: 2 });
+    expect(data.profitCenters).toEqual([{ name: 'Boutique', revenue: 250, revenueN1: 200, margin: 100 }]);
+    expect(data.expertComment).toBe('Bon mois.');
+  });
+
+  it('builds a 12-month rolling series across calendar years', () => {
+    const data = buildMonthlyReportData(client, records, 2025, 'Août')!;
+    expect(data.series).toHaveLength(12);
+    expect(data.series[0].label).toBe('Sept 24');
+    expect(data.series[11]).toMatchObject({ label: 'Août 25', revenue: 250, revenueN1: 200 });
+    expect(data.series[0].revenue).toBeNull();
+  });
+
+  it('renders a valid PDF with the company name', () => {
+    const data = buildMonthlyReportData(client, records, 2025, 'Août')!;
+    const pdf = renderMonthlyReport(data, new Date('2025-09-10T08:00:00Z'));
+    const raw = pdf.toString('latin1');
+    expect(raw.startsWith('%PDF-1.4')).toBe(true);
+    expect(raw.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const contents = [...raw.matchAll(/stream\n([\s\S]*?)\nendstream/g)]
+      .map(m => zlib.inflateSync(Buffer.from(m[1], 'latin1')).toString('latin1'))
+      .join('\n');
+    expect(contents).toContain('Boulangerie Martin');
+    expect(contents).toMatch(/Page 1\/\d/);
+  });
+});
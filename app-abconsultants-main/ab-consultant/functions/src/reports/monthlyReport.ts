@@ -0,0 +1,364 @@
+import { A4, PdfDocument } from './pdfWriter';
+import { MONTH_ORDER, formatFiscalYear, getFiscalYear } from '../api/fiscalYear';
+
+/**
+ * Rapport mensuel PDF d'un dossier client.
+ *
+ * `buildMonthlyReportData` extrait des records publiés tout ce que le rapport affiche
+ * (KPI du mois et N-1, 12 mois glissants, activités, commentaire de l'expert) ;
+ * `renderMonthlyReport` le met en page. Les deux sont purs : le callable se charge
+ * des droits, du stockage et du cache.
+ */
+
+type RecordData = Record<string, any>;
+
+export interface ReportSeriesPoint {
+  label: string;             // "Mars 25"
+  revenue: number | null;
+  revenueN1: number | null;
+  treasury: number | null;
+  bfr: number | null;
+}
+
+export interface ReportProfitCenterRow {
+  name: string;
+  revenue: number;
+  revenueN1: number | null;
+  margin: number | null;
+}
+
+export interface MonthlyReportData {
+  companyName: string;
+  year: number;
+  month: string;
+  fiscalYearLabel: string;
+  current: RecordData;
+  previous: RecordData | null;         // même mois N-1
+  fiscalToDate: { revenue: number; revenueN1: number | null; months: number };
+  series: ReportSeriesPoint[];         // 12 mois se terminant sur le mois du rapport
+  profitCenters: ReportProfitCenterRow[];
+  expertComment: string;
+}
+
+const SHORT_MONTHS = ['Janv', 'Fév', 'Mars', 'Avril', 'Mai', 'Juin', 'Juil', 'Août', 'Sept', 'Oct', 'Nov', 'Déc'];
+
+const findRecord = (records: RecordData[], year: number, month: string) =>
+  records.find(r => r.year === year && r.month === month) || null;
+
+const num = (v: unknown): number => Number(v) || 0;
+
+/** Données du rapport, ou null si le mois n'a pas de record publié. */
+export function buildMonthlyReportData(
+  client: RecordData,
+  publishedRecords: RecordData[],
+  year: number,
+  month: string
+): MonthlyReportData | null {
+  const current = findRecord(publishedRecords, year, month);
+  if (!current) return null;
+  const previous = findRecord(publishedRecords, year - 1, month);
+  const fiscalYearEnd: string | undefined = client.fiscalYearEnd || undefined;
+  const monthIdx = MONTH_ORDER.indexOf(month);
+
+  // 12 mois glissants
+  const series: ReportSeriesPoint[] = [];
+  for (let offset = 11; offset >= 0; offset--) {
+    const rank = year * 12 + monthIdx - offset;
+    const y = Math.floor(rank / 12);
+    const idx = rank % 12;
+    const r = findRecord(publishedRecords, y, MONTH_ORDER[idx]);
+    const n1 = findRecord(publishedRecords, y - 1, MONTH_ORDER[idx]);
+    series.push({
+      label: `${SHORT_MONTHS[idx]} ${String(y).slice(-2)}`,
+      revenue: r ? num(r.revenue?.total) : null,
+      revenueN1: n1 ? num(n1.revenue?.total) : null,
+      treasury: r ? num(r.cashFlow?.treasury) : null,
+      bfr: r ? num(r.bfr?.total) : null,
+    });
+  }
+
+  // Cumul de l'exercice jusqu'au mois du rapport, comparé à la même période N-1
+  const fiscalYear = getFiscalYear(year, month, fiscalYearEnd);
+  const rank = (r: RecordData) => r.year * 12 + MONTH_ORDER.indexOf(r.month);
+  const toDate = publishedRecords.filter(r => getFiscalYear(r.year, r.month, fiscalYearEnd) === fiscalYear && rank(r) <= rank(current));
+  const toDateN1 = publishedRecords.filter(r => getFiscalYear(r.year, r.month, fiscalYearEnd) === fiscalYear - 1 && rank(r) <= rank(current) - 12);
+
+  const profitCenters: ReportProfitCenterRow[] = (client.profitCenters || [])
+    .map((pc: RecordData) => ({
+      name: String(pc.name || ''),
+      revenue: num(current.revenue?.breakdown?.[pc.id]),
+      revenueN1: previous ? num(previous.revenue?.breakdown?.[pc.id]) : null,
+      margin: current.margin?.breakdown?.[pc.id] !== undefined ? num(current.margin.breakdown[pc.id]) : null,
+    }))
+    .filter((row: ReportProfitCenterRow) => row.revenue !== 0 || (row.revenueN1 || 0) !== 0);
+
+  return {
+    companyName: String(client.companyName || 'Dossier'),
+    year,
+    month,
+    fiscalYearLabel: formatFiscalYear(fiscalYear, fiscalYearEnd),
+    current,
+    previous,
+    fiscalToDate: {
+      revenue: toDate.reduce((s, r) => s + num(r.revenue?.total), 0),
+      revenueN1: toDateN1.length ? toDateN1.reduce((s, r) => s + num(r.revenue?.total), 0) : null,
+      months: toDate.length,
+    },
+    series,
+    profitCenters,
+    expertComment: String(current.expertComment || '').trim(),
+  };
+}
+
+// =============================================
+// MISE EN PAGE
+// =============================================
+
+const COLORS = {
+  brand: '#243349',
+  brandLight: '#dee3eb',
+  ink: '#171612',
+  muted: '#76705f',
+  border: '#ebe7da',
+  surface: '#fbfaf6',
+  positive: '#059669',
+  negative: '#dc2626',
+  previous: '#bcc6d4',
+};
+
+const MARGIN = 40;
+const CONTENT_WIDTH = A4.width - MARGIN * 2;
+const FOOTER_Y = A4.height - 28;
+
+const formatEuro = (v: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(v);
+
+const formatCompact = (v: number) =>
+  Math.abs(v) >= 1000 ? `${(v / 1000).toLocaleString('fr-FR', { maximumFractionDigits: 0 })} k€` : `${Math.round(v)} €`;
+
+const variation = (value: number, previous: number | null): { text: string; color: string } | null => {
+  if (previous === null || previous === 0) return null;
+  const pct = ((value - previous) / Math.abs(previous)) * 100;
+  return { text: `${pct >= 0 ? '+' : ''}${pct.toFixed(1).replace('.', ',')} %`, color: pct >= 0 ? COLORS.positive : COLORS.negative };
+};
+
+interface Kpi {
+  label: string;
+  value: number;
+  previous: number | null;
+  detail?: string;
+  invert?: boolean;          // une hausse est défavorable (BFR, masse salariale)
+}
+
+class ReportLayout {
+  readonly pdf = new PdfDocument();
+  y = 0;
+
+  constructor(private readonly data: MonthlyReportData) {
+    this.header();
+  }
+
+  private header() {
+    const { pdf, data } = this;
+    pdf.rect(0, 0, A4.width, 92, COLORS.brand);
+    pdf.text('AB CONSULTANTS · RAPPORT MENSUEL', MARGIN, 34, { size: 8, bold: true, color: COLORS.brandLight });
+    pdf.text(`${data.month} ${data.year}`, MARGIN, 62, { size: 22, bold: true, color: '#ffffff' });
+    pdf.text(data.companyName, A4.width - MARGIN, 62, { size: 12, bold: true, color: '#ffffff', align: 'right' });
+    pdf.text(`Exercice ${data.fiscalYearLabel}`, A4.width - MARGIN, 78, { size: 9, color: COLORS.brandLight, align: 'right' });
+    this.y = 116;
+  }
+
+  /** Nouvelle page si le bloc suivant ne tient pas. */
+  ensureSpace(height: number) {
+    if (this.y + height <= FOOTER_Y - 16) return;
+    this.pdf.addPage();
+    this.pdf.rect(0, 0, A4.width, 6, COLORS.brand);
+    this.y = 40;
+  }
+
+  sectionTitle(title: string) {
+    this.ensureSpace(28);
+    this.pdf.text(title.toUpperCase(), MARGIN, this.y, { size: 9, bold: true, color: COLORS.muted });
+    this.pdf.line(MARGIN, this.y + 6, A4.width - MARGIN, this.y + 6, COLORS.border);
+    this.y += 20;
+  }
+
+  kpis(items: Kpi[]) {
+    const cols = 3;
+    const gap = 10;
+    const w = (CONTENT_WIDTH - gap * (cols - 1)) / cols;
+    const h = 62;
+    for (let i = 0; i < items.length; i += cols) {
+      this.ensureSpace(h + gap);
+      items.slice(i, i + cols).forEach((kpi, j) => {
+        const x = MARGIN + j * (w + gap);
+        const { pdf } = this;
+        pdf.rect(x, this.y, w, h, COLORS.surface, COLORS.border);
+        pdf.text(kpi.label, x + 10, this.y + 16, { size: 8, bold: true, color: COLORS.muted });
+        pdf.text(formatEuro(kpi.value), x + 10, this.y + 36, { size: 15, bold: true, color: COLORS.ink });
+        const v = variation(kpi.value, kpi.previous);
+        const n1 = kpi.previous !== null ? `N-1 : ${formatEuro(kpi.previous)}` : 'N-1 : —';
+        pdf.text(kpi.detail ? `${kpi.detail} · ${n1}` : n1, x + 10, this.y + 52, { size: 7.5, color: COLORS.muted });
+        if (v) {
+          const color = kpi.invert ? (v.color === COLORS.positive ? COLORS.negative : COLORS.positive) : v.color;
+          pdf.text(v.text, x + w - 10, this.y + 16, { size: 8, bold: true, color, align: 'right' });
+        }
+      });
+      this.y += h + gap;
+    }
+  }
+
+  /** Histogramme mensuel, série N-1 optionnelle en barres claires à gauche. */
+  barChart(title: string, points: { label: string; value: number | null; previous?: number | null }[], options: { signed?: boolean } = {}) {
+    const height = 150;
+    this.ensureSpace(height + 40);
+    this.sectionTitle(title);
+    const { pdf } = this;
+    const top = this.y;
+    const plotLeft = MARGIN + 44;
+    const plotWidth = CONTENT_WIDTH - 44;
+    const plotHeight = height - 24;
+
+    const values = points.flatMap(p => [p.value, p.previous]).filter((v): v is number => typeof v === 'number');
+    const max = Math.max(0, ...values);
+    const min = Math.min(0, ...values);
+    const span = max - min || 1;
+    const yOf = (v: number) => top + ((max - v) / span) * plotHeight;
+
+    // Grille : 0, max, min
+    [max, 0, min].filter((v, i, arr) => arr.indexOf(v) === i).forEach(v => {
+      pdf.line(plotLeft, yOf(v), plotLeft + plotWidth, yOf(v), v === 0 ? '#a8a294' : COLORS.border);
+      pdf.text(formatCompact(v), plotLeft - 6, yOf(v) + 3, { size: 7, color: COLORS.muted, align: 'right' });
+    });
+
+    const slot = plotWidth / points.length;
+    const hasPrevious = points.some(p => typeof p.previous === 'number');
+    const barWidth = hasPrevious ? slot * 0.3 : slot * 0.55;
+    points.forEach((p, i) => {
+      const x = plotLeft + i * slot + (slot - (hasPrevious ? barWidth * 2 + 2 : barWidth)) / 2;
+      const bar = (v: number, bx: number, color: string) => {
+        const y0 = yOf(0);
+        const y1 = yOf(v);
+        pdf.rect(bx, Math.min(y0, y1), barWidth, Math.max(Math.abs(y1 - y0), 0.5), color);
+      };
+      if (hasPrevious && typeof p.previous === 'number') bar(p.previous, x, COLORS.previous);
+      if (typeof p.value === 'number') {
+        const color = options.signed && p.value < 0 ? COLORS.negative : COLORS.brand;
+        bar(p.value, hasPrevious ? x + barWidth + 2 : x, color);
+      }
+      pdf.text(p.label, plotLeft + i * slot + slot / 2, top + plotHeight + 14, { size: 6.5, color: COLORS.muted, align: 'center' });
+    });
+
+    if (hasPrevious) {
+      const legendY = top - 12;
+      pdf.rect(A4.width - MARGIN - 110, legendY - 6, 7, 7, COLORS.brand);
+      pdf.text('N', A4.width - MARGIN - 100, legendY, { size: 7, color: COLORS.muted });
+      pdf.rect(A4.width - MARGIN - 80, legendY - 6, 7, 7, COLORS.previous);
+      pdf.text('N-1', A4.width - MARGIN - 70, legendY, { size: 7, color: COLORS.muted });
+    }
+    this.y = top + height + 14;
+  }
+
+  table(headers: string[], rows: string[][], widths: number[]) {
+    const rowHeight = 18;
+    const drawHeader = () => {
+      this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, rowHeight, COLORS.brandLight);
+      let x = MARGIN;
+      headers.forEach((h, i) => {
+        const align = i === 0 ? 'left' : 'right';
+        this.pdf.text(h, align === 'left' ? x + 6 : x + widths[i] - 6, this.y + 12, { size: 8, bold: true, color: COLORS.brand, align });
+        x += widths[i];
+      });
+      this.y += rowHeight;
+    };
+    this.ensureSpace(rowHeight * 2);
+    drawHeader();
+    rows.forEach((row, r) => {
+      if (this.y + rowHeight > FOOTER_Y - 16) {
+        this.ensureSpace(rowHeight * 2);
+        drawHeader();
+      }
+      if (r % 2 === 1) this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, rowHeight, COLORS.surface);
+      let x = MARGIN;
+      row.forEach((cell, i) => {
+        const align = i === 0 ? 'left' : 'right';
+        this.pdf.text(cell, align === 'left' ? x + 6 : x + widths[i] - 6, this.y + 12, { size: 8.5, bold: i === 0, color: COLORS.ink, align });
+        x += widths[i];
+      });
+      this.y += rowHeight;
+    });
+    this.y += 14;
+  }
+
+  paragraph(text: string) {
+    const lines = this.pdf.wrapText(text, CONTENT_WIDTH - 24, 9.5);
+    const lineHeight = 13;
+    let remaining = lines;
+    while (remaining.length > 0) {
+      this.ensureSpace(lineHeight * 2 + 16);
+      const fit = Math.max(1, Math.floor((FOOTER_Y - 16 - this.y - 16) / lineHeight));
+      const chunk = remaining.slice(0, fit);
+      remaining = remaining.slice(fit);
+      const h = chunk.length * lineHeight + 16;
+      this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, h, COLORS.surface, COLORS.border);
+      this.pdf.rect(MARGIN, this.y, 3, h, COLORS.brand);
+      chunk.forEach((line, i) => this.pdf.text(line, MARGIN + 14, this.y + 18 + i * lineHeight, { size: 9.5, color: COLORS.ink }));
+      this.y += h + 14;
+    }
+  }
+
+  footers(generatedAt: Date) {
+    const total = this.pdf.pageCount;
+    const date = generatedAt.toLocaleDateString('fr-FR', { timeZone: 'Europe/Paris' });
+    for (let i = 0; i < total; i++) {
+      this.pdf.goToPage(i);
+      this.pdf.line(MARGIN, FOOTER_Y - 10, A4.width - MARGIN, FOOTER_Y - 10, COLORS.border);
+      this.pdf.text(`${this.data.companyName} · ${this.data.month} ${this.data.year} · généré le ${date}`, MARGIN, FOOTER_Y, { size: 7, color: COLORS.muted });
+      this.pdf.text(`Page ${i + 1}/${total}`, A4.width - MARGIN, FOOTER_Y, { size: 7, color: COLORS.muted, align: 'right' });
+    }
+  }
+}
+
+export function renderMonthlyReport(data: MonthlyReportData, generatedAt: Date = new Date()): Buffer {
+  const layout = new ReportLayout(data);
+  const { current, previous } = data;
+  const pick = (r: RecordData | null, f: (r: RecordData) => unknown) => (r ? num(f(r)) : null);
+
+  const revenue = num(current.revenue?.total);
+  const margin = num(current.margin?.total);
+  layout.sectionTitle('Indicateurs du mois');
+  layout.kpis([
+    { label: "CHIFFRE D'AFFAIRES", value: revenue, previous: pick(previous, r => r.revenue?.total) },
+    { label: 'MARGE COMMERCIALE', value: margin, previous: pick(previous, r => r.margin?.total), detail: revenue ? `${((margin / revenue) * 100).toFixed(1).replace('.', ',')} %` : undefined },
+    { label: 'MASSE SALARIALE', value: num(current.expenses?.salaries), previous: pick(previous, r => r.expenses?.salaries), invert: true },
+    { label: 'TRÉSORERIE NETTE', value: num(current.cashFlow?.treasury), previous: pick(previous, r => r.cashFlow?.treasury) },
+    { label: 'BFR', value: num(current.bfr?.total), previous: pick(previous, r => r.bfr?.total), invert: true },
+    { label: 'CA CUMULÉ EXERCICE', value: data.fiscalToDate.revenue, previous: data.fiscalToDate.revenueN1, detail: `${data.fiscalToDate.months} mois` },
+  ]);
+
+  layout.barChart("Chiffre d'affaires — 12 mois glissants", data.series.map(p => ({ label: p.label, value: p.revenue, previous: p.revenueN1 })));
+  layout.barChart('Trésorerie nette fin de mois', data.series.map(p => ({ label: p.label, value: p.treasury })), { signed: true });
+  layout.barChart('Besoin en fonds de roulement', data.series.map(p => ({ label: p.label, value: p.bfr })), { signed: true });
+
+  if (data.profitCenters.length > 0) {
+    layout.sectionTitle('Activités du mois');
+    layout.table(
+      ['Activité', 'CA', 'CA N-1', 'Variation', 'Marge', 'Taux'],
+      data.profitCenters.map(pc => [
+        pc.name,
+        formatEuro(pc.revenue),
+        pc.revenueN1 !== null ? formatEuro(pc.revenueN1) : '—',
+        variation(pc.revenue, pc.revenueN1)?.text || '—',
+        pc.margin !== null ? formatEuro(pc.margin) : '—',
+        pc.margin !== null && pc.revenue ? `${((pc.margin / pc.revenue) * 100).toFixed(1).replace('.', ',')} %` : '—',
+      ]),
+      [175, 70, 70, 60, 70, 70],
+    );
+  }
+
+  layout.sectionTitle("Commentaire de l'expert");
+  layout.paragraph(data.expertComment || 'Aucun commentaire pour ce mois.');
+
+  layout.footers(generatedAt);
+  return layout.pdf.toBuffer();
+}
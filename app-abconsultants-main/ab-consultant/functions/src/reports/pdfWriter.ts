@@ -0,0 +1,194 @@
+import * as zlib from 'zlib';
+
+/**
+ * Générateur PDF minimal (sans dépendance) pour les rapports serveur.
+ *
+ * Polices standard Helvetica / Helvetica-Bold (non embarquées, encodage WinAnsi),
+ * rectangles, traits et texte. Les coordonnées sont exprimées depuis le coin
+ * supérieur gauche de la page, en points (A4 = 595 × 842).
+ */
+
+export const A4 = { width: 595, height: 842 };
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+}
+
+// Chasses AFM des caractères 32 à 126 (millièmes de corps)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Caractères hors Latin-1 présents dans l'encodage WinAnsi
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, 'Œ': 0x8c, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, 'œ': 0x9c, 'Ÿ': 0x9f,
+};
+
+/** Texte → octets WinAnsi (une chaîne "binaire" de codes 0-255). Intl fr-FR utilise des espaces fines. */
+export function toWinAnsi(text: string): string {
+  let out = '';
+  for (const ch of text.replace(/[\u00a0\u2009\u202f]/g, ' ')) {
+    const code = ch.codePointAt(0)!;
+    if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) out += ch;
+    else if (WIN_ANSI_EXTRAS[ch]) out += String.fromCharCode(WIN_ANSI_EXTRAS[ch]);
+    else out += '?';
+  }
+  return out;
+}
+
+function charWidth(ch: string, bold: boolean): number {
+  const table = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code <= 126) return table[code - 32];
+  // Lettres accentuées : chasse de la lettre de base
+  const base = ch.normalize('NFD')[0];
+  if (base && base !== ch && base.charCodeAt(0) >= 32 && base.charCodeAt(0) <= 126) return table[base.charCodeAt(0) - 32];
+  return 556;
+}
+
+const escapePdfString = (s: string) => s.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+const rgb = (hex: string) => {
+  const h = hex.replace('#', '');
+  return [0, 2, 4].map(i => (parseInt(h.slice(i, i + 2), 16) / 255).toFixed(3)).join(' ');
+};
+
+const num = (v: number) => (Math.round(v * 100) / 100).toString();
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private current = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /** Revient sur une page déjà créée (pieds de page numérotés en fin de rendu). */
+  goToPage(index: number): void {
+    this.current = index;
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.current];
+  }
+
+  rect(x: number, y: number, w: number, h: number, fill?: string, stroke?: string, lineWidth = 0.5): void {
+    const parts: string[] = [];
+    if (fill) parts.push(`${rgb(fill)} rg`);
+    if (stroke) parts.push(`${rgb(stroke)} RG ${num(lineWidth)} w`);
+    parts.push(`${num(x)} ${num(A4.height - y - h)} ${num(w)} ${num(h)} re`);
+    parts.push(fill && stroke ? 'B' : fill ? 'f' : 'S');
+    this.ops.push(parts.join(' '));
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color = '#cbd5e1', lineWidth = 0.5): void {
+    this.ops.push(`${rgb(color)} RG ${num(lineWidth)} w ${num(x1)} ${num(A4.height - y1)} m ${num(x2)} ${num(A4.height - y2)} l S`);
+  }
+
+  textWidth(text: string, size = 10, bold = false): number {
+    let w = 0;
+    for (const ch of text.replace(/[\u00a0\u2009\u202f]/g, ' ')) w += charWidth(ch, bold);
+    return (w * size) / 1000;
+  }
+
+  /** Texte sur une ligne ; `y` est la ligne de base. */
+  text(text: string, x: number, y: number, options: TextOptions = {}): void {
+    const { size = 10, bold = false, color = '#0f172a', align = 'left' } = options;
+    const width = this.textWidth(text, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    this.ops.push(
+      `BT ${rgb(color)} rg /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${num(A4.height - y)} Td (${escapePdfString(toWinAnsi(text))}) Tj ET`
+    );
+  }
+
+  /** Découpe un paragraphe en lignes tenant dans `maxWidth`. */
+  wrapText(text: string, maxWidth: number, size = 10, bold = false): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let current = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && this.textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = candidate;
+        }
+      }
+      lines.push(current);
+    }
+    return lines;
+  }
+
+  toBuffer(): Buffer {
+    const chunks: Buffer[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (data: string | Buffer) => {
+      const buf = typeof data === 'string' ? Buffer.from(data, 'latin1') : data;
+      chunks.push(buf);
+      length += buf.length;
+    };
+    const object = (id: number, body: string | Buffer[]) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+      if (typeof body === 'string') write(body);
+      else body.forEach(write);
+      write('\nendobj\n');
+    };
+
+    // 1 catalogue, 2 arbre des pages, 3-4 polices, puis (page, contenu) par page
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    this.pages.forEach((ops, i) => {
+      const pageId = pageIds[i];
+      const content = zlib.deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+      object(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`);
+      object(pageId + 1, [
+        Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        content,
+        Buffer.from('\nendstream', 'latin1'),
+      ]);
+    });
+
+    const objectCount = 5 + this.pages.length * 2;
+    const xrefOffset = length;
+    let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objectCount; id++) xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    write(xref);
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return Buffer.concat(chunks);
+  }
+}
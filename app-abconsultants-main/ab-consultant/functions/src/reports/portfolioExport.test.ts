@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { buildPortfolioCsv, buildPortfolioRows, computeDossierHealth } from './portfolioExport';
+
+const now = new Date('2025-05-15T10:00:00Z');
+
+const record = (year: number, month: string, extra: Record<string, any> = {}) => ({
+  year,
+  month,
+  isSubmitted: true,
+  isValidated: true,
+  isPublished: true,
+  revenue: { total: 1000, objective: 800 },
+  margin: { total: 400, rate: 40 },
+  expenses: { salaries: 300 },
+  bfr: { total: 200 },
+  cashFlow: { treasury: 5000 },
+  ...extra,
+});
+
+const client = {
+  companyName: 'Garage; Dupont',
+  siret: '12345678900011',
+  sector: 'Automobile',
+  assignedConsultantEmail: 'marie@ab-consultants.fr',
+  fiscalYearEnd: '30/06',
+  owner: { lastLoginAt: '2025-05-10T08:00:00Z' },
+};
+
+describe('portfolio export', () => {
+  it('computes the dossier health like the portfolio pill', () => {
+    expect(computeDossierHealth(client, [record(2025, 'Avril')], now)).toBe('ok');
+    expect(computeDossierHealth(client, [record(2025, 'Avril', { cashFlow: { treasury: -10 } })], now)).toBe('critical');
+    expect(computeDossierHealth(client, [record(2025, 'Avril', { isValidated: false })], now)).toBe('attention');
+    expect(computeDossierHealth(client, [record(2025, 'Janvier')], now)).toBe('attention');
+    expect(computeDossierHealth({ companyName: 'Nouveau' }, [], now)).toBe('idle');
+  });
+
+  it('keeps one row per client-month within the requested period', () => {
+    const records = [record(2025, 'Mars'), record(2024, 'Mars'), record(2025, 'Avril')];
+    const rows = buildPortfolioRows(client, records, { years: [2025], months: ['Mars', 'Avril'] }, now);
+    expect(rows.map(r => `${r[7]} ${r[6]}`)).toEqual(['Mars 2025', 'Avril 2025']);
+    expect(rows[0].slice(0, 6)).toEqual(['Garage; Dupont', '12345678900011', 'Automobile', 'marie@ab-consultants.fr', 'À jour', '2024/25']);
+    expect(rows[0][10]).toBe('25.0');
+  });
+
+  it('quotes cells containing the separator', () => {
+    const csv = buildPortfolioCsv(buildPortfolioRows(client, [record(2025, 'Avril')], {}, now));
+    const [header, line] = csv.replace('\uFEFF', '').split('\n');
+    expect(header.startsWith('Dossier;SIRET;Secteur;Consultant;Santé du dossier')).toBe(true);
+    expect(line.startsWith('"Garage; Dupont";')).toBe(true);
+  });
+});
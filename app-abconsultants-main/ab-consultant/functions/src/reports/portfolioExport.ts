@@ -0,0 +1,135 @@
+import { MONTH_ORDER, compareRecordsChronologically, formatFiscalYear, getFiscalYear } from '../api/fiscalYear';
+
+type RecordData = Record<string, any>;
+
+/**
+ * Export du portefeuille : une ligne par client × mois, avec l'état de santé du dossier.
+ *
+ * Fonctions pures (sans Firestore) : le callable `exportPortfolioCSV` charge les données
+ * et délègue ici la construction du CSV.
+ */
+
+export type HealthLevel = 'critical' | 'attention' | 'ok' | 'idle';
+
+export const HEALTH_LABELS: Record<HealthLevel, string> = {
+  critical: 'À traiter',
+  attention: 'En attente',
+  ok: 'À jour',
+  idle: 'Nouveau',
+};
+
+export interface PortfolioExportFilters {
+  years?: number[];   // années civiles ; toutes si vide
+  months?: string[];  // mois (libellés MONTH_ORDER) ; tous si vide
+}
+
+const DAY_MS = 86400000;
+
+/**
+ * Niveau de santé du dossier à la date `now`.
+ * Même règle que la pastille du portefeuille (ClientPortfolio.getDossierHealth) :
+ * trésorerie négative ou validation en attente sur données anciennes → critique,
+ * validation en attente / données en retard / invité jamais connecté → attention,
+ * non invité ou sans données → nouveau, sinon à jour.
+ */
+export function computeDossierHealth(client: RecordData, records: RecordData[], now: Date = new Date()): HealthLevel {
+  const sorted = [...records].sort(compareRecordsChronologically);
+  const lastRecord = sorted.length ? sorted[sorted.length - 1] : null;
+  const hasHistory = !!lastRecord;
+
+  const treasuryAlert = !!lastRecord && Number(lastRecord.cashFlow?.treasury) < 0;
+  const pendingValidation = records.some(r => r.isSubmitted && !r.isValidated);
+
+  // À jour = un record saisi pour M-1 ou le mois en cours
+  const nowIdx = now.getMonth();
+  const expectedIdx = nowIdx === 0 ? 11 : nowIdx - 1;
+  const expectedYear = nowIdx === 0 ? now.getFullYear() - 1 : now.getFullYear();
+  const dataFresh = records.some(r => {
+    if (!r.isSubmitted && !Number(r.revenue?.total)) return false;
+    const idx = MONTH_ORDER.indexOf(r.month);
+    return (r.year === expectedYear && idx === expectedIdx) || (r.year === now.getFullYear() && idx === nowIdx);
+  });
+  const dataStale = !dataFresh && hasHistory;
+
+  const lastLogin = client.owner?.lastLoginAt;
+  const invitedAt = client.invitationStatus?.lastSentAt;
+  const notInvited = !lastLogin && !invitedAt;
+  const neverConnected = !lastLogin && !!invitedAt;
+  const daysSinceInvite = invitedAt ? Math.floor((now.getTime() - new Date(invitedAt).getTime()) / DAY_MS) : null;
+
+  if (treasuryAlert || (pendingValidation && dataStale)) return 'critical';
+  if (pendingValidation || dataStale || (neverConnected && daysSinceInvite !== null && daysSinceInvite > 7)) return 'attention';
+  if (notInvited || !hasHistory) return 'idle';
+  return 'ok';
+}
+
+export const PORTFOLIO_CSV_HEADERS = [
+  'Dossier',
+  'SIRET',
+  'Secteur',
+  'Consultant',
+  'Santé du dossier',
+  'Exercice',
+  'Année',
+  'Mois',
+  'CA Total HT',
+  'Objectif CA',
+  'Écart Objectif (%)',
+  'Marge Totale',
+  'Taux Marge (%)',
+  'Masse Salariale',
+  'BFR Net',
+  'Trésorerie Nette',
+  'Validé',
+  'Publié',
+];
+
+const csvCell = (value: unknown): string => {
+  const str = value === null || value === undefined ? '' : String(value);
+  return /[;"\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+/** Lignes du CSV pour un client (records filtrés sur les années / mois demandés). */
+export function buildPortfolioRows(
+  client: RecordData,
+  records: RecordData[],
+  filters: PortfolioExportFilters,
+  now: Date = new Date()
+): (string | number)[][] {
+  const health = HEALTH_LABELS[computeDossierHealth(client, records, now)];
+  const fiscalYearEnd: string | undefined = client.fiscalYearEnd || undefined;
+
+  return records
+    .filter(r => !filters.years?.length || filters.years.includes(r.year))
+    .filter(r => !filters.months?.length || filters.months.includes(r.month))
+    .sort(compareRecordsChronologically)
+    .map(r => {
+      const revenue = Number(r.revenue?.total) || 0;
+      const objective = Number(r.revenue?.objective) || 0;
+      return [
+        client.companyName || '',
+        client.siret || '',
+        client.sector || '',
+        client.assignedConsultantEmail || '',
+        health,
+        formatFiscalYear(getFiscalYear(r.year, r.month, fiscalYearEnd), fiscalYearEnd),
+        r.year,
+        r.month,
+        revenue,
+        objective,
+        objective > 0 ? ((revenue / objective - 1) * 100).toFixed(1) : '',
+        r.margin?.total || 0,
+        r.margin?.rate?.toFixed(1) || 0,
+        r.expenses?.salaries || 0,
+        r.bfr?.total || 0,
+        r.cashFlow?.treasury || 0,
+        r.isValidated ? 'Oui' : 'Non',
+        r.isPublished ? 'Oui' : 'Non',
+      ];
+    });
+}
+
+/** CSV complet (BOM UTF-8, séparateur « ; » comme l'export dossier). */
+export function buildPortfolioCsv(rows: (string | number)[][]): string {
+  return '\uFEFF' + [PORTFOLIO_CSV_HEADERS, ...rows].map(row => row.map(csvCell).join(';')).join('\n');
+}
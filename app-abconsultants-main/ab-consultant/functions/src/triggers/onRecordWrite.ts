@@ -1,5 +1,7 @@
 import * as functions from 'firebase-functions/v1';
 import * as admin from 'firebase-admin';
+import { runAlertRules } from '../alerts/alertEngine';
+import { buildRevision } from './recordRevisions';
 
 if (!admin.apps.length) {
   admin.initializeApp();
@@ -14,6 +16,9 @@ const db = admin.firestore();
  * Cela évite le N+1 queries dans le ConsultantDashboard :
  * au lieu de faire 1 query par client pour récupérer le dernier record,
  * on lit simplement le champ `_stats` du client.
+ *
+ * Écrit la révision de l'écriture dans `records/{id}/revisions` (cf. recordRevisions), puis
+ * évalue les règles d'alerte du cabinet sur ce dossier (cf. alerts/alertEngine).
  */
 export const onRecordWrite = functions.region('europe-west1').firestore
   .document('records/{recordId}')
@@ -27,6 +32,25 @@ export const onRecordWrite = functions.region('europe-west1').firestore
       return;
     }
 
+    // Id de révision = id de l'événement : une relivraison du trigger ne duplique pas l'historique.
+    // Une suppression est signée par `recordDeletions/{id}`, écrit dans le même batch que le delete ;
+    // il est retiré quand le mois est recréé.
+    try {
+      const deletionRef = db.collection('recordDeletions').doc(context.params.recordId);
+      const deletion = recordAfter ? null : await deletionRef.get();
+      const revision = buildRevision(
+        context.params.recordId, recordBefore || null, recordAfter || null, deletion?.data()?.deletedBy
+      );
+      if (revision) {
+        await db.collection('records').doc(context.params.recordId)
+          .collection('revisions').doc(context.eventId)
+          .set({ ...revision, createdAt: admin.firestore.FieldValue.serverTimestamp() });
+      }
+      if (recordAfter && !recordBefore) await deletionRef.delete();
+    } catch (err) {
+      functions.logger.error('Failed to write record revision', { recordId: context.params.recordId, error: err });
+    }
+
     try {
       // Récupérer tous les records de ce client pour calculer les stats
       const recordsSnap = await db
@@ -75,4 +99,10 @@ export const onRecordWrite = functions.region('europe-west1').firestore
     } catch (err) {
       functions.logger.error('Failed to update client stats', { clientId, error: err });
     }
+
+    try {
+      await runAlertRules(clientId);
+    } catch (err) {
+      functions.logger.error('Failed to evaluate alert rules', { clientId, error: err });
+    }
   });
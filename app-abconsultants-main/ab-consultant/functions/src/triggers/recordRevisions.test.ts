@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { buildRevision, diffRecords } from './recordRevisions';
+
+const base = {
+  id: 'r1',
+  clientId: 'c1',
+  year: 2026,
+  month: 'Mars',
+  isValidated: false,
+  updatedBy: 'owner@a.com',
+  cashFlow: { active: 10000, passive: 2000, treasury: 8000 },
+  revenue: { total: 50000, breakdown: { pc_a: 30000, pc_b: 20000 } },
+};
+
+const clone = () => JSON.parse(JSON.stringify(base));
+
+describe('diffRecords', () => {
+  it('returns no change for identical records', () => {
+    expect(diffRecords(base, clone())).toEqual([]);
+  });
+
+  it('lists nested field changes with from/to, sorted by path', () => {
+    const after = clone();
+    after.cashFlow.treasury = 5000;
+    after.revenue.breakdown.pc_a = 25000;
+    expect(diffRecords(base, after)).toEqual([
+      { path: 'cashFlow.treasury', from: 8000, to: 5000 },
+      { path: 'revenue.breakdown.pc_a', from: 30000, to: 25000 },
+    ]);
+  });
+
+  it('ignores identity and write metadata fields', () => {
+    const after = { ...clone(), id: 'other', month: 'Avril', updatedBy: 'consultant@cabinet.fr', restoredFrom: 'rev-1' };
+    expect(diffRecords(base, after)).toEqual([]);
+  });
+
+  it('treats a missing previous state as a creation (null → value)', () => {
+    const changes = diffRecords(null, base);
+    expect(changes).toContainEqual({ path: 'cashFlow.treasury', from: null, to: 8000 });
+    expect(changes).toContainEqual({ path: 'isValidated', from: null, to: false });
+  });
+
+  it('records removed fields as value → null', () => {
+    const after = clone();
+    delete after.revenue.breakdown.pc_b;
+    expect(diffRecords(base, after)).toEqual([
+      { path: 'revenue.breakdown.pc_b', from: 20000, to: null },
+    ]);
+  });
+
+  it('compares arrays by value', () => {
+    const accounts = [{ accountId: 'FR76…1234', label: 'BNP', balance: 8000 }];
+    const before = { ...clone(), cashFlow: { ...base.cashFlow, accounts } };
+    expect(diffRecords(before, JSON.parse(JSON.stringify(before)))).toEqual([]);
+
+    const after = JSON.parse(JSON.stringify(before));
+    after.cashFlow.accounts[0].balance = 9000;
+    expect(diffRecords(before, after)).toEqual([
+      { path: 'cashFlow.accounts', from: accounts, to: after.cashFlow.accounts },
+    ]);
+  });
+});
+
+describe('buildRevision', () => {
+  it('attributes the write to the updatedBy stamped on the record', () => {
+    const after = { ...clone(), updatedBy: 'consultant@cabinet.fr', isValidated: true };
+    expect(buildRevision('r1', base, after)).toMatchObject({
+      recordId: 'r1',
+      clientId: 'c1',
+      action: 'update',
+      authorEmail: 'consultant@cabinet.fr',
+      changes: [{ path: 'isValidated', from: false, to: true }],
+      snapshot: after,
+    });
+  });
+
+  it('skips identical rewrites but keeps creations', () => {
+    expect(buildRevision('r1', base, { ...clone(), updatedBy: 'other@a.com' })).toBeNull();
+    expect(buildRevision('r1', null, base)?.action).toBe('create');
+  });
+
+  it('flags restores only when restoredFrom is newly set', () => {
+    const restored = { ...clone(), restoredFrom: 'rev-1', cashFlow: { ...base.cashFlow, treasury: 1 } };
+    expect(buildRevision('r1', base, restored)).toMatchObject({ action: 'restore', restoredFrom: 'rev-1' });
+    expect(buildRevision('r1', restored, { ...restored, isValidated: true })?.action).toBe('update');
+  });
+
+  it('keeps the deleted state as the snapshot of a delete, signed by the deleter', () => {
+    const revision = buildRevision('r1', base, null, 'consultant@cabinet.fr');
+    expect(revision).toMatchObject({ action: 'delete', authorEmail: 'consultant@cabinet.fr', snapshot: base });
+    expect(buildRevision('r1', base, null)?.authorEmail).toBe('owner@a.com');
+    expect(revision?.changes).toContainEqual({ path: 'cashFlow.treasury', from: 8000, to: null });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Révisions des records (`records/{id}/revisions`) : une par écriture, calculée ici à partir
+ * de l'état avant / après du trigger onRecordWrite. Les clients ne peuvent pas écrire dans
+ * la collection : l'historique ne dépend pas de ce que le navigateur veut bien déclarer.
+ *
+ * L'auteur est le champ `updatedBy` du record, que les règles Firestore obligent à
+ * correspondre à l'email de l'appelant à chaque écriture. Une suppression n'écrit rien sur
+ * le record : elle est signée par `recordDeletions/{id}.deletedBy`, écrit dans le même batch.
+ */
+
+export type RevisionAction = 'create' | 'update' | 'restore' | 'delete';
+
+export interface FieldChange {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RevisionDraft {
+  recordId: string;
+  clientId: string;
+  action: RevisionAction;
+  authorEmail: string;
+  changes: FieldChange[];
+  snapshot: Record<string, any>;
+  restoredFrom?: string;
+}
+
+// Identité et métadonnées d'écriture du record : jamais considérées comme une "modification".
+const REVISION_IGNORED_PATHS = new Set(['id', 'clientId', 'year', 'month', 'updatedBy', 'restoredFrom']);
+
+const flattenRecord = (value: any, prefix = '', out: Record<string, unknown> = {}): Record<string, unknown> => {
+  if (value === null || value === undefined) return out;
+  for (const [key, v] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (v !== null && typeof v === 'object' && !Array.isArray(v)) {
+      flattenRecord(v, path, out);
+    } else if (v !== undefined) {
+      out[path] = v;
+    }
+  }
+  return out;
+};
+
+// Les tableaux (comptes bancaires, balance âgée…) sont des feuilles : comparés par valeur.
+const sameValue = (a: unknown, b: unknown): boolean =>
+  Array.isArray(a) || Array.isArray(b) ? JSON.stringify(a) === JSON.stringify(b) : a === b;
+
+/**
+ * Diff champ par champ entre deux états d'un record.
+ * `before` à null = création, `after` à null = suppression.
+ * Un champ absent et un champ à 0/"" ne sont PAS équivalents : on garde la trace.
+ */
+export function diffRecords(before: Record<string, any> | null, after: Record<string, any> | null): FieldChange[] {
+  const flatBefore = flattenRecord(before);
+  const flatAfter = flattenRecord(after);
+  const paths = new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)]);
+
+  const changes: FieldChange[] = [];
+  for (const path of paths) {
+    if (REVISION_IGNORED_PATHS.has(path)) continue;
+    const from = path in flatBefore ? flatBefore[path] : null;
+    const to = path in flatAfter ? flatAfter[path] : null;
+    if (sameValue(from, to)) continue;
+    changes.push({ path, from, to });
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Révision d'une écriture, ou null quand rien n'a changé (réécriture à l'identique).
+ * Une restauration est signalée par `restoredFrom` sur le record écrit ; la suppression
+ * garde l'état supprimé comme snapshot et est attribuée à `deletedBy`.
+ */
+export function buildRevision(
+  recordId: string,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+  deletedBy?: string
+): RevisionDraft | null {
+  const current = after || before;
+  if (!current) return null;
+
+  const changes = diffRecords(before, after);
+  if (before && after && changes.length === 0) return null;
+
+  const action: RevisionAction = !after ? 'delete'
+    : after.restoredFrom && after.restoredFrom !== before?.restoredFrom ? 'restore'
+    : before ? 'update' : 'create';
+
+  const revision: RevisionDraft = {
+    recordId,
+    clientId: current.clientId,
+    action,
+    authorEmail: String((!after && deletedBy) || current.updatedBy || ''),
+    changes,
+    snapshot: current,
+  };
+  if (action === 'restore') revision.restoredFrom = after!.restoredFrom;
+  return revision;
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../firebase';
+import { Budget } from '../types';
+import { budgetDocId } from '../services/dataService';
+
+/**
+ * Hook temps réel pour le budget d'un client sur un exercice.
+ * Retourne `null` tant qu'aucun budget n'a été construit par le consultant.
+ */
+export function useBudget(clientId: string | null | undefined, fiscalYear: number) {
+  const [budget, setBudget] = useState<Budget | null>(null);
+
+  useEffect(() => {
+    if (!clientId) {
+      setBudget(null);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(doc(db, 'budgets', budgetDocId(clientId, fiscalYear)), (snap) => {
+      setBudget(snap.exists() ? ({ id: snap.id, ...snap.data() } as Budget) : null);
+    }, (error) => {
+      console.error('useBudget onSnapshot error:', error);
+      setBudget(null);
+    });
+
+    return () => unsubscribe();
+  }, [clientId, fiscalYear]);
+
+  return budget;
+}
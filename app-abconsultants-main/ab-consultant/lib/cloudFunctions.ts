@@ -9,6 +9,7 @@
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import { initializeApp, getApp } from 'firebase/app';
 import { auth } from '../firebase';
+import type { AiFactCheck, DocumentExtraction } from '../types';
 
 let functions: ReturnType<typeof getFunctions>;
 
@@ -31,13 +32,17 @@ function getFirebaseFunctions() {
 interface AskAdvisorParams {
   query: string;
   mode?: 'chat' | 'summary';
-  financialContext?: Record<string, any>;
+  /** Dossier ciblé — le contexte financier est reconstruit côté serveur. */
+  clientId: string;
   history?: Array<{ role: 'user' | 'model'; text: string }>;
 }
 
 interface AskAdvisorResponse {
   text: string;
   remaining: number;
+  model?: string;
+  promptVersion?: string;   // version du prompt système attribuée au dossier
+  factCheck?: AiFactCheck;  // présent seulement si des chiffres restent à vérifier
 }
 
 export async function askFinancialAdvisor(params: AskAdvisorParams): Promise<AskAdvisorResponse> {
@@ -58,11 +63,14 @@ export interface StreamingChunk {
   text?: string;
   done?: boolean;
   remaining?: number;
+  model?: string; // avec `done` : modèle ayant produit la réponse
+  promptVersion?: string; // avec `done` : version du prompt système
+  factCheck?: AiFactCheck; // juste avant `done`, si des chiffres sont à vérifier
   error?: string;
 }
 
 export async function askFinancialAdvisorStream(
-  body: { query: string; financialContext: any; history?: any[]; attachments?: any[]; },
+  body: { query: string; clientId: string; history?: any[]; attachments?: any[]; },
   onChunk: (chunk: StreamingChunk) => void,
 ): Promise<void> {
   const user = auth.currentUser;
@@ -116,7 +124,7 @@ export async function askFinancialAdvisorStream(
 // =============================================
 interface ExportCSVParams {
   clientId: string;
-  year?: number;
+  year?: number; // exercice (année de clôture) — cf. fiscalYearEnd du client
 }
 
 interface ExportCSVResponse {
@@ -149,6 +157,87 @@ export async function exportClientCSV(params: ExportCSVParams): Promise<void> {
   URL.revokeObjectURL(url);
 }
 
+// =============================================
+// EXPORT PORTEFEUILLE (consultant)
+// =============================================
+interface ExportPortfolioParams {
+  clientIds?: string[]; // tous les dossiers actifs si absent
+  years?: number[];     // années civiles
+  months?: string[];
+}
+
+interface ExportPortfolioResponse {
+  csv: string;
+  filename: string;
+  rowCount: number;
+  clientCount: number;
+}
+
+export async function exportPortfolioCSV(params: ExportPortfolioParams): Promise<{ rowCount: number; clientCount: number }> {
+  const fn = httpsCallable<ExportPortfolioParams, ExportPortfolioResponse>(
+    getFirebaseFunctions(),
+    'exportPortfolioCSV'
+  );
+
+  const result = await fn(params);
+  const { csv, filename, rowCount, clientCount } = result.data;
+
+  if (!csv) {
+    throw new Error('Aucune donnée sur la période sélectionnée.');
+  }
+
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+
+  return { rowCount, clientCount };
+}
+
+// =============================================
+// RAPPORT MENSUEL PDF
+// =============================================
+interface MonthlyReportParams {
+  clientId: string;
+  year: number;
+  month: string;
+}
+
+interface MonthlyReportResponse {
+  pdf: string; // base64
+  filename: string;
+}
+
+export async function downloadMonthlyReport(params: MonthlyReportParams): Promise<void> {
+  const fn = httpsCallable<MonthlyReportParams, MonthlyReportResponse>(
+    getFirebaseFunctions(),
+    'generateMonthlyReport'
+  );
+
+  const result = await fn(params);
+  const { pdf, filename } = result.data;
+
+  if (!pdf) {
+    throw new Error('Rapport indisponible.');
+  }
+
+  const bytes = Uint8Array.from(atob(pdf), c => c.charCodeAt(0));
+  const blob = new Blob([bytes], { type: 'application/pdf' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 // =============================================
 // SCHEDULE APPOINTMENT
 // =============================================
@@ -175,6 +264,50 @@ export async function scheduleAppointment(params: ScheduleAppointmentParams): Pr
   return result.data;
 }
 
+// =============================================
+// BROUILLON IA DU COMMENTAIRE EXPERT (consultants)
+// =============================================
+interface ExpertCommentDraftParams {
+  clientId: string;
+  year: number;
+  month: string;
+}
+
+interface ExpertCommentDraftResponse {
+  draftId: string;
+  text: string;
+}
+
+export async function draftExpertComment(params: ExpertCommentDraftParams): Promise<ExpertCommentDraftResponse> {
+  const fn = httpsCallable<ExpertCommentDraftParams, ExpertCommentDraftResponse>(
+    getFirebaseFunctions(),
+    'draftExpertComment'
+  );
+
+  const result = await fn(params);
+  return result.data;
+}
+
+// =============================================
+// EXTRACTION DES MONTANTS D'UN DOCUMENT (saisie mensuelle)
+// =============================================
+interface ExtractDocumentParams {
+  clientId: string;
+  year: number;
+  month: string;
+  attachments: { mimeType: string; data: string; name?: string }[];
+}
+
+export async function extractFinancialDocument(params: ExtractDocumentParams): Promise<DocumentExtraction> {
+  const fn = httpsCallable<ExtractDocumentParams, DocumentExtraction>(
+    getFirebaseFunctions(),
+    'extractFinancialDocument'
+  );
+
+  const result = await fn(params);
+  return result.data;
+}
+
 // =============================================
 // SET USER ROLE (Admin)
 // =============================================
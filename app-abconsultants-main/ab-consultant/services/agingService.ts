@@ -0,0 +1,48 @@
+import { AgingBuckets } from '../types';
+
+// =============================================
+// BALANCE ÂGÉE — tranches d'ancienneté et seuils d'alerte (calculs purs)
+// Les balances sont importées via ExcelImportModal (types aged_receivables / aged_payables).
+// =============================================
+
+export const AGING_BUCKETS: { key: keyof Omit<AgingBuckets, 'total'>; label: string; color: string }[] = [
+    { key: 'd0_30', label: '0-30 j', color: '#10b981' },
+    { key: 'd31_60', label: '31-60 j', color: '#f59e0b' },
+    { key: 'd61_90', label: '61-90 j', color: '#f97316' },
+    { key: 'over90', label: '> 90 j', color: '#e11d48' },
+];
+
+/** Part "en retard" à partir de 30 jours. */
+const OVERDUE_WARNING_SHARE = 25;   // % de l'encours au-delà de 30 j
+const OVER90_CRITICAL_SHARE = 10;   // % de l'encours au-delà de 90 j
+
+export const emptyAgingBuckets = (): AgingBuckets => ({ d0_30: 0, d31_60: 0, d61_90: 0, over90: 0, total: 0 });
+
+export const agingTotal = (b: AgingBuckets): number => b.d0_30 + b.d31_60 + b.d61_90 + b.over90;
+
+export const agingOverdue = (b: AgingBuckets): number => b.d31_60 + b.d61_90 + b.over90;
+
+export interface AgingAlert {
+    level: 'warning' | 'critical';
+    overdue: number;
+    overdueShare: number;   // %
+    over90: number;
+    over90Share: number;    // %
+}
+
+/**
+ * Alerte sur les créances clients anciennes :
+ * - critique si plus de 10 % de l'encours a plus de 90 jours ;
+ * - vigilance si plus de 25 % de l'encours a plus de 30 jours.
+ */
+export const receivablesAgingAlert = (b: AgingBuckets | undefined): AgingAlert | null => {
+    if (!b) return null;
+    const total = agingTotal(b);
+    if (total <= 0) return null;
+    const overdue = agingOverdue(b);
+    const overdueShare = (overdue / total) * 100;
+    const over90Share = (b.over90 / total) * 100;
+    if (over90Share > OVER90_CRITICAL_SHARE) return { level: 'critical', overdue, overdueShare, over90: b.over90, over90Share };
+    if (overdueShare > OVERDUE_WARNING_SHARE) return { level: 'warning', overdue, overdueShare, over90: b.over90, over90Share };
+    return null;
+};
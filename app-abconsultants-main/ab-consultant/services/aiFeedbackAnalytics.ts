@@ -0,0 +1,122 @@
+import type { AiFeedback } from './dataService';
+
+// =============================================
+// ANALYSE DES AVIS SUR LE CONSEILLER IA (pouces haut / bas)
+// Agrégats par mois, dossier, question rapide, modèle et version du prompt, et export CSV des réponses
+// mal notées pour retravailler le prompt système.
+// =============================================
+
+export interface FeedbackBucket {
+    key: string;
+    label: string;
+    up: number;
+    down: number;
+    total: number;
+    satisfaction: number | null;    // part de pouces haut, en %
+}
+
+export const FEEDBACK_FREE_QUESTION = 'Question libre';
+export const FEEDBACK_UNKNOWN_MODEL = 'Non renseigné';
+export const FEEDBACK_UNVERSIONED_PROMPT = 'Non versionné';
+
+const MONTH_LABELS = ['Janv.', 'Févr.', 'Mars', 'Avr.', 'Mai', 'Juin', 'Juil.', 'Août', 'Sept.', 'Oct.', 'Nov.', 'Déc.'];
+
+/** Date d'un avis (Timestamp Firestore, Date ou secondes) ; null tant que le serveur n'a pas horodaté. */
+export const feedbackDate = (feedback: Pick<AiFeedback, 'createdAt'>): Date | null => {
+    const value = feedback.createdAt;
+    if (!value) return null;
+    if (value instanceof Date) return value;
+    if (typeof value.toDate === 'function') return value.toDate();
+    if (typeof value.seconds === 'number') return new Date(value.seconds * 1000);
+    return null;
+};
+
+const monthKeyOf = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const toBuckets = (
+    feedback: AiFeedback[],
+    groupOf: (f: AiFeedback) => { key: string; label: string } | null,
+): FeedbackBucket[] => {
+    const buckets = new Map<string, FeedbackBucket>();
+    for (const f of feedback) {
+        const group = groupOf(f);
+        if (!group) continue;
+        const bucket = buckets.get(group.key) || { ...group, up: 0, down: 0, total: 0, satisfaction: null };
+        if (f.rating === 'up') bucket.up++;
+        else bucket.down++;
+        bucket.total++;
+        buckets.set(group.key, bucket);
+    }
+    return Array.from(buckets.values()).map(b => ({
+        ...b,
+        satisfaction: b.total ? Math.round((b.up / b.total) * 1000) / 10 : null,
+    }));
+};
+
+export const summarizeFeedback = (feedback: AiFeedback[]): FeedbackBucket =>
+    toBuckets(feedback, () => ({ key: 'all', label: 'Total' }))[0]
+    || { key: 'all', label: 'Total', up: 0, down: 0, total: 0, satisfaction: null };
+
+/** Un point par mois calendaire, du plus ancien au plus récent, mois sans avis inclus. */
+export const feedbackByMonth = (feedback: AiFeedback[], months: number, now: Date = new Date()): FeedbackBucket[] => {
+    const buckets = new Map(toBuckets(feedback, f => {
+        const date = feedbackDate(f);
+        return date ? { key: monthKeyOf(date), label: '' } : null;
+    }).map(b => [b.key, b]));
+
+    const result: FeedbackBucket[] = [];
+    for (let i = months - 1; i >= 0; i--) {
+        const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
+        const key = monthKeyOf(date);
+        const label = `${MONTH_LABELS[date.getMonth()]} ${String(date.getFullYear()).slice(2)}`;
+        result.push({ ...(buckets.get(key) || { up: 0, down: 0, total: 0, satisfaction: null }), key, label });
+    }
+    return result;
+};
+
+const byVolume = (a: FeedbackBucket, b: FeedbackBucket) => b.total - a.total || a.label.localeCompare(b.label, 'fr');
+
+export const feedbackByClient = (feedback: AiFeedback[], clientNames: Record<string, string>): FeedbackBucket[] =>
+    toBuckets(feedback, f => ({ key: f.clientId, label: clientNames[f.clientId] || f.clientId })).sort(byVolume);
+
+export const feedbackByQuickReply = (feedback: AiFeedback[]): FeedbackBucket[] =>
+    toBuckets(feedback, f => ({ key: f.quickReply || '', label: f.quickReply || FEEDBACK_FREE_QUESTION })).sort(byVolume);
+
+export const feedbackByModel = (feedback: AiFeedback[]): FeedbackBucket[] =>
+    toBuckets(feedback, f => ({ key: f.model || '', label: f.model || FEEDBACK_UNKNOWN_MODEL })).sort(byVolume);
+
+/** Avis par version du prompt système (A/B) ; les avis antérieurs au versionnage sont regroupés. */
+export const feedbackByPromptVersion = (feedback: AiFeedback[]): FeedbackBucket[] =>
+    toBuckets(feedback, f => ({ key: f.promptVersion || '', label: f.promptVersion || FEEDBACK_UNVERSIONED_PROMPT })).sort(byVolume);
+
+// =============================================
+// EXPORT CSV DES RÉPONSES MAL NOTÉES
+// =============================================
+// Questions et réponses viennent des clients et du LLM : une cellule commençant par = + - @
+// serait interprétée comme une formule par Excel, on la préfixe d'une apostrophe.
+const csvCell = (value: unknown): string => {
+    const raw = String(value ?? '');
+    const str = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+    return /[";\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const DOWNVOTES_CSV_HEADERS = ['Date', 'Dossier', 'Question rapide', 'Modèle', 'Question', 'Réponse', 'Commentaire', 'Auteur', 'Version du prompt'];
+
+/** CSV (séparateur ';', BOM UTF-8 pour Excel) des avis négatifs, du plus récent au plus ancien. */
+export const buildDownvotesCsv = (feedback: AiFeedback[], clientNames: Record<string, string>): string => {
+    const rows = feedback
+        .filter(f => f.rating === 'down')
+        .sort((a, b) => (feedbackDate(b)?.getTime() || 0) - (feedbackDate(a)?.getTime() || 0))
+        .map(f => [
+            feedbackDate(f)?.toISOString().slice(0, 16).replace('T', ' ') || '',
+            clientNames[f.clientId] || f.clientId,
+            f.quickReply || '',
+            f.model || '',
+            f.question || '',
+            f.answer || '',
+            f.comment || '',
+            f.userEmail,
+            f.promptVersion || '',
+        ]);
+    return '\uFEFF' + [DOWNVOTES_CSV_HEADERS, ...rows].map(row => row.map(csvCell).join(';')).join('\n');
+};
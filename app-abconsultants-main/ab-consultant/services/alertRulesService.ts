@@ -0,0 +1,36 @@
+import { AlertRuleId, AlertRulesConfig, AlertRulesOverride } from '../types';
+
+/**
+ * Règles d'alerte : composition des surcharges (défauts → cabinet → dossier), à l'identique
+ * de `resolveAlertRules` côté Cloud Functions, et calcul de la surcharge à enregistrer.
+ */
+
+/** Applique une surcharge sur des règles complètes (valeurs invalides ignorées). */
+export const mergeAlertRules = (base: AlertRulesConfig, override?: AlertRulesOverride | null): AlertRulesConfig => {
+    const merged = JSON.parse(JSON.stringify(base)) as AlertRulesConfig;
+    if (!override) return merged;
+    for (const ruleId of Object.keys(base) as AlertRuleId[]) {
+        const ruleOverride = override[ruleId] as Record<string, unknown> | undefined;
+        if (!ruleOverride) continue;
+        const target = merged[ruleId] as unknown as Record<string, unknown>;
+        for (const [key, value] of Object.entries(ruleOverride)) {
+            if (!(key in target)) continue;
+            if (key === 'enabled' ? typeof value === 'boolean' : Number.isFinite(value)) target[key] = value;
+        }
+    }
+    return merged;
+};
+
+/** Surcharge minimale : seuls les paramètres qui diffèrent des règles héritées sont conservés. */
+export const diffAlertRules = (base: AlertRulesConfig, edited: AlertRulesConfig): AlertRulesOverride => {
+    const override: Record<string, Record<string, unknown>> = {};
+    for (const ruleId of Object.keys(base) as AlertRuleId[]) {
+        const inherited = base[ruleId] as unknown as Record<string, unknown>;
+        const current = edited[ruleId] as unknown as Record<string, unknown>;
+        for (const key of Object.keys(inherited)) {
+            if (current[key] === inherited[key]) continue;
+            override[ruleId] = { ...override[ruleId], [key]: current[key] };
+        }
+    }
+    return override as AlertRulesOverride;
+};
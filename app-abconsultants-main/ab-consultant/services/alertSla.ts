@@ -0,0 +1,65 @@
+import type { AlertStatus, ConsultantAlert } from './dataService';
+
+/**
+ * SLA des alertes consultant : délai de prise en compte (statut `new` → `acknowledged`)
+ * par type d'alerte. Doit rester aligné sur `functions/src/alerts/alertSla.ts`, qui escalade
+ * les demandes de relais du chat hors délai.
+ */
+export const ALERT_SLA_HOURS: Record<ConsultantAlert['type'], number> = {
+    chat_handoff: 4,
+    urgent_treasury: 24,
+    kpi_threshold: 72,
+    compliance: 72,
+    manual: 48,
+};
+
+export const ALERT_STATUS_LABELS: Record<AlertStatus, string> = {
+    new: 'Nouvelle',
+    acknowledged: 'Prise en compte',
+    in_progress: 'En cours',
+    resolved: 'Résolue',
+};
+
+const toMillis = (value: any): number | null => {
+    if (!value) return null;
+    if (typeof value.toMillis === 'function') return value.toMillis();
+    if (typeof value.seconds === 'number') return value.seconds * 1000;
+    const ms = new Date(value).getTime();
+    return Number.isFinite(ms) ? ms : null;
+};
+
+/** Statut effectif (les alertes antérieures au suivi n'ont que `resolved`). */
+export const getAlertStatus = (alert: Pick<ConsultantAlert, 'status' | 'resolved'>): AlertStatus =>
+    alert.resolved ? 'resolved' : alert.status || 'new';
+
+/** Échéance de prise en compte (ms), ou null tant que la date de création n'est pas connue. */
+export const alertSlaDeadline = (alert: Pick<ConsultantAlert, 'type' | 'createdAt'>): number | null => {
+    const createdAt = toMillis(alert.createdAt);
+    const hours = ALERT_SLA_HOURS[alert.type] ?? ALERT_SLA_HOURS.manual;
+    return createdAt === null ? null : createdAt + hours * 3600_000;
+};
+
+/** Alerte toujours non prise en compte au-delà de son SLA. */
+export const isAlertOverdue = (alert: ConsultantAlert, now: number = Date.now()): boolean => {
+    if (getAlertStatus(alert) !== 'new') return false;
+    const deadline = alertSlaDeadline(alert);
+    return deadline !== null && now > deadline;
+};
+
+/** "reste 2 h 15" / "dépassé de 3 h" — null une fois l'alerte prise en compte. */
+export const formatSlaRemaining = (alert: ConsultantAlert, now: number = Date.now()): string | null => {
+    const deadline = alertSlaDeadline(alert);
+    if (deadline === null || getAlertStatus(alert) !== 'new') return null;
+    const minutes = Math.round(Math.abs(deadline - now) / 60_000);
+    const duration = minutes >= 48 * 60
+        ? `${Math.floor(minutes / (24 * 60))} j`
+        : minutes >= 60 ? `${Math.floor(minutes / 60)} h${minutes % 60 ? ` ${String(minutes % 60).padStart(2, '0')}` : ''}` : `${minutes} min`;
+    return deadline >= now ? `reste ${duration}` : `dépassé de ${duration}`;
+};
+
+/** Ordre de traitement : hors SLA d'abord, puis nouvelles par échéance, puis les alertes déjà prises en compte. */
+export const sortAlertsForInbox = (alerts: ConsultantAlert[], now: number = Date.now()): ConsultantAlert[] => {
+    const rank = (a: ConsultantAlert) => isAlertOverdue(a, now) ? 0 : getAlertStatus(a) === 'new' ? 1 : 2;
+    return [...alerts].sort((a, b) =>
+        rank(a) - rank(b) || (alertSlaDeadline(a) ?? Infinity) - (alertSlaDeadline(b) ?? Infinity));
+};
@@ -0,0 +1,381 @@
+import { Month, FinancialRecord } from '../types';
+
+// =============================================
+// IMPORT RELEVÉS BANCAIRES (OFX, CAMT.053, CSV)
+// Chaque relevé est ramené à un compte, une période couverte, un solde de référence
+// et la liste des mouvements ; on en déduit le solde de chaque fin de mois couverte.
+//
+// Trésorerie du record :
+//   comptes à solde positif → cashFlow.active (disponibilités)
+//   comptes à solde négatif → cashFlow.passive (concours bancaires)
+//   détail conservé dans cashFlow.accounts (clé = identifiant complet du compte, masqué à l'affichage)
+// =============================================
+
+const MONTHS_BY_INDEX: Month[] = [
+  Month.Jan, Month.Feb, Month.Mar, Month.Apr, Month.May, Month.Jun,
+  Month.Jul, Month.Aug, Month.Sep, Month.Oct, Month.Nov, Month.Dec,
+];
+
+export type BankStatementFormat = 'ofx' | 'camt053' | 'csv';
+
+export interface BankTransaction {
+  date: string;          // AAAA-MM-JJ
+  amount: number;        // > 0 crédit, < 0 débit
+}
+
+export interface BankStatement {
+  format: BankStatementFormat;
+  accountKey: string;    // identifiant complet (IBAN, n° de compte), clé de cashFlow.accounts ; '' si le fichier n'en porte pas
+  currency: string;
+  startDate: string;     // AAAA-MM-JJ, premier jour couvert
+  endDate: string;       // AAAA-MM-JJ, dernier jour couvert
+  /** Solde en fin de journée à la date indiquée ; absent d'un CSV sans colonne Solde. */
+  closingBalance?: { date: string; amount: number };
+  transactions: BankTransaction[];
+}
+
+export interface BankMonthEnd {
+  year: number;
+  month: Month;
+  accounts: Record<string, number>;
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+// Montant au format français ou anglais ("1 234,56", "-12.50", "1.234,56", "1,234.56") :
+// le séparateur décimal est celui des deux (virgule, point) qui vient en dernier
+export function parseAmount(val: string | undefined): number {
+  if (!val) return 0;
+  let cleaned = val.replace(/[\s\u00a0\u202f€]/g, '');
+  const decimal = cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.') ? ',' : '.';
+  cleaned = decimal === ','
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  const num = parseFloat(cleaned);
+  return isNaN(num) ? 0 : num;
+}
+
+/** Identifiant de compte servant de clé : sans espaces ni points (chemins Firestore), en majuscules. */
+export function normalizeAccountId(id: string): string {
+  return id.replace(/[\s.]/g, '').toUpperCase();
+}
+
+/** Affichage seulement : "FR7630003000101234567890189" → "FR76 …7890189". */
+export function maskAccountId(id: string): string {
+  const compact = normalizeAccountId(id);
+  if (compact.length <= 11) return compact || 'Compte';
+  return `${compact.slice(0, 4)} …${compact.slice(-7)}`;
+}
+
+// AAAAMMJJ[hhmmss…] (OFX), AAAA-MM-JJ[Thh…] (ISO) ou JJ/MM/AAAA (CSV) → AAAA-MM-JJ
+function normalizeDate(raw: string): string | null {
+  const v = raw.trim();
+  let m = v.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  m = v.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  m = v.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (m) {
+    const year = m[3].length === 2 ? `20${m[3]}` : m[3];
+    return `${year}-${m[2].padStart(2, '0')}-${m[1].padStart(2, '0')}`;
+  }
+  return null;
+}
+
+const minDate = (dates: string[]) => dates.reduce((a, b) => (b < a ? b : a));
+const maxDate = (dates: string[]) => dates.reduce((a, b) => (b > a ? b : a));
+
+// --- OFX (1.x SGML ou 2.x XML) ---
+
+const ofxTag = (block: string, tag: string): string | null => {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return m ? m[1].trim() : null;
+};
+
+const ofxBlocks = (text: string, tag: string): string[] =>
+  text.split(new RegExp(`<${tag}>`, 'i')).slice(1).map(part => part.split(new RegExp(`</${tag}>`, 'i'))[0]);
+
+export function parseOfx(text: string): BankStatement[] {
+  const statements: BankStatement[] = [];
+  for (const block of [...ofxBlocks(text, 'STMTRS'), ...ofxBlocks(text, 'CCSTMTRS')]) {
+    const transactions: BankTransaction[] = [];
+    for (const trn of ofxBlocks(block, 'STMTTRN')) {
+      const date = normalizeDate(ofxTag(trn, 'DTPOSTED') || '');
+      if (date) transactions.push({ date, amount: parseAmount(ofxTag(trn, 'TRNAMT') || '') });
+    }
+
+    const ledger = ofxBlocks(block, 'LEDGERBAL')[0];
+    const balanceDate = ledger ? normalizeDate(ofxTag(ledger, 'DTASOF') || '') : null;
+    const txDates = transactions.map(t => t.date);
+    const startDate = normalizeDate(ofxTag(block, 'DTSTART') || '') || (txDates.length ? minDate(txDates) : balanceDate);
+    const endDate = normalizeDate(ofxTag(block, 'DTEND') || '') || balanceDate || (txDates.length ? maxDate(txDates) : null);
+    if (!startDate || !endDate) continue;
+
+    statements.push({
+      format: 'ofx',
+      accountKey: normalizeAccountId([ofxTag(block, 'BANKID'), ofxTag(block, 'BRANCHID'), ofxTag(block, 'ACCTID')].filter(Boolean).join('')),
+      currency: ofxTag(block, 'CURDEF') || 'EUR',
+      startDate,
+      endDate,
+      closingBalance: ledger && balanceDate
+        ? { date: balanceDate, amount: parseAmount(ofxTag(ledger, 'BALAMT') || '') }
+        : undefined,
+      transactions,
+    });
+  }
+  if (statements.length === 0) throw new Error('Aucun relevé de compte trouvé dans le fichier OFX.');
+  return statements;
+}
+
+// --- CAMT.053 (ISO 20022, relevé de fin de journée) ---
+
+// Les balises peuvent être préfixées (<ns:Stmt>) selon la banque
+const xmlBlocks = (text: string, tag: string): string[] =>
+  [...text.matchAll(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g'))].map(m => m[1]);
+
+const xmlValue = (block: string, tag: string): string | null => {
+  const m = block.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([^<]*)</(?:\\w+:)?${tag}>`));
+  return m ? m[1].trim() : null;
+};
+
+const xmlAttr = (block: string, tag: string, attr: string): string | null => {
+  const m = block.match(new RegExp(`<(?:\\w+:)?${tag}\\s[^>]*${attr}="([^"]*)"`));
+  return m ? m[1] : null;
+};
+
+// Montant signé selon CdtDbtInd (CRDT / DBIT)
+const camtAmount = (block: string): number => {
+  const amount = parseAmount(xmlValue(block, 'Amt') || '');
+  return xmlValue(block, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+};
+
+// Date d'un solde ou d'une écriture : <Dt><Dt>…</Dt></Dt> ou <BookgDt><DtTm>…</DtTm></BookgDt>
+const camtDate = (block: string, container: string): string | null => {
+  const m = block.match(new RegExp(`<(?:\\w+:)?${container}>[\\s\\S]*?(\\d{4}-\\d{2}-\\d{2})`));
+  return m ? m[1] : null;
+};
+
+export function parseCamt053(text: string): BankStatement[] {
+  const statements: BankStatement[] = [];
+  for (const stmt of xmlBlocks(text, 'Stmt')) {
+    const acct = xmlBlocks(stmt, 'Acct')[0] || '';
+    const accountId = xmlValue(acct, 'IBAN') || xmlValue(xmlBlocks(acct, 'Othr')[0] || '', 'Id') || '';
+
+    const balances = xmlBlocks(stmt, 'Bal').map(bal => ({
+      code: xmlValue(bal, 'Cd') || '',
+      amount: camtAmount(bal),
+      date: camtDate(bal, 'Dt'),
+    }));
+    const closing = balances.find(b => b.code === 'CLBD' && b.date);
+    const opening = balances.find(b => (b.code === 'OPBD' || b.code === 'PRCD') && b.date);
+
+    // Seules les écritures comptabilisées (Sts = BOOK, ou Sts/Cd en version 2019) font foi
+    const transactions: BankTransaction[] = [];
+    for (const ntry of xmlBlocks(stmt, 'Ntry')) {
+      const status = xmlValue(ntry, 'Sts') || xmlValue(xmlBlocks(ntry, 'Sts')[0] || '', 'Cd');
+      if (status && status !== 'BOOK') continue;
+      const date = camtDate(ntry, 'BookgDt') || camtDate(ntry, 'ValDt');
+      if (date) transactions.push({ date, amount: camtAmount(ntry) });
+    }
+
+    const period = xmlBlocks(stmt, 'FrToDt')[0] || '';
+    const txDates = transactions.map(t => t.date);
+    const startDate = normalizeDate(xmlValue(period, 'FrDtTm') || xmlValue(period, 'FrDt') || '')
+      || (txDates.length ? minDate(txDates) : opening?.date || closing?.date || null);
+    const endDate = normalizeDate(xmlValue(period, 'ToDtTm') || xmlValue(period, 'ToDt') || '')
+      || closing?.date || (txDates.length ? maxDate(txDates) : null);
+    if (!startDate || !endDate) continue;
+
+    // Sans solde de clôture, on part du solde d'ouverture : OPBD = début de journée, PRCD = clôture de la veille
+    let closingBalance: BankStatement['closingBalance'];
+    if (closing) closingBalance = { date: closing.date!, amount: closing.amount };
+    else if (opening) {
+      const isAfterOpening = (d: string) => (opening.code === 'OPBD' ? d >= opening.date! : d > opening.date!);
+      const netAfterOpening = transactions.filter(t => isAfterOpening(t.date)).reduce((s, t) => s + t.amount, 0);
+      closingBalance = { date: endDate, amount: round2(opening.amount + netAfterOpening) };
+    }
+
+    statements.push({
+      format: 'camt053',
+      accountKey: normalizeAccountId(accountId),
+      currency: xmlValue(acct, 'Ccy') || xmlAttr(stmt, 'Amt', 'Ccy') || 'EUR',
+      startDate,
+      endDate,
+      closingBalance,
+      transactions,
+    });
+  }
+  if (statements.length === 0) throw new Error('Aucun relevé (Stmt) trouvé dans le fichier CAMT.053.');
+  return statements;
+}
+
+// --- CSV (export banque en ligne) ---
+
+const normalizeHeader = (h: string) =>
+  h.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/^\uFEFF/, '').replace(/"/g, '');
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === delimiter && !quoted) { cells.push(current); current = ''; }
+    else current += ch;
+  }
+  cells.push(current);
+  return cells.map(c => c.trim());
+}
+
+// Numéro de compte d'un export CSV : IBAN, ou « n° de compte » des lignes qui précèdent l'en-tête
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]){11,30}\b/;
+const ACCOUNT_NUMBER_PATTERN = /(?:compte|account|n°|num[eé]ro)\D*?([A-Z]*\d[\d ]{2,}\d[A-Z]*)/i;
+
+function findCsvAccountId(preamble: string[]): string {
+  for (const line of preamble) {
+    const iban = line.toUpperCase().match(IBAN_PATTERN);
+    if (iban) return normalizeAccountId(iban[0]);
+  }
+  for (const line of preamble) {
+    const number = line.match(ACCOUNT_NUMBER_PATTERN);
+    if (number) return normalizeAccountId(number[1]);
+  }
+  return '';
+}
+
+/**
+ * CSV bancaire : une ligne d'en-tête contenant une colonne Date, puis Montant ou Débit/Crédit,
+ * et éventuellement Solde (solde après l'opération). Le compte est lu dans les lignes d'en-tête
+ * du fichier ou dans une colonne Compte / IBAN ; à défaut (`accountKey` vide), il est demandé.
+ */
+export function parseBankCsv(text: string): BankStatement[] {
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+  const headerIndex = lines.findIndex(l => /date/.test(normalizeHeader(l)) && /(montant|debit|credit|amount)/.test(normalizeHeader(l)));
+  if (headerIndex < 0) throw new Error('En-têtes du relevé CSV introuvables (colonnes Date et Montant ou Débit/Crédit attendues).');
+
+  const headerLine = lines[headerIndex];
+  const delimiter = headerLine.includes(';') ? ';' : headerLine.includes('\t') ? '\t' : ',';
+  const headers = splitCsvLine(headerLine, delimiter).map(normalizeHeader);
+  const find = (...patterns: RegExp[]) => {
+    for (const p of patterns) {
+      const i = headers.findIndex(h => p.test(h));
+      if (i >= 0) return i;
+    }
+    return -1;
+  };
+  const iDate = find(/^date (comptable|operation|de comptabilisation)/, /^date$/, /date/);
+  const iAmount = find(/^montant/, /^amount/);
+  const iDebit = find(/^debit/);
+  const iCredit = find(/^credit/);
+  const iBalance = find(/^solde/, /^balance/);
+  const iAccount = find(/^iban/, /^(n° de )?compte$/, /^numero de compte/, /^account/);
+  if (iAmount < 0 && (iDebit < 0 || iCredit < 0)) {
+    throw new Error('Colonne de montant introuvable dans le relevé CSV (Montant ou Débit/Crédit attendues).');
+  }
+
+  let accountId = findCsvAccountId(lines.slice(0, headerIndex));
+  const rows: { date: string; amount: number; balance: number | null }[] = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    const cells = splitCsvLine(line, delimiter);
+    if (!accountId && iAccount >= 0 && cells[iAccount]) accountId = normalizeAccountId(cells[iAccount]);
+    const date = normalizeDate(cells[iDate] || '');
+    if (!date) continue;
+    const amount = iAmount >= 0
+      ? parseAmount(cells[iAmount])
+      : parseAmount(cells[iCredit]) - Math.abs(parseAmount(cells[iDebit]));
+    const balance = iBalance >= 0 && (cells[iBalance] || '').trim() ? parseAmount(cells[iBalance]) : null;
+    rows.push({ date, amount, balance });
+  }
+  if (rows.length === 0) throw new Error('Aucune opération exploitable dans le relevé CSV.');
+
+  // Les banques exportent du plus récent au plus ancien ou l'inverse : la dernière opération
+  // est en tête de fichier si les dates décroissent
+  const descending = rows[0].date > rows[rows.length - 1].date;
+  const latest = descending ? rows[0] : rows[rows.length - 1];
+  const dates = rows.map(r => r.date);
+
+  return [{
+    format: 'csv',
+    accountKey: accountId,
+    currency: 'EUR',
+    startDate: minDate(dates),
+    endDate: maxDate(dates),
+    closingBalance: latest.balance !== null ? { date: latest.date, amount: latest.balance } : undefined,
+    transactions: rows.map(({ date, amount }) => ({ date, amount })),
+  }];
+}
+
+// --- Détection du format ---
+
+export function detectBankStatementFormat(text: string): BankStatementFormat {
+  if (/OFXHEADER|<OFX>/i.test(text)) return 'ofx';
+  if (/camt\.053|<(?:\w+:)?BkToCstmrStmt/.test(text)) return 'camt053';
+  return 'csv';
+}
+
+export function parseBankStatement(text: string): BankStatement[] {
+  switch (detectBankStatementFormat(text)) {
+    case 'ofx': return parseOfx(text);
+    case 'camt053': return parseCamt053(text);
+    default: return parseBankCsv(text);
+  }
+}
+
+// --- Soldes de fin de mois ---
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+const lastDayOfMonth = (year: number, monthIndex: number) =>
+  `${year}-${pad2(monthIndex + 1)}-${pad2(new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate())}`;
+
+/** Solde en fin de journée `date`, reconstitué à partir du solde de référence et des mouvements. */
+export function balanceAt(statement: BankStatement, date: string): number {
+  const ref = statement.closingBalance;
+  if (!ref) throw new Error(`Solde de référence manquant pour le compte ${statement.accountKey}.`);
+  let balance = ref.amount;
+  for (const t of statement.transactions) {
+    if (date < ref.date && t.date > date && t.date <= ref.date) balance -= t.amount;
+    if (date > ref.date && t.date > ref.date && t.date <= date) balance += t.amount;
+  }
+  return round2(balance);
+}
+
+/**
+ * Soldes par compte de chaque fin de mois entièrement couverte par au moins un relevé.
+ * Quand plusieurs relevés du même compte couvrent une même fin de mois, le plus récent l'emporte.
+ * Les relevés sans compte identifié ou sans solde de référence sont ignorés.
+ */
+export function computeMonthEndBalances(statements: BankStatement[]): BankMonthEnd[] {
+  const byMonth = new Map<string, BankMonthEnd>();
+  const sorted = [...statements].filter(s => s.closingBalance && s.accountKey).sort((a, b) => a.endDate.localeCompare(b.endDate));
+
+  for (const statement of sorted) {
+    const startYear = parseInt(statement.startDate.slice(0, 4));
+    const endYear = parseInt(statement.endDate.slice(0, 4));
+    for (let year = startYear; year <= endYear; year++) {
+      for (let m = 0; m < 12; m++) {
+        const monthEnd = lastDayOfMonth(year, m);
+        if (monthEnd < statement.startDate || monthEnd > statement.endDate) continue;
+        const key = `${year}-${pad2(m + 1)}`;
+        if (!byMonth.has(key)) byMonth.set(key, { year, month: MONTHS_BY_INDEX[m], accounts: {} });
+        byMonth.get(key)!.accounts[statement.accountKey] = balanceAt(statement, monthEnd);
+      }
+    }
+  }
+
+  return [...byMonth.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, v]) => v);
+}
+
+/**
+ * Trésorerie du mois à partir des soldes par compte. Les comptes déjà ventilés sur le record
+ * et absents des relevés importés sont conservés.
+ */
+export function applyBankBalances(
+  cashFlow: FinancialRecord['cashFlow'],
+  accounts: Record<string, number>
+): FinancialRecord['cashFlow'] {
+  const merged = { ...(cashFlow.accounts || {}), ...accounts };
+  const balances = Object.values(merged);
+  const active = round2(balances.filter(v => v > 0).reduce((s, v) => s + v, 0));
+  const passive = round2(balances.filter(v => v < 0).reduce((s, v) => s - v, 0));
+  return { active, passive, treasury: round2(active - passive), accounts: merged };
+}
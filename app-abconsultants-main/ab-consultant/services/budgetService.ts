@@ -0,0 +1,131 @@
+import { Budget, BudgetMonth, FinancialRecord, Month, ProfitCenter } from '../types';
+import { getCalendarYear, getFiscalMonthOrder } from './dataService';
+
+// =============================================
+// BUDGET — calculs purs (pré-remplissage N-1, écarts budget / réel)
+// La persistance (getBudget / saveBudget) reste dans dataService.
+// =============================================
+
+export const emptyBudgetMonth = (): BudgetMonth => ({
+    revenue: 0,
+    revenueBreakdown: {},
+    marginRate: 0,
+    salaries: 0,
+    treasuryFloor: 0,
+});
+
+/** CA budgété d'un mois : somme des activités si ventilé, sinon le total saisi. */
+export const budgetMonthRevenue = (month: BudgetMonth | undefined): number => {
+    if (!month) return 0;
+    const breakdown = Object.values(month.revenueBreakdown || {});
+    return breakdown.length > 0 ? breakdown.reduce((s, v) => s + (v || 0), 0) : month.revenue || 0;
+};
+
+/**
+ * Construit un budget à partir des réalisés de l'exercice précédent.
+ * `growthRate` (en %) est appliqué au CA et à la masse salariale ; le taux de marge est repris tel quel.
+ * Le plancher de trésorerie n'est pas déductible du réalisé : il reste à 0.
+ */
+export const buildBudgetFromActuals = (
+    records: FinancialRecord[],
+    previousFiscalYear: number,
+    fiscalYearEnd: string | undefined,
+    profitCenters: ProfitCenter[],
+    growthRate: number = 0
+): Partial<Record<Month, BudgetMonth>> => {
+    const factor = 1 + growthRate / 100;
+    const round = (v: number) => Math.round(v * factor);
+    const months: Partial<Record<Month, BudgetMonth>> = {};
+
+    for (const month of getFiscalMonthOrder(fiscalYearEnd)) {
+        const year = getCalendarYear(previousFiscalYear, month, fiscalYearEnd);
+        const actual = records.find(r => r.year === year && r.month === month);
+        if (!actual) continue;
+
+        const revenueBreakdown: Record<string, number> = {};
+        profitCenters.forEach(pc => {
+            const value = actual.revenue.breakdown?.[pc.id];
+            if (value) revenueBreakdown[pc.id] = round(value);
+        });
+
+        months[month] = {
+            revenue: round(actual.revenue.total),
+            revenueBreakdown,
+            marginRate: actual.revenue.total > 0 && actual.margin?.total
+                ? Math.round((actual.margin.total / actual.revenue.total) * 1000) / 10
+                : 0,
+            salaries: round(actual.expenses.salaries),
+            treasuryFloor: 0,
+        };
+    }
+    return months;
+};
+
+export interface BudgetVarianceLine {
+    key: string;
+    label: string;
+    budget: number;
+    actual: number;
+    variance: number;              // réel - budget (€)
+    variancePct: number | null;    // écart relatif au budget (%)
+    favorable: boolean;            // l'écart va-t-il dans le bon sens ?
+    isSubLine?: boolean;           // ligne de détail (activité)
+}
+
+const varianceLine = (
+    key: string, label: string, budget: number, actual: number,
+    higherIsBetter: boolean, isSubLine = false
+): BudgetVarianceLine => {
+    const variance = actual - budget;
+    return {
+        key, label, budget, actual, variance,
+        variancePct: budget !== 0 ? (variance / Math.abs(budget)) * 100 : null,
+        favorable: higherIsBetter ? variance >= 0 : variance <= 0,
+        isSubLine,
+    };
+};
+
+/**
+ * Tableau d'écarts budget / réel sur les mois réalisés fournis.
+ * Seuls les mois présents à la fois dans le budget et dans les réalisés sont comparés,
+ * pour ne pas pénaliser les mois non encore saisis.
+ */
+export const computeBudgetVariance = (
+    records: FinancialRecord[],
+    budget: Budget | null,
+    profitCenters: ProfitCenter[] = []
+): BudgetVarianceLine[] => {
+    if (!budget) return [];
+    const pairs = records
+        .map(r => ({ actual: r, planned: budget.months[r.month] }))
+        .filter((p): p is { actual: FinancialRecord; planned: BudgetMonth } => !!p.planned);
+    if (pairs.length === 0) return [];
+
+    const sum = (pick: (p: { actual: FinancialRecord; planned: BudgetMonth }) => number) =>
+        pairs.reduce((s, p) => s + (pick(p) || 0), 0);
+
+    const lines: BudgetVarianceLine[] = [];
+    lines.push(varianceLine('revenue', "Chiffre d'affaires", sum(p => budgetMonthRevenue(p.planned)), sum(p => p.actual.revenue.total), true));
+
+    profitCenters.forEach(pc => {
+        const planned = sum(p => p.planned.revenueBreakdown?.[pc.id] || 0);
+        const actual = sum(p => p.actual.revenue.breakdown?.[pc.id] || 0);
+        if (planned !== 0 || actual !== 0) {
+            lines.push(varianceLine(`revenue.${pc.id}`, pc.name, planned, actual, true, true));
+        }
+    });
+
+    lines.push(varianceLine(
+        'margin', 'Marge commerciale',
+        sum(p => budgetMonthRevenue(p.planned) * (p.planned.marginRate || 0) / 100),
+        sum(p => p.actual.margin?.total || 0),
+        true
+    ));
+    lines.push(varianceLine('salaries', 'Masse salariale', sum(p => p.planned.salaries), sum(p => p.actual.expenses.salaries), false));
+
+    // Trésorerie : position du dernier mois comparé face à son plancher
+    const last = pairs[pairs.length - 1];
+    lines.push(varianceLine('treasury', `Trésorerie vs plancher (${last.actual.month})`, last.planned.treasuryFloor || 0, last.actual.cashFlow.treasury, true));
+
+    return lines;
+};
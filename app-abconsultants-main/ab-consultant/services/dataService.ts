@@ -1,5 +1,5 @@
 
-import { FinancialRecord, Month, Client, Consultant, ChatMessage, ActivityEvent, ActivityEventType, ClientCollaborator } from "../types";
+import { FinancialRecord, Month, Client, Consultant, ChatMessage, ActivityEvent, ActivityEventType, ClientCollaborator, RecordRevision, AiUsage, Budget, ForecastScenario, Simulation, ImportBatch, ImportBatchEntry, ExpertCommentDraft, AlertRulesOverride, AiFactCheck, PromptTemplate, PromptTemplateStatus } from "../types";
 import { db, auth } from "../firebase"; 
 import { 
   collection, 
@@ -19,14 +19,17 @@ import {
   serverTimestamp,
   Timestamp,
   QuerySnapshot,
-  DocumentData
+  DocumentData,
+  WriteBatch
 } from "firebase/firestore";
 
 // COLLECTIONS
 const COLL_CLIENTS = 'clients';
 const COLL_RECORDS = 'records';
+const COLL_RECORD_DELETIONS = 'recordDeletions';
 const COLL_CONSULTANTS = 'consultants';
 const COLL_MAIL = 'mail'; 
+const SUBCOLL_REVISIONS = 'revisions';
 
 export const MONTH_ORDER = Object.values(Month);
 
@@ -51,6 +54,43 @@ export const toShortMonth = (month: string): string => {
     }
 };
 
+// --- EXERCICE FISCAL ---
+// Un exercice est identifié par l'année civile de sa clôture :
+// clôture au 30/06 → l'exercice 2025 couvre Juillet 2024 → Juin 2025.
+// Sans date de clôture (ou clôture en décembre), exercice = année civile.
+
+/** Index (0-11) du mois de clôture à partir de `fiscalYearEnd` ("JJ/MM"). Décembre par défaut. */
+export const getFiscalCloseMonthIndex = (fiscalYearEnd?: string): number => {
+    const monthPart = (fiscalYearEnd || '').split('/')[1];
+    const idx = parseInt(monthPart, 10) - 1;
+    return isNaN(idx) || idx < 0 || idx > 11 ? 11 : idx;
+};
+
+export const isFiscalYearShifted = (fiscalYearEnd?: string): boolean =>
+    getFiscalCloseMonthIndex(fiscalYearEnd) !== 11;
+
+/** Mois dans l'ordre de l'exercice (premier mois = lendemain de la clôture). */
+export const getFiscalMonthOrder = (fiscalYearEnd?: string): Month[] => {
+    const start = (getFiscalCloseMonthIndex(fiscalYearEnd) + 1) % 12;
+    return [...MONTH_ORDER.slice(start), ...MONTH_ORDER.slice(0, start)];
+};
+
+/** Exercice auquel appartient un mois civil. */
+export const getFiscalYear = (year: number, month: string, fiscalYearEnd?: string): number => {
+    const monthIdx = MONTH_ORDER.indexOf(month as Month);
+    return monthIdx > getFiscalCloseMonthIndex(fiscalYearEnd) ? year + 1 : year;
+};
+
+/** Année civile d'un mois donné d'un exercice (inverse de getFiscalYear). */
+export const getCalendarYear = (fiscalYear: number, month: string, fiscalYearEnd?: string): number => {
+    const monthIdx = MONTH_ORDER.indexOf(month as Month);
+    return monthIdx > getFiscalCloseMonthIndex(fiscalYearEnd) ? fiscalYear - 1 : fiscalYear;
+};
+
+/** Libellé d'exercice : "2025" en année civile, "2024/25" pour un exercice décalé. */
+export const formatFiscalYear = (fiscalYear: number, fiscalYearEnd?: string): string =>
+    isFiscalYearShifted(fiscalYearEnd) ? `${fiscalYear - 1}/${String(fiscalYear).slice(-2)}` : String(fiscalYear);
+
 // --- EMAIL & NOTIFICATION SERVICES ---
 export const sendConsultantAlertEmail = async (client: Client, subject: string, htmlContent: string) => {
     try {
@@ -69,7 +109,8 @@ export const sendMessage = async (
     text: string, 
     sender: 'user' | 'ai' | 'consultant', 
     isExpertHandoff = false,
-    isSystemSummary = false
+    isSystemSummary = false,
+    meta: { model?: string; promptVersion?: string; factCheck?: AiFactCheck } = {}
 ) => {
     if (!clientId) throw new Error("ID Client manquant");
     const userId = auth.currentUser ? auth.currentUser.uid : 'anonymous';
@@ -89,7 +130,10 @@ export const sendMessage = async (
             isExpertHandoff,
             isSystemSummary,
             timestamp: timestamp,
-            authorId: userId
+            authorId: userId,
+            ...(meta.model ? { model: meta.model } : {}),
+            ...(meta.promptVersion ? { promptVersion: meta.promptVersion } : {}),
+            ...(meta.factCheck?.unverified.length ? { factCheck: meta.factCheck } : {})
         });
 
         const conversationUpdate: any = {
@@ -149,7 +193,10 @@ export const subscribeToChat = (clientId: string, callback: (messages: ChatMessa
                 sender: data.sender,
                 isExpertHandoff: data.isExpertHandoff,
                 isSystemSummary: data.isSystemSummary,
-                timestamp: data.timestamp
+                timestamp: data.timestamp,
+                model: data.model || undefined,
+                promptVersion: data.promptVersion || undefined,
+                factCheck: data.factCheck || undefined
             } as ChatMessage;
         });
         callback(msgs);
@@ -449,11 +496,14 @@ export const getRecordsByClient = async (clientId: string): Promise<FinancialRec
                     },
                     total: data.bfr?.total || 0 
                 },
+
+                aging: data.aging || undefined,
                 
                 cashFlow: {
                     active: data.cashFlow?.active || 0, 
                     passive: data.cashFlow?.passive || 0, 
-                    treasury: data.cashFlow?.treasury || 0 
+                    treasury: data.cashFlow?.treasury || 0,
+                    accounts: data.cashFlow?.accounts || undefined
                 }
             } as FinancialRecord;
         });
@@ -481,24 +531,166 @@ const stripUndefined = (value: any): any => {
     return value;
 };
 
-export const saveRecord = async (record: FinancialRecord): Promise<void> => {
+// --- RECORD REVISIONS ---
+// Les révisions sont écrites côté serveur par le trigger onRecordWrite à partir des états
+// avant / après (functions/src/triggers/recordRevisions.ts) : le navigateur ne peut ni en
+// omettre ni en forger. Chaque écriture porte seulement son auteur (`updatedBy`).
+
+/**
+ * Écrit le record complet, signé par l'utilisateur courant.
+ * `restoredFrom` marque l'écriture comme la restauration d'une révision.
+ */
+const signedRecord = (record: FinancialRecord, restoredFrom?: string) => stripUndefined({
+    ...record,
+    updatedBy: auth.currentUser?.email || '',
+    restoredFrom,
+});
+
+export const saveRecord = async (record: FinancialRecord, options?: { restoredFrom?: string }): Promise<void> => {
     try {
-        await setDoc(doc(db, COLL_RECORDS, record.id), stripUndefined(record));
+        await setDoc(doc(db, COLL_RECORDS, record.id), signedRecord(record, options?.restoredFrom));
     } catch (error: any) {
         console.error("Erreur sauvegarde record", error);
         throw new Error(error?.code === 'permission-denied' ? 'Permission refusée. Vérifiez vos droits.' : 'Impossible de sauvegarder les données. Vérifiez votre connexion.');
     }
 };
 
+/** Historique d'un record, le plus récent d'abord ; suit les révisions écrites ensuite par le trigger. */
+export function subscribeToRecordRevisions(
+    recordId: string,
+    callback: (revisions: RecordRevision[]) => void
+): () => void {
+    const q = query(
+        collection(db, COLL_RECORDS, recordId, SUBCOLL_REVISIONS),
+        orderBy('createdAt', 'desc')
+    );
+    return onSnapshot(q, (snapshot) => {
+        callback(snapshot.docs.map(d => {
+            const data = d.data({ serverTimestamps: 'estimate' });
+            return {
+                id: d.id,
+                recordId: data.recordId || recordId,
+                clientId: data.clientId,
+                action: data.action || 'update',
+                authorEmail: data.authorEmail || '',
+                createdAt: data.createdAt,
+                changes: data.changes || [],
+                snapshot: data.snapshot,
+                restoredFrom: data.restoredFrom || undefined,
+            } as RecordRevision;
+        }));
+    }, (error) => {
+        console.error("Erreur chargement révisions:", error);
+        callback([]);
+    });
+}
+
+// Restaurer = réécrire l'état capturé par la révision.
+// L'opération produit elle-même une nouvelle révision (action 'restore') : l'historique reste linéaire.
+export const restoreRecordRevision = async (revision: RecordRevision): Promise<void> => {
+    await saveRecord(
+        { ...revision.snapshot, id: revision.recordId, clientId: revision.clientId },
+        { restoredFrom: revision.id }
+    );
+};
+
+/**
+ * Supprime un record dans `batch`, signé dans le même batch : le trigger onRecordWrite
+ * attribue la révision 'delete' à `recordDeletions/{id}.deletedBy`.
+ */
+const deleteSignedRecord = (batch: WriteBatch, id: string) => {
+    batch.set(doc(db, COLL_RECORD_DELETIONS, id), { deletedBy: auth.currentUser?.email || '', deletedAt: serverTimestamp() });
+    batch.delete(doc(db, COLL_RECORDS, id));
+};
+
 export const deleteRecord = async (id: string): Promise<void> => {
     try {
-        await deleteDoc(doc(db, COLL_RECORDS, id));
+        const batch = writeBatch(db);
+        deleteSignedRecord(batch, id);
+        await batch.commit();
     } catch (error: any) {
         console.error("Erreur suppression record", error);
         throw new Error('Impossible de supprimer l\'enregistrement. Vérifiez votre connexion.');
     }
 };
 
+// =============================================
+// IMPORT BATCHES — chaque import conserve l'état antérieur des mois qu'il écrit
+// =============================================
+const COLL_IMPORT_BATCHES = 'importBatches';
+
+/** Records d'un dossier tels qu'en base (tous champs), indexés par id. */
+const getStoredRecords = async (clientId: string): Promise<Map<string, any>> => {
+    const snapshot = await getDocs(query(collection(db, COLL_RECORDS), where("clientId", "==", clientId)));
+    return new Map(snapshot.docs.map(d => [d.id, d.data()]));
+};
+
+/**
+ * Enregistre le lot d'un import avant son écriture. L'état antérieur de chaque mois est relu
+ * en base (balance âgée, comptes bancaires, lot d'import précédent compris) : c'est ce que
+ * l'annulation remettra en place.
+ */
+export const createImportBatch = async (
+    batch: Omit<ImportBatch, 'id' | 'createdAt' | 'entries'> & { entries: Omit<ImportBatchEntry, 'previous'>[] }
+): Promise<string> => {
+    try {
+        const stored = await getStoredRecords(batch.clientId);
+        const entries: ImportBatchEntry[] = batch.entries.map(entry => {
+            const previous = stored.get(entry.recordId);
+            if (!previous) return { ...entry, previous: null };
+            const { updatedBy, restoredFrom, ...state } = previous;
+            return { ...entry, previous: { ...state, id: entry.recordId } as FinancialRecord };
+        });
+        const ref = await addDoc(collection(db, COLL_IMPORT_BATCHES), {
+            ...stripUndefined({ ...batch, entries }),
+            createdAt: serverTimestamp(),
+        });
+        return ref.id;
+    } catch (error: any) {
+        console.error("Erreur création lot d'import", error);
+        throw new Error(error?.code === 'permission-denied' ? 'Permission refusée. Vérifiez vos droits.' : "Impossible d'enregistrer l'import. Vérifiez votre connexion.");
+    }
+};
+
+/**
+ * Annule un import en une seule écriture groupée : chaque mois encore marqué de ce lot retrouve
+ * son état antérieur (ou est supprimé s'il a été créé par l'import), et le lot est marqué annulé.
+ * Les mois réécrits depuis par un autre import sont laissés tels quels et comptés dans `skipped`.
+ * Un mois restauré retrouve aussi son lot d'import précédent : les imports s'annulent l'un après l'autre.
+ */
+export const undoImportBatch = async (batchId: string): Promise<{ restored: number; deleted: number; skipped: number }> => {
+    const batchRef = doc(db, COLL_IMPORT_BATCHES, batchId);
+    const snap = await getDoc(batchRef);
+    if (!snap.exists()) throw new Error('Import introuvable.');
+    const importBatch = snap.data() as ImportBatch;
+    if (importBatch.undoneAt) throw new Error('Cet import a déjà été annulé.');
+
+    const result = { restored: 0, deleted: 0, skipped: 0 };
+    try {
+        const stored = await getStoredRecords(importBatch.clientId);
+        const writes = writeBatch(db);
+        for (const entry of importBatch.entries || []) {
+            const current = stored.get(entry.recordId);
+            const recordRef = doc(db, COLL_RECORDS, entry.recordId);
+            if (current && current.importBatchId !== batchId) {
+                result.skipped++;
+            } else if (entry.previous) {
+                writes.set(recordRef, signedRecord({ ...entry.previous, id: entry.recordId, clientId: importBatch.clientId }));
+                result.restored++;
+            } else if (current) {
+                deleteSignedRecord(writes, entry.recordId);
+                result.deleted++;
+            }
+        }
+        writes.update(batchRef, { undoneAt: serverTimestamp(), undoneBy: auth.currentUser?.email || '' });
+        await writes.commit();
+    } catch (error: any) {
+        console.error("Erreur annulation import", error);
+        throw new Error(error?.message || "Impossible d'annuler l'import. Vérifiez votre connexion.");
+    }
+    return result;
+};
+
 export const resetDatabase = async (): Promise<void> => {
     // Firestore batch limit is 500 operations. Process in chunks.
     const MAX_BATCH_SIZE = 450;
@@ -602,17 +794,34 @@ export const subscribeToClientActivities = (
 // =============================================
 // CONSULTANT ALERTS
 // =============================================
+export type AlertStatus = 'new' | 'acknowledged' | 'in_progress' | 'resolved';
+
 export interface ConsultantAlert {
   id: string;
   clientId: string;
   clientName: string;
-  type: 'chat_handoff' | 'urgent_treasury' | 'compliance' | 'manual';
+  type: 'chat_handoff' | 'urgent_treasury' | 'compliance' | 'kpi_threshold' | 'manual';
   message: string;
   metadata?: Record<string, any>;
   createdAt: any;
   resolved: boolean;
   resolvedAt?: any;
   resolvedBy?: string;
+  // Suivi : routage vers le consultant du dossier, statut et SLA de prise en compte (cf. services/alertSla)
+  status?: AlertStatus;     // absent sur les alertes antérieures au suivi
+  assignedTo?: string;      // email du consultant ('' : dossier sans consultant assigné)
+  acknowledgedAt?: any;
+  acknowledgedBy?: string;
+  resolutionNote?: string;
+  reassignedAt?: any;
+  reassignedBy?: string;
+  escalatedAt?: any;        // escalade au cabinet d'une demande hors SLA (Cloud Function)
+  // Alertes levées par les règles du cabinet (Cloud Functions, cf. alerts/alertEngine)
+  source?: 'rules';
+  ruleId?: string;
+  period?: string;          // mois concerné, "AAAA-MM"
+  autoResolved?: boolean;   // clôturée par le moteur quand la condition a disparu
+  updatedAt?: any;
 }
 
 const COLL_ALERTS = 'consultantAlerts';
@@ -630,15 +839,23 @@ export async function createConsultantAlert(
     message: message.slice(0, 1000),  // cap at 1k chars
     metadata: metadata || {},
     createdAt: serverTimestamp(),
+    status: 'new',
+    assignedTo: (client.assignedConsultantEmail || '').toLowerCase(),
     resolved: false,
   });
 }
 
+/**
+ * Alertes ouvertes ; avec `assignedTo`, celles du consultant et celles des dossiers sans consultant.
+ * Les alertes antérieures au routage reçoivent `assignedTo: ''` (reprise dans evaluateAlertRulesDaily).
+ */
 export function subscribeToConsultantAlerts(
-  callback: (alerts: ConsultantAlert[]) => void
+  callback: (alerts: ConsultantAlert[]) => void,
+  assignedTo?: string
 ): () => void {
   const q = query(
     collection(db, COLL_ALERTS),
+    ...(assignedTo ? [where('assignedTo', 'in', [assignedTo.toLowerCase(), ''])] : []),
     where('resolved', '==', false),
     orderBy('createdAt', 'desc'),
     limit(50)
@@ -652,14 +869,64 @@ export function subscribeToConsultantAlerts(
   });
 }
 
-export async function markAlertResolved(alertId: string, consultantEmail: string): Promise<void> {
+export async function markAlertResolved(alertId: string, consultantEmail: string, resolutionNote?: string): Promise<void> {
   await updateDoc(doc(db, COLL_ALERTS, alertId), {
+    status: 'resolved',
     resolved: true,
     resolvedAt: serverTimestamp(),
     resolvedBy: consultantEmail,
+    ...(resolutionNote?.trim() ? { resolutionNote: resolutionNote.trim().slice(0, 1000) } : {}),
+  });
+}
+
+/** Prise en compte / passage en cours ; la première prise en compte arrête le compteur SLA. */
+export async function updateAlertStatus(
+  alert: ConsultantAlert,
+  status: 'acknowledged' | 'in_progress',
+  consultantEmail: string
+): Promise<void> {
+  await updateDoc(doc(db, COLL_ALERTS, alert.id), {
+    status,
+    ...(alert.acknowledgedAt ? {} : { acknowledgedAt: serverTimestamp(), acknowledgedBy: consultantEmail }),
   });
 }
 
+export async function reassignAlert(alertId: string, assignedTo: string, consultantEmail: string): Promise<void> {
+  await updateDoc(doc(db, COLL_ALERTS, alertId), {
+    assignedTo: assignedTo.toLowerCase(),
+    reassignedAt: serverTimestamp(),
+    reassignedBy: consultantEmail,
+  });
+}
+
+// =============================================
+// RÈGLES D'ALERTE DU CABINET (lues par les Cloud Functions)
+// =============================================
+const CABINET_ALERT_RULES_DOC = 'alertRules';
+
+export const getCabinetAlertRules = async (): Promise<AlertRulesOverride> => {
+  try {
+    const snap = await getDoc(doc(db, 'cabinetSettings', CABINET_ALERT_RULES_DOC));
+    return (snap.exists() && snap.data().rules) || {};
+  } catch (e) {
+    console.error("Erreur lecture règles d'alerte:", e);
+    return {};
+  }
+};
+
+export const saveCabinetAlertRules = async (rules: AlertRulesOverride): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'cabinetSettings', CABINET_ALERT_RULES_DOC), {
+      rules,
+      updatedBy: auth.currentUser?.email || '',
+      updatedAt: serverTimestamp(),
+    });
+  } catch (e) {
+    console.error("Erreur enregistrement règles d'alerte:", e);
+    throw new Error("Impossible d'enregistrer les règles d'alerte.");
+  }
+};
+
 // =============================================
 // AI FEEDBACK
 // =============================================
@@ -672,6 +939,20 @@ export interface AiFeedback {
   userId: string;         // the rater's UID (could be client owner or collaborator)
   userEmail: string;
   createdAt: any;
+  // Échange noté, figé au moment de l'avis (absent des avis antérieurs)
+  question?: string;      // dernière question du client avant la réponse
+  answer?: string;        // réponse de l'IA notée
+  quickReply?: string;    // libellé de la question rapide, si la question en est une
+  model?: string;         // modèle ayant produit la réponse
+  promptVersion?: string; // version du prompt système ayant produit la réponse
+}
+
+export interface AiFeedbackExchange {
+  question?: string;
+  answer?: string;
+  quickReply?: string;
+  model?: string;
+  promptVersion?: string;
 }
 
 const COLL_AI_FEEDBACK = 'aiFeedback';
@@ -684,7 +965,8 @@ export async function submitAiFeedback(
   clientId: string,
   messageId: string,
   rating: 'up' | 'down',
-  comment?: string
+  comment?: string,
+  exchange: AiFeedbackExchange = {}
 ): Promise<void> {
   const user = auth.currentUser;
   if (!user) throw new Error('Non authentifié');
@@ -697,9 +979,50 @@ export async function submitAiFeedback(
     userId: user.uid,
     userEmail: user.email || '',
     createdAt: serverTimestamp(),
+    question: exchange.question?.slice(0, 4000) || null,
+    answer: exchange.answer?.slice(0, 8000) || null,
+    quickReply: exchange.quickReply || null,
+    model: exchange.model || null,
+    promptVersion: exchange.promptVersion || null,
   });
 }
 
+/** Avis depuis une date (écran d'analyse consultant), du plus récent au plus ancien. */
+export async function getAiFeedback(since: Date, maxCount = 2000): Promise<AiFeedback[]> {
+  try {
+    const q = query(
+      collection(db, COLL_AI_FEEDBACK),
+      where('createdAt', '>=', Timestamp.fromDate(since)),
+      orderBy('createdAt', 'desc'),
+      limit(maxCount),
+    );
+    const snap = await getDocs(q);
+    return snap.docs.map(d => ({ id: d.id, ...d.data() } as AiFeedback));
+  } catch (e) {
+    console.error("Erreur lecture avis IA:", e);
+    return [];
+  }
+}
+
+/**
+ * Échange d'un avis antérieur à l'enregistrement de la question et de la réponse :
+ * retrouvé dans la conversation du dossier (réponse notée + dernière question qui la précède).
+ */
+export async function getFeedbackExchange(clientId: string, messageId: string): Promise<AiFeedbackExchange> {
+  try {
+    const q = query(collection(db, 'conversations', clientId, 'messages'), orderBy('timestamp', 'asc'));
+    const snap = await getDocs(q);
+    const messages = snap.docs.map(d => ({ id: d.id, ...d.data() } as DocumentData));
+    const idx = messages.findIndex(m => m.id === messageId);
+    if (idx < 0) return {};
+    const question = messages.slice(0, idx).reverse().find(m => m.sender === 'user');
+    return { question: question?.text, answer: messages[idx].text, model: messages[idx].model, promptVersion: messages[idx].promptVersion };
+  } catch (e) {
+    console.error("Erreur lecture échange IA:", e);
+    return {};
+  }
+}
+
 export function subscribeToAiFeedback(
   callback: (feedback: AiFeedback[]) => void
 ): () => void {
@@ -712,3 +1035,247 @@ export function subscribeToAiFeedback(
     callback(snap.docs.map(d => ({ id: d.id, ...d.data() } as AiFeedback)));
   });
 }
+
+// =============================================
+// VERSIONS DU PROMPT SYSTÈME (A/B — écriture réservée aux administrateurs)
+// =============================================
+const COLL_PROMPT_TEMPLATES = 'promptTemplates';
+
+export function subscribeToPromptTemplates(
+  callback: (templates: PromptTemplate[]) => void
+): () => void {
+  return onSnapshot(collection(db, COLL_PROMPT_TEMPLATES), (snap) => {
+    callback(snap.docs.map(d => ({ id: d.id, ...d.data() } as PromptTemplate)));
+  }, (error) => {
+    console.error("Erreur lecture versions du prompt:", error);
+  });
+}
+
+/** Nouvelle version en brouillon : elle ne reçoit du trafic qu'une fois activée. */
+export const createPromptTemplate = async (
+  version: string,
+  template: string,
+  description: string,
+  basedOn: string | undefined,
+  createdBy: string
+): Promise<void> => {
+  try {
+    await setDoc(doc(db, COLL_PROMPT_TEMPLATES, version), {
+      template,
+      description: description.trim() || null,
+      basedOn: basedOn || null,
+      status: 'draft',
+      weight: 0,
+      createdBy,
+      createdAt: serverTimestamp(),
+    });
+  } catch (e) {
+    console.error("Erreur création version du prompt:", e);
+    throw new Error("Impossible d'enregistrer la nouvelle version du prompt.");
+  }
+};
+
+/** Applique une répartition du trafic (statut et poids des versions modifiées). */
+export const updatePromptTraffic = async (
+  updates: Array<{ id: string; status: PromptTemplateStatus; weight: number }>,
+  updatedBy: string
+): Promise<void> => {
+  if (updates.length === 0) return;
+  try {
+    const batch = writeBatch(db);
+    for (const u of updates) {
+      batch.update(doc(db, COLL_PROMPT_TEMPLATES, u.id), {
+        status: u.status,
+        weight: u.weight,
+        updatedBy,
+        updatedAt: serverTimestamp(),
+      });
+    }
+    await batch.commit();
+  } catch (e) {
+    console.error("Erreur répartition des versions du prompt:", e);
+    throw new Error("Impossible de mettre à jour la répartition des versions.");
+  }
+};
+
+// =============================================
+// AI USAGE (quotas mensuels — lecture seule côté client)
+// =============================================
+const COLL_AI_USAGE = 'aiUsage';
+
+/**
+ * Consommation IA d'un dossier, du mois le plus récent au plus ancien.
+ * Les compteurs sont tenus par la Cloud Function askFinancialAdvisor.
+ */
+export const getAiUsage = async (clientId: string, months: number = 6): Promise<AiUsage[]> => {
+  try {
+    const q = query(collection(db, COLL_AI_USAGE), where('clientId', '==', clientId));
+    const snap = await getDocs(q);
+    return snap.docs
+      .map(d => ({ id: d.id, ...d.data() } as AiUsage))
+      .sort((a, b) => b.period.localeCompare(a.period))
+      .slice(0, months);
+  } catch (e) {
+    console.error("Erreur lecture consommation IA:", e);
+    return [];
+  }
+};
+
+// =============================================
+// BROUILLONS IA DU COMMENTAIRE EXPERT (générés par la Cloud Function draftExpertComment)
+// =============================================
+const COLL_COMMENT_DRAFTS = 'commentDrafts';
+
+export const commentDraftId = (clientId: string, year: number, month: string) =>
+  `${clientId}_${year}_${String(MONTH_ORDER.indexOf(month as Month) + 1).padStart(2, '0')}`;
+
+export const getCommentDraft = async (clientId: string, year: number, month: string): Promise<ExpertCommentDraft | null> => {
+  try {
+    const snap = await getDoc(doc(db, COLL_COMMENT_DRAFTS, commentDraftId(clientId, year, month)));
+    return snap.exists() ? ({ id: snap.id, ...snap.data() } as ExpertCommentDraft) : null;
+  } catch (e) {
+    console.error("Erreur lecture brouillon de commentaire:", e);
+    return null;
+  }
+};
+
+/**
+ * Trace la validation du brouillon. Avec `recordId`, le texte retenu est écrit dans le record
+ * dans le même batch, sur le seul champ `expertComment` : une saisie faite entre-temps sur le
+ * mois n'est pas écrasée par la copie affichée.
+ */
+export const approveCommentDraft = async (draftId: string, approvedText: string, recordId?: string): Promise<void> => {
+  try {
+    const email = auth.currentUser?.email || '';
+    const batch = writeBatch(db);
+    if (recordId) {
+      batch.update(doc(db, COLL_RECORDS, recordId), { expertComment: approvedText, updatedBy: email });
+    }
+    batch.update(doc(db, COLL_COMMENT_DRAFTS, draftId), {
+      status: 'approved',
+      approvedText,
+      approvedBy: email,
+      approvedAt: serverTimestamp(),
+    });
+    await batch.commit();
+  } catch (e) {
+    console.error("Erreur validation brouillon de commentaire:", e);
+    throw new Error("Impossible de valider le brouillon.");
+  }
+};
+
+// =============================================
+// BUDGETS (prévisionnel mensuel par exercice)
+// =============================================
+const COLL_BUDGETS = 'budgets';
+
+export const budgetDocId = (clientId: string, fiscalYear: number) => `${clientId}_${fiscalYear}`;
+
+export const getBudget = async (clientId: string, fiscalYear: number): Promise<Budget | null> => {
+  try {
+    const snap = await getDoc(doc(db, COLL_BUDGETS, budgetDocId(clientId, fiscalYear)));
+    return snap.exists() ? ({ id: snap.id, ...snap.data() } as Budget) : null;
+  } catch (e) {
+    console.error("Erreur lecture budget:", e);
+    return null;
+  }
+};
+
+export const saveBudget = async (budget: Omit<Budget, 'id' | 'updatedAt' | 'updatedBy'>): Promise<void> => {
+  try {
+    const id = budgetDocId(budget.clientId, budget.fiscalYear);
+    await setDoc(doc(db, COLL_BUDGETS, id), {
+      ...budget,
+      updatedAt: serverTimestamp(),
+      updatedBy: auth.currentUser?.email || '',
+    });
+  } catch (e) {
+    console.error("Erreur sauvegarde budget:", e);
+    throw new Error("Impossible d'enregistrer le budget.");
+  }
+};
+
+// =============================================
+// SCÉNARIOS DE TRÉSORERIE (hypothèses nommées du prévisionnel 13 semaines)
+// =============================================
+const COLL_FORECAST_SCENARIOS = 'forecastScenarios';
+
+export const getForecastScenarios = async (clientId: string): Promise<ForecastScenario[]> => {
+  try {
+    const q = query(collection(db, COLL_FORECAST_SCENARIOS), where('clientId', '==', clientId));
+    const snap = await getDocs(q);
+    return snap.docs
+      .map(d => ({ id: d.id, ...d.data() } as ForecastScenario))
+      .sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+  } catch (e) {
+    console.error("Erreur lecture scénarios de trésorerie:", e);
+    return [];
+  }
+};
+
+/** Crée (sans id) ou remplace (avec id) un scénario. Retourne l'id du document. */
+export const saveForecastScenario = async (scenario: Omit<ForecastScenario, 'id' | 'createdAt' | 'createdBy'> & { id?: string }): Promise<string> => {
+  try {
+    const { id, ...data } = scenario;
+    const payload = { ...data, createdAt: serverTimestamp(), createdBy: auth.currentUser?.email || '' };
+    if (id) {
+      await setDoc(doc(db, COLL_FORECAST_SCENARIOS, id), payload);
+      return id;
+    }
+    const ref = await addDoc(collection(db, COLL_FORECAST_SCENARIOS), payload);
+    return ref.id;
+  } catch (e) {
+    console.error("Erreur sauvegarde scénario de trésorerie:", e);
+    throw new Error("Impossible d'enregistrer le scénario.");
+  }
+};
+
+export const deleteForecastScenario = async (id: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, COLL_FORECAST_SCENARIOS, id));
+  } catch (e) {
+    console.error("Erreur suppression scénario de trésorerie:", e);
+    throw new Error("Impossible de supprimer le scénario.");
+  }
+};
+
+// =============================================
+// SIMULATIONS "ET SI ?" (leviers enregistrés sur le dossier)
+// =============================================
+const COLL_SIMULATIONS = 'simulations';
+
+export const getSimulations = async (clientId: string): Promise<Simulation[]> => {
+  try {
+    const q = query(collection(db, COLL_SIMULATIONS), where('clientId', '==', clientId));
+    const snap = await getDocs(q);
+    return snap.docs
+      .map(d => ({ id: d.id, ...d.data() } as Simulation))
+      .sort((a, b) => (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0));
+  } catch (e) {
+    console.error("Erreur lecture simulations:", e);
+    return [];
+  }
+};
+
+export const saveSimulation = async (simulation: Omit<Simulation, 'id' | 'createdAt' | 'createdBy'>): Promise<string> => {
+  try {
+    const ref = await addDoc(collection(db, COLL_SIMULATIONS), {
+      ...simulation,
+      createdAt: serverTimestamp(),
+      createdBy: auth.currentUser?.email || '',
+    });
+    return ref.id;
+  } catch (e) {
+    console.error("Erreur sauvegarde simulation:", e);
+    throw new Error("Impossible d'enregistrer la simulation.");
+  }
+};
+
+export const deleteSimulation = async (id: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, COLL_SIMULATIONS, id));
+  } catch (e) {
+    console.error("Erreur suppression simulation:", e);
+    throw new Error("Impossible de supprimer la simulation.");
+  }
+};
@@ -0,0 +1,110 @@
+import { DocumentExtraction, ExtractedDocumentType, ExtractedField, ExtractedFieldPath, FinancialRecord } from '../types';
+
+// =============================================
+// EXTRACTION DE DOCUMENTS — application des montants proposés à la saisie (calculs purs)
+// Les montants viennent de la Cloud Function extractFinancialDocument ; chacun reste
+// « proposé par extraction » dans EntryForm jusqu'à ce que l'utilisateur le confirme ou l'écarte.
+// =============================================
+
+export const EXTRACTION_FIELD_LABELS: Record<ExtractedFieldPath, string> = {
+    'cashFlow.treasury': 'Trésorerie',
+    'bfr.receivables.clients': 'Créances Clients',
+    'bfr.debts.suppliers': 'Fournisseurs',
+    'bfr.debts.state': 'Dettes Fiscales',
+    'bfr.debts.social': 'Dettes Sociales',
+    'expenses.salaries': 'Masse Salariale',
+};
+
+export const DOCUMENT_TYPE_LABELS: Record<ExtractedDocumentType, string> = {
+    bank_statement: 'Relevé bancaire',
+    vat_return: 'Déclaration de TVA',
+    accounting_summary: 'Situation comptable',
+    other: 'Document',
+};
+
+/** En dessous de ce score, le champ proposé est signalé comme incertain. */
+export const LOW_CONFIDENCE = 0.6;
+
+/** Taille maximale d'un document (la requête d'un callable est limitée à 10 Mo, base64 compris). */
+export const MAX_EXTRACTION_FILE_BYTES = 7 * 1024 * 1024;
+
+export const EXTRACTION_MIME_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'];
+
+const withBfrTotals = (bfr: FinancialRecord['bfr']): FinancialRecord['bfr'] => {
+    const receivables = { ...bfr.receivables };
+    receivables.total = receivables.clients + receivables.state + receivables.social + receivables.other;
+    const debts = { ...bfr.debts };
+    debts.total = debts.suppliers + debts.state + debts.social + debts.salaries + debts.other;
+    return { ...bfr, receivables, debts, total: receivables.total + bfr.stock.total - debts.total };
+};
+
+/**
+ * Un montant extrait peut-il être reporté sur le mois ? Une trésorerie détaillée par compte
+ * (relevés bancaires importés) ne se résume pas à un solde net : l'extraction ne la touche pas.
+ */
+export const canApplyExtractedField = (record: FinancialRecord, path: ExtractedFieldPath): boolean =>
+    path !== 'cashFlow.treasury' || Object.keys(record.cashFlow.accounts || {}).length === 0;
+
+/**
+ * Reporte un montant extrait dans la saisie, totaux recalculés.
+ * La trésorerie extraite est un solde net : positif → disponibilités, négatif → concours bancaires.
+ */
+export const applyExtractedField = (record: FinancialRecord, field: ExtractedField): FinancialRecord => {
+    if (!canApplyExtractedField(record, field.path)) return record;
+    switch (field.path) {
+        case 'cashFlow.treasury':
+            return {
+                ...record,
+                cashFlow: {
+                    ...record.cashFlow,
+                    active: Math.max(field.value, 0),
+                    passive: Math.max(-field.value, 0),
+                    treasury: field.value,
+                },
+            };
+        case 'expenses.salaries':
+            return { ...record, expenses: { ...record.expenses, salaries: field.value } };
+        case 'bfr.receivables.clients':
+            return { ...record, bfr: withBfrTotals({ ...record.bfr, receivables: { ...record.bfr.receivables, clients: field.value } }) };
+        case 'bfr.debts.suppliers':
+        case 'bfr.debts.state':
+        case 'bfr.debts.social': {
+            const key = field.path.split('.')[2] as 'suppliers' | 'state' | 'social';
+            return { ...record, bfr: withBfrTotals({ ...record.bfr, debts: { ...record.bfr.debts, [key]: field.value } }) };
+        }
+        default:
+            return record;
+    }
+};
+
+/** Écarte un montant proposé : le champ reprend sa valeur d'avant l'extraction (`base`). */
+export const revertExtractedField = (record: FinancialRecord, base: FinancialRecord, path: ExtractedFieldPath): FinancialRecord => {
+    if (path === 'cashFlow.treasury') {
+        return { ...record, cashFlow: { ...base.cashFlow } };
+    }
+    const [, group, key] = path.split('.');
+    const previous = group === 'salaries'
+        ? base.expenses.salaries
+        : (base.bfr as any)[group][key] as number;
+    return applyExtractedField(record, { path, value: previous, confidence: 1 });
+};
+
+/** Chemin du champ proposé touché par une saisie manuelle (handleChange d'EntryForm), sinon null. */
+export const extractedPathForInput = (section: string, field: string, subField?: string): ExtractedFieldPath | null => {
+    if (section === 'cashFlow' && (field === 'active' || field === 'passive')) return 'cashFlow.treasury';
+    const path = [section, field, subField].filter(Boolean).join('.');
+    return path in EXTRACTION_FIELD_LABELS ? path as ExtractedFieldPath : null;
+};
+
+/** Le document porte-t-il sur un autre mois que la saisie en cours ? */
+export const isOtherPeriod = (extraction: DocumentExtraction, year: number, month: string): boolean =>
+    extraction.period !== null && (extraction.period.year !== year || extraction.period.month !== month);
+
+export const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)} %`;
+
+export const fileToBase64 = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
@@ -1,5 +1,5 @@
 import * as XLSX from 'xlsx';
-import { Month, ProfitCenter, FinancialRecord } from '../types';
+import { Month, ProfitCenter, FinancialRecord, ImportSheetMapping, AgingBuckets } from '../types';
 
 // French month names mapping (handles various casing/accents)
 // Also includes English names because XLSX library may format dates in English locale
@@ -124,12 +124,12 @@ export interface ParsedSheet {
   rows: any[][];
   rawData: any[][];
   fmtData: any[][]; // formatted strings (raw: false) – used for month header detection
+  headerRow: number;     // 0-based index of the header row in rawData
+  labelColumn?: number;  // forced label column (saved mapping); auto-detected when undefined
 }
 
-export interface SheetMapping {
-  sheetName: string;
-  type: 'revenue_by_family' | 'fuel_volumes' | 'analyse_activite' | 'ignore';
-}
+// Same shape as the mapping saved on the client (Client.importMapping.sheets)
+export type SheetMapping = ImportSheetMapping;
 
 export interface ImportedMonthData {
   month: Month;
@@ -184,6 +184,42 @@ function findHeaderRowIndex(fmtData: any[][], rawData: any[][]): number {
   return bestCount >= 3 ? bestRow : 0;
 }
 
+// Rebuild headers and data rows of a sheet from a given header row index
+function sheetWithHeaderRow(sheet: ParsedSheet, headerRowIdx: number): ParsedSheet {
+  const { fmtData, rawData } = sheet;
+
+  // Build headers: prefer readable fmtData, but fall back to converting rawData
+  // (handles cases where fmtData has unreadable strings but rawData has serial numbers)
+  const fmtHeaders = fmtData.length > headerRowIdx
+    ? fmtData[headerRowIdx].map((h: any) => String(h ?? '').trim())
+    : [];
+  const rawHeaders = rawData.length > headerRowIdx
+    ? rawData[headerRowIdx]
+    : [];
+
+  // For each column, use fmtData header if it resolves to a month, otherwise try converting raw
+  const headers = fmtHeaders.map((fh: string, i: number) => {
+    if (parseMonth(fh)) return fh;
+    const rawCell = rawHeaders[i];
+    if (rawCell !== undefined && parseMonth(rawCell)) return cellToHeaderString(rawCell);
+    return fh;
+  });
+
+  // Data rows use raw values for numeric accuracy
+  const rows = rawData.slice(headerRowIdx + 1);
+
+  return { ...sheet, headers, rows, headerRow: headerRowIdx };
+}
+
+// Apply the header row / label column chosen in a mapping (saved per client) to a parsed sheet
+export function applySheetLayout(sheet: ParsedSheet, layout: { headerRow?: number; labelColumn?: number }): ParsedSheet {
+  let result = sheet;
+  if (layout.headerRow !== undefined && layout.headerRow !== sheet.headerRow && layout.headerRow < sheet.rawData.length) {
+    result = sheetWithHeaderRow(sheet, layout.headerRow);
+  }
+  return layout.labelColumn !== undefined ? { ...result, labelColumn: layout.labelColumn } : result;
+}
+
 // Read an Excel file and return parsed sheets
 // Uses a dual-read strategy: raw:false (formatted strings) for month header detection,
 // and default raw values for numeric data accuracy.
@@ -207,27 +243,7 @@ export function readExcelFile(file: File): Promise<ParsedSheet[]> {
           // Find the header row using BOTH data sources for robustness
           const headerRowIdx = findHeaderRowIndex(fmtData, rawData);
 
-          // Build headers: prefer readable fmtData, but fall back to converting rawData
-          // (handles cases where fmtData has unreadable strings but rawData has serial numbers)
-          const fmtHeaders = fmtData.length > headerRowIdx
-            ? fmtData[headerRowIdx].map((h: any) => String(h ?? '').trim())
-            : [];
-          const rawHeaders = rawData.length > headerRowIdx
-            ? rawData[headerRowIdx]
-            : [];
-
-          // For each column, use fmtData header if it resolves to a month, otherwise try converting raw
-          const headers = fmtHeaders.map((fh: string, i: number) => {
-            if (parseMonth(fh)) return fh;
-            const rawCell = rawHeaders[i];
-            if (rawCell !== undefined && parseMonth(rawCell)) return cellToHeaderString(rawCell);
-            return fh;
-          });
-
-          // Data rows use raw values for numeric accuracy
-          const rows = rawData.slice(headerRowIdx + 1);
-
-          return { name, headers, rows, rawData, fmtData };
+          return sheetWithHeaderRow({ name, headers: [], rows: [], rawData, fmtData, headerRow: 0 }, headerRowIdx);
         });
 
         resolve(sheets);
@@ -280,6 +296,17 @@ function findLabelColumn(headers: string[], monthCols: { colIndex: number; month
   return bestCol;
 }
 
+// Label column actually used by the parsers for this sheet (forced or auto-detected)
+export function detectLabelColumn(sheet: ParsedSheet): number {
+  if (sheet.labelColumn !== undefined) return sheet.labelColumn;
+  return findLabelColumn(sheet.headers, detectMonthColumns(sheet.headers), sheet.rows);
+}
+
+// Does the header row still contain month columns? (used to flag a saved layout that no longer fits)
+export function hasMonthHeaders(sheet: ParsedSheet): boolean {
+  return detectMonthColumns(sheet.headers).length >= 3;
+}
+
 // Detect year from sheet data - look for a year pattern in headers, raw data, fmtData, or sheet name
 export function detectYear(sheet: ParsedSheet): number {
   const currentYear = new Date().getFullYear();
@@ -350,8 +377,8 @@ function matchesFuelType(label: string, aliases: string[]): boolean {
   return aliases.some(a => cleaned.includes(a));
 }
 
-// Check if a sheet looks like revenue by family, fuel volumes, or analyse activite
-export function detectSheetType(sheet: ParsedSheet): 'revenue_by_family' | 'fuel_volumes' | 'analyse_activite' | 'unknown' {
+// Check if a sheet looks like revenue by family, fuel volumes, analyse activite or an aged balance
+export function detectSheetType(sheet: ParsedSheet): 'revenue_by_family' | 'fuel_volumes' | 'analyse_activite' | 'aged_receivables' | 'aged_payables' | 'unknown' {
   const sheetNameLower = sheet.name.toLowerCase();
 
   // Check sheet name hints FIRST (before month detection, because some sheets
@@ -359,11 +386,18 @@ export function detectSheetType(sheet: ParsedSheet): 'revenue_by_family' | 'fuel
   if (sheetNameLower.includes('saisie') || sheetNameLower.includes('analyse activit')) return 'analyse_activite';
   if (sheetNameLower.includes('volume') && sheetNameLower.includes('carburant')) return 'fuel_volumes';
 
+  // Aged balance: title/name hint or a header row with aging buckets (0-30 / 31-60 / ...)
+  const headText = [sheet.name, ...(sheet.fmtData || []).slice(0, 6).map(r => (r || []).join(' '))].join(' ').toLowerCase();
+  const isAgedTitle = /balance\s*[âa]g[ée]e|[ée]ch[ée]ancier|anciennet[ée]|\baged\b/.test(headText);
+  if (isAgedTitle || findAgingHeader(sheet).bucketCount >= 3) {
+    return /fournisseur|supplier|payable/.test(headText) ? 'aged_payables' : 'aged_receivables';
+  }
+
   const monthCols = detectMonthColumns(sheet.headers);
   if (monthCols.length < 3) return 'unknown'; // Need at least 3 months to be confident
 
   // Find the label column (the non-month column with the most text data)
-  const effectiveLabelCol = findLabelColumn(sheet.headers, monthCols, sheet.rows);
+  const effectiveLabelCol = sheet.labelColumn ?? findLabelColumn(sheet.headers, monthCols, sheet.rows);
 
   // Check row labels
   const rowLabels = sheet.rows.map(r => String(r[effectiveLabelCol] || '').toLowerCase().trim());
@@ -443,7 +477,7 @@ export function parseRevenueSheet(
   if (monthCols.length === 0) return { families: [], monthlyData: new Map(), totalRow: null };
 
   // Find the label column (the non-month column with the most text data)
-  const effectiveLabelCol = findLabelColumn(effectiveHeaders, monthCols, dataRows);
+  const effectiveLabelCol = sheet.labelColumn ?? findLabelColumn(effectiveHeaders, monthCols, dataRows);
 
   const families: string[] = [];
   const monthlyData = new Map<string, Map<string, number>>(); // month -> (family -> value)
@@ -583,7 +617,7 @@ export function parseFuelSheet(
   if (monthCols.length === 0) return { volumes: new Map(), objectives: new Map() };
 
   // Find the label column (the non-month column with the most text data)
-  const effectiveLabelCol = findLabelColumn(effectiveHeaders, monthCols, dataRows);
+  const effectiveLabelCol = sheet.labelColumn ?? findLabelColumn(effectiveHeaders, monthCols, dataRows);
 
   const volumes = new Map<string, { gasoil: number; sansPlomb: number; gnr: number; total: number }>();
   const objectives = new Map<string, { gasoil: number; sansPlomb: number; gnr: number; total: number }>();
@@ -736,7 +770,7 @@ export function parseAnalyseActiviteSheet(
 
   if (monthCols.length === 0) return new Map();
 
-  const effectiveLabelCol = findLabelColumn(effectiveHeaders, monthCols, dataRows);
+  const effectiveLabelCol = sheet.labelColumn ?? findLabelColumn(effectiveHeaders, monthCols, dataRows);
 
   // Initialize result for each month
   const result = new Map<string, AnalyseMonthData>();
@@ -1009,20 +1043,147 @@ export function parseAnalyseActiviteSheet(
   return result;
 }
 
+// --- Aged balances (balance âgée clients / fournisseurs) ---
+// Expected format (one snapshot per sheet, tiers in rows, aging buckets in columns):
+// Balance âgée clients au 31/03/2026
+// Client      | Non échu | 0-30 j | 31-60 j | 61-90 j | > 90 j | Total
+// DUPONT SARL | 1200     | 300    |         |         |        | 1500
+// TOTAL       | ...
+
+type AgingBucketKey = 'd0_30' | 'd31_60' | 'd61_90' | 'over90';
+
+// Classify an aging column header; "non échu" / "à échoir" is counted in 0-30
+function classifyAgingHeader(raw: any): AgingBucketKey | null {
+  const h = String(raw ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!h) return null;
+  if (/>\s*=?\s*9[01]|\+\s*(de\s*)?9[01]|9[01]\s*(j(ours?)?)?\s*(et\s*)?\+|plus de 90|au-del[àa] de 90/.test(h)) return 'over90';
+  if (/\b6[01]\s*[-àa\/]\s*90\b/.test(h)) return 'd61_90';
+  if (/\b3[01]\s*[-àa\/]\s*60\b/.test(h)) return 'd31_60';
+  if (/\b[01]\s*[-àa\/]\s*30\b|<\s*=?\s*30|moins de 30|non [ée]chu|[àa] [ée]choir/.test(h)) return 'd0_30';
+  return null;
+}
+
+// Find the row holding the aging buckets (the sheet's own header row first, then the first 30 rows)
+function findAgingHeader(sheet: ParsedSheet): { rowIndex: number; columns: { colIndex: number; bucket: AgingBucketKey }[]; bucketCount: number } {
+  const classify = (row: any[]) => (row || [])
+    .map((cell, colIndex) => ({ colIndex, bucket: classifyAgingHeader(cell) }))
+    .filter((c): c is { colIndex: number; bucket: AgingBucketKey } => c.bucket !== null);
+  const distinct = (cols: { bucket: AgingBucketKey }[]) => new Set(cols.map(c => c.bucket)).size;
+
+  const own = classify(sheet.fmtData?.[sheet.headerRow] || sheet.headers);
+  if (distinct(own) >= 2) return { rowIndex: sheet.headerRow, columns: own, bucketCount: distinct(own) };
+
+  let best = { rowIndex: -1, columns: [] as { colIndex: number; bucket: AgingBucketKey }[], bucketCount: 0 };
+  const maxScan = Math.min(sheet.fmtData?.length || 0, 30);
+  for (let i = 0; i < maxScan; i++) {
+    const cols = classify(sheet.fmtData[i]);
+    if (distinct(cols) > best.bucketCount) best = { rowIndex: i, columns: cols, bucketCount: distinct(cols) };
+  }
+  return best;
+}
+
+const toFullYear = (y: number): number | null => (y >= 2000 ? y : y <= 99 ? 2000 + y : null);
+
+// Closing date of an aged balance ("au 31/03/2026", "mars 2026") from the title rows or the sheet name.
+// The year is null when the title gives none: the import year applies then.
+export function detectAgingPeriod(sheet: ParsedSheet): { month: Month; year: number | null } | null {
+  const texts = [...(sheet.fmtData || []).slice(0, 6).flatMap(r => (r || []).map(c => String(c ?? ''))), sheet.name];
+  for (const text of texts) {
+    const date = text.match(/\b(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2,4})\b/);
+    if (date) {
+      const m = parseInt(date[2]);
+      if (m >= 1 && m <= 12) return { month: MONTHS_BY_INDEX[m - 1], year: toFullYear(parseInt(date[3])) };
+    }
+  }
+  for (const text of texts) {
+    const words = text.toLowerCase().split(/[\s,;:()]+/);
+    for (const [i, word] of words.entries()) {
+      const month = MONTH_MAP[word.replace(/\./g, '')];
+      if (month && word.length > 3) {
+        const next = words[i + 1]?.match(/^(\d{4})$/);
+        return { month, year: next ? toFullYear(parseInt(next[1])) : null };
+      }
+    }
+  }
+  return null;
+}
+
+export function detectAgingMonth(sheet: ParsedSheet): Month | null {
+  return detectAgingPeriod(sheet)?.month || null;
+}
+
+// Sum the aging buckets over the tiers rows (the TOTAL row is only a fallback when there is no detail)
+export function parseAgedBalanceSheet(sheet: ParsedSheet): AgingBuckets | null {
+  const header = findAgingHeader(sheet);
+  if (header.rowIndex < 0 || header.bucketCount < 2) return null;
+
+  const dataRows = sheet.rawData.slice(header.rowIndex + 1);
+  const bucketCols = new Set(header.columns.map(c => c.colIndex));
+  let labelCol = sheet.labelColumn ?? 0;
+  if (sheet.labelColumn === undefined) {
+    let bestCount = -1;
+    const firstBucketCol = Math.min(...bucketCols);
+    for (let col = 0; col < firstBucketCol; col++) {
+      const count = dataRows.slice(0, 20).filter(r => typeof r?.[col] === 'string' && r[col].trim().length > 0).length;
+      if (count > bestCount) { bestCount = count; labelCol = col; }
+    }
+  }
+
+  const detail: AgingBuckets = { d0_30: 0, d31_60: 0, d61_90: 0, over90: 0, total: 0 };
+  let totalRow: AgingBuckets | null = null;
+  for (const row of dataRows) {
+    if (!row) continue;
+    const label = String(row[labelCol] ?? '').toLowerCase().trim();
+    const values: AgingBuckets = { d0_30: 0, d31_60: 0, d61_90: 0, over90: 0, total: 0 };
+    for (const { colIndex, bucket } of header.columns) values[bucket] += parseNum(row[colIndex]);
+    if (label.startsWith('total') || label.startsWith('sous-total') || label.startsWith('sous total')) {
+      if (!totalRow && label.startsWith('total')) totalRow = values;
+      continue;
+    }
+    detail.d0_30 += values.d0_30;
+    detail.d31_60 += values.d31_60;
+    detail.d61_90 += values.d61_90;
+    detail.over90 += values.over90;
+  }
+
+  const result = (detail.d0_30 || detail.d31_60 || detail.d61_90 || detail.over90) ? detail : totalRow;
+  if (!result) return null;
+  result.total = result.d0_30 + result.d31_60 + result.d61_90 + result.over90;
+  return result;
+}
+
+// Normalized key of a family label in the alias table (Client.importMapping.familyAliases)
+export const familyAliasKey = (label: string) => label.toLowerCase().trim();
+
+// Families found in the sheets mapped as revenue_by_family (with their saved layout applied)
+export function detectFamilies(sheets: ParsedSheet[], mappings: SheetMapping[], year: number): string[] {
+  const families: string[] = [];
+  for (const mapping of mappings) {
+    if (mapping.type !== 'revenue_by_family') continue;
+    const sheet = sheets.find(s => s.name === mapping.sheetName);
+    if (!sheet) continue;
+    families.push(...parseRevenueSheet(applySheetLayout(sheet, mapping), year).families);
+  }
+  return [...new Set(families)];
+}
+
 // Build the final import result from mapped sheets
 // Merges data from all 3 sources: analyse_activite, revenue_by_family, fuel_volumes
+// familyAliases (family label -> profit center id) take precedence over name matching.
 export function buildImportData(
   sheets: ParsedSheet[],
   mappings: SheetMapping[],
   year: number,
   clientId: string,
   existingRecords: FinancialRecord[],
-  existingProfitCenters: ProfitCenter[]
+  existingProfitCenters: ProfitCenter[],
+  familyAliases: Record<string, string> = {}
 ): {
   records: FinancialRecord[];
   newProfitCenters: ProfitCenter[];
   allProfitCenters: ProfitCenter[];
-  summary: { monthCount: number; familyCount: number; newFamilyCount: number; hasFuel: boolean; hasAnalyseActivite: boolean };
+  familyAliases: Record<string, string>;
+  summary: { monthCount: number; familyCount: number; newFamilyCount: number; hasFuel: boolean; hasAnalyseActivite: boolean; hasBalances: boolean; hasAging: boolean };
 } {
   let allFamilies: string[] = [];
   let revenueData = new Map<string, Map<string, number>>();
@@ -1030,12 +1191,15 @@ export function buildImportData(
   let fuelObjectives = new Map<string, { gasoil: number; sansPlomb: number; gnr: number; total: number }>();
   let totalRow: Map<string, number> | null = null;
   let analyseData = new Map<string, AnalyseMonthData>();
+  // Keyed by "year|month": an aged balance belongs to the year of its closing date, not the import year
+  const agingData = new Map<string, { receivables?: AgingBuckets; payables?: AgingBuckets }>();
 
   // Process each mapped sheet
   for (const mapping of mappings) {
     if (mapping.type === 'ignore') continue;
-    const sheet = sheets.find(s => s.name === mapping.sheetName);
-    if (!sheet) continue;
+    const rawSheet = sheets.find(s => s.name === mapping.sheetName);
+    if (!rawSheet) continue;
+    const sheet = applySheetLayout(rawSheet, mapping);
 
     if (mapping.type === 'analyse_activite') {
       const parsed = parseAnalyseActiviteSheet(sheet, year);
@@ -1059,6 +1223,19 @@ export function buildImportData(
         }
       }
       if (!totalRow && parsed.totalRow) totalRow = parsed.totalRow;
+    } else if (mapping.type === 'aged_receivables' || mapping.type === 'aged_payables') {
+      // Snapshot sheet: the closing month comes from the mapping, else from the title;
+      // the year from the title date when it names that month, else the import year
+      const detected = detectAgingPeriod(sheet);
+      const month = mapping.month || detected?.month;
+      const buckets = parseAgedBalanceSheet(sheet);
+      if (!month || !buckets) continue;
+      const agingYear = (detected?.month === month && detected.year) || year;
+      const key = `${agingYear}|${month}`;
+      const entry = agingData.get(key) || {};
+      if (mapping.type === 'aged_receivables') entry.receivables = entry.receivables || buckets;
+      else entry.payables = entry.payables || buckets;
+      agingData.set(key, entry);
     } else if (mapping.type === 'fuel_volumes') {
       const parsed = parseFuelSheet(sheet, year);
       // Merge fuel data (first sheet wins per month)
@@ -1074,9 +1251,14 @@ export function buildImportData(
   // Deduplicate families
   allFamilies = [...new Set(allFamilies)];
 
-  // Determine which families are new
+  // Determine which families are new (neither aliased to an existing profit center nor matching by name)
+  const existingIds = new Set(existingProfitCenters.map(pc => pc.id));
   const existingNames = new Set(existingProfitCenters.map(pc => pc.name.toLowerCase().trim()));
-  const newFamilyNames = allFamilies.filter(f => !existingNames.has(f.toLowerCase().trim()));
+  const aliasFor = (family: string) => {
+    const pcId = familyAliases[familyAliasKey(family)];
+    return pcId && existingIds.has(pcId) ? pcId : undefined;
+  };
+  const newFamilyNames = allFamilies.filter(f => !aliasFor(f) && !existingNames.has(f.toLowerCase().trim()));
 
   // Create new ProfitCenter objects for missing families
   const newProfitCenters: ProfitCenter[] = newFamilyNames.map((name, i) => ({
@@ -1089,34 +1271,52 @@ export function buildImportData(
   // Merge all profit centers
   const allProfitCenters = [...existingProfitCenters, ...newProfitCenters];
 
-  // Build a name -> id map
+  // Build a name -> id map (aliases override name matching)
   const nameToId = new Map<string, string>();
   for (const pc of allProfitCenters) {
     nameToId.set(pc.name.toLowerCase().trim(), pc.id);
   }
+  for (const family of allFamilies) {
+    const pcId = aliasFor(family);
+    if (pcId) nameToId.set(familyAliasKey(family), pcId);
+  }
+
+  // Resolved alias table, to be saved on the client for the next import
+  const resolvedAliases: Record<string, string> = {};
+  for (const family of allFamilies) {
+    const pcId = nameToId.get(familyAliasKey(family));
+    if (pcId) resolvedAliases[familyAliasKey(family)] = pcId;
+  }
 
-  // Collect all months from all sources
-  const allMonths = new Set<string>();
-  for (const m of analyseData.keys()) allMonths.add(m);
-  for (const m of revenueData.keys()) allMonths.add(m);
-  for (const m of fuelVolumes.keys()) allMonths.add(m);
+  // Collect all periods ("year|month") from all sources — only aged balances can fall outside the import year
+  const allPeriods = new Set<string>();
+  for (const m of analyseData.keys()) allPeriods.add(`${year}|${m}`);
+  for (const m of revenueData.keys()) allPeriods.add(`${year}|${m}`);
+  for (const m of fuelVolumes.keys()) allPeriods.add(`${year}|${m}`);
+  for (const key of agingData.keys()) allPeriods.add(key);
 
-  // Build records for each month
+  // Build records for each period
   const records: FinancialRecord[] = [];
 
-  for (const monthName of allMonths) {
+  for (const period of allPeriods) {
+    const [periodYearText, monthName] = period.split('|');
+    const periodYear = Number(periodYearText);
     const month = monthName as Month;
-    const existing = existingRecords.find(r => r.year === year && r.month === month);
+    const inImportYear = periodYear === year;
+    const existing = existingRecords.find(r => r.year === periodYear && r.month === month);
 
     // Data from analyse_activite (main source)
-    const analyse = analyseData.get(monthName);
+    const analyse = inImportYear ? analyseData.get(monthName) : undefined;
 
     // Data from CA par famille (breakdown)
-    const familyValues = revenueData.get(monthName);
+    const familyValues = inImportYear ? revenueData.get(monthName) : undefined;
 
     // Data from fuel volumes
-    const fuel = fuelVolumes.get(monthName);
-    const fuelObj = fuelObjectives.get(monthName);
+    const fuel = inImportYear ? fuelVolumes.get(monthName) : undefined;
+    const fuelObj = inImportYear ? fuelObjectives.get(monthName) : undefined;
+
+    // Data from aged balances
+    const aging = agingData.get(period);
 
     // Build revenue breakdown keyed by profit center ID
     const revenueBreakdown: Record<string, number> = {};
@@ -1132,7 +1332,7 @@ export function buildImportData(
     }
 
     // Revenue: prefer analyse_activite data, fallback to family sum
-    const totalFromSheet = totalRow?.get(monthName);
+    const totalFromSheet = inImportYear ? totalRow?.get(monthName) : undefined;
     const revenueGoods = analyse?.revenueGoods || 0;
     const revenueServices = analyse?.revenueServices || 0;
     const revenueTotal = analyse?.revenueTotal
@@ -1143,6 +1343,7 @@ export function buildImportData(
     // Skip months where absolutely no data was found
     const hasAnyData = revenueTotal > 0 || caFromFamilies > 0
       || (fuel && fuel.total > 0)
+      || !!aging
       || (analyse && (analyse.salaries > 0 || analyse.bfr.receivables.total > 0 || analyse.bfr.total !== 0 || analyse.cashFlow.treasury !== 0));
     if (!hasAnyData) continue;
 
@@ -1150,9 +1351,9 @@ export function buildImportData(
     const baseRecord: FinancialRecord = existing
       ? JSON.parse(JSON.stringify(existing))
       : {
-          id: `${clientId}-${year}-${month}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+          id: `${clientId}-${periodYear}-${month}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
           clientId,
-          year,
+          year: periodYear,
           month,
           isValidated: false,
           isPublished: false,
@@ -1170,18 +1371,21 @@ export function buildImportData(
           cashFlow: { active: 0, passive: 0, treasury: 0 },
         };
 
-    // Apply revenue data
-    baseRecord.revenue = {
-      goods: revenueGoods || revenueTotal, // If no goods/services split, put everything in goods
-      services: revenueServices,
-      total: revenueTotal,
-      objective: revenueObjective || baseRecord.revenue.objective || 0,
-      breakdown: { ...(baseRecord.revenue.breakdown || {}), ...revenueBreakdown },
-    };
-    // If we have both goods and services from analyse, use them
-    if (revenueGoods > 0 || revenueServices > 0) {
-      baseRecord.revenue.goods = revenueGoods;
-      baseRecord.revenue.services = revenueServices;
+    // Apply revenue data (a month known only from an aged balance keeps its revenue)
+    const agingOnly = !analyse && !familyValues && !fuel && totalFromSheet === undefined;
+    if (!agingOnly) {
+      baseRecord.revenue = {
+        goods: revenueGoods || revenueTotal, // If no goods/services split, put everything in goods
+        services: revenueServices,
+        total: revenueTotal,
+        objective: revenueObjective || baseRecord.revenue.objective || 0,
+        breakdown: { ...(baseRecord.revenue.breakdown || {}), ...revenueBreakdown },
+      };
+      // If we have both goods and services from analyse, use them
+      if (revenueGoods > 0 || revenueServices > 0) {
+        baseRecord.revenue.goods = revenueGoods;
+        baseRecord.revenue.services = revenueServices;
+      }
     }
 
     // Apply fuel data
@@ -1228,6 +1432,22 @@ export function buildImportData(
       }
     }
 
+    // Apply aged balances: they give the client / supplier balances and keep the aging breakdown
+    if (aging) {
+      const bfr = JSON.parse(JSON.stringify(baseRecord.bfr)) as FinancialRecord['bfr'];
+      if (aging.receivables) {
+        bfr.receivables.clients = aging.receivables.total;
+        bfr.receivables.total = bfr.receivables.clients + bfr.receivables.state + bfr.receivables.social + bfr.receivables.other;
+      }
+      if (aging.payables) {
+        bfr.debts.suppliers = aging.payables.total;
+        bfr.debts.total = bfr.debts.suppliers + bfr.debts.state + bfr.debts.social + bfr.debts.salaries + bfr.debts.other;
+      }
+      bfr.total = bfr.receivables.total + bfr.stock.total - bfr.debts.total;
+      baseRecord.bfr = bfr;
+      baseRecord.aging = { ...(baseRecord.aging || {}), ...aging };
+    }
+
     records.push(baseRecord);
   }
 
@@ -1235,12 +1455,15 @@ export function buildImportData(
     records,
     newProfitCenters,
     allProfitCenters,
+    familyAliases: resolvedAliases,
     summary: {
       monthCount: records.length,
       familyCount: allFamilies.length,
       newFamilyCount: newFamilyNames.length,
       hasFuel: fuelVolumes.size > 0 && [...fuelVolumes.values()].some(f => f.total > 0),
       hasAnalyseActivite: analyseData.size > 0,
+      hasBalances: analyseData.size > 0,
+      hasAging: agingData.size > 0,
     },
   };
 }
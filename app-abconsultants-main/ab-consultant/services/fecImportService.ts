@@ -0,0 +1,370 @@
+import { Month, ProfitCenter, FinancialRecord } from '../types';
+import { familyAliasKey } from './excelImportService';
+
+// =============================================
+// IMPORT FEC (Fichier des Écritures Comptables, art. A47 A-1 du LPF)
+// Fichier texte exporté par tous les logiciels comptables français :
+// une ligne par mouvement, séparateur tabulation ou pipe, dates AAAAMMJJ.
+//
+// Correspondance comptes → record mensuel :
+//   70x          → CA (ventilé par activité selon le libellé du compte, 706 = services)
+//   60x (dont 603) → consommé, déduit du CA pour la marge commerciale
+//   641 / 645    → masse salariale chargée
+//   411          → créances clients (solde fin de mois)
+//   401          → dettes fournisseurs (solde fin de mois)
+//   43x / 44x    → dettes sociales / fiscales (créances si solde débiteur)
+//   512          → trésorerie (soldes positifs = disponibilités, négatifs = concours)
+// =============================================
+
+const MONTHS_BY_INDEX: Month[] = [
+  Month.Jan, Month.Feb, Month.Mar, Month.Apr, Month.May, Month.Jun,
+  Month.Jul, Month.Aug, Month.Sep, Month.Oct, Month.Nov, Month.Dec,
+];
+
+export interface FecEntry {
+  journalCode: string;
+  date: string;          // AAAAMMJJ
+  accountNum: string;
+  accountLabel: string;
+  debit: number;
+  credit: number;
+}
+
+// Parse an amount in FEC notation ("1234,56", "1 234,56", "-12.5")
+function parseAmount(val: string | undefined): number {
+  if (!val) return 0;
+  const cleaned = val.replace(/[\s ]/g, '').replace(',', '.');
+  const num = parseFloat(cleaned);
+  return isNaN(num) ? 0 : num;
+}
+
+const normalizeHeader = (h: string) => h.trim().toLowerCase().replace(/^﻿/, '');
+
+function splitLines(text: string): string[] {
+  return text.split(/\r?\n/).filter(l => l.trim().length > 0);
+}
+
+function detectDelimiter(headerLine: string): string {
+  if (headerLine.includes('\t')) return '\t';
+  if (headerLine.includes('|')) return '|';
+  return ';';
+}
+
+/** Le contenu ressemble-t-il à un FEC ? (en-têtes normalisés CompteNum + EcritureDate) */
+export function isFecContent(text: string): boolean {
+  const firstLine = splitLines(text)[0] || '';
+  const headers = firstLine.split(detectDelimiter(firstLine)).map(normalizeHeader);
+  return headers.includes('comptenum') && headers.includes('ecrituredate');
+}
+
+/**
+ * Lit les lignes d'un FEC. Gère les deux variantes autorisées :
+ * colonnes Debit / Credit, ou Montant + Sens (D/C).
+ */
+export function parseFec(text: string): FecEntry[] {
+  const lines = splitLines(text);
+  if (lines.length === 0) throw new Error('Le fichier FEC est vide.');
+
+  const delimiter = detectDelimiter(lines[0]);
+  const headers = lines[0].split(delimiter).map(normalizeHeader);
+  const col = (name: string) => headers.indexOf(name);
+
+  const iJournal = col('journalcode');
+  const iDate = col('ecrituredate');
+  const iAccount = col('comptenum');
+  const iLabel = col('comptelib');
+  const iDebit = col('debit');
+  const iCredit = col('credit');
+  const iAmount = col('montant');
+  const iSens = col('sens');
+
+  if (iDate < 0 || iAccount < 0) {
+    throw new Error('En-têtes FEC introuvables (EcritureDate, CompteNum attendus).');
+  }
+  const hasDebitCredit = iDebit >= 0 && iCredit >= 0;
+  if (!hasDebitCredit && (iAmount < 0 || iSens < 0)) {
+    throw new Error('Colonnes de montant FEC introuvables (Debit/Credit ou Montant/Sens attendues).');
+  }
+
+  const entries: FecEntry[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = line.split(delimiter);
+    const date = (cells[iDate] || '').trim();
+    const accountNum = (cells[iAccount] || '').trim();
+    if (!/^\d{8}$/.test(date) || !accountNum) continue;
+
+    let debit: number;
+    let credit: number;
+    if (hasDebitCredit) {
+      debit = parseAmount(cells[iDebit]);
+      credit = parseAmount(cells[iCredit]);
+    } else {
+      const amount = parseAmount(cells[iAmount]);
+      const isDebit = (cells[iSens] || '').trim().toUpperCase().startsWith('D') || (cells[iSens] || '').trim() === '+1';
+      debit = isDebit ? amount : 0;
+      credit = isDebit ? 0 : amount;
+    }
+
+    entries.push({
+      journalCode: iJournal >= 0 ? (cells[iJournal] || '').trim() : '',
+      date,
+      accountNum,
+      accountLabel: iLabel >= 0 ? (cells[iLabel] || '').trim() : '',
+      debit,
+      credit,
+    });
+  }
+
+  if (entries.length === 0) throw new Error('Aucune écriture exploitable dans le fichier FEC.');
+  return entries;
+}
+
+/**
+ * Lit le fichier en texte. Les FEC sont souvent en ISO-8859-1 / Windows-1252 :
+ * on tente l'UTF-8 strict puis on bascule sur Windows-1252.
+ */
+export function readFecFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const buffer = e.target?.result as ArrayBuffer;
+      try {
+        resolve(new TextDecoder('utf-8', { fatal: true }).decode(buffer));
+      } catch {
+        resolve(new TextDecoder('windows-1252').decode(buffer));
+      }
+    };
+    reader.onerror = () => reject(new Error('Erreur de lecture du fichier.'));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+// --- Agrégation mensuelle ---
+
+const monthKey = (date: string) => date.slice(0, 6); // AAAAMM
+
+interface FecMonthTotals {
+  revenueByAccount: Map<string, number>; // 70x hors 709, net crédit
+  revenueTotal: number;                   // 70x net crédit (709 inclus)
+  revenueServices: number;                // 706
+  purchases: number;                      // 60x net débit (603 inclus)
+  salaries: number;                       // 641 + 645 net débit
+}
+
+const emptyMonthTotals = (): FecMonthTotals => ({
+  revenueByAccount: new Map(), revenueTotal: 0, revenueServices: 0, purchases: 0, salaries: 0,
+});
+
+interface FecBalances {
+  clients: number;                        // 411 débit - crédit
+  suppliers: number;                      // 401 crédit - débit
+  social: number;                         // 43x crédit - débit
+  state: number;                          // 44x crédit - débit
+  bank: Map<string, number>;              // 512 par compte, débit - crédit
+}
+
+/**
+ * Construit les brouillons de records mensuels à partir des écritures du FEC.
+ * Même contrat de sortie que buildImportData (Excel) pour réutiliser l'aperçu d'ExcelImportModal :
+ * les activités sont rapprochées via la table d'alias du client puis par nom,
+ * les libellés de comptes 70x inconnus deviennent de nouvelles activités.
+ */
+export function buildFecImportData(
+  entries: FecEntry[],
+  clientId: string,
+  existingRecords: FinancialRecord[],
+  existingProfitCenters: ProfitCenter[],
+  familyAliases: Record<string, string> = {}
+): {
+  records: FinancialRecord[];
+  newProfitCenters: ProfitCenter[];
+  allProfitCenters: ProfitCenter[];
+  familyAliases: Record<string, string>;
+  summary: { monthCount: number; familyCount: number; newFamilyCount: number; hasFuel: boolean; hasAnalyseActivite: boolean; hasBalances: boolean; hasAging: boolean };
+} {
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+
+  // Libellé de référence par compte 70x (premier rencontré)
+  const revenueAccountLabels = new Map<string, string>();
+  for (const e of sorted) {
+    if (e.accountNum.startsWith('70') && !e.accountNum.startsWith('709') && !revenueAccountLabels.has(e.accountNum)) {
+      revenueAccountLabels.set(e.accountNum, e.accountLabel || `Compte ${e.accountNum}`);
+    }
+  }
+
+  // Rapprochement libellé → activité existante (nom identique ou contenu dans le libellé)
+  const findProfitCenter = (label: string, pcs: ProfitCenter[]) => {
+    const l = label.toLowerCase().trim();
+    return pcs.find(pc => pc.name.toLowerCase().trim() === l)
+      || pcs.find(pc => pc.name.trim().length > 2 && l.includes(pc.name.toLowerCase().trim()));
+  };
+
+  const newProfitCenters: ProfitCenter[] = [];
+  const accountToPc = new Map<string, string>();
+  const resolvedAliases: Record<string, string> = {};
+  let i = 0;
+  for (const [accountNum, label] of revenueAccountLabels.entries()) {
+    const aliasKey = familyAliasKey(label);
+    const aliased = existingProfitCenters.find(pc => pc.id === familyAliases[aliasKey]);
+    const match = aliased || findProfitCenter(label, [...existingProfitCenters, ...newProfitCenters]);
+    if (match) {
+      accountToPc.set(accountNum, match.id);
+      resolvedAliases[aliasKey] = match.id;
+      continue;
+    }
+    const pc: ProfitCenter = {
+      id: `pc_${Date.now()}_${i++}_${Math.random().toString(36).substring(2, 6)}`,
+      name: label,
+      type: accountNum.startsWith('706') ? 'services' : 'goods',
+      defaultMargin: 0,
+    };
+    newProfitCenters.push(pc);
+    accountToPc.set(accountNum, pc.id);
+    resolvedAliases[aliasKey] = pc.id;
+  }
+  const allProfitCenters = [...existingProfitCenters, ...newProfitCenters];
+
+  // Flux du mois (classes 6 / 7) et soldes cumulés de fin de mois (bilan)
+  const monthly = new Map<string, FecMonthTotals>();
+  const balancesAtMonthEnd = new Map<string, FecBalances>();
+  const running: FecBalances = { clients: 0, suppliers: 0, social: 0, state: 0, bank: new Map() };
+
+  for (const e of sorted) {
+    const key = monthKey(e.date);
+    if (!monthly.has(key)) monthly.set(key, emptyMonthTotals());
+    const m = monthly.get(key)!;
+    const acc = e.accountNum;
+    const netCredit = e.credit - e.debit;
+    const netDebit = e.debit - e.credit;
+
+    if (acc.startsWith('70')) {
+      m.revenueTotal += netCredit;
+      if (acc.startsWith('706')) m.revenueServices += netCredit;
+      if (!acc.startsWith('709')) m.revenueByAccount.set(acc, (m.revenueByAccount.get(acc) || 0) + netCredit);
+    } else if (acc.startsWith('60')) {
+      m.purchases += netDebit;
+    } else if (acc.startsWith('641') || acc.startsWith('645')) {
+      m.salaries += netDebit;
+    } else if (acc.startsWith('411')) {
+      running.clients += netDebit;
+    } else if (acc.startsWith('401')) {
+      running.suppliers += netCredit;
+    } else if (acc.startsWith('43')) {
+      running.social += netCredit;
+    } else if (acc.startsWith('44')) {
+      running.state += netCredit;
+    } else if (acc.startsWith('512')) {
+      running.bank.set(acc, (running.bank.get(acc) || 0) + netDebit);
+    }
+
+    balancesAtMonthEnd.set(key, { ...running, bank: new Map(running.bank) });
+  }
+
+  const round2 = (v: number) => Math.round(v * 100) / 100;
+  const records: FinancialRecord[] = [];
+
+  for (const [key, totals] of monthly.entries()) {
+    const year = parseInt(key.slice(0, 4));
+    const month = MONTHS_BY_INDEX[parseInt(key.slice(4, 6)) - 1];
+    if (!month) continue;
+    const balances = balancesAtMonthEnd.get(key)!;
+    const existing = existingRecords.find(r => r.year === year && r.month === month);
+
+    const baseRecord: FinancialRecord = existing
+      ? JSON.parse(JSON.stringify(existing))
+      : {
+          id: `${clientId}-${year}-${month}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+          clientId,
+          year,
+          month,
+          isValidated: false,
+          isPublished: false,
+          isSubmitted: false,
+          revenue: { goods: 0, services: 0, total: 0, objective: 0, breakdown: {} },
+          fuel: { volume: 0, objective: 0, details: { gasoil: { volume: 0, objective: 0 }, sansPlomb: { volume: 0, objective: 0 }, gnr: { volume: 0, objective: 0 } } },
+          margin: { rate: 0, total: 0, breakdown: {} },
+          expenses: { salaries: 0, hoursWorked: 0, overtimeHours: 0 },
+          bfr: {
+            receivables: { clients: 0, state: 0, social: 0, other: 0, total: 0 },
+            stock: { goods: 0, floating: 0, total: 0 },
+            debts: { suppliers: 0, state: 0, social: 0, salaries: 0, other: 0, total: 0 },
+            total: 0,
+          },
+          cashFlow: { active: 0, passive: 0, treasury: 0 },
+        };
+
+    // CA et ventilation par activité
+    const breakdown: Record<string, number> = {};
+    for (const [acc, value] of totals.revenueByAccount.entries()) {
+      const pcId = accountToPc.get(acc);
+      if (pcId) breakdown[pcId] = round2((breakdown[pcId] || 0) + value);
+    }
+    const revenueTotal = round2(totals.revenueTotal);
+    baseRecord.revenue = {
+      ...baseRecord.revenue,
+      total: revenueTotal,
+      services: round2(totals.revenueServices),
+      goods: round2(revenueTotal - totals.revenueServices),
+      breakdown: { ...(baseRecord.revenue.breakdown || {}), ...breakdown },
+    };
+
+    // Marge commerciale = CA - consommé (60x, variation de stock 603 incluse)
+    const marginTotal = round2(totals.revenueTotal - totals.purchases);
+    baseRecord.margin = {
+      ...baseRecord.margin,
+      total: marginTotal,
+      rate: revenueTotal > 0 ? (marginTotal / revenueTotal) * 100 : 0,
+    };
+
+    baseRecord.expenses = { ...baseRecord.expenses, salaries: round2(totals.salaries) };
+
+    // BFR (soldes de fin de mois) — le stock éventuellement saisi est conservé
+    const receivables = {
+      ...baseRecord.bfr.receivables,
+      clients: round2(balances.clients),
+      social: round2(Math.max(0, -balances.social)),
+      state: round2(Math.max(0, -balances.state)),
+    };
+    receivables.total = receivables.clients + receivables.state + receivables.social + receivables.other;
+    const debts = {
+      ...baseRecord.bfr.debts,
+      suppliers: round2(balances.suppliers),
+      social: round2(Math.max(0, balances.social)),
+      state: round2(Math.max(0, balances.state)),
+    };
+    debts.total = debts.suppliers + debts.state + debts.social + debts.salaries + debts.other;
+    baseRecord.bfr = {
+      ...baseRecord.bfr,
+      receivables,
+      debts,
+      total: round2(receivables.total + baseRecord.bfr.stock.total - debts.total),
+    };
+
+    // Trésorerie : comptes 512 créditeurs en banque (solde débiteur en compta) = disponibilités
+    const bankBalances = [...balances.bank.values()];
+    const active = round2(bankBalances.filter(v => v > 0).reduce((s, v) => s + v, 0));
+    const passive = round2(bankBalances.filter(v => v < 0).reduce((s, v) => s - v, 0));
+    baseRecord.cashFlow = { active, passive, treasury: round2(active - passive) };
+
+    records.push(baseRecord);
+  }
+
+  records.sort((a, b) => a.year - b.year || MONTHS_BY_INDEX.indexOf(a.month) - MONTHS_BY_INDEX.indexOf(b.month));
+
+  return {
+    records,
+    newProfitCenters,
+    allProfitCenters,
+    familyAliases: resolvedAliases,
+    summary: {
+      monthCount: records.length,
+      familyCount: revenueAccountLabels.size,
+      newFamilyCount: newProfitCenters.length,
+      hasFuel: false,
+      // Pas de feuille Analyse Activité : marge, salaires, BFR et trésorerie viennent des comptes
+      hasAnalyseActivite: false,
+      hasBalances: records.length > 0,
+      hasAging: false,
+    },
+  };
+}
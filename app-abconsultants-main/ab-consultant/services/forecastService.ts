@@ -0,0 +1,180 @@
+import { FinancialRecord, ForecastAssumptions, ForecastOneOffFlow } from '../types';
+import { MONTH_ORDER } from './dataService';
+
+// =============================================
+// PRÉVISIONNEL DE TRÉSORERIE — 13 semaines glissantes (calculs purs)
+// Point de départ : trésorerie de fin de mois du dernier record saisi.
+// Les scénarios nommés (hypothèses) sont persistés dans dataService.
+// =============================================
+
+export const FORECAST_WEEKS = 13;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ForecastWeek {
+    index: number;            // 1..13
+    start: string;            // YYYY-MM-DD (les semaines partent du 1er jour suivant le mois de départ)
+    end: string;              // YYYY-MM-DD
+    label: string;            // "S1 · 01/02"
+    collections: number;      // encaissements clients
+    supplierPayments: number; // règlements fournisseurs
+    salaries: number;         // salaires nets
+    social: number;           // échéances sociales
+    tax: number;              // échéances fiscales
+    oneOff: number;           // flux ponctuels (signés)
+    net: number;
+    treasury: number;         // trésorerie de fin de semaine
+}
+
+export interface TreasuryForecast {
+    openingDate: string;
+    openingTreasury: number;
+    weeks: ForecastWeek[];
+    minTreasury: number;
+    firstNegativeWeek: ForecastWeek | null;
+}
+
+const toIsoDate = (t: number) => new Date(t).toISOString().slice(0, 10);
+
+const lastDayOfMonth = (year: number, monthIndex: number) => new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+/**
+ * Hypothèses par défaut déduites des derniers records (jusqu'à 3 mois, ordre chronologique).
+ * - DSO / DPO : même formule que les ratios du Dashboard (encours / CA mensuel moyen × 30)
+ * - Achats : CA - marge quand la marge est saisie, sinon 0 (à ajuster par le consultant)
+ * - Social / fiscal : l'encours de fin de mois sert d'échéance mensuelle récurrente
+ * - Salaires nets : masse salariale chargée - charges sociales
+ */
+export const deriveForecastAssumptions = (records: FinancialRecord[]): ForecastAssumptions => {
+    const recent = records.slice(-3);
+    const last = recent[recent.length - 1];
+    const avg = (pick: (r: FinancialRecord) => number) =>
+        recent.length > 0 ? recent.reduce((s, r) => s + (pick(r) || 0), 0) / recent.length : 0;
+
+    const monthlyRevenue = avg(r => r.revenue.total);
+    const hasMargin = recent.some(r => (r.margin?.total || 0) > 0);
+    const monthlySocial = last?.bfr.debts.social || 0;
+
+    return {
+        dso: monthlyRevenue > 0 && last ? Math.round((last.bfr.receivables.clients / monthlyRevenue) * 30) : 0,
+        dpo: monthlyRevenue > 0 && last ? Math.round((last.bfr.debts.suppliers / monthlyRevenue) * 30) : 0,
+        monthlyRevenue: Math.round(monthlyRevenue),
+        monthlyPurchases: hasMargin ? Math.round(avg(r => r.revenue.total - (r.margin?.total || 0))) : 0,
+        monthlySalaries: Math.round(Math.max(0, avg(r => r.expenses.salaries) - monthlySocial)),
+        monthlySocial: Math.round(monthlySocial),
+        monthlyTax: Math.round(last?.bfr.debts.state || 0),
+        socialDueDay: 15,
+        taxDueDay: 20,
+        oneOffFlows: [],
+    };
+};
+
+/**
+ * Projette la trésorerie semaine par semaine à partir du record de départ.
+ *
+ * Modèle journalier, agrégé par semaine :
+ * - l'encours clients existant est encaissé linéairement sur `dso` jours,
+ *   puis les nouvelles ventes (CA mensuel × 12 / 365 par jour) sont encaissées avec `dso` jours de décalage ;
+ * - symétriquement pour les fournisseurs avec `dpo` ;
+ * - dettes salariales du mois de départ réglées le premier jour, puis salaires nets chaque fin de mois ;
+ * - dettes sociales / fiscales existantes réglées à la première échéance, puis montant mensuel aux suivantes.
+ */
+export const buildTreasuryForecast = (
+    seed: FinancialRecord,
+    assumptions: ForecastAssumptions,
+    weeks: number = FORECAST_WEEKS
+): TreasuryForecast => {
+    const seedMonthIndex = MONTH_ORDER.indexOf(seed.month);
+    const start = Date.UTC(seed.year, seedMonthIndex + 1, 1);
+    const days = weeks * 7;
+
+    const dailySales = (assumptions.monthlyRevenue || 0) * 12 / 365;
+    const dailyPurchases = (assumptions.monthlyPurchases || 0) * 12 / 365;
+    const dso = Math.max(0, Math.round(assumptions.dso || 0));
+    const dpo = Math.max(0, Math.round(assumptions.dpo || 0));
+
+    // Échéances sociales / fiscales : la première solde l'encours, les suivantes le montant mensuel
+    let socialDuesSeen = 0;
+    let taxDuesSeen = 0;
+
+    const flowsByDate = new Map<string, ForecastOneOffFlow[]>();
+    (assumptions.oneOffFlows || []).forEach(f => {
+        if (!flowsByDate.has(f.date)) flowsByDate.set(f.date, []);
+        flowsByDate.get(f.date)!.push(f);
+    });
+
+    let treasury = seed.cashFlow.treasury || 0;
+    const result: ForecastWeek[] = [];
+    let current: ForecastWeek | null = null;
+
+    for (let day = 0; day < days; day++) {
+        const t = start + day * DAY_MS;
+        const date = new Date(t);
+        const dayOfMonth = date.getUTCDate();
+        const monthEnd = lastDayOfMonth(date.getUTCFullYear(), date.getUTCMonth());
+
+        if (day % 7 === 0) {
+            current = {
+                index: result.length + 1,
+                start: toIsoDate(t),
+                end: toIsoDate(t + 6 * DAY_MS),
+                label: `S${result.length + 1} · ${String(dayOfMonth).padStart(2, '0')}/${String(date.getUTCMonth() + 1).padStart(2, '0')}`,
+                collections: 0, supplierPayments: 0, salaries: 0, social: 0, tax: 0, oneOff: 0, net: 0, treasury: 0,
+            };
+            result.push(current);
+        }
+        const week = current!;
+
+        // Clients
+        if (dso === 0) {
+            week.collections += (day === 0 ? seed.bfr.receivables.clients : 0) + dailySales;
+        } else {
+            week.collections += day < dso ? seed.bfr.receivables.clients / dso : dailySales;
+        }
+
+        // Fournisseurs
+        if (dpo === 0) {
+            week.supplierPayments += (day === 0 ? seed.bfr.debts.suppliers : 0) + dailyPurchases;
+        } else {
+            week.supplierPayments += day < dpo ? seed.bfr.debts.suppliers / dpo : dailyPurchases;
+        }
+
+        // Salaires
+        if (day === 0) week.salaries += seed.bfr.debts.salaries || 0;
+        if (dayOfMonth === monthEnd) {
+            week.salaries += assumptions.monthlySalaries || 0;
+        }
+
+        // Échéances sociales et fiscales (jour borné à la fin du mois)
+        if (dayOfMonth === Math.min(assumptions.socialDueDay || 15, monthEnd)) {
+            week.social += socialDuesSeen === 0 ? seed.bfr.debts.social || 0 : assumptions.monthlySocial || 0;
+            socialDuesSeen++;
+        }
+        if (dayOfMonth === Math.min(assumptions.taxDueDay || 20, monthEnd)) {
+            week.tax += taxDuesSeen === 0 ? seed.bfr.debts.state || 0 : assumptions.monthlyTax || 0;
+            taxDuesSeen++;
+        }
+
+        (flowsByDate.get(toIsoDate(t)) || []).forEach(f => { week.oneOff += f.amount || 0; });
+    }
+
+    for (const week of result) {
+        week.collections = Math.round(week.collections);
+        week.supplierPayments = Math.round(week.supplierPayments);
+        week.salaries = Math.round(week.salaries);
+        week.social = Math.round(week.social);
+        week.tax = Math.round(week.tax);
+        week.oneOff = Math.round(week.oneOff);
+        week.net = week.collections - week.supplierPayments - week.salaries - week.social - week.tax + week.oneOff;
+        treasury += week.net;
+        week.treasury = Math.round(treasury);
+    }
+
+    return {
+        openingDate: toIsoDate(start),
+        openingTreasury: seed.cashFlow.treasury || 0,
+        weeks: result,
+        minTreasury: result.reduce((min, w) => Math.min(min, w.treasury), seed.cashFlow.treasury || 0),
+        firstNegativeWeek: result.find(w => w.treasury < 0) || null,
+    };
+};
@@ -0,0 +1,163 @@
+import { FinancialRecord, ProfitCenter } from '../types';
+import { MONTH_ORDER } from './dataService';
+
+// =============================================
+// IMPORT — simulation (dry-run) avant écriture
+// Compare les brouillons issus de l'import (Excel ou FEC) aux records existants,
+// champ par champ, et applique la politique choisie pour chaque mois.
+// =============================================
+
+/** overwrite : remplace les valeurs existantes · fill_blanks : ne complète que les champs vides · skip : mois ignoré */
+export type ImportPolicy = 'overwrite' | 'fill_blanks' | 'skip';
+
+export interface ImportFieldDiff {
+    path: string;             // chemin dans le record ("bfr.debts.suppliers")
+    label: string;
+    current: number | null;   // null si le mois n'existe pas encore
+    next: number;
+    changed: boolean;
+}
+
+export interface ImportMonthDiff {
+    key: string;              // "2026-Janvier"
+    imported: FinancialRecord;
+    existing: FinancialRecord | null;
+    fields: ImportFieldDiff[];
+    changedCount: number;
+    /** Mois validé ou publié : ignoré tant qu'un consultant ne l'a pas déverrouillé. */
+    isProtected: boolean;
+    defaultPolicy: ImportPolicy;
+}
+
+const DIFF_FIELDS: { path: string; label: string }[] = [
+    { path: 'revenue.total', label: 'CA total' },
+    { path: 'revenue.goods', label: 'CA marchandises' },
+    { path: 'revenue.services', label: 'CA services' },
+    { path: 'revenue.objective', label: 'Objectif CA' },
+    { path: 'margin.total', label: 'Marge' },
+    { path: 'expenses.salaries', label: 'Masse salariale' },
+    { path: 'expenses.hoursWorked', label: 'Heures travaillées' },
+    { path: 'fuel.volume', label: 'Volume carburant' },
+    { path: 'bfr.receivables.clients', label: 'Créances clients' },
+    { path: 'bfr.receivables.state', label: 'Créances fiscales' },
+    { path: 'bfr.receivables.social', label: 'Créances sociales' },
+    { path: 'bfr.stock.total', label: 'Stocks' },
+    { path: 'bfr.debts.suppliers', label: 'Dettes fournisseurs' },
+    { path: 'bfr.debts.state', label: 'Dettes fiscales' },
+    { path: 'bfr.debts.social', label: 'Dettes sociales' },
+    { path: 'bfr.total', label: 'BFR' },
+    { path: 'cashFlow.active', label: 'Disponibilités' },
+    { path: 'cashFlow.passive', label: 'Concours bancaires' },
+    { path: 'cashFlow.treasury', label: 'Trésorerie nette' },
+];
+
+const getPath = (record: FinancialRecord, path: string): number => {
+    const value = path.split('.').reduce<any>((obj, key) => (obj == null ? undefined : obj[key]), record);
+    return typeof value === 'number' && !isNaN(value) ? value : 0;
+};
+
+const setPath = (record: FinancialRecord, path: string, value: number) => {
+    const keys = path.split('.');
+    let obj: any = record;
+    keys.slice(0, -1).forEach(key => {
+        if (obj[key] == null) obj[key] = {};
+        obj = obj[key];
+    });
+    obj[keys[keys.length - 1]] = value;
+};
+
+const fieldsFor = (record: FinancialRecord, existing: FinancialRecord | null, profitCenters: ProfitCenter[]) => {
+    const pcIds = new Set([
+        ...Object.keys(record.revenue.breakdown || {}),
+        ...Object.keys(existing?.revenue.breakdown || {}),
+    ]);
+    const breakdownFields = [...pcIds].map(id => ({
+        path: `revenue.breakdown.${id}`,
+        label: `CA · ${profitCenters.find(pc => pc.id === id)?.name || id}`,
+    }));
+    return [...DIFF_FIELDS.slice(0, 4), ...breakdownFields, ...DIFF_FIELDS.slice(4)];
+};
+
+export const isProtectedRecord = (record: FinancialRecord | null): boolean =>
+    !!record && (record.isValidated || !!record.isPublished);
+
+/** Diff champ par champ de chaque mois importé, trié chronologiquement. */
+export const computeImportDiff = (
+    imported: FinancialRecord[],
+    existingRecords: FinancialRecord[],
+    profitCenters: ProfitCenter[] = []
+): ImportMonthDiff[] => {
+    return imported
+        .map(record => {
+            const existing = existingRecords.find(r => r.year === record.year && r.month === record.month) || null;
+            const fields = fieldsFor(record, existing, profitCenters).map(({ path, label }) => {
+                const next = getPath(record, path);
+                const current = existing ? getPath(existing, path) : null;
+                return { path, label, current, next, changed: current === null ? next !== 0 : Math.abs(next - current) > 0.005 };
+            });
+            const changedCount = fields.filter(f => f.changed).length;
+            const isProtected = isProtectedRecord(existing);
+            return {
+                key: `${record.year}-${record.month}`,
+                imported: record,
+                existing,
+                fields,
+                changedCount,
+                isProtected,
+                defaultPolicy: (isProtected || (existing && changedCount === 0) ? 'skip' : 'overwrite') as ImportPolicy,
+            };
+        })
+        .sort((a, b) => a.imported.year - b.imported.year
+            || MONTH_ORDER.indexOf(a.imported.month) - MONTH_ORDER.indexOf(b.imported.month));
+};
+
+/**
+ * Totaux dérivés recalculés après un "Compléter", avec les formules de la saisie (EntryForm) :
+ * un champ complété ne doit pas laisser un total qui le contredit. Seuls les groupes dont un
+ * détail a été complété sont recalculés — un total importé sans détail (Excel) reste tel quel.
+ */
+const recomputeTotals = (record: FinancialRecord, filledPaths: Set<string>) => {
+    const touched = (prefix: string) => [...filledPaths].some(path => path.startsWith(prefix));
+
+    if (filledPaths.has('revenue.goods') || filledPaths.has('revenue.services')) {
+        record.revenue.total = record.revenue.goods + record.revenue.services;
+    }
+    if (record.margin) {
+        record.margin.rate = record.revenue.total > 0 ? (record.margin.total / record.revenue.total) * 100 : 0;
+    }
+
+    const r = record.bfr.receivables;
+    if (touched('bfr.receivables.')) r.total = r.clients + r.state + r.social + r.other;
+    const d = record.bfr.debts;
+    if (touched('bfr.debts.')) d.total = d.suppliers + d.state + d.social + d.salaries + d.other;
+    if (touched('bfr.receivables.') || touched('bfr.stock.') || touched('bfr.debts.')) {
+        record.bfr.total = r.total + record.bfr.stock.total - d.total;
+    }
+
+    if (touched('cashFlow.active') || touched('cashFlow.passive')) {
+        record.cashFlow.treasury = record.cashFlow.active - record.cashFlow.passive;
+    }
+};
+
+/**
+ * Record à écrire pour un mois selon la politique retenue, ou null si rien ne doit être écrit.
+ * "Compléter" part du record existant, ne reprend que les champs vides (0) que l'import renseigne,
+ * puis recalcule les totaux qui en dépendent.
+ */
+export const applyImportPolicy = (diff: ImportMonthDiff, policy: ImportPolicy): FinancialRecord | null => {
+    if (policy === 'skip') return null;
+    if (!diff.existing || policy === 'overwrite') return diff.imported;
+
+    const merged: FinancialRecord = JSON.parse(JSON.stringify(diff.existing));
+    const filledPaths = new Set<string>();
+    diff.fields.forEach(f => {
+        if (!f.current && f.next) {
+            setPath(merged, f.path, f.next);
+            filledPaths.add(f.path);
+        }
+    });
+    if (filledPaths.size === 0) return null;
+
+    recomputeTotals(merged, filledPaths);
+    return merged;
+};
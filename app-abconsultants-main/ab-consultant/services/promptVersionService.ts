@@ -0,0 +1,69 @@
+import { PromptTemplate, PromptTemplateStatus } from '../types';
+
+// =============================================
+// VERSIONS DU PROMPT SYSTÈME — validation, numérotation et répartition du trafic (calculs purs)
+// Le serveur attribue chaque dossier à une version active au prorata des poids
+// (functions/src/api/systemPrompt.ts) ; ici on prépare les écritures de l'écran Qualité de l'IA.
+// =============================================
+
+export const PROMPT_PLACEHOLDERS = ['companyName', 'managerName', 'sector', 'legalForm', 'financialBlock'];
+
+/** Sans ces emplacements, le modèle ne sait ni pour quel dossier il répond ni quelles données il a. */
+export const REQUIRED_PROMPT_PLACEHOLDERS = ['companyName', 'financialBlock'];
+
+/** Nombre d'avis en dessous duquel une promotion est signalée comme prématurée. */
+export const MIN_FEEDBACK_TO_PROMOTE = 20;
+
+export const PROMPT_STATUS_LABELS: Record<PromptTemplateStatus, string> = {
+    draft: 'Brouillon',
+    active: 'Active',
+    retired: 'Retirée',
+};
+
+export interface PromptTrafficUpdate {
+    id: string;
+    status: PromptTemplateStatus;
+    weight: number;
+}
+
+/** Erreurs bloquantes d'un texte de prompt (emplacements manquants ou inconnus). */
+export const validatePromptTemplate = (template: string): string[] => {
+    const errors: string[] = [];
+    if (!template.trim()) return ['Le texte du prompt est vide.'];
+    const used = new Set(Array.from(template.matchAll(/\{\{(\w+)\}\}/g), m => m[1]));
+    for (const name of REQUIRED_PROMPT_PLACEHOLDERS) {
+        if (!used.has(name)) errors.push(`Emplacement {{${name}}} manquant.`);
+    }
+    for (const name of used) {
+        if (!PROMPT_PLACEHOLDERS.includes(name)) errors.push(`Emplacement {{${name}}} inconnu.`);
+    }
+    return errors;
+};
+
+/** "v1", "v2", "v7" → "v8". */
+export const nextPromptVersion = (templates: Pick<PromptTemplate, 'id'>[]): string => {
+    const max = templates.reduce((acc, t) => Math.max(acc, Number(t.id.match(/^v(\d+)$/)?.[1]) || 0), 0);
+    return `v${max + 1}`;
+};
+
+/** Part effective du trafic de chaque version active, en %. */
+export const trafficShares = (templates: PromptTemplate[]): Record<string, number> => {
+    const active = templates.filter(t => t.status === 'active' && t.weight > 0);
+    const total = active.reduce((sum, t) => sum + t.weight, 0);
+    return Object.fromEntries(active.map(t => [t.id, Math.round((t.weight / total) * 1000) / 10]));
+};
+
+/**
+ * Écritures d'une nouvelle répartition : un poids positif active la version,
+ * un poids nul retire une version qui était active (un brouillon reste brouillon).
+ */
+export const trafficUpdates = (templates: PromptTemplate[], weights: Record<string, number>): PromptTrafficUpdate[] =>
+    templates.flatMap(t => {
+        const weight = Math.max(0, Math.round(weights[t.id] ?? t.weight));
+        const status: PromptTemplateStatus = weight > 0 ? 'active' : t.status === 'active' ? 'retired' : t.status;
+        return weight === t.weight && status === t.status ? [] : [{ id: t.id, status, weight }];
+    });
+
+/** Promotion : la version gagnante reçoit tout le trafic, les autres versions actives sont retirées. */
+export const promotionUpdates = (templates: PromptTemplate[], winnerId: string): PromptTrafficUpdate[] =>
+    trafficUpdates(templates, Object.fromEntries(templates.map(t => [t.id, t.id === winnerId ? 100 : 0])));
@@ -0,0 +1,125 @@
+import { FinancialRecord, ProfitCenter, SimulationLevers } from '../types';
+
+// =============================================
+// SIMULATEUR "ET SI ?" — calculs purs
+// Les leviers s'appliquent aux records de la période affichée ; rien n'est écrit dans les records.
+// =============================================
+
+/** Clé des leviers de CA pour la part non ventilée par activité (ou tout le CA sans activités). */
+export const UNALLOCATED_REVENUE_KEY = '*';
+
+export const emptyLevers = (): SimulationLevers => ({
+    revenueChangePct: {},
+    marginRateDelta: 0,
+    salariesMonthlyDelta: 0,
+    dsoDelta: 0,
+    dpoDelta: 0,
+});
+
+export const hasActiveLevers = (levers: SimulationLevers): boolean =>
+    Object.values(levers.revenueChangePct).some(v => !!v)
+    || !!levers.marginRateDelta || !!levers.salariesMonthlyDelta || !!levers.dsoDelta || !!levers.dpoDelta;
+
+export interface SimulationLine {
+    key: string;
+    label: string;
+    unit: '€' | '%' | 'j';
+    baseline: number;
+    simulated: number;
+    n1: number | null;        // même période, exercice précédent
+    higherIsBetter: boolean;
+}
+
+interface PeriodFigures {
+    revenue: number;
+    margin: number;
+    marginRate: number;
+    salaries: number;
+    dso: number;
+    dpo: number;
+    bfr: number;
+    treasury: number;
+}
+
+/** Agrégats d'une période, avec la même définition DSO/DPO que les ratios du Dashboard. */
+const periodFigures = (records: FinancialRecord[]): PeriodFigures | null => {
+    if (records.length === 0) return null;
+    const last = records[records.length - 1];
+    const revenue = records.reduce((s, r) => s + r.revenue.total, 0);
+    const margin = records.reduce((s, r) => s + (r.margin?.total || 0), 0);
+    const avgMonthlyRevenue = revenue / records.length;
+    return {
+        revenue,
+        margin,
+        marginRate: revenue > 0 ? (margin / revenue) * 100 : 0,
+        salaries: records.reduce((s, r) => s + r.expenses.salaries, 0),
+        dso: avgMonthlyRevenue > 0 ? (last.bfr.receivables.clients / avgMonthlyRevenue) * 30 : 0,
+        dpo: avgMonthlyRevenue > 0 ? (last.bfr.debts.suppliers / avgMonthlyRevenue) * 30 : 0,
+        bfr: last.bfr.total,
+        treasury: last.cashFlow.treasury,
+    };
+};
+
+/**
+ * Recalcule les indicateurs de la période avec les leviers appliqués.
+ *
+ * - CA : variation par activité, la part non ventilée suit la clé UNALLOCATED_REVENUE_KEY
+ * - Marge : CA simulé × (taux réel + delta)
+ * - BFR : encours clients / fournisseurs recalculés à partir des délais simulés et du CA simulé
+ * - Trésorerie : trésorerie réelle + écart de marge - écart de masse salariale - écart de BFR
+ */
+export const simulatePeriod = (
+    records: FinancialRecord[],
+    levers: SimulationLevers,
+    profitCenters: ProfitCenter[] = [],
+    n1Records: FinancialRecord[] = []
+): SimulationLine[] => {
+    const base = periodFigures(records);
+    if (!base) return [];
+    const n1 = periodFigures(n1Records);
+    const months = records.length;
+    const last = records[records.length - 1];
+    const pct = (key: string) => 1 + (levers.revenueChangePct[key] || 0) / 100;
+
+    let allocated = 0;
+    let simRevenue = 0;
+    profitCenters.forEach(pc => {
+        const pcRevenue = records.reduce((s, r) => s + (r.revenue.breakdown?.[pc.id] || 0), 0);
+        allocated += pcRevenue;
+        simRevenue += pcRevenue * pct(pc.id);
+    });
+    simRevenue += (base.revenue - allocated) * pct(UNALLOCATED_REVENUE_KEY);
+
+    const simMarginRate = base.marginRate + (levers.marginRateDelta || 0);
+    const simMargin = simRevenue * simMarginRate / 100;
+    const simSalaries = base.salaries + (levers.salariesMonthlyDelta || 0) * months;
+
+    const simAvgMonthlyRevenue = simRevenue / months;
+    const simDso = Math.max(0, base.dso + (levers.dsoDelta || 0));
+    const simDpo = Math.max(0, base.dpo + (levers.dpoDelta || 0));
+    const simReceivables = simDso * simAvgMonthlyRevenue / 30;
+    const simSuppliers = simDpo * simAvgMonthlyRevenue / 30;
+    const simBfr = base.bfr
+        + (simReceivables - last.bfr.receivables.clients)
+        - (simSuppliers - last.bfr.debts.suppliers);
+
+    const simTreasury = base.treasury
+        + (simMargin - base.margin)
+        - (simSalaries - base.salaries)
+        - (simBfr - base.bfr);
+
+    const line = (key: string, label: string, unit: SimulationLine['unit'], baseline: number, simulated: number, n1Value: number | null, higherIsBetter = true): SimulationLine =>
+        ({ key, label, unit, baseline, simulated, n1: n1Value, higherIsBetter });
+
+    return [
+        line('revenue', "Chiffre d'affaires", '€', base.revenue, simRevenue, n1 ? n1.revenue : null),
+        line('margin', 'Marge commerciale', '€', base.margin, simMargin, n1 ? n1.margin : null),
+        line('marginRate', 'Taux de marge', '%', base.marginRate, simMarginRate, n1 ? n1.marginRate : null),
+        line('salaries', 'Masse salariale', '€', base.salaries, simSalaries, n1 ? n1.salaries : null, false),
+        line('marginAfterSalaries', 'Marge après salaires', '€', base.margin - base.salaries, simMargin - simSalaries, n1 ? n1.margin - n1.salaries : null),
+        line('dso', 'Délai clients (DSO)', 'j', base.dso, simDso, n1 ? n1.dso : null, false),
+        line('dpo', 'Délai fournisseurs (DPO)', 'j', base.dpo, simDpo, n1 ? n1.dpo : null),
+        line('bfr', 'BFR fin de période', '€', base.bfr, simBfr, n1 ? n1.bfr : null, false),
+        line('treasury', 'Trésorerie fin de période', '€', base.treasury, simTreasury, n1 ? n1.treasury : null),
+    ];
+};
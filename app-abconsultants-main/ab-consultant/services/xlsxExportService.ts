@@ -0,0 +1,380 @@
+import * as XLSX from 'xlsx';
+import { Client, FinancialRecord, ProfitCenter } from '../types';
+import { formatFiscalYear, getCalendarYear, getFiscalMonthOrder, getFiscalYear, toShortMonth } from './dataService';
+
+// =============================================
+// EXPORT XLSX — classeur multi-feuilles mis en forme
+// Une feuille par exercice (indicateurs en lignes, mois en colonnes, comme les classeurs
+// des clients), puis Activités, Carburant et BFR. Totaux et sous-totaux en formules.
+// Un client n'exporte que ses mois publiés (même règle que l'export CSV serveur).
+// =============================================
+
+const FMT_EURO = '#,##0 "€";-#,##0 "€"';
+const FMT_RATE = '0.0%';
+const FMT_HOURS = '#,##0 "h"';
+const FMT_LITRES = '#,##0 "L"';
+
+type Aggregate = 'sum' | 'average' | 'rate' | 'none';
+
+interface RowSpec {
+    label: string;
+    value: (r: FinancialRecord) => number | string | undefined;
+    format?: string;
+    aggregate: Aggregate;
+}
+
+export interface FrozenPane {
+    cols: number;   // colonnes figées à gauche
+    rows: number;   // lignes figées en haut
+}
+
+export interface ClientWorkbook {
+    workbook: XLSX.WorkBook;
+    frozenPanes: Record<string, FrozenPane>;
+}
+
+const recordStatus = (r: FinancialRecord): string =>
+    r.isPublished ? 'Publié' : r.isValidated ? 'Validé' : r.isSubmitted ? 'Soumis' : 'Brouillon';
+
+// Ligne "Taux de marge" : rapport des lignes Marge / CA, calculé par formule
+const MARGIN_RATE_LABEL = 'Taux de marge';
+
+const YEAR_ROWS: RowSpec[] = [
+    { label: "Chiffre d'affaires HT", value: r => r.revenue?.total, format: FMT_EURO, aggregate: 'sum' },
+    { label: 'CA marchandises', value: r => r.revenue?.goods, format: FMT_EURO, aggregate: 'sum' },
+    { label: 'CA services', value: r => r.revenue?.services, format: FMT_EURO, aggregate: 'sum' },
+    { label: 'Objectif CA', value: r => r.revenue?.objective, format: FMT_EURO, aggregate: 'sum' },
+    { label: 'Marge commerciale', value: r => r.margin?.total, format: FMT_EURO, aggregate: 'sum' },
+    { label: MARGIN_RATE_LABEL, value: () => undefined, format: FMT_RATE, aggregate: 'rate' },
+    { label: 'Masse salariale', value: r => r.expenses?.salaries, format: FMT_EURO, aggregate: 'sum' },
+    { label: 'Heures travaillées', value: r => r.expenses?.hoursWorked, format: FMT_HOURS, aggregate: 'sum' },
+    { label: 'Heures supplémentaires', value: r => r.expenses?.overtimeHours, format: FMT_HOURS, aggregate: 'sum' },
+    { label: 'Créances clients', value: r => r.bfr?.receivables?.clients, format: FMT_EURO, aggregate: 'average' },
+    { label: 'Stocks', value: r => r.bfr?.stock?.total, format: FMT_EURO, aggregate: 'average' },
+    { label: 'Dettes fournisseurs', value: r => r.bfr?.debts?.suppliers, format: FMT_EURO, aggregate: 'average' },
+    { label: 'Dettes fiscales', value: r => r.bfr?.debts?.state, format: FMT_EURO, aggregate: 'average' },
+    { label: 'Dettes sociales', value: r => r.bfr?.debts?.social, format: FMT_EURO, aggregate: 'average' },
+    { label: 'BFR net', value: r => r.bfr?.total, format: FMT_EURO, aggregate: 'average' },
+    { label: 'Trésorerie active', value: r => r.cashFlow?.active, format: FMT_EURO, aggregate: 'average' },
+    { label: 'Trésorerie passive', value: r => r.cashFlow?.passive, format: FMT_EURO, aggregate: 'average' },
+    { label: 'Trésorerie nette', value: r => r.cashFlow?.treasury, format: FMT_EURO, aggregate: 'average' },
+    { label: 'Volume carburant', value: r => r.fuel?.volume, format: FMT_LITRES, aggregate: 'sum' },
+    { label: 'Statut', value: recordStatus, aggregate: 'none' },
+    { label: "Commentaire de l'expert", value: r => r.expertComment || undefined, aggregate: 'none' },
+];
+
+const FUEL_TYPES: { key: 'gasoil' | 'sansPlomb' | 'gnr'; label: string }[] = [
+    { key: 'gasoil', label: 'Gasoil' },
+    { key: 'sansPlomb', label: 'Sans plomb' },
+    { key: 'gnr', label: 'GNR' },
+];
+
+// Postes du BFR ; les lignes "Total" et "BFR" sont des formules sur les postes détaillés
+const BFR_BLOCKS: { total: string; sign: 1 | -1; rows: RowSpec[] }[] = [
+    {
+        total: 'Total créances', sign: 1, rows: [
+            { label: 'Créances clients', value: r => r.bfr?.receivables?.clients, format: FMT_EURO, aggregate: 'average' },
+            { label: 'Créances fiscales', value: r => r.bfr?.receivables?.state, format: FMT_EURO, aggregate: 'average' },
+            { label: 'Créances sociales', value: r => r.bfr?.receivables?.social, format: FMT_EURO, aggregate: 'average' },
+            { label: 'Autres créances', value: r => r.bfr?.receivables?.other, format: FMT_EURO, aggregate: 'average' },
+        ],
+    },
+    {
+        total: 'Total stocks', sign: 1, rows: [
+            { label: 'Stock marchandises', value: r => r.bfr?.stock?.goods, format: FMT_EURO, aggregate: 'average' },
+            { label: 'Stock flottant / en-cours', value: r => r.bfr?.stock?.floating, format: FMT_EURO, aggregate: 'average' },
+        ],
+    },
+    {
+        total: 'Total dettes', sign: -1, rows: [
+            { label: 'Dettes fournisseurs', value: r => r.bfr?.debts?.suppliers, format: FMT_EURO, aggregate: 'average' },
+            { label: 'Dettes fiscales', value: r => r.bfr?.debts?.state, format: FMT_EURO, aggregate: 'average' },
+            { label: 'Dettes sociales', value: r => r.bfr?.debts?.social, format: FMT_EURO, aggregate: 'average' },
+            { label: 'Dettes salariales', value: r => r.bfr?.debts?.salaries, format: FMT_EURO, aggregate: 'average' },
+            { label: 'Autres dettes', value: r => r.bfr?.debts?.other, format: FMT_EURO, aggregate: 'average' },
+        ],
+    },
+];
+
+// --- Cellules ---
+
+const ref = (r: number, c: number) => XLSX.utils.encode_cell({ r, c });
+const range = (r: number, c1: number, c2: number) => `${ref(r, c1)}:${ref(r, c2)}`;
+
+const numberCell = (v: number, z?: string): XLSX.CellObject => ({ t: 'n', v, z });
+const textCell = (v: string): XLSX.CellObject => ({ t: 's', v });
+/** Formule avec valeur en cache, pour un affichage correct avant recalcul. */
+const formulaCell = (f: string, v: number | string, z?: string): XLSX.CellObject =>
+    typeof v === 'number' ? { t: 'n', f, v, z } : { t: 's', f, v };
+
+const sum = (values: number[]) => values.reduce((s, v) => s + v, 0);
+const average = (values: number[]) => (values.length ? sum(values) / values.length : 0);
+
+/** Feuille à partir d'une grille de cellules (lignes × colonnes), largeur de colonnes comprise. */
+const sheetFromGrid = (grid: (XLSX.CellObject | null)[][], widths: number[]): XLSX.WorkSheet => {
+    const ws: XLSX.WorkSheet = {};
+    let maxCol = 0;
+    grid.forEach((row, r) => row.forEach((cell, c) => {
+        if (!cell) return;
+        ws[ref(r, c)] = cell;
+        maxCol = Math.max(maxCol, c);
+    }));
+    ws['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: Math.max(grid.length - 1, 0), c: maxCol } });
+    ws['!cols'] = widths.map(wch => ({ wch }));
+    return ws;
+};
+
+// Valeurs mensuelles d'une ligne, null pour un mois sans record
+const monthValues = (months: (FinancialRecord | null)[], value: RowSpec['value']) =>
+    months.map(r => (r ? value(r) : undefined));
+
+/**
+ * Cellules d'une ligne d'indicateur : libellé(s), un mois par colonne à partir de `firstCol`,
+ * puis Total (somme) et Moyenne en formules.
+ */
+const buildRow = (
+    lead: string[],
+    values: (number | string | undefined)[],
+    spec: Pick<RowSpec, 'format' | 'aggregate'>,
+    rowIndex: number,
+): (XLSX.CellObject | null)[] => {
+    const firstCol = lead.length;
+    const lastCol = firstCol + values.length - 1;
+    const cells: (XLSX.CellObject | null)[] = lead.map(textCell);
+    values.forEach(v => {
+        if (typeof v === 'number') cells.push(numberCell(v, spec.format));
+        else if (typeof v === 'string' && v) cells.push(textCell(v));
+        else cells.push(null);
+    });
+    const numbers = values.filter((v): v is number => typeof v === 'number');
+    if (spec.aggregate === 'sum') {
+        cells.push(formulaCell(`SUM(${range(rowIndex, firstCol, lastCol)})`, sum(numbers), spec.format));
+        cells.push(numbers.length ? formulaCell(`AVERAGE(${range(rowIndex, firstCol, lastCol)})`, average(numbers), spec.format) : null);
+    } else if (spec.aggregate === 'average') {
+        cells.push(null);
+        cells.push(numbers.length ? formulaCell(`AVERAGE(${range(rowIndex, firstCol, lastCol)})`, average(numbers), spec.format) : null);
+    }
+    return cells;
+};
+
+// --- Feuilles ---
+
+const yearSheetName = (fiscalYear: number, fiscalYearEnd?: string) =>
+    `Exercice ${formatFiscalYear(fiscalYear, fiscalYearEnd).replace('/', '-')}`;
+
+/** Records de l'exercice rangés dans l'ordre des mois de l'exercice (null = mois non saisi). */
+const fiscalMonths = (records: FinancialRecord[], fiscalYear: number, fiscalYearEnd?: string) =>
+    getFiscalMonthOrder(fiscalYearEnd).map(month => {
+        const year = getCalendarYear(fiscalYear, month, fiscalYearEnd);
+        return records.find(r => r.year === year && r.month === month) || null;
+    });
+
+const monthHeaders = (fiscalYear: number, fiscalYearEnd?: string) =>
+    getFiscalMonthOrder(fiscalYearEnd).map(m => `${toShortMonth(m)} ${String(getCalendarYear(fiscalYear, m, fiscalYearEnd)).slice(-2)}`);
+
+const buildYearSheet = (records: FinancialRecord[], fiscalYear: number, fiscalYearEnd: string | undefined, hasFuel: boolean): XLSX.WorkSheet => {
+    const months = fiscalMonths(records, fiscalYear, fiscalYearEnd);
+    const specs = YEAR_ROWS.filter(s => hasFuel || s.label !== 'Volume carburant');
+    const grid: (XLSX.CellObject | null)[][] = [
+        [textCell('Indicateur'), ...monthHeaders(fiscalYear, fiscalYearEnd).map(textCell), textCell('Total'), textCell('Moyenne')],
+    ];
+
+    const revenueRow = 1 + specs.findIndex(s => s.label === "Chiffre d'affaires HT");
+    const marginRow = 1 + specs.findIndex(s => s.label === 'Marge commerciale');
+
+    specs.forEach((spec, i) => {
+        const rowIndex = i + 1;
+        if (spec.aggregate !== 'rate') {
+            grid.push(buildRow([spec.label], monthValues(months, spec.value), spec, rowIndex));
+            return;
+        }
+        // Taux de marge = Marge / CA, colonne par colonne (Total compris)
+        const row: (XLSX.CellObject | null)[] = [textCell(spec.label)];
+        const totalCol = months.length + 1;
+        for (let c = 1; c <= totalCol; c++) {
+            const revenue = c === totalCol ? sum(months.map(r => r?.revenue?.total || 0)) : months[c - 1]?.revenue?.total || 0;
+            const margin = c === totalCol ? sum(months.map(r => r?.margin?.total || 0)) : months[c - 1]?.margin?.total || 0;
+            if (c < totalCol && !months[c - 1]) { row.push(null); continue; }
+            row.push(formulaCell(
+                `IF(${ref(revenueRow, c)}=0,0,${ref(marginRow, c)}/${ref(revenueRow, c)})`,
+                revenue ? margin / revenue : 0,
+                FMT_RATE,
+            ));
+        }
+        grid.push(row);
+    });
+
+    return sheetFromGrid(grid, [26, ...months.map(() => 12), 14, 14]);
+};
+
+const fiscalMonthLabels = (fiscalYearEnd?: string) => getFiscalMonthOrder(fiscalYearEnd).map(toShortMonth);
+
+const buildProfitCenterSheet = (
+    records: FinancialRecord[], fiscalYears: number[], fiscalYearEnd: string | undefined, profitCenters: ProfitCenter[],
+): XLSX.WorkSheet => {
+    const grid: (XLSX.CellObject | null)[][] = [
+        [textCell('Exercice'), textCell('Activité'), textCell('Indicateur'), ...fiscalMonthLabels(fiscalYearEnd).map(textCell), textCell('Total'), textCell('Moyenne')],
+    ];
+    fiscalYears.forEach(fy => {
+        const months = fiscalMonths(records, fy, fiscalYearEnd);
+        const label = formatFiscalYear(fy, fiscalYearEnd);
+        profitCenters.forEach(pc => {
+            grid.push(buildRow([label, pc.name, 'CA'], monthValues(months, r => r.revenue?.breakdown?.[pc.id]), { format: FMT_EURO, aggregate: 'sum' }, grid.length));
+            if (months.some(r => r?.margin?.breakdown?.[pc.id] !== undefined)) {
+                grid.push(buildRow([label, pc.name, 'Marge'], monthValues(months, r => r.margin?.breakdown?.[pc.id]), { format: FMT_EURO, aggregate: 'sum' }, grid.length));
+            }
+        });
+    });
+    return sheetFromGrid(grid, [10, 24, 10, ...Array(12).fill(12), 14, 14]);
+};
+
+const buildFuelSheet = (records: FinancialRecord[], fiscalYears: number[], fiscalYearEnd?: string): XLSX.WorkSheet => {
+    const grid: (XLSX.CellObject | null)[][] = [
+        [textCell('Exercice'), textCell('Carburant'), textCell('Indicateur'), ...fiscalMonthLabels(fiscalYearEnd).map(textCell), textCell('Total'), textCell('Moyenne')],
+    ];
+    fiscalYears.forEach(fy => {
+        const months = fiscalMonths(records, fy, fiscalYearEnd);
+        const label = formatFiscalYear(fy, fiscalYearEnd);
+        FUEL_TYPES.forEach(({ key, label: fuel }) => {
+            grid.push(buildRow([label, fuel, 'Volume'], monthValues(months, r => r.fuel?.details?.[key]?.volume), { format: FMT_LITRES, aggregate: 'sum' }, grid.length));
+            grid.push(buildRow([label, fuel, 'Objectif'], monthValues(months, r => r.fuel?.details?.[key]?.objective), { format: FMT_LITRES, aggregate: 'sum' }, grid.length));
+        });
+        grid.push(buildRow([label, 'Total', 'Volume'], monthValues(months, r => r.fuel?.volume), { format: FMT_LITRES, aggregate: 'sum' }, grid.length));
+        grid.push(buildRow([label, 'Total', 'Objectif'], monthValues(months, r => r.fuel?.objective), { format: FMT_LITRES, aggregate: 'sum' }, grid.length));
+    });
+    return sheetFromGrid(grid, [10, 14, 10, ...Array(12).fill(12), 14, 14]);
+};
+
+const buildBfrSheet = (records: FinancialRecord[], fiscalYears: number[], fiscalYearEnd?: string): XLSX.WorkSheet => {
+    const grid: (XLSX.CellObject | null)[][] = [
+        [textCell('Exercice'), textCell('Poste'), ...fiscalMonthLabels(fiscalYearEnd).map(textCell), textCell('Moyenne')],
+    ];
+    const firstCol = 2;
+    const lastCol = firstCol + 11;
+
+    fiscalYears.forEach(fy => {
+        const months = fiscalMonths(records, fy, fiscalYearEnd);
+        const label = formatFiscalYear(fy, fiscalYearEnd);
+        const totals: { row: number; sign: 1 | -1; values: (number | null)[] }[] = [];
+
+        BFR_BLOCKS.forEach(block => {
+            const firstRow = grid.length;
+            block.rows.forEach(spec => {
+                const cells = buildRow([label, spec.label], monthValues(months, spec.value), spec, grid.length);
+                grid.push([...cells.slice(0, lastCol + 1), cells[lastCol + 2]]);
+            });
+            const lastRow = grid.length - 1;
+            const totalRow = grid.length;
+            const values = months.map(r => (r ? sum(block.rows.map(s => Number(s.value(r)) || 0)) : null));
+            const row: (XLSX.CellObject | null)[] = [textCell(label), textCell(block.total)];
+            values.forEach((v, i) => {
+                const c = firstCol + i;
+                row.push(v === null ? null : formulaCell(`SUM(${ref(firstRow, c)}:${ref(lastRow, c)})`, v, FMT_EURO));
+            });
+            const filled = values.filter((v): v is number => v !== null);
+            row.push(filled.length ? formulaCell(`AVERAGE(${range(totalRow, firstCol, lastCol)})`, average(filled), FMT_EURO) : null);
+            grid.push(row);
+            totals.push({ row: totalRow, sign: block.sign, values });
+        });
+
+        // BFR = créances + stocks - dettes
+        const bfrRow = grid.length;
+        const row: (XLSX.CellObject | null)[] = [textCell(label), textCell('BFR')];
+        const bfrValues: number[] = [];
+        months.forEach((r, i) => {
+            const c = firstCol + i;
+            if (!r) { row.push(null); return; }
+            const v = sum(totals.map(t => t.sign * (t.values[i] || 0)));
+            bfrValues.push(v);
+            row.push(formulaCell(totals.map((t, k) => `${t.sign < 0 ? '-' : k > 0 ? '+' : ''}${ref(t.row, c)}`).join(''), v, FMT_EURO));
+        });
+        row.push(bfrValues.length ? formulaCell(`AVERAGE(${range(bfrRow, firstCol, lastCol)})`, average(bfrValues), FMT_EURO) : null);
+        grid.push(row);
+    });
+    return sheetFromGrid(grid, [10, 26, ...Array(12).fill(12), 14]);
+};
+
+// --- Classeur ---
+
+/**
+ * Construit le classeur d'un client. `fiscalYear` restreint l'export à un exercice ;
+ * `publishedOnly` est imposé pour un client (mois non publiés exclus).
+ */
+export const buildClientWorkbook = (
+    client: Client,
+    records: FinancialRecord[],
+    options: { fiscalYear?: number; publishedOnly: boolean },
+): ClientWorkbook => {
+    const fye = client.fiscalYearEnd;
+    const exported = records
+        .filter(r => !options.publishedOnly || r.isPublished)
+        .filter(r => !options.fiscalYear || getFiscalYear(r.year, r.month, fye) === options.fiscalYear);
+    const fiscalYears = [...new Set(exported.map(r => getFiscalYear(r.year, r.month, fye)))].sort((a, b) => a - b);
+
+    const workbook = XLSX.utils.book_new();
+    const frozenPanes: Record<string, FrozenPane> = {};
+    const append = (ws: XLSX.WorkSheet, name: string, pane: FrozenPane) => {
+        XLSX.utils.book_append_sheet(workbook, ws, name);
+        frozenPanes[name] = pane;
+    };
+
+    const hasFuel = exported.some(r => (r.fuel?.volume || 0) > 0);
+    fiscalYears.forEach(fy => append(buildYearSheet(exported, fy, fye, hasFuel), yearSheetName(fy, fye), { cols: 1, rows: 1 }));
+
+    const profitCenters = client.profitCenters || [];
+    if (profitCenters.length > 0) append(buildProfitCenterSheet(exported, fiscalYears, fye, profitCenters), 'Activités', { cols: 3, rows: 1 });
+    if (hasFuel) append(buildFuelSheet(exported, fiscalYears, fye), 'Carburant', { cols: 3, rows: 1 });
+    if (fiscalYears.length > 0) append(buildBfrSheet(exported, fiscalYears, fye), 'BFR', { cols: 2, rows: 1 });
+
+    return { workbook, frozenPanes };
+};
+
+/**
+ * Sérialise le classeur et fige les volets. La version communautaire de SheetJS n'écrit pas
+ * les volets : on les ajoute dans le XML de chaque feuille avant de reconstituer le zip.
+ */
+export const writeClientWorkbook = ({ workbook, frozenPanes }: ClientWorkbook): Uint8Array<ArrayBuffer> => {
+    const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+    const zip = XLSX.CFB.read(new Uint8Array(data), { type: 'array' });
+
+    workbook.SheetNames.forEach((name, i) => {
+        const pane = frozenPanes[name];
+        const entry = XLSX.CFB.find(zip, `/xl/worksheets/sheet${i + 1}.xml`);
+        if (!pane || !entry) return;
+        const topLeft = ref(pane.rows, pane.cols);
+        const paneXml = `<pane xSplit="${pane.cols}" ySplit="${pane.rows}" topLeftCell="${topLeft}" activePane="bottomRight" state="frozen"/>`;
+        const xml = new TextDecoder().decode(entry.content)
+            .replace(/<sheetView([^>]*)\/>/, `<sheetView$1>${paneXml}</sheetView>`);
+        entry.content = new TextEncoder().encode(xml);
+        entry.size = entry.content.length;
+    });
+
+    return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array', compression: true }));
+};
+
+/** Génère et télécharge l'export XLSX d'un client. */
+export const exportClientXLSX = (
+    client: Client,
+    records: FinancialRecord[],
+    options: { fiscalYear?: number; publishedOnly: boolean },
+): void => {
+    const book = buildClientWorkbook(client, records, options);
+    if (book.workbook.SheetNames.length === 0) throw new Error('Aucune donnée à exporter.');
+
+    const companyName = (client.companyName || 'client')
+        .replace(/[^a-zA-Z0-9àâäéèêëïôùûüç\s-]/g, '')
+        .replace(/\s+/g, '_')
+        .substring(0, 30);
+    const periodLabel = options.fiscalYear ? formatFiscalYear(options.fiscalYear, client.fiscalYearEnd).replace('/', '-') : 'all';
+    const filename = `export_${companyName}_${periodLabel}_${new Date().toISOString().slice(0, 10)}.xlsx`;
+
+    const blob = new Blob([writeClientWorkbook(book)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
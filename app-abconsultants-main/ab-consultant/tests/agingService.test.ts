@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { receivablesAgingAlert, agingOverdue } from '../services/agingService';
+
+const buckets = (d0_30: number, d31_60: number, d61_90: number, over90: number) =>
+  ({ d0_30, d31_60, d61_90, over90, total: d0_30 + d31_60 + d61_90 + over90 });
+
+describe('receivablesAgingAlert', () => {
+  it('stays silent on a healthy balance', () => {
+    expect(receivablesAgingAlert(buckets(9000, 1000, 0, 0))).toBeNull();
+    expect(receivablesAgingAlert(undefined)).toBeNull();
+    expect(receivablesAgingAlert(buckets(0, 0, 0, 0))).toBeNull();
+  });
+
+  it('warns when more than a quarter is older than 30 days', () => {
+    const alert = receivablesAgingAlert(buckets(6000, 3000, 1000, 0));
+    expect(alert?.level).toBe('warning');
+    expect(alert?.overdue).toBe(4000);
+    expect(alert?.overdueShare).toBeCloseTo(40);
+  });
+
+  it('is critical when more than 10 % is older than 90 days', () => {
+    const b = buckets(8000, 0, 0, 2000);
+    expect(agingOverdue(b)).toBe(2000);
+    expect(receivablesAgingAlert(b)?.level).toBe('critical');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildDownvotesCsv,
+    feedbackByClient,
+    feedbackByModel,
+    feedbackByMonth,
+    feedbackByPromptVersion,
+    feedbackByQuickReply,
+    summarizeFeedback,
+    FEEDBACK_FREE_QUESTION,
+    FEEDBACK_UNVERSIONED_PROMPT,
+} from '../services/aiFeedbackAnalytics';
+import type { AiFeedback } from '../services/dataService';
+
+const fb = (id: string, rating: 'up' | 'down', date: string, extra: Partial<AiFeedback> = {}): AiFeedback => ({
+    id,
+    clientId: 'c1',
+    messageId: `m-${id}`,
+    rating,
+    userId: 'u1',
+    userEmail: 'owner@c1.fr',
+    createdAt: { seconds: new Date(date).getTime() / 1000 },
+    ...extra,
+});
+
+const feedback = [
+    fb('1', 'up', '2026-08-10T10:00:00', { quickReply: 'Mon CA ce mois', model: 'gemini-2.5-flash' }),
+    fb('2', 'down', '2026-09-05T10:00:00', { quickReply: 'Mon CA ce mois', model: 'gemini-2.5-flash', question: 'Quel est mon CA ?', answer: 'Votre CA est de 12 000 €; en hausse.' }),
+    fb('3', 'up', '2026-10-01T10:00:00', { clientId: 'c2' }),
+    fb('4', 'up', '2026-10-02T10:00:00', { clientId: 'c2', model: 'gemini-2.5-pro' }),
+];
+
+describe('aiFeedbackAnalytics', () => {
+    it('summarizes satisfaction over all feedback', () => {
+        expect(summarizeFeedback(feedback)).toMatchObject({ up: 3, down: 1, total: 4, satisfaction: 75 });
+        expect(summarizeFeedback([]).satisfaction).toBeNull();
+    });
+
+    it('buckets by calendar month, including empty months', () => {
+        const months = feedbackByMonth(feedback, 4, new Date(2026, 9, 15));
+        expect(months.map(m => m.key)).toEqual(['2026-07', '2026-08', '2026-09', '2026-10']);
+        expect(months.map(m => m.total)).toEqual([0, 1, 1, 2]);
+        expect(months[0].label).toBe('Juil. 26');
+    });
+
+    it('groups by client, quick reply and model, largest first', () => {
+        expect(feedbackByClient(feedback, { c1: 'Garage', c2: 'Boulangerie' }).map(b => [b.label, b.satisfaction]))
+            .toEqual([['Boulangerie', 100], ['Garage', 50]]);
+        expect(feedbackByQuickReply(feedback).map(b => b.label)).toEqual(['Mon CA ce mois', FEEDBACK_FREE_QUESTION]);
+        expect(feedbackByModel(feedback).find(b => b.key === 'gemini-2.5-flash')).toMatchObject({ up: 1, down: 1 });
+    });
+
+    it('compares prompt versions, older feedback grouped apart', () => {
+        const versioned = [
+            ...feedback,
+            fb('5', 'up', '2026-10-03T10:00:00', { promptVersion: 'v2' }),
+            fb('6', 'down', '2026-10-04T10:00:00', { promptVersion: 'v2' }),
+            fb('7', 'up', '2026-10-05T10:00:00', { promptVersion: 'v3' }),
+        ];
+        expect(feedbackByPromptVersion(versioned).map(b => [b.label, b.up, b.down])).toEqual([
+            [FEEDBACK_UNVERSIONED_PROMPT, 3, 1], ['v2', 1, 1], ['v3', 1, 0],
+        ]);
+    });
+
+    it('exports only downvotes with question and answer, quoting separators', () => {
+        const lines = buildDownvotesCsv(feedback, { c1: 'Garage' }).replace(/^\uFEFF/, '').split('\n');
+        expect(lines).toHaveLength(2);
+        expect(lines[1]).toContain('Garage;Mon CA ce mois;gemini-2.5-flash;Quel est mon CA ?;"Votre CA est de 12 000 €; en hausse."');
+    });
+
+    it('neutralizes cells Excel would read as formulas', () => {
+        const csv = buildDownvotesCsv([
+            fb('8', 'down', '2026-10-06T10:00:00', {
+                question: '=HYPERLINK("https://phish.example";"Cliquez")',
+                answer: '+33 6 12 34 56 78',
+                comment: '@SUM(A1:A9)',
+                quickReply: '-1',
+            }),
+        ], {});
+        const line = csv.replace(/^\uFEFF/, '').split('\n')[1];
+        expect(line).toContain(`;'-1;`);
+        expect(line).toContain(`;"'=HYPERLINK(""https://phish.example"";""Cliquez"")";'+33 6 12 34 56 78;'@SUM(A1:A9);`);
+    });
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { diffAlertRules, mergeAlertRules } from '../services/alertRulesService';
+import { DEFAULT_ALERT_RULES } from '../types';
+
+describe('alertRulesService', () => {
+    it('layers cabinet and client overrides without mutating the defaults', () => {
+        const cabinet = mergeAlertRules(DEFAULT_ALERT_RULES, { dsoAbove: { days: 45 } });
+        const client = mergeAlertRules(cabinet, { dsoAbove: { enabled: false }, treasuryBelow: { threshold: NaN } });
+        expect(client.dsoAbove).toEqual({ enabled: false, days: 45 });
+        expect(client.treasuryBelow).toEqual(DEFAULT_ALERT_RULES.treasuryBelow);
+        expect(DEFAULT_ALERT_RULES.dsoAbove.days).toBe(60);
+    });
+
+    it('keeps only the parameters that differ from the inherited rules', () => {
+        const edited = mergeAlertRules(DEFAULT_ALERT_RULES, { overtimeSpike: { enabled: true, pct: 50 }, missingMonth: { day: 10 } });
+        expect(diffAlertRules(DEFAULT_ALERT_RULES, edited)).toEqual({ overtimeSpike: { enabled: true }, missingMonth: { day: 10 } });
+        expect(diffAlertRules(DEFAULT_ALERT_RULES, DEFAULT_ALERT_RULES)).toEqual({});
+    });
+});
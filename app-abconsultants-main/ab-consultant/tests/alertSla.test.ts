@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { formatSlaRemaining, getAlertStatus, isAlertOverdue, sortAlertsForInbox } from '../services/alertSla';
+import type { ConsultantAlert } from '../services/dataService';
+
+const HOUR = 3600_000;
+const NOW = new Date('2026-10-19T12:00:00').getTime();
+
+const alert = (id: string, type: ConsultantAlert['type'], hoursAgo: number, extra: Partial<ConsultantAlert> = {}): ConsultantAlert => ({
+    id,
+    clientId: 'c1',
+    clientName: 'Garage',
+    type,
+    message: '',
+    createdAt: { seconds: (NOW - hoursAgo * HOUR) / 1000 },
+    resolved: false,
+    ...extra,
+});
+
+describe('alertSla', () => {
+    it('treats legacy alerts without status as new or resolved', () => {
+        expect(getAlertStatus(alert('a', 'manual', 1))).toBe('new');
+        expect(getAlertStatus(alert('a', 'manual', 1, { resolved: true }))).toBe('resolved');
+    });
+
+    it('flags handoffs not acknowledged within 4 hours', () => {
+        expect(isAlertOverdue(alert('a', 'chat_handoff', 5), NOW)).toBe(true);
+        expect(isAlertOverdue(alert('a', 'chat_handoff', 5, { status: 'acknowledged' }), NOW)).toBe(false);
+        expect(isAlertOverdue(alert('a', 'urgent_treasury', 5), NOW)).toBe(false);
+        expect(formatSlaRemaining(alert('a', 'chat_handoff', 1.5), NOW)).toBe('reste 2 h 30');
+        expect(formatSlaRemaining(alert('a', 'chat_handoff', 7), NOW)).toBe('dépassé de 3 h');
+    });
+
+    it('sorts overdue first, then new alerts by deadline, then acknowledged ones', () => {
+        const sorted = sortAlertsForInbox([
+            alert('ack', 'chat_handoff', 6, { status: 'in_progress' }),
+            alert('treasury', 'urgent_treasury', 1),
+            alert('handoff', 'chat_handoff', 1),
+            alert('late', 'chat_handoff', 6),
+        ], NOW);
+        expect(sorted.map(a => a.id)).toEqual(['late', 'handoff', 'treasury', 'ack']);
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseBankStatement, parseOfx, parseAmount, parseCamt053, parseBankCsv, computeMonthEndBalances, applyBankBalances, balanceAt,
+} from '../services/bankStatementService';
+import { Month } from '../types';
+
+const ofx = `OFXHEADER:100
+DATA:OFXSGML
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM><BANKID>30003<ACCTID>00012345678<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST><DTSTART>20260301<DTEND>20260415
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260310<TRNAMT>1500.00<FITID>1</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260402<TRNAMT>-300.50<FITID>2</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260410<TRNAMT>-199.50<FITID>3</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>4000.00<DTASOF>20260415</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<FrToDt><FrDtTm>2026-03-01T00:00:00</FrDtTm><ToDtTm>2026-03-31T23:59:59</ToDtTm></FrToDt>
+<Acct><Id><IBAN>FR7630004000031234567890143</IBAN></Id><Ccy>EUR</Ccy></Acct>
+<Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">200.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Dt><Dt>2026-03-01</Dt></Dt></Bal>
+<Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">1250.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Dt><Dt>2026-03-31</Dt></Dt></Bal>
+<Ntry><Amt Ccy="EUR">1050.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts><BookgDt><Dt>2026-03-15</Dt></BookgDt></Ntry>
+<Ntry><Amt Ccy="EUR">99.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts>PDNG</Sts><BookgDt><Dt>2026-03-20</Dt></BookgDt></Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+
+const csv = `Compte courant n° 1234
+Date;Libellé;Débit;Crédit;Solde
+30/04/2026;PRLV URSSAF;-800,00;;2 200,00
+15/04/2026;VIR CLIENT;;1 000,00;3 000,00
+28/03/2026;CB FOURNISSEUR;-500,00;;2 000,00
+`;
+
+describe('bank statement parsers', () => {
+  it('reads an OFX statement with its ledger balance', () => {
+    const [s] = parseBankStatement(ofx);
+    expect(s.format).toBe('ofx');
+    expect(s.accountKey).toBe('3000300012345678');
+    expect(s.closingBalance).toEqual({ date: '2026-04-15', amount: 4000 });
+    expect(s.transactions).toHaveLength(3);
+    expect(balanceAt(s, '2026-03-31')).toBe(4500);
+  });
+
+  it('reads a CAMT.053 statement, signs amounts and ignores pending entries', () => {
+    const [s] = parseCamt053(camt);
+    expect(s.accountKey).toBe('FR7630004000031234567890143');
+    expect(s.closingBalance).toEqual({ date: '2026-03-31', amount: -1250 });
+    expect(s.transactions).toEqual([{ date: '2026-03-15', amount: -1050 }]);
+    expect(s.startDate).toBe('2026-03-01');
+  });
+
+  it('reads a bank CSV export sorted newest first, using the Solde column', () => {
+    const [s] = parseBankCsv(csv);
+    expect(s.accountKey).toBe('1234');
+    expect(s.closingBalance).toEqual({ date: '2026-04-30', amount: 2200 });
+    expect(s.transactions.map(t => t.amount)).toEqual([-800, 1000, -500]);
+    expect(parseBankStatement(csv)[0].format).toBe('csv');
+  });
+
+  it('keys the account on the file contents, not on the file name', () => {
+    expect(parseBankCsv(csv.replace('n° 1234', 'n° 12 34'))[0].accountKey).toBe('1234');
+    expect(parseBankCsv(`IBAN : FR76 3000 4000 0312 3456 7890 143\n${csv}`)[0].accountKey).toBe('FR7630004000031234567890143');
+    expect(parseBankCsv(csv.replace('Compte courant n° 1234\n', ''))[0].accountKey).toBe('');
+  });
+
+  it('reads amounts whatever the thousands and decimal separators', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('1.234,56')).toBe(1234.56);
+    expect(parseAmount('1 234,56')).toBe(1234.56);
+    expect(parseAmount('-12.50')).toBe(-12.5);
+    expect(parseAmount('12,5 €')).toBe(12.5);
+  });
+
+  it('rejects files without statements', () => {
+    expect(() => parseOfx('<OFX></OFX>')).toThrow(/OFX/);
+    expect(() => parseBankCsv('foo;bar\n1;2')).toThrow(/En-têtes/);
+  });
+});
+
+describe('computeMonthEndBalances', () => {
+  it('keeps only month ends covered by each statement, one column per account', () => {
+    const statements = [...parseOfx(ofx), ...parseCamt053(camt)];
+    const months = computeMonthEndBalances(statements);
+    expect(months).toEqual([
+      { year: 2026, month: Month.Mar, accounts: { '3000300012345678': 4500, FR7630004000031234567890143: -1250 } },
+    ]);
+  });
+
+  it('counts the same account once whatever the file it comes from', () => {
+    const months = computeMonthEndBalances([...parseBankCsv(csv), ...parseBankCsv(csv)]);
+    expect(months.map(m => Object.keys(m.accounts))).toEqual([['1234'], ['1234']]);
+  });
+
+  it('skips statements whose account is unknown', () => {
+    expect(computeMonthEndBalances(parseBankCsv(csv.replace('Compte courant n° 1234\n', '')))).toEqual([]);
+  });
+
+  it('skips statements without a reference balance', () => {
+    const [s] = parseBankCsv(csv.replace(/;Solde/, '').replace(/;[\d ]+,00$/gm, ''));
+    expect(s.closingBalance).toBeUndefined();
+    expect(computeMonthEndBalances([s])).toEqual([]);
+  });
+});
+
+describe('applyBankBalances', () => {
+  it('splits accounts into cash and overdrafts and keeps other known accounts', () => {
+    const cashFlow = applyBankBalances(
+      { active: 0, passive: 0, treasury: 0, accounts: { caisse: 300 } },
+      { '3000300012345678': 4500, FR7630004000031234567890143: -1250 }
+    );
+    expect(cashFlow).toEqual({
+      active: 4800, passive: 1250, treasury: 3550,
+      accounts: { caisse: 300, '3000300012345678': 4500, FR7630004000031234567890143: -1250 },
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// budgetService → dataService pulls in firebase/firestore — stub it so the module loads.
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  getDocs: vi.fn(),
+  doc: vi.fn(),
+  getDoc: vi.fn(),
+  setDoc: vi.fn(),
+  addDoc: vi.fn(),
+  deleteDoc: vi.fn(),
+  updateDoc: vi.fn(),
+  query: vi.fn(),
+  where: vi.fn(),
+  writeBatch: vi.fn(),
+  orderBy: vi.fn(),
+  limit: vi.fn(),
+  onSnapshot: vi.fn(),
+  serverTimestamp: vi.fn(),
+  Timestamp: { now: vi.fn() },
+}));
+vi.mock('../firebase', () => ({
+  db: {},
+  auth: { currentUser: null },
+}));
+
+import { buildBudgetFromActuals, budgetMonthRevenue, computeBudgetVariance } from '../services/budgetService';
+import { Budget, FinancialRecord, Month } from '../types';
+
+const rec = (year: number, month: Month, ca: number, extra: { margin?: number; salaries?: number; treasury?: number; breakdown?: Record<string, number> } = {}) => ({
+  id: `c1-${year}-${month}`, clientId: 'c1', year, month,
+  isValidated: false, isPublished: false,
+  revenue: { goods: 0, services: 0, total: ca, objective: 0, breakdown: extra.breakdown || {} },
+  margin: { rate: 0, total: extra.margin || 0, breakdown: {} },
+  expenses: { salaries: extra.salaries || 0, hoursWorked: 0, overtimeHours: 0 },
+  bfr: {
+    receivables: { clients: 0, state: 0, social: 0, other: 0, total: 0 },
+    stock: { goods: 0, floating: 0, total: 0 },
+    debts: { suppliers: 0, state: 0, social: 0, salaries: 0, other: 0, total: 0 },
+    total: 0,
+  },
+  cashFlow: { active: 0, passive: 0, treasury: extra.treasury || 0 },
+}) as FinancialRecord;
+
+const profitCenters = [{ id: 'pc1', name: 'Atelier', type: 'services' as const }];
+
+describe('budgetMonthRevenue', () => {
+  it('sums the activity breakdown when present', () => {
+    expect(budgetMonthRevenue({ revenue: 50, revenueBreakdown: { a: 10, b: 20 }, marginRate: 0, salaries: 0, treasuryFloor: 0 })).toBe(30);
+    expect(budgetMonthRevenue({ revenue: 50, revenueBreakdown: {}, marginRate: 0, salaries: 0, treasuryFloor: 0 })).toBe(50);
+    expect(budgetMonthRevenue(undefined)).toBe(0);
+  });
+});
+
+describe('buildBudgetFromActuals', () => {
+  it('prefills from the previous fiscal year with growth applied', () => {
+    const months = buildBudgetFromActuals([
+      rec(2024, Month.Jul, 1000, { margin: 250, salaries: 400, breakdown: { pc1: 1000 } }),
+      rec(2025, Month.Jun, 2000, { salaries: 500 }),
+      rec(2025, Month.Jul, 9999),
+    ], 2025, '30/06', profitCenters, 10);
+
+    expect(Object.keys(months)).toEqual([Month.Jul, Month.Jun]);
+    expect(months[Month.Jul]).toEqual({ revenue: 1100, revenueBreakdown: { pc1: 1100 }, marginRate: 25, salaries: 440, treasuryFloor: 0 });
+    expect(months[Month.Jun]!.revenue).toBe(2200);
+  });
+});
+
+describe('computeBudgetVariance', () => {
+  const budget: Budget = {
+    id: 'c1_2026', clientId: 'c1', fiscalYear: 2026,
+    months: {
+      [Month.Jan]: { revenue: 1000, revenueBreakdown: { pc1: 1000 }, marginRate: 30, salaries: 400, treasuryFloor: 500 },
+      [Month.Feb]: { revenue: 1000, revenueBreakdown: { pc1: 1000 }, marginRate: 30, salaries: 400, treasuryFloor: 800 },
+      [Month.Mar]: { revenue: 1000, marginRate: 30, salaries: 400, treasuryFloor: 0 },
+    },
+  };
+
+  it('compares only months present in both budget and actuals', () => {
+    const lines = computeBudgetVariance([
+      rec(2026, Month.Jan, 1200, { margin: 300, salaries: 450, treasury: 900, breakdown: { pc1: 1200 } }),
+      rec(2026, Month.Feb, 900, { margin: 270, salaries: 380, treasury: 600, breakdown: { pc1: 900 } }),
+      rec(2026, Month.Apr, 5000),
+    ], budget, profitCenters);
+
+    const byKey = Object.fromEntries(lines.map(l => [l.key, l]));
+    expect(byKey.revenue).toMatchObject({ budget: 2000, actual: 2100, variance: 100, variancePct: 5, favorable: true });
+    expect(byKey['revenue.pc1']).toMatchObject({ budget: 2000, actual: 2100, isSubLine: true });
+    expect(byKey.margin).toMatchObject({ budget: 600, actual: 570, favorable: false });
+    expect(byKey.salaries).toMatchObject({ budget: 800, actual: 830, favorable: false });
+    expect(byKey.treasury).toMatchObject({ budget: 800, actual: 600, favorable: false });
+  });
+
+  it('returns no line without budget or overlapping months', () => {
+    expect(computeBudgetVariance([rec(2026, Month.Jan, 1)], null)).toEqual([]);
+    expect(computeBudgetVariance([rec(2026, Month.Dec, 1)], budget)).toEqual([]);
+  });
+});
@@ -24,7 +24,10 @@ vi.mock('../firebase', () => ({
   auth: { currentUser: null },
 }));
 
-import { normalizeId, toShortMonth, MONTH_ORDER } from '../services/dataService';
+import {
+  normalizeId, toShortMonth, MONTH_ORDER,
+  getFiscalMonthOrder, getFiscalYear, getCalendarYear, formatFiscalYear,
+} from '../services/dataService';
 
 describe('dataService pure helpers', () => {
   describe('normalizeId', () => {
@@ -69,4 +72,26 @@ describe('dataService pure helpers', () => {
       expect(MONTH_ORDER[11]).toBe('Décembre');
     });
   });
+
+  describe('fiscal year helpers', () => {
+    it('keeps the calendar year when no close date is set', () => {
+      expect(getFiscalMonthOrder(undefined)).toEqual(MONTH_ORDER);
+      expect(getFiscalYear(2025, 'Décembre', '')).toBe(2025);
+      expect(formatFiscalYear(2025, undefined)).toBe('2025');
+    });
+
+    it('starts the exercise the month after the close date', () => {
+      const order = getFiscalMonthOrder('30/06');
+      expect(order[0]).toBe('Juillet');
+      expect(order[11]).toBe('Juin');
+    });
+
+    it('maps calendar months to the exercise ending in June', () => {
+      expect(getFiscalYear(2024, 'Juillet', '30/06')).toBe(2025);
+      expect(getFiscalYear(2025, 'Juin', '30/06')).toBe(2025);
+      expect(getCalendarYear(2025, 'Juillet', '30/06')).toBe(2024);
+      expect(getCalendarYear(2025, 'Mars', '30/06')).toBe(2025);
+      expect(formatFiscalYear(2025, '30/06')).toBe('2024/25');
+    });
+  });
 });
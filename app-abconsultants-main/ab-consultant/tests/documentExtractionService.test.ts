@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { FinancialRecord, Month } from '../types';
+import { applyExtractedField, canApplyExtractedField, extractedPathForInput, isOtherPeriod, revertExtractedField } from '../services/documentExtractionService';
+
+const makeRecord = (): FinancialRecord => ({
+    id: 'r1', clientId: 'c1', year: 2025, month: Month.Mar, isValidated: false,
+    revenue: { goods: 0, services: 0, total: 20000, objective: 0 },
+    expenses: { salaries: 5000, hoursWorked: 0, overtimeHours: 0 },
+    bfr: {
+        receivables: { clients: 8000, state: 0, social: 0, other: 500, total: 8500 },
+        stock: { goods: 2000, floating: 0, total: 2000 },
+        debts: { suppliers: 3000, state: 1000, social: 0, salaries: 0, other: 0, total: 4000 },
+        total: 6500,
+    },
+    cashFlow: { active: 6000, passive: 1000, treasury: 5000, accounts: { 'FR76…0189': 5000 } },
+});
+
+describe('documentExtractionService', () => {
+    it('applies a debt and recomputes the BFR totals', () => {
+        const record = applyExtractedField(makeRecord(), { path: 'bfr.debts.state', value: 2500, confidence: 0.9 });
+        expect(record.bfr.debts.state).toBe(2500);
+        expect(record.bfr.debts.total).toBe(5500);
+        expect(record.bfr.total).toBe(5000);
+    });
+
+    it('splits an extracted net treasury between active and passive', () => {
+        const base = { ...makeRecord(), cashFlow: { active: 6000, passive: 1000, treasury: 5000 } };
+        const overdraft = applyExtractedField(base, { path: 'cashFlow.treasury', value: -1200, confidence: 0.95 });
+        expect(overdraft.cashFlow).toEqual({ active: 0, passive: 1200, treasury: -1200 });
+    });
+
+    it('leaves a treasury detailed per bank account untouched', () => {
+        const base = makeRecord();
+        expect(canApplyExtractedField(base, 'cashFlow.treasury')).toBe(false);
+        expect(canApplyExtractedField(base, 'bfr.debts.state')).toBe(true);
+        expect(applyExtractedField(base, { path: 'cashFlow.treasury', value: 9000, confidence: 0.9 })).toBe(base);
+    });
+
+    it('restores the pre-extraction value of a rejected field only', () => {
+        const base = { ...makeRecord(), cashFlow: { active: 6000, passive: 1000, treasury: 5000 } };
+        let record = applyExtractedField(base, { path: 'cashFlow.treasury', value: 9000, confidence: 0.9 });
+        record = applyExtractedField(record, { path: 'bfr.receivables.clients', value: 12000, confidence: 0.8 });
+        record = revertExtractedField(record, base, 'cashFlow.treasury');
+        expect(record.cashFlow).toEqual(base.cashFlow);
+        expect(record.bfr.receivables.clients).toBe(12000);
+
+        record = revertExtractedField(record, base, 'bfr.receivables.clients');
+        expect(record.bfr).toEqual(base.bfr);
+    });
+
+    it('maps manual inputs and periods', () => {
+        expect(extractedPathForInput('cashFlow', 'passive')).toBe('cashFlow.treasury');
+        expect(extractedPathForInput('bfr', 'debts', 'social')).toBe('bfr.debts.social');
+        expect(extractedPathForInput('bfr', 'stock', 'goods')).toBeNull();
+        const extraction = { documentType: 'vat_return' as const, period: { year: 2025, month: Month.Feb }, fields: [] };
+        expect(isOtherPeriod(extraction, 2025, Month.Mar)).toBe(true);
+        expect(isOtherPeriod({ ...extraction, period: null }, 2025, Month.Mar)).toBe(false);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { ParsedSheet, applySheetLayout, buildImportData, detectFamilies, detectLabelColumn, hasMonthHeaders, detectSheetType, detectAgingMonth, detectAgingPeriod, parseAgedBalanceSheet } from '../services/excelImportService';
+import { FinancialRecord, Month } from '../types';
+
+const rawData = [
+  ['CA par famille 2026', '', '', ''],
+  ['', 'Janvier', 'Février', 'Mars'],
+  ['Boutique', 100, 200, 300],
+  ['Lavage', 10, 20, 30],
+];
+
+// Header row deliberately wrong (0) to mimic a workbook whose title row confuses detection
+const sheet: ParsedSheet = {
+  name: 'CA',
+  headers: rawData[0].map(String),
+  rows: rawData.slice(1),
+  rawData,
+  fmtData: rawData.map(r => r.map(String)),
+  headerRow: 0,
+};
+
+describe('applySheetLayout', () => {
+  it('rebuilds headers and rows from the saved header row', () => {
+    expect(hasMonthHeaders(sheet)).toBe(false);
+    const laidOut = applySheetLayout(sheet, { headerRow: 1 });
+    expect(hasMonthHeaders(laidOut)).toBe(true);
+    expect(laidOut.rows).toHaveLength(2);
+    expect(detectLabelColumn(laidOut)).toBe(0);
+  });
+
+  it('forces the saved label column', () => {
+    expect(detectLabelColumn(applySheetLayout(sheet, { headerRow: 1, labelColumn: 2 }))).toBe(2);
+  });
+});
+
+describe('buildImportData with family aliases', () => {
+  const mappings = [{ sheetName: 'CA', type: 'revenue_by_family' as const, headerRow: 1, labelColumn: 0 }];
+  const pcs = [{ id: 'pc-shop', name: 'Shop', type: 'goods' as const }];
+
+  it('maps aliased families onto existing profit centers and returns the resolved table', () => {
+    expect(detectFamilies([sheet], mappings, 2026)).toEqual(['Boutique', 'Lavage']);
+
+    const result = buildImportData([sheet], mappings, 2026, 'c1', [], pcs, { boutique: 'pc-shop' });
+    expect(result.newProfitCenters.map(pc => pc.name)).toEqual(['Lavage']);
+    const jan = result.records.find(r => r.month === Month.Jan)!;
+    expect(jan.revenue.breakdown?.['pc-shop']).toBe(100);
+    expect(result.familyAliases.boutique).toBe('pc-shop');
+    expect(result.familyAliases.lavage).toBe(result.newProfitCenters[0].id);
+  });
+
+  it('ignores aliases pointing to a deleted profit center', () => {
+    const result = buildImportData([sheet], mappings, 2026, 'c1', [], pcs, { boutique: 'pc-deleted' });
+    expect(result.newProfitCenters.map(pc => pc.name)).toEqual(['Boutique', 'Lavage']);
+  });
+});
+
+describe('aged balance sheets', () => {
+  const agedRaw = [
+    ['Balance âgée clients au 31/03/2026', '', '', '', '', '', ''],
+    ['Client', 'Non échu', '0-30 j', '31-60 j', '61-90 j', '> 90 j', 'Total'],
+    ['DUPONT SARL', 1000, 500, 0, 0, 0, 1500],
+    ['MARTIN SAS', 0, 0, 800, 200, 300, 1300],
+    ['TOTAL', 1000, 500, 800, 200, 300, 2800],
+  ];
+  const aged: ParsedSheet = {
+    name: 'Balance clients',
+    headers: agedRaw[0].map(String),
+    rows: agedRaw.slice(1),
+    rawData: agedRaw,
+    fmtData: agedRaw.map(r => r.map(String)),
+    headerRow: 0,
+  };
+
+  it('detects the sheet, its closing month and sums the buckets', () => {
+    expect(detectSheetType(aged)).toBe('aged_receivables');
+    expect(detectSheetType({ ...aged, name: 'Balance fournisseurs' })).toBe('aged_payables');
+    expect(detectAgingMonth(aged)).toBe(Month.Mar);
+    expect(parseAgedBalanceSheet(aged)).toEqual({ d0_30: 1500, d31_60: 800, d61_90: 200, over90: 300, total: 2800 });
+  });
+
+  it('fills the client balance and the aging breakdown of the month', () => {
+    const result = buildImportData([aged], [{ sheetName: 'Balance clients', type: 'aged_receivables' }], 2026, 'c1', [], []);
+    expect(result.summary.hasAging).toBe(true);
+    const mar = result.records.find(r => r.month === Month.Mar)!;
+    expect(mar.bfr.receivables.clients).toBe(2800);
+    expect(mar.bfr.total).toBe(2800);
+    expect(mar.aging?.receivables?.over90).toBe(300);
+  });
+
+  it('files the balance under the year of its closing date', () => {
+    const december = { ...aged, fmtData: [['Balance âgée clients au 31/12/2025'], ...aged.fmtData!.slice(1)] };
+    expect(detectAgingPeriod(december)).toEqual({ month: Month.Dec, year: 2025 });
+    expect(detectAgingPeriod({ ...aged, fmtData: [['Balance clients mars']], name: 'Balance' })).toEqual({ month: Month.Mar, year: null });
+
+    const existing = { id: 'dec-2025', clientId: 'c1', year: 2025, month: Month.Dec, isValidated: false,
+      revenue: { goods: 9000, services: 0, total: 9000, objective: 0, breakdown: {} },
+      expenses: { salaries: 0, hoursWorked: 0, overtimeHours: 0 },
+      bfr: { receivables: { clients: 0, state: 0, social: 0, other: 0, total: 0 }, stock: { goods: 0, floating: 0, total: 0 },
+        debts: { suppliers: 0, state: 0, social: 0, salaries: 0, other: 0, total: 0 }, total: 0 },
+      cashFlow: { active: 0, passive: 0, treasury: 0 } } as FinancialRecord;
+    const result = buildImportData([december], [{ sheetName: 'Balance clients', type: 'aged_receivables' }], 2026, 'c1', [existing], []);
+    expect(result.records).toHaveLength(1);
+    const [dec] = result.records;
+    expect(dec).toMatchObject({ id: 'dec-2025', year: 2025, month: Month.Dec });
+    expect(dec.revenue.total).toBe(9000);
+    expect(dec.bfr.receivables.clients).toBe(2800);
+  });
+});
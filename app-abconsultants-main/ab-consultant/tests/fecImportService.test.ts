@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { parseFec, isFecContent, buildFecImportData } from '../services/fecImportService';
+import { FinancialRecord, Month } from '../types';
+
+const HEADER = 'JournalCode\tJournalLib\tEcritureNum\tEcritureDate\tCompteNum\tCompteLib\tCompAuxNum\tCompAuxLib\tPieceRef\tPieceDate\tEcritureLib\tDebit\tCredit\tEcritureLet\tDateLet\tValidDate\tMontantdevise\tIdevise';
+
+const line = (journal: string, date: string, account: string, label: string, debit: string, credit: string) =>
+  [journal, journal, '1', date, account, label, '', '', 'P1', date, label, debit, credit, '', '', date, '', ''].join('\t');
+
+const FEC = [
+  HEADER,
+  // À-nouveaux
+  line('AN', '20260101', '411000', 'Clients', '1000,00', '0,00'),
+  line('AN', '20260101', '512000', 'Banque', '5000,00', '0,00'),
+  line('AN', '20260101', '401000', 'Fournisseurs', '0,00', '2000,00'),
+  line('AN', '20260101', '101000', 'Capital', '0,00', '4000,00'),
+  // Janvier
+  line('VE', '20260115', '707100', 'Ventes carburant', '0,00', '8000,00'),
+  line('VE', '20260115', '706000', 'Prestations atelier', '0,00', '2000,00'),
+  line('VE', '20260115', '411000', 'Clients', '10000,00', '0,00'),
+  line('AC', '20260120', '607000', 'Achats marchandises', '6000,00', '0,00'),
+  line('AC', '20260120', '401000', 'Fournisseurs', '0,00', '6000,00'),
+  line('OD', '20260131', '641000', 'Salaires', '1500,00', '0,00'),
+  line('OD', '20260131', '645000', 'Charges sociales', '500,00', '0,00'),
+  line('OD', '20260131', '431000', 'URSSAF', '0,00', '500,00'),
+  line('OD', '20260131', '421000', 'Personnel', '0,00', '1500,00'),
+  // Février : encaissement client, découvert sur un second compte
+  line('BQ', '20260210', '512000', 'Banque', '9000,00', '0,00'),
+  line('BQ', '20260210', '411000', 'Clients', '0,00', '9000,00'),
+  line('BQ', '20260215', '512100', 'Banque 2', '0,00', '300,00'),
+  line('BQ', '20260215', '445510', 'TVA à décaisser', '300,00', '0,00'),
+].join('\n');
+
+describe('parseFec', () => {
+  it('detects FEC headers', () => {
+    expect(isFecContent(FEC)).toBe(true);
+    expect(isFecContent('Mois;CA\nJanvier;1000')).toBe(false);
+  });
+
+  it('reads tab separated lines with comma decimals', () => {
+    const entries = parseFec(FEC);
+    expect(entries).toHaveLength(17);
+    expect(entries[4]).toMatchObject({ journalCode: 'VE', date: '20260115', accountNum: '707100', debit: 0, credit: 8000 });
+  });
+
+  it('supports the Montant / Sens variant with pipe separator', () => {
+    const text = 'JournalCode|EcritureDate|CompteNum|CompteLib|Montant|Sens\nVE|20260105|706000|Prestations|1 250,50|C\nVE|20260105|411000|Clients|1 250,50|D';
+    const entries = parseFec(text);
+    expect(entries[0]).toMatchObject({ debit: 0, credit: 1250.5 });
+    expect(entries[1]).toMatchObject({ debit: 1250.5, credit: 0 });
+  });
+
+  it('rejects a file without FEC columns', () => {
+    expect(() => parseFec('Foo\tBar\n1\t2')).toThrow();
+  });
+});
+
+describe('buildFecImportData', () => {
+  const pcs = [{ id: 'fuel', name: 'Carburant', type: 'goods' as const }];
+
+  it('maps revenue, margin, salaries and month-end balances', () => {
+    const { records, newProfitCenters, summary } = buildFecImportData(parseFec(FEC), 'c1', [], pcs);
+    expect(summary.monthCount).toBe(2);
+    expect(summary).toMatchObject({ hasAnalyseActivite: false, hasBalances: true, hasAging: false });
+
+    const jan = records[0];
+    expect(jan.month).toBe(Month.Jan);
+    expect(jan.year).toBe(2026);
+    expect(jan.revenue).toMatchObject({ total: 10000, services: 2000, goods: 8000 });
+    expect(jan.revenue.breakdown!.fuel).toBe(8000);
+    expect(newProfitCenters).toHaveLength(1);
+    expect(newProfitCenters[0]).toMatchObject({ name: 'Prestations atelier', type: 'services' });
+    expect(jan.revenue.breakdown![newProfitCenters[0].id]).toBe(2000);
+    expect(jan.margin!.total).toBe(4000);
+    expect(jan.margin!.rate).toBeCloseTo(40);
+    expect(jan.expenses.salaries).toBe(2000);
+    expect(jan.bfr.receivables.clients).toBe(11000);
+    expect(jan.bfr.debts.suppliers).toBe(8000);
+    expect(jan.bfr.debts.social).toBe(500);
+    expect(jan.bfr.total).toBe(11000 - 8500);
+    expect(jan.cashFlow).toEqual({ active: 5000, passive: 0, treasury: 5000 });
+
+    const feb = records[1];
+    expect(feb.revenue.total).toBe(0);
+    expect(feb.bfr.receivables.clients).toBe(2000);
+    expect(feb.bfr.receivables.state).toBe(300);
+    expect(feb.cashFlow).toEqual({ active: 14000, passive: 300, treasury: 13700 });
+  });
+
+  it('updates an existing record and keeps its manual stock', () => {
+    const existing = {
+      id: 'existing-jan', clientId: 'c1', year: 2026, month: Month.Jan,
+      isValidated: false, isPublished: false,
+      revenue: { goods: 0, services: 0, total: 0, objective: 12000, breakdown: {} },
+      margin: { rate: 0, total: 0 },
+      expenses: { salaries: 0, hoursWorked: 150 },
+      bfr: {
+        receivables: { clients: 0, state: 0, social: 0, other: 0, total: 0 },
+        stock: { goods: 3000, floating: 0, total: 3000 },
+        debts: { suppliers: 0, state: 0, social: 0, salaries: 0, other: 0, total: 0 },
+        total: 3000,
+      },
+      cashFlow: { active: 0, passive: 0, treasury: 0 },
+    } as FinancialRecord;
+
+    const { records } = buildFecImportData(parseFec(FEC), 'c1', [existing], pcs);
+    const jan = records[0];
+    expect(jan.id).toBe('existing-jan');
+    expect(jan.revenue.objective).toBe(12000);
+    expect(jan.expenses.hoursWorked).toBe(150);
+    expect(jan.bfr.total).toBe(11000 + 3000 - 8500);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// forecastService → dataService pulls in firebase/firestore — stub it so the module loads.
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  getDocs: vi.fn(),
+  doc: vi.fn(),
+  getDoc: vi.fn(),
+  setDoc: vi.fn(),
+  addDoc: vi.fn(),
+  deleteDoc: vi.fn(),
+  updateDoc: vi.fn(),
+  query: vi.fn(),
+  where: vi.fn(),
+  writeBatch: vi.fn(),
+  orderBy: vi.fn(),
+  limit: vi.fn(),
+  onSnapshot: vi.fn(),
+  serverTimestamp: vi.fn(),
+  Timestamp: { now: vi.fn() },
+}));
+vi.mock('../firebase', () => ({
+  db: {},
+  auth: { currentUser: null },
+}));
+
+import { buildTreasuryForecast, deriveForecastAssumptions } from '../services/forecastService';
+import { FinancialRecord, ForecastAssumptions, Month } from '../types';
+
+const seed = (overrides: { clients?: number; suppliers?: number; social?: number; state?: number; salaries?: number; treasury?: number } = {}) => ({
+  id: 'c1-2026-Janvier', clientId: 'c1', year: 2026, month: Month.Jan,
+  isValidated: true, isPublished: true,
+  revenue: { goods: 0, services: 0, total: 30000, objective: 0 },
+  margin: { rate: 40, total: 12000 },
+  expenses: { salaries: 10000, hoursWorked: 0 },
+  bfr: {
+    receivables: { clients: overrides.clients ?? 0, state: 0, social: 0, other: 0, total: 0 },
+    stock: { goods: 0, floating: 0, total: 0 },
+    debts: { suppliers: overrides.suppliers ?? 0, state: overrides.state ?? 0, social: overrides.social ?? 0, salaries: overrides.salaries ?? 0, other: 0, total: 0 },
+    total: 0,
+  },
+  cashFlow: { active: 0, passive: 0, treasury: overrides.treasury ?? 0 },
+}) as FinancialRecord;
+
+const flat: ForecastAssumptions = {
+  dso: 0, dpo: 0, monthlyRevenue: 0, monthlyPurchases: 0, monthlySalaries: 0,
+  monthlySocial: 0, monthlyTax: 0, socialDueDay: 15, taxDueDay: 20, oneOffFlows: [],
+};
+
+describe('deriveForecastAssumptions', () => {
+  it('derives DSO/DPO and recurring dues from the latest record', () => {
+    const a = deriveForecastAssumptions([seed({ clients: 45000, suppliers: 15000, social: 3000, state: 2000 })]);
+    expect(a).toMatchObject({ dso: 45, dpo: 15, monthlyRevenue: 30000, monthlyPurchases: 18000, monthlySocial: 3000, monthlySalaries: 7000, monthlyTax: 2000 });
+  });
+});
+
+describe('buildTreasuryForecast', () => {
+  it('starts the day after the seed month and spans 13 weeks', () => {
+    const f = buildTreasuryForecast(seed({ treasury: 1000 }), flat);
+    expect(f.openingDate).toBe('2026-02-01');
+    expect(f.weeks).toHaveLength(13);
+    expect(f.weeks[12].treasury).toBe(1000);
+    expect(f.firstNegativeWeek).toBeNull();
+  });
+
+  it('pays existing social and tax debts on their first due date', () => {
+    const f = buildTreasuryForecast(seed({ treasury: 5000, social: 3000, state: 2000 }), { ...flat, monthlySocial: 100, monthlyTax: 50 });
+    // 15/02 et 20/02 tombent en semaine 3 (15 → 21 février)
+    expect(f.weeks[2]).toMatchObject({ social: 3000, tax: 2000 });
+    // 15/03 et 20/03 : montants mensuels récurrents
+    const march = f.weeks.find(w => w.start <= '2026-03-15' && w.end >= '2026-03-15')!;
+    expect(march.social).toBe(100);
+  });
+
+  it('spreads existing receivables over the DSO and flags the first negative week', () => {
+    const f = buildTreasuryForecast(
+      seed({ clients: 7000, treasury: 0 }),
+      { ...flat, dso: 7, oneOffFlows: [{ id: 'f1', label: 'Investissement', date: '2026-02-10', amount: -20000 }] }
+    );
+    expect(f.weeks[0].collections).toBe(7000);
+    expect(f.weeks[1].oneOff).toBe(-20000);
+    expect(f.firstNegativeWeek?.index).toBe(2);
+    expect(f.minTreasury).toBe(-13000);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// importDiffService → dataService pulls in firebase/firestore — stub it so the module loads.
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  getDocs: vi.fn(),
+  doc: vi.fn(),
+  getDoc: vi.fn(),
+  setDoc: vi.fn(),
+  addDoc: vi.fn(),
+  deleteDoc: vi.fn(),
+  updateDoc: vi.fn(),
+  query: vi.fn(),
+  where: vi.fn(),
+  writeBatch: vi.fn(),
+  orderBy: vi.fn(),
+  limit: vi.fn(),
+  onSnapshot: vi.fn(),
+  serverTimestamp: vi.fn(),
+  Timestamp: { now: vi.fn() },
+}));
+vi.mock('../firebase', () => ({
+  db: {},
+  auth: { currentUser: null },
+}));
+
+import { computeImportDiff, applyImportPolicy } from '../services/importDiffService';
+import { FinancialRecord, Month } from '../types';
+
+const rec = (month: Month, values: { ca?: number; salaries?: number; suppliers?: number; validated?: boolean; published?: boolean; id?: string } = {}) => ({
+  id: values.id || `c1-2026-${month}`, clientId: 'c1', year: 2026, month,
+  isValidated: !!values.validated, isPublished: !!values.published,
+  revenue: { goods: values.ca ?? 0, services: 0, total: values.ca ?? 0, objective: 0, breakdown: {} },
+  margin: { rate: 0, total: 0 },
+  expenses: { salaries: values.salaries ?? 0, hoursWorked: 0, overtimeHours: 0 },
+  bfr: {
+    receivables: { clients: 0, state: 0, social: 0, other: 0, total: 0 },
+    stock: { goods: 0, floating: 0, total: 0 },
+    debts: { suppliers: values.suppliers ?? 0, state: 0, social: 0, salaries: 0, other: 0, total: 0 },
+    total: 0,
+  },
+  cashFlow: { active: 0, passive: 0, treasury: 0 },
+}) as FinancialRecord;
+
+describe('computeImportDiff', () => {
+  it('lists changed fields and defaults policies by month state', () => {
+    const existing = [
+      rec(Month.Jan, { ca: 1000, salaries: 0 }),
+      rec(Month.Feb, { ca: 1000, validated: true }),
+      rec(Month.Mar, { ca: 500 }),
+    ];
+    const imported = [
+      rec(Month.Apr, { ca: 800 }),
+      rec(Month.Jan, { ca: 1200, salaries: 300 }),
+      rec(Month.Feb, { ca: 900 }),
+      rec(Month.Mar, { ca: 500 }),
+    ];
+    const diffs = computeImportDiff(imported, existing);
+    expect(diffs.map(d => d.imported.month)).toEqual([Month.Jan, Month.Feb, Month.Mar, Month.Apr]);
+
+    const [jan, feb, mar, apr] = diffs;
+    expect(jan.fields.filter(f => f.changed).map(f => f.path)).toEqual(['revenue.total', 'revenue.goods', 'expenses.salaries']);
+    expect(jan.defaultPolicy).toBe('overwrite');
+    expect(feb.isProtected).toBe(true);
+    expect(feb.defaultPolicy).toBe('skip');
+    expect(mar.changedCount).toBe(0);
+    expect(mar.defaultPolicy).toBe('skip');
+    expect(apr.existing).toBeNull();
+    expect(apr.defaultPolicy).toBe('overwrite');
+  });
+});
+
+describe('applyImportPolicy', () => {
+  const existing = rec(Month.Jan, { ca: 1000, id: 'existing' });
+  const [diff] = computeImportDiff([rec(Month.Jan, { ca: 1200, salaries: 300, suppliers: 50, id: 'existing' })], [existing]);
+
+  it('overwrites with the imported record', () => {
+    expect(applyImportPolicy(diff, 'overwrite')?.revenue.total).toBe(1200);
+  });
+
+  it('only fills blank fields', () => {
+    const merged = applyImportPolicy(diff, 'fill_blanks')!;
+    expect(merged.revenue.total).toBe(1000);
+    expect(merged.expenses.salaries).toBe(300);
+    expect(merged.bfr.debts.suppliers).toBe(50);
+  });
+
+  it('recomputes the totals that depend on filled fields', () => {
+    const base = rec(Month.Jan, { ca: 1000, suppliers: 400 });
+    base.bfr.debts.total = 400;
+    base.bfr.total = -400;
+    base.cashFlow = { active: 0, passive: 200, treasury: -200 };
+    const imported = rec(Month.Jan, { ca: 1000, suppliers: 400 });
+    imported.bfr.receivables = { clients: 900, state: 100, social: 0, other: 0, total: 1000 };
+    imported.cashFlow = { active: 700, passive: 0, treasury: 700 };
+    const [fill] = computeImportDiff([imported], [base]);
+
+    const merged = applyImportPolicy(fill, 'fill_blanks')!;
+    expect(merged.bfr.receivables.total).toBe(1000);
+    expect(merged.bfr.debts.total).toBe(400);
+    expect(merged.bfr.total).toBe(1000 - 400);
+    expect(merged.cashFlow).toEqual({ active: 700, passive: 200, treasury: 500 });
+  });
+
+  it('writes nothing when skipped or when there is nothing to fill', () => {
+    expect(applyImportPolicy(diff, 'skip')).toBeNull();
+    const [same] = computeImportDiff([rec(Month.Jan, { ca: 900 })], [existing]);
+    expect(applyImportPolicy(same, 'fill_blanks')).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { PromptTemplate } from '../types';
+import { nextPromptVersion, promotionUpdates, trafficShares, trafficUpdates, validatePromptTemplate } from '../services/promptVersionService';
+
+const tpl = (id: string, status: PromptTemplate['status'], weight: number): PromptTemplate =>
+    ({ id, template: 'Tu conseilles {{companyName}}.\n{{financialBlock}}', status, weight, createdBy: 'admin@cabinet.fr' });
+
+const templates = [tpl('v1', 'active', 80), tpl('v2', 'active', 20), tpl('v3', 'draft', 0), tpl('v10', 'retired', 0)];
+
+describe('promptVersionService', () => {
+    it('requires the dossier and data placeholders and rejects unknown ones', () => {
+        expect(validatePromptTemplate(templates[0].template)).toEqual([]);
+        expect(validatePromptTemplate('Bonjour {{clientName}}')).toEqual([
+            'Emplacement {{companyName}} manquant.',
+            'Emplacement {{financialBlock}} manquant.',
+            'Emplacement {{clientName}} inconnu.',
+        ]);
+    });
+
+    it('numbers the next version after the highest one', () => {
+        expect(nextPromptVersion(templates)).toBe('v11');
+        expect(nextPromptVersion([])).toBe('v1');
+    });
+
+    it('computes effective traffic shares of active versions', () => {
+        expect(trafficShares(templates)).toEqual({ v1: 80, v2: 20 });
+    });
+
+    it('activates versions given traffic and retires active ones set to zero', () => {
+        expect(trafficUpdates(templates, { v1: 50, v2: 0, v3: 50 })).toEqual([
+            { id: 'v1', status: 'active', weight: 50 },
+            { id: 'v2', status: 'retired', weight: 0 },
+            { id: 'v3', status: 'active', weight: 50 },
+        ]);
+    });
+
+    it('promotes a winner to all the traffic', () => {
+        expect(promotionUpdates(templates, 'v2')).toEqual([
+            { id: 'v1', status: 'retired', weight: 0 },
+            { id: 'v2', status: 'active', weight: 100 },
+        ]);
+    });
+});
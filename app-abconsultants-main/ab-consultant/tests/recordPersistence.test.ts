@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Firestore en mémoire : juste ce qu'il faut pour relire ce que dataService écrit.
+const store = vi.hoisted(() => new Map<string, any>());
+
+vi.mock('firebase/firestore', () => {
+  let autoId = 0;
+  const clone = (v: any) => (v === undefined ? undefined : JSON.parse(JSON.stringify(v)));
+  const collection = (_db: any, ...segments: string[]) => ({ kind: 'collection', path: segments.join('/') });
+  const doc = (parent: any, ...segments: string[]) => {
+    const path = parent?.kind === 'collection'
+      ? `${parent.path}/${segments.length ? segments.join('/') : `auto-${++autoId}`}`
+      : segments.join('/');
+    return { kind: 'doc', path, id: path.split('/').pop() };
+  };
+  const snapshotOf = (ref: any) => ({
+    id: ref.id,
+    ref,
+    exists: () => store.has(ref.path),
+    data: () => clone(store.get(ref.path)),
+  });
+  const write = {
+    set: (ref: any, data: any) => store.set(ref.path, clone(data)),
+    update: (ref: any, data: any) => store.set(ref.path, { ...store.get(ref.path), ...clone(data) }),
+    delete: (ref: any) => store.delete(ref.path),
+  };
+  return {
+    collection,
+    doc,
+    query: (coll: any, ...constraints: any[]) => ({ ...coll, constraints }),
+    where: (field: string, _op: string, value: any) => ({ field, value }),
+    orderBy: vi.fn(),
+    limit: vi.fn(),
+    onSnapshot: vi.fn(),
+    serverTimestamp: () => 'SERVER_TIMESTAMP',
+    Timestamp: { now: vi.fn() },
+    getDoc: async (ref: any) => snapshotOf(ref),
+    getDocs: async (q: any) => ({
+      docs: [...store.keys()]
+        .filter(path => path.startsWith(`${q.path}/`) && !path.slice(q.path.length + 1).includes('/'))
+        .map(path => snapshotOf(doc(null, path)))
+        .filter(snap => (q.constraints || []).every((c: any) => snap.data()[c.field] === c.value)),
+    }),
+    setDoc: async (ref: any, data: any) => write.set(ref, data),
+    addDoc: async (coll: any, data: any) => {
+      const ref = doc(coll);
+      write.set(ref, data);
+      return ref;
+    },
+    updateDoc: async (ref: any, data: any) => write.update(ref, data),
+    deleteDoc: async (ref: any) => write.delete(ref),
+    writeBatch: () => {
+      const ops: (() => void)[] = [];
+      return {
+        set: (ref: any, data: any) => ops.push(() => write.set(ref, data)),
+        update: (ref: any, data: any) => ops.push(() => write.update(ref, data)),
+        delete: (ref: any) => ops.push(() => write.delete(ref)),
+        commit: async () => ops.forEach(op => op()),
+      };
+    },
+  };
+});
+vi.mock('../firebase', () => ({
+  db: {},
+  auth: { currentUser: { email: 'consultant@cabinet.fr' } },
+}));
+
+import { approveCommentDraft, createImportBatch, getRecordsByClient, saveRecord, undoImportBatch } from '../services/dataService';
+import { FinancialRecord, Month } from '../types';
+
+const record = (month: Month, treasury: number, extra: Partial<FinancialRecord> = {}): FinancialRecord => ({
+  id: `c1-2026-${month}`, clientId: 'c1', year: 2026, month,
+  isValidated: false, isPublished: false, isSubmitted: false, expertComment: '',
+  revenue: { goods: 1000, services: 0, total: 1000, objective: 0, breakdown: {} },
+  fuel: { volume: 0, objective: 0, details: { gasoil: { volume: 0, objective: 0 }, sansPlomb: { volume: 0, objective: 0 }, gnr: { volume: 0, objective: 0 } } },
+  margin: { rate: 0, total: 0, breakdown: {} },
+  expenses: { salaries: 0, hoursWorked: 0, overtimeHours: 0 },
+  bfr: {
+    receivables: { clients: 0, state: 0, social: 0, other: 0, total: 0 },
+    stock: { goods: 0, floating: 0, total: 0 },
+    debts: { suppliers: 0, state: 0, social: 0, salaries: 0, other: 0, total: 0 },
+    total: 0,
+  },
+  cashFlow: { active: Math.max(treasury, 0), passive: Math.max(-treasury, 0), treasury },
+  ...extra,
+});
+
+const importMonths = async (records: FinancialRecord[]) => {
+  const batchId = await createImportBatch({
+    clientId: 'c1',
+    source: 'excel',
+    createdBy: 'consultant@cabinet.fr',
+    entries: records.map(r => ({ recordId: r.id, year: r.year, month: r.month })),
+  });
+  for (const r of records) await saveRecord({ ...r, importBatchId: batchId });
+  return batchId;
+};
+
+describe('import batches', () => {
+  beforeEach(() => store.clear());
+
+  it('undoes imports one after another back to the original state', async () => {
+    await saveRecord(record(Month.Jan, 100));
+    const first = await importMonths([record(Month.Jan, 200), record(Month.Feb, 300)]);
+    const second = await importMonths([record(Month.Jan, 400)]);
+
+    expect(await undoImportBatch(second)).toEqual({ restored: 1, deleted: 0, skipped: 0 });
+    let [jan] = await getRecordsByClient('c1');
+    expect(jan.cashFlow.treasury).toBe(200);
+
+    expect(await undoImportBatch(first)).toEqual({ restored: 1, deleted: 1, skipped: 0 });
+    const records = await getRecordsByClient('c1');
+    expect(records).toHaveLength(1);
+    [jan] = records;
+    expect(jan.cashFlow.treasury).toBe(100);
+    expect(store.get(`importBatches/${first}`).undoneBy).toBe('consultant@cabinet.fr');
+    // Le mois créé par l'import est supprimé au nom de celui qui annule
+    expect(store.get(`recordDeletions/c1-2026-${Month.Feb}`)).toMatchObject({ deletedBy: 'consultant@cabinet.fr' });
+  });
+
+  it('leaves months rewritten by a later import untouched', async () => {
+    const first = await importMonths([record(Month.Jan, 200)]);
+    await importMonths([record(Month.Jan, 400)]);
+    expect(await undoImportBatch(first)).toEqual({ restored: 0, deleted: 0, skipped: 1 });
+    await expect(undoImportBatch(first)).rejects.toThrow('déjà été annulé');
+  });
+});
+
+describe('record round trip', () => {
+  beforeEach(() => store.clear());
+
+  it('reloads the aged balances saved with a month', async () => {
+    const saved = record(Month.Mar, 500, {
+      aging: {
+        receivables: { d0_30: 1500, d31_60: 800, d61_90: 200, over90: 300, total: 2800 },
+        payables: { d0_30: 400, d31_60: 0, d61_90: 0, over90: 0, total: 400 },
+      },
+    });
+    await saveRecord(saved);
+    const [loaded] = await getRecordsByClient('c1');
+    expect(loaded).toEqual(saved);
+
+    // Re-saving the loaded month (EntryForm, validation…) keeps the import
+    await saveRecord({ ...loaded, isValidated: true });
+    expect(store.get(`records/${saved.id}`).aging).toEqual(saved.aging);
+  });
+
+  it('reloads the per-account bank balances saved with a month', async () => {
+    const saved = record(Month.Apr, 3550, {
+      cashFlow: { active: 4800, passive: 1250, treasury: 3550, accounts: { caisse: 300, FR7630004000031234567890143: 4500, '1234': -1250 } },
+    });
+    await saveRecord(saved);
+    const [loaded] = await getRecordsByClient('c1');
+    expect(loaded).toEqual(saved);
+
+    await saveRecord({ ...loaded, isValidated: true });
+    expect(store.get(`records/${saved.id}`).cashFlow.accounts).toEqual(saved.cashFlow.accounts);
+  });
+});
+
+describe('comment draft approval', () => {
+  beforeEach(() => store.clear());
+
+  it('writes only the expert comment and marks the draft approved together', async () => {
+    const shown = record(Month.Mar, 500);
+    await saveRecord(shown);
+    // Saisie du client pendant que le consultant relit le brouillon
+    await saveRecord({ ...shown, cashFlow: { active: 900, passive: 0, treasury: 900 } });
+    store.set('commentDrafts/c1_2026_03', { status: 'draft', text: 'Brouillon' });
+
+    await approveCommentDraft('c1_2026_03', 'Trésorerie en hausse.', shown.id);
+
+    const stored = store.get(`records/${shown.id}`);
+    expect(stored.expertComment).toBe('Trésorerie en hausse.');
+    expect(stored.cashFlow.treasury).toBe(900);
+    expect(stored.updatedBy).toBe('consultant@cabinet.fr');
+    expect(store.get('commentDrafts/c1_2026_03')).toMatchObject({
+      status: 'approved', approvedText: 'Trésorerie en hausse.', approvedBy: 'consultant@cabinet.fr',
+    });
+  });
+});
@@ -5,7 +5,7 @@ import {
   RulesTestEnvironment,
 } from '@firebase/rules-unit-testing';
 import {
-  doc, getDoc, setDoc, updateDoc, deleteDoc,
+  doc, getDoc, setDoc, updateDoc, deleteDoc, serverTimestamp, writeBatch,
 } from 'firebase/firestore';
 import { getTestEnv } from './setup';
 
@@ -140,6 +140,7 @@ describe('Firestore rules — Multi-tenant access controls', () => {
         isValidated: true,
         isPublished: false,
         revenue: { total: 0 },
+        updatedBy: 'owner@a.com',
       }));
     });
 
@@ -151,6 +152,7 @@ describe('Firestore rules — Multi-tenant access controls', () => {
         isValidated: false,
         isPublished: true,
         revenue: { total: 0 },
+        updatedBy: 'owner@a.com',
       }));
     });
 
@@ -162,9 +164,21 @@ describe('Firestore rules — Multi-tenant access controls', () => {
         isValidated: false,
         isPublished: false,
         revenue: { total: 0 },
+        updatedBy: 'owner@a.com',
       }));
     });
 
+    it('record writes must be signed by the caller (updatedBy)', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await seedRecord(env, 'rec-1', 'clientA');
+      const db = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      const draft = { clientId: 'clientA', isValidated: false, isPublished: false, revenue: { total: 0 } };
+      await assertFails(setDoc(doc(db, 'records', 'rec-new'), draft));
+      await assertFails(setDoc(doc(db, 'records', 'rec-new'), { ...draft, updatedBy: 'consultant@cabinet.fr' }));
+      await assertFails(updateDoc(doc(db, 'records', 'rec-1'), { 'revenue.total': 1 }));
+      await assertSucceeds(updateDoc(doc(db, 'records', 'rec-1'), { 'revenue.total': 1, updatedBy: 'owner@a.com' }));
+    });
+
     it('only consultant can delete records', async () => {
       await seedClient(env, 'clientA', 'owner@a.com');
       await seedRecord(env, 'rec-1', 'clientA');
@@ -175,16 +189,112 @@ describe('Firestore rules — Multi-tenant access controls', () => {
     });
   });
 
+  describe('records/{id}/revisions (historique des modifications)', () => {
+    function revisionPayload(clientId: string, authorEmail: string) {
+      return {
+        recordId: 'rec-1',
+        clientId,
+        action: 'update',
+        authorEmail,
+        changes: [{ path: 'cashFlow.treasury', from: 1000, to: 2000 }],
+        snapshot: { clientId, cashFlow: { treasury: 2000 } },
+      };
+    }
+
+    it('nobody can write a revision from the client SDK (server-side only)', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await seedRecord(env, 'rec-1', 'clientA');
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      const adminDb = consultantContext(env, 'admin1', true).firestore();
+      await assertFails(setDoc(doc(clientDb, 'records', 'rec-1', 'revisions', 'rev-1'), revisionPayload('clientA', 'owner@a.com')));
+      await assertFails(setDoc(doc(adminDb, 'records', 'rec-1', 'revisions', 'rev-1'), revisionPayload('clientA', 'consultant@cabinet.fr')));
+    });
+
+    it('client CANNOT read revisions (consultant-only panel)', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await seedRecord(env, 'rec-1', 'clientA');
+      await env.withSecurityRulesDisabled(async (ctx) => {
+        await setDoc(doc(ctx.firestore(), 'records', 'rec-1', 'revisions', 'rev-1'), revisionPayload('clientA', 'owner@a.com'));
+      });
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      const consultantDb = consultantContext(env).firestore();
+      await assertFails(getDoc(doc(clientDb, 'records', 'rec-1', 'revisions', 'rev-1')));
+      await assertSucceeds(getDoc(doc(consultantDb, 'records', 'rec-1', 'revisions', 'rev-1')));
+    });
+
+    it('nobody can update or delete a revision (immutable)', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await seedRecord(env, 'rec-1', 'clientA');
+      await env.withSecurityRulesDisabled(async (ctx) => {
+        await setDoc(doc(ctx.firestore(), 'records', 'rec-1', 'revisions', 'rev-1'), revisionPayload('clientA', 'owner@a.com'));
+      });
+      const adminDb = consultantContext(env, 'admin1', true).firestore();
+      await assertFails(updateDoc(doc(adminDb, 'records', 'rec-1', 'revisions', 'rev-1'), { changes: [] }));
+      await assertFails(deleteDoc(doc(adminDb, 'records', 'rec-1', 'revisions', 'rev-1')));
+    });
+
+    it('a record deletion is signed by the deleter in the same batch', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await seedRecord(env, 'rec-1', 'clientA');
+      const db = consultantContext(env).firestore();
+      const signature = (deletedBy: string) => ({ deletedBy, deletedAt: serverTimestamp() });
+
+      // Signature sans suppression, ou au nom d'un autre : refusées
+      await assertFails(setDoc(doc(db, 'recordDeletions', 'rec-1'), signature('consultant@cabinet.fr')));
+      const forged = writeBatch(db);
+      forged.set(doc(db, 'recordDeletions', 'rec-1'), signature('other@cabinet.fr'));
+      forged.delete(doc(db, 'records', 'rec-1'));
+      await assertFails(forged.commit());
+
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'recordDeletions', 'rec-1'), signature('consultant@cabinet.fr'));
+      batch.delete(doc(db, 'records', 'rec-1'));
+      await assertSucceeds(batch.commit());
+      await assertFails(deleteDoc(doc(db, 'recordDeletions', 'rec-1')));
+    });
+  });
+
   describe('consultantAlerts collection (Wave 5)', () => {
-    it('any authenticated user can create an alert', async () => {
+    const handoff = () => ({
+      clientId: 'clientA',
+      clientName: 'Client clientA',
+      type: 'chat_handoff',
+      message: 'help',
+      createdAt: serverTimestamp(),
+      status: 'new',
+      assignedTo: '',
+      resolved: false,
+    });
+
+    it('a client can raise a chat handoff for its own dossier', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
       const db = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
-      await assertSucceeds(setDoc(doc(db, 'consultantAlerts', 'alert-1'), {
-        clientId: 'clientA',
-        clientName: 'Client A',
-        type: 'chat_handoff',
-        message: 'help',
-        resolved: false,
-      }));
+      await assertSucceeds(setDoc(doc(db, 'consultantAlerts', 'alert-1'), handoff()));
+    });
+
+    it('a client CANNOT raise an alert for another dossier', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await seedClient(env, 'clientB', 'owner@b.com');
+      const db = clientContext(env, 'u-b', 'clientB', 'owner@b.com').firestore();
+      await assertFails(setDoc(doc(db, 'consultantAlerts', 'alert-1'), handoff()));
+    });
+
+    it('a client CANNOT forge the type, status or date of an alert', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      const db = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      const ref = doc(db, 'consultantAlerts', 'alert-1');
+      await assertFails(setDoc(ref, { ...handoff(), type: 'urgent_treasury' }));
+      await assertFails(setDoc(ref, { ...handoff(), status: 'acknowledged' }));
+      await assertFails(setDoc(ref, { ...handoff(), createdAt: new Date('2020-01-01') }));
+      await assertFails(setDoc(ref, { ...handoff(), resolved: true }));
+    });
+
+    it('a client CANNOT route its alert elsewhere than the client file says', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      const db = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      const ref = doc(db, 'consultantAlerts', 'alert-1');
+      await assertFails(setDoc(ref, { ...handoff(), assignedTo: 'attacker@example.com' }));
+      await assertFails(setDoc(ref, { ...handoff(), clientName: 'Cabinet AB — urgent' }));
     });
 
     it('consultant can read alerts', async () => {
@@ -240,4 +350,158 @@ describe('Firestore rules — Multi-tenant access controls', () => {
       await assertFails(deleteDoc(doc(adminDb, 'aiFeedback', 'fb-1')));
     });
   });
+
+  describe('aiUsage collection (quotas IA)', () => {
+    it('consultant can read usage, client cannot', async () => {
+      await env.withSecurityRulesDisabled(async (ctx) => {
+        await setDoc(doc(ctx.firestore(), 'aiUsage', 'clientA_2026-01'), {
+          clientId: 'clientA', period: '2026-01', count: 12,
+        });
+      });
+      const consultantDb = consultantContext(env).firestore();
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      await assertSucceeds(getDoc(doc(consultantDb, 'aiUsage', 'clientA_2026-01')));
+      await assertFails(getDoc(doc(clientDb, 'aiUsage', 'clientA_2026-01')));
+    });
+
+    it('nobody can write usage counters from the client SDK', async () => {
+      const consultantDb = consultantContext(env).firestore();
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      await assertFails(setDoc(doc(clientDb, 'aiUsage', 'clientA_2026-01'), { clientId: 'clientA', count: 0 }));
+      await assertFails(setDoc(doc(consultantDb, 'aiUsage', 'clientA_2026-01'), { clientId: 'clientA', count: 0 }));
+      await assertFails(setDoc(doc(clientDb, 'rateLimits', 'ai:u-a'), { timestamps: [] }));
+    });
+  });
+
+  describe('budgets collection', () => {
+    it('consultant writes budgets, client reads only its own', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await seedClient(env, 'clientB', 'owner@b.com');
+      const consultantDb = consultantContext(env).firestore();
+      await assertSucceeds(setDoc(doc(consultantDb, 'budgets', 'clientA_2026'), { clientId: 'clientA', fiscalYear: 2026, months: {} }));
+      await assertSucceeds(setDoc(doc(consultantDb, 'budgets', 'clientB_2026'), { clientId: 'clientB', fiscalYear: 2026, months: {} }));
+
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      await assertSucceeds(getDoc(doc(clientDb, 'budgets', 'clientA_2026')));
+      await assertFails(getDoc(doc(clientDb, 'budgets', 'clientB_2026')));
+    });
+
+    it('client listens to a missing budget of its own dossier only', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await seedClient(env, 'clientB', 'owner@b.com');
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      await assertSucceeds(getDoc(doc(clientDb, 'budgets', 'clientA_2027')));
+      await assertFails(getDoc(doc(clientDb, 'budgets', 'clientB_2027')));
+    });
+
+    it('client cannot write its budget', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      await assertFails(setDoc(doc(clientDb, 'budgets', 'clientA_2026'), { clientId: 'clientA', fiscalYear: 2026, months: {} }));
+    });
+  });
+
+  describe('simulations collection', () => {
+    it('client saves and deletes its own simulations, never another dossier', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await seedClient(env, 'clientB', 'owner@b.com');
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      await assertSucceeds(setDoc(doc(clientDb, 'simulations', 'sim-a'), { clientId: 'clientA', name: 'Embauche', createdBy: 'owner@a.com', levers: {} }));
+      await assertFails(setDoc(doc(clientDb, 'simulations', 'sim-b'), { clientId: 'clientB', name: 'Embauche', createdBy: 'owner@a.com', levers: {} }));
+      await assertFails(setDoc(doc(clientDb, 'simulations', 'sim-c'), { clientId: 'clientA', name: 'Usurpée', createdBy: 'consultant@cabinet.fr', levers: {} }));
+      await assertFails(updateDoc(doc(clientDb, 'simulations', 'sim-a'), { name: 'Renommée' }));
+      await assertSucceeds(deleteDoc(doc(clientDb, 'simulations', 'sim-a')));
+    });
+
+    it('consultant reads and deletes any simulation', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await env.withSecurityRulesDisabled(async (ctx) => {
+        await setDoc(doc(ctx.firestore(), 'simulations', 'sim-a'), { clientId: 'clientA', name: 'Embauche', createdBy: 'owner@a.com', levers: {} });
+      });
+      const consultantDb = consultantContext(env).firestore();
+      await assertSucceeds(getDoc(doc(consultantDb, 'simulations', 'sim-a')));
+      await assertSucceeds(deleteDoc(doc(consultantDb, 'simulations', 'sim-a')));
+    });
+  });
+
+  describe('importBatches collection', () => {
+    it('client records its own imports, only a consultant marks them undone', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await seedClient(env, 'clientB', 'owner@b.com');
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      await assertSucceeds(setDoc(doc(clientDb, 'importBatches', 'imp-a'), { clientId: 'clientA', source: 'excel', createdBy: 'owner@a.com', entries: [] }));
+      await assertFails(setDoc(doc(clientDb, 'importBatches', 'imp-b'), { clientId: 'clientB', source: 'excel', createdBy: 'owner@a.com', entries: [] }));
+      await assertFails(updateDoc(doc(clientDb, 'importBatches', 'imp-a'), { undoneBy: 'owner@a.com' }));
+      await assertFails(deleteDoc(doc(clientDb, 'importBatches', 'imp-a')));
+
+      const consultantDb = consultantContext(env).firestore();
+      await assertSucceeds(updateDoc(doc(consultantDb, 'importBatches', 'imp-a'), { undoneBy: 'consultant@cabinet.fr' }));
+      await assertFails(deleteDoc(doc(consultantDb, 'importBatches', 'imp-a')));
+    });
+  });
+
+  describe('forecastScenarios collection', () => {
+    it('consultant saves scenarios, client only reads its own', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await seedClient(env, 'clientB', 'owner@b.com');
+      const consultantDb = consultantContext(env).firestore();
+      await assertSucceeds(setDoc(doc(consultantDb, 'forecastScenarios', 'sc-a'), { clientId: 'clientA', name: 'Prudent', assumptions: {} }));
+      await assertSucceeds(setDoc(doc(consultantDb, 'forecastScenarios', 'sc-b'), { clientId: 'clientB', name: 'Prudent', assumptions: {} }));
+
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      await assertSucceeds(getDoc(doc(clientDb, 'forecastScenarios', 'sc-a')));
+      await assertFails(getDoc(doc(clientDb, 'forecastScenarios', 'sc-b')));
+      await assertFails(setDoc(doc(clientDb, 'forecastScenarios', 'sc-a'), { clientId: 'clientA', name: 'Optimiste', assumptions: {} }));
+    });
+  });
+
+  describe('commentDrafts collection', () => {
+    it('only consultants read drafts and mark them approved', async () => {
+      await seedClient(env, 'clientA', 'owner@a.com');
+      await env.withSecurityRulesDisabled(async (context) => {
+        await setDoc(doc(context.firestore(), 'commentDrafts', 'clientA_2026_01'), {
+          clientId: 'clientA', year: 2026, month: 'Janvier', text: 'Brouillon', status: 'draft',
+        });
+      });
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      await assertFails(getDoc(doc(clientDb, 'commentDrafts', 'clientA_2026_01')));
+
+      const consultantDb = consultantContext(env).firestore();
+      await assertSucceeds(getDoc(doc(consultantDb, 'commentDrafts', 'clientA_2026_01')));
+      await assertFails(setDoc(doc(consultantDb, 'commentDrafts', 'clientA_2026_02'), { clientId: 'clientA', text: 'x', status: 'draft' }));
+      await assertFails(updateDoc(doc(consultantDb, 'commentDrafts', 'clientA_2026_01'), { text: 'Réécrit' }));
+      await assertSucceeds(updateDoc(doc(consultantDb, 'commentDrafts', 'clientA_2026_01'), {
+        status: 'approved', approvedBy: 'consultant@cabinet.fr', approvedText: 'Validé',
+      }));
+    });
+  });
+
+  describe('cabinetSettings collection', () => {
+    it('only consultants read and write cabinet alert rules', async () => {
+      const consultantDb = consultantContext(env).firestore();
+      await assertSucceeds(setDoc(doc(consultantDb, 'cabinetSettings', 'alertRules'), { rules: { dsoAbove: { days: 45 } } }));
+      await assertSucceeds(getDoc(doc(consultantDb, 'cabinetSettings', 'alertRules')));
+
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      await assertFails(getDoc(doc(clientDb, 'cabinetSettings', 'alertRules')));
+      await assertFails(setDoc(doc(clientDb, 'cabinetSettings', 'alertRules'), { rules: {} }));
+    });
+  });
+
+  describe('promptTemplates collection', () => {
+    it('lets admins publish versions and move traffic, without rewriting a template', async () => {
+      const adminDb = consultantContext(env, 'admin-1', true).firestore();
+      await assertSucceeds(setDoc(doc(adminDb, 'promptTemplates', 'v2'), { template: 'Tu es…', status: 'draft', weight: 0 }));
+      await assertSucceeds(updateDoc(doc(adminDb, 'promptTemplates', 'v2'), { status: 'active', weight: 50 }));
+      await assertFails(updateDoc(doc(adminDb, 'promptTemplates', 'v2'), { template: 'Autre texte' }));
+      await assertFails(deleteDoc(doc(adminDb, 'promptTemplates', 'v2')));
+
+      const consultantDb = consultantContext(env).firestore();
+      await assertSucceeds(getDoc(doc(consultantDb, 'promptTemplates', 'v2')));
+      await assertFails(updateDoc(doc(consultantDb, 'promptTemplates', 'v2'), { weight: 100 }));
+
+      const clientDb = clientContext(env, 'u-a', 'clientA', 'owner@a.com').firestore();
+      await assertFails(getDoc(doc(clientDb, 'promptTemplates', 'v2')));
+    });
+  });
 });
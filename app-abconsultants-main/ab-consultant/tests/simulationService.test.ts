@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { simulatePeriod, emptyLevers, hasActiveLevers, UNALLOCATED_REVENUE_KEY } from '../services/simulationService';
+import { FinancialRecord, Month } from '../types';
+
+const rec = (month: Month, ca: number, extra: { breakdown?: Record<string, number>; margin?: number; salaries?: number; clients?: number; suppliers?: number; bfr?: number; treasury?: number } = {}) => ({
+  id: `c1-2026-${month}`, clientId: 'c1', year: 2026, month,
+  isValidated: true, isPublished: true,
+  revenue: { goods: 0, services: 0, total: ca, objective: 0, breakdown: extra.breakdown || {} },
+  margin: { rate: 0, total: extra.margin ?? 0 },
+  expenses: { salaries: extra.salaries ?? 0, hoursWorked: 0 },
+  bfr: {
+    receivables: { clients: extra.clients ?? 0, state: 0, social: 0, other: 0, total: 0 },
+    stock: { goods: 0, floating: 0, total: 0 },
+    debts: { suppliers: extra.suppliers ?? 0, state: 0, social: 0, salaries: 0, other: 0, total: 0 },
+    total: extra.bfr ?? 0,
+  },
+  cashFlow: { active: 0, passive: 0, treasury: extra.treasury ?? 0 },
+}) as FinancialRecord;
+
+const byKey = (lines: ReturnType<typeof simulatePeriod>) => Object.fromEntries(lines.map(l => [l.key, l]));
+
+describe('simulatePeriod', () => {
+  const records = [
+    rec(Month.Jan, 10000, { breakdown: { fuel: 8000 }, margin: 3000, salaries: 2000 }),
+    rec(Month.Feb, 10000, { breakdown: { fuel: 8000 }, margin: 3000, salaries: 2000, clients: 10000, suppliers: 5000, bfr: 5000, treasury: 20000 }),
+  ];
+  const pcs = [{ id: 'fuel', name: 'Carburant', type: 'goods' as const }];
+
+  it('returns the baseline unchanged without levers', () => {
+    const lines = simulatePeriod(records, emptyLevers(), pcs);
+    lines.forEach(l => expect(l.simulated).toBeCloseTo(l.baseline));
+    expect(byKey(lines).dso.baseline).toBe(30);
+  });
+
+  it('applies revenue per activity, margin rate and salary levers', () => {
+    const l = byKey(simulatePeriod(records, {
+      ...emptyLevers(),
+      revenueChangePct: { fuel: -10, [UNALLOCATED_REVENUE_KEY]: 0 },
+      marginRateDelta: 2,
+      salariesMonthlyDelta: 500,
+    }, pcs));
+    expect(l.revenue.simulated).toBe(18400);          // 16000 × 0.9 + 4000
+    expect(l.marginRate.simulated).toBe(32);
+    expect(l.margin.simulated).toBeCloseTo(5888);      // 18400 × 32 %
+    expect(l.salaries.simulated).toBe(5000);
+  });
+
+  it('flows payment delays through BFR and treasury', () => {
+    const l = byKey(simulatePeriod(records, { ...emptyLevers(), dsoDelta: 15 }, pcs));
+    // DSO 30 → 45 j sur 10 000 €/mois : +5 000 € de créances, donc -5 000 € de trésorerie
+    expect(l.bfr.simulated).toBeCloseTo(10000);
+    expect(l.treasury.simulated).toBeCloseTo(15000);
+  });
+
+  it('compares with the N-1 period when provided', () => {
+    const n1 = [rec(Month.Jan, 5000, { treasury: 1000 })];
+    const l = byKey(simulatePeriod(records, emptyLevers(), pcs, n1));
+    expect(l.revenue.n1).toBe(5000);
+    expect(l.treasury.n1).toBe(1000);
+    expect(byKey(simulatePeriod(records, emptyLevers(), pcs)).revenue.n1).toBeNull();
+  });
+});
+
+describe('hasActiveLevers', () => {
+  it('detects any non-zero lever', () => {
+    expect(hasActiveLevers(emptyLevers())).toBe(false);
+    expect(hasActiveLevers({ ...emptyLevers(), revenueChangePct: { fuel: 0 } })).toBe(false);
+    expect(hasActiveLevers({ ...emptyLevers(), dpoDelta: -5 })).toBe(true);
+  });
+});
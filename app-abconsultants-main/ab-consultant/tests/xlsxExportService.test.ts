@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// xlsxExportService → dataService pulls in firebase/firestore — stub it so the module loads.
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  getDocs: vi.fn(),
+  doc: vi.fn(),
+  getDoc: vi.fn(),
+  setDoc: vi.fn(),
+  addDoc: vi.fn(),
+  deleteDoc: vi.fn(),
+  updateDoc: vi.fn(),
+  query: vi.fn(),
+  where: vi.fn(),
+  writeBatch: vi.fn(),
+  orderBy: vi.fn(),
+  limit: vi.fn(),
+  onSnapshot: vi.fn(),
+  serverTimestamp: vi.fn(),
+  Timestamp: { now: vi.fn() },
+}));
+vi.mock('../firebase', () => ({
+  db: {},
+  auth: { currentUser: null },
+}));
+
+import * as XLSX from 'xlsx';
+import { buildClientWorkbook, writeClientWorkbook } from '../services/xlsxExportService';
+import { Client, FinancialRecord, Month } from '../types';
+
+const record = (year: number, month: Month, revenue: number, overrides: Partial<FinancialRecord> = {}): FinancialRecord => ({
+  id: `${year}-${month}`, clientId: 'c1', year, month, isValidated: true, isPublished: true,
+  revenue: { goods: revenue, services: 0, total: revenue, objective: 0, breakdown: { pc1: revenue } },
+  margin: { rate: 0, total: revenue / 4, breakdown: { pc1: revenue / 4 } },
+  expenses: { salaries: 1000, hoursWorked: 150, overtimeHours: 0 },
+  bfr: {
+    receivables: { clients: 500, state: 100, social: 0, other: 0, total: 600 },
+    stock: { goods: 200, floating: 0, total: 200 },
+    debts: { suppliers: 300, state: 0, social: 0, salaries: 0, other: 0, total: 300 },
+    total: 500,
+  },
+  cashFlow: { active: 2000, passive: 0, treasury: 2000 },
+  expertComment: 'RAS',
+  ...overrides,
+});
+
+const client = {
+  id: 'c1', companyName: 'Garage Test', fiscalYearEnd: '30/06',
+  profitCenters: [{ id: 'pc1', name: 'Atelier', type: 'services' }],
+} as Client;
+
+const records = [
+  record(2025, Month.Jul, 1000),
+  record(2025, Month.Aug, 3000),
+  record(2025, Month.Sep, 5000, { isPublished: false }),
+];
+
+describe('buildClientWorkbook', () => {
+  it('lays out one sheet per fiscal year plus detail sheets, without unpublished months for clients', () => {
+    const { workbook, frozenPanes } = buildClientWorkbook(client, records, { publishedOnly: true });
+    expect(workbook.SheetNames).toEqual(['Exercice 2025-26', 'Activités', 'BFR']);
+    expect(frozenPanes['Activités']).toEqual({ cols: 3, rows: 1 });
+
+    const year = workbook.Sheets['Exercice 2025-26'];
+    expect(year.B1.v).toBe('Juil 25');
+    expect(year.A2.v).toBe("Chiffre d'affaires HT");
+    expect(year.B2).toMatchObject({ v: 1000, z: '#,##0 "€";-#,##0 "€"' });
+    expect(year.D2).toBeUndefined();
+    expect(year.N2).toMatchObject({ f: 'SUM(B2:M2)', v: 4000 });
+    expect(year.N7).toMatchObject({ f: 'IF(N2=0,0,N6/N2)', v: 0.25, z: '0.0%' });
+    expect(XLSX.utils.sheet_to_json<any>(year, { header: 1 }).some((row: any[]) => row[0] === "Commentaire de l'expert" && row[1] === 'RAS')).toBe(true);
+  });
+
+  it('keeps unpublished months for consultants and computes BFR totals with formulas', () => {
+    const { workbook } = buildClientWorkbook(client, records, { publishedOnly: false, fiscalYear: 2026 });
+    const bfr = workbook.Sheets.BFR;
+    const rows = XLSX.utils.sheet_to_json<any>(bfr, { header: 1 });
+    const bfrRow = rows.findIndex((row: any[]) => row[1] === 'BFR');
+    expect(bfr[XLSX.utils.encode_cell({ r: bfrRow, c: 4 })]).toMatchObject({ v: 500 });
+    expect(bfr[XLSX.utils.encode_cell({ r: bfrRow, c: 2 })].f).toMatch(/^C\d+\+C\d+-C\d+$/);
+    expect(workbook.Sheets['Exercice 2025-26'].D2.v).toBe(5000);
+  });
+
+  it('writes frozen panes into the sheet XML', () => {
+    const out = writeClientWorkbook(buildClientWorkbook(client, records, { publishedOnly: false }));
+    const zip = XLSX.CFB.read(out, { type: 'array' });
+    const xml = new TextDecoder().decode(XLSX.CFB.find(zip, '/xl/worksheets/sheet1.xml').content);
+    expect(xml).toContain('<pane xSplit="1" ySplit="1" topLeftCell="B2" activePane="bottomRight" state="frozen"/>');
+    expect(XLSX.read(out, { type: 'array' }).SheetNames).toHaveLength(3);
+  });
+});
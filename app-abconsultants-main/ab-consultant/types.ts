@@ -24,7 +24,8 @@ export enum View {
   Settings = 'settings',
   Clients = 'clients',
   Team = 'team',
-  Messages = 'messages'
+  Messages = 'messages',
+  AiQuality = 'ai_quality'
 }
 
 export interface ProfitCenter {
@@ -97,6 +98,8 @@ export interface Client {
     showCommercialMargin: boolean;
     showFuelTracking?: boolean;
     enableAiAssistant?: boolean;   // Option premium — activable par le consultant. Default OFF.
+    aiMonthlyQuota?: number;       // Plafond mensuel de requêtes IA (défaut serveur : 300).
+    alertRules?: AlertRulesOverride; // Seuils d'alerte propres au dossier (sinon ceux du cabinet).
     revenueObjective?: number;
     fuelObjectives?: {
         gasoil: number;
@@ -117,6 +120,25 @@ export interface Client {
 
   // RENDEZ-VOUS
   nextAppointment?: NextAppointment;
+
+  // IMPORT EXCEL — mapping mémorisé, réappliqué automatiquement au prochain import
+  importMapping?: ImportMappingProfile;
+}
+
+// --- IMPORT MAPPING TYPES ---
+export interface ImportSheetMapping {
+  sheetName: string;
+  type: 'revenue_by_family' | 'fuel_volumes' | 'analyse_activite' | 'aged_receivables' | 'aged_payables' | 'ignore';
+  headerRow?: number;        // index (0-based) de la ligne d'en-tête des mois (ou des tranches pour une balance âgée)
+  labelColumn?: number;      // index (0-based) de la colonne des libellés
+  month?: Month;             // balance âgée : mois d'arrêté (la feuille est une photo à date)
+}
+
+export interface ImportMappingProfile {
+  sheets: ImportSheetMapping[];
+  familyAliases: Record<string, string>;   // libellé de famille normalisé -> ProfitCenter.id
+  updatedAt: string;                       // ISO timestamp
+  updatedBy?: string;
 }
 
 // --- APPOINTMENT TYPES ---
@@ -142,6 +164,35 @@ export interface ChatMessage {
   timestamp: any; 
   isExpertHandoff?: boolean; 
   isSystemSummary?: boolean; 
+  model?: string;            // réponses IA : modèle ayant produit le texte
+  promptVersion?: string;    // réponses IA : version du prompt système (cf. PromptTemplate)
+  factCheck?: AiFactCheck;   // réponses IA : chiffres sans correspondance dans le dossier
+}
+
+/** Contrôle serveur des montants et pourcentages d'une réponse IA (cf. functions/src/api/factCheck.ts). */
+export interface AiFactCheck {
+  checked: number;
+  unverified: Array<{ raw: string; value: number; unit: 'eur' | 'pct' }>;
+}
+
+/**
+ * Version du prompt système du Conseiller IA (collection `promptTemplates`, id = version).
+ * Les versions actives se partagent les dossiers selon leur poids (cf. functions/src/api/systemPrompt.ts) ;
+ * le texte d'une version publiée n'est plus modifiable, on en crée une nouvelle.
+ */
+export type PromptTemplateStatus = 'draft' | 'active' | 'retired';
+
+export interface PromptTemplate {
+  id: string;                // "v1", "v2"…
+  template: string;          // emplacements {{companyName}}, {{financialBlock}}…
+  description?: string;
+  basedOn?: string;          // version d'origine du texte
+  status: PromptTemplateStatus;
+  weight: number;            // part du trafic parmi les versions actives
+  createdBy: string;
+  createdAt?: any;
+  updatedBy?: string;
+  updatedAt?: any;
 }
 
 // --- ACTIVITY TIMELINE TYPES ---
@@ -162,7 +213,10 @@ export type ActivityEventType =
   | 'owner_first_login'
   | 'owner_login'
   | 'invitation_email_sent'
-  | 'record_unlocked';
+  | 'record_unlocked'
+  | 'record_restored'
+  | 'data_imported'
+  | 'import_undone';
 
 export interface ActivityEvent {
   id: string;
@@ -183,6 +237,9 @@ export interface FinancialRecord {
   isPublished?: boolean;
   isSubmitted?: boolean;
   submittedBy?: string;
+  importBatchId?: string;     // dernier import (Excel / FEC) ayant écrit ce mois — voir ImportBatch
+  updatedBy?: string;         // auteur de la dernière écriture (= email de l'appelant, imposé par les règles)
+  restoredFrom?: string;      // révision restaurée par cette écriture (cf. RecordRevision)
   expertComment?: string;
   revenue: {
     goods: number;
@@ -234,9 +291,208 @@ export interface FinancialRecord {
     };
     total: number; 
   };
+  aging?: {                   // balances âgées importées (photo de fin de mois)
+    receivables?: AgingBuckets;
+    payables?: AgingBuckets;
+  };
   cashFlow: {
     active: number; 
     passive: number; 
     treasury: number; 
+    accounts?: Record<string, number>;   // solde fin de mois par compte (relevés importés), clé = compte masqué
   };
 }
+
+// --- BALANCE ÂGÉE (tranches d'ancienneté, non échu compté dans 0-30 j) ---
+export interface AgingBuckets {
+  d0_30: number;
+  d31_60: number;
+  d61_90: number;
+  over90: number;
+  total: number;
+}
+
+// --- EXTRACTION DE DOCUMENTS (relevé bancaire, TVA, situation comptable → saisie) ---
+// Cf. functions/src/reports/documentExtraction.ts
+export type ExtractedFieldPath =
+  | 'cashFlow.treasury'
+  | 'bfr.receivables.clients'
+  | 'bfr.debts.suppliers'
+  | 'bfr.debts.state'
+  | 'bfr.debts.social'
+  | 'expenses.salaries';
+
+export type ExtractedDocumentType = 'bank_statement' | 'vat_return' | 'accounting_summary' | 'other';
+
+export interface ExtractedField {
+  path: ExtractedFieldPath;
+  value: number;
+  confidence: number;    // 0..1
+  source?: string;       // libellé ou ligne du document d'où vient le montant
+}
+
+export interface DocumentExtraction {
+  documentType: ExtractedDocumentType;
+  period: { year: number; month: Month } | null;
+  fields: ExtractedField[];
+  model?: string;
+}
+
+// --- RECORD REVISIONS (historique des modifications) ---
+export type RecordRevisionAction = 'create' | 'update' | 'restore' | 'delete';
+
+export interface RecordFieldChange {
+  path: string;          // chemin pointé du champ, ex: "cashFlow.treasury"
+  from: number | string | boolean | unknown[] | null;
+  to: number | string | boolean | unknown[] | null;
+}
+
+export interface RecordRevision {
+  id: string;
+  recordId: string;
+  clientId: string;
+  action: RecordRevisionAction;
+  authorEmail: string;
+  createdAt: any;
+  changes: RecordFieldChange[];
+  snapshot: FinancialRecord;   // état complet du record APRÈS l'écriture (AVANT pour une suppression)
+  restoredFrom?: string;       // id de la révision restaurée (action = 'restore')
+}
+
+// --- IMPORT BATCHES (annulation d'un import) ---
+export interface ImportBatchEntry {
+  recordId: string;
+  year: number;
+  month: Month;
+  previous: FinancialRecord | null;   // état avant l'import ; null = mois créé par l'import
+}
+
+export interface ImportBatch {
+  id: string;
+  clientId: string;
+  source: 'excel' | 'fec';
+  fileName?: string;
+  createdAt: any;
+  createdBy: string;
+  entries: ImportBatchEntry[];
+  undoneAt?: any;
+  undoneBy?: string;
+}
+
+// --- AI USAGE (quotas mensuels, écrit par les Cloud Functions) ---
+export interface AiUsage {
+  id: string;               // `${clientId}_${period}`
+  clientId: string;
+  period: string;           // YYYY-MM
+  count: number;            // requêtes consommées sur le mois (client + consultant)
+  consultantCount?: number; // dont requêtes consultant (non bloquantes)
+  updatedAt?: any;
+}
+
+export const DEFAULT_AI_MONTHLY_QUOTA = 300;
+
+// --- RÈGLES D'ALERTE (évaluées par les Cloud Functions, cf. functions/src/alerts/alertRules.ts) ---
+export interface AlertRulesConfig {
+  treasuryBelow: { enabled: boolean; threshold: number };               // trésorerie fin de mois < X €
+  dsoAbove: { enabled: boolean; days: number };                         // délai clients > N jours
+  marginRateDrop: { enabled: boolean; points: number };                 // taux de marge en baisse de Y points vs N-1
+  overtimeSpike: { enabled: boolean; pct: number; minHours: number };   // heures sup. > moyenne des 3 mois précédents + pct %
+  missingMonth: { enabled: boolean; day: number };                      // mois M-1 non saisi au jour D du mois M
+}
+
+export type AlertRuleId = keyof AlertRulesConfig;
+
+/** Surcharges partielles : `cabinetSettings/alertRules.rules` ou `client.settings.alertRules`. */
+export type AlertRulesOverride = { [K in AlertRuleId]?: Partial<AlertRulesConfig[K]> };
+
+export const DEFAULT_ALERT_RULES: AlertRulesConfig = {
+  treasuryBelow: { enabled: true, threshold: 0 },
+  dsoAbove: { enabled: true, days: 60 },
+  marginRateDrop: { enabled: true, points: 5 },
+  overtimeSpike: { enabled: false, pct: 50, minHours: 10 },
+  missingMonth: { enabled: true, day: 15 },
+};
+
+// --- BROUILLON IA DU COMMENTAIRE EXPERT (consultants uniquement) ---
+export interface ExpertCommentDraft {
+  id: string;               // `${clientId}_${year}_${MM}`
+  clientId: string;
+  year: number;
+  month: Month;
+  text: string;             // texte proposé par l'IA, jamais modifié
+  status: 'draft' | 'approved';
+  model?: string;
+  createdBy?: string;
+  createdAt?: any;
+  approvedText?: string;    // texte finalement enregistré dans expertComment
+  approvedBy?: string;
+  approvedAt?: any;
+}
+
+// --- BUDGET (prévisionnel mensuel par exercice) ---
+export interface BudgetMonth {
+  revenue: number;                            // CA budgété (= somme des activités si ventilé)
+  revenueBreakdown?: Record<string, number>;  // CA budgété par ProfitCenter.id
+  marginRate: number;                         // taux de marge budgété (%)
+  salaries: number;                           // masse salariale chargée budgétée
+  treasuryFloor: number;                      // plancher de trésorerie à ne pas franchir
+}
+
+export interface Budget {
+  id: string;                                 // `${clientId}_${fiscalYear}`
+  clientId: string;
+  fiscalYear: number;                         // exercice (année de clôture)
+  months: Partial<Record<Month, BudgetMonth>>;
+  updatedAt?: any;
+  updatedBy?: string;
+}
+
+// --- PRÉVISIONNEL DE TRÉSORERIE (13 semaines glissantes) ---
+export interface ForecastOneOffFlow {
+  id: string;
+  label: string;
+  date: string;      // YYYY-MM-DD
+  amount: number;    // > 0 encaissement, < 0 décaissement
+}
+
+export interface ForecastAssumptions {
+  dso: number;                 // délai d'encaissement clients (jours)
+  dpo: number;                 // délai de paiement fournisseurs (jours)
+  monthlyRevenue: number;      // CA mensuel projeté (facturation)
+  monthlyPurchases: number;    // achats mensuels projetés
+  monthlySalaries: number;     // salaires nets versés en fin de mois
+  monthlySocial: number;       // charges sociales mensuelles (URSSAF, retraite…)
+  monthlyTax: number;          // TVA / impôts mensuels
+  socialDueDay: number;        // jour d'échéance des charges sociales (ex. 15)
+  taxDueDay: number;           // jour d'échéance fiscale (ex. 20)
+  oneOffFlows: ForecastOneOffFlow[];
+}
+
+export interface ForecastScenario {
+  id: string;
+  clientId: string;
+  name: string;
+  assumptions: ForecastAssumptions;
+  createdAt?: any;
+  createdBy?: string;
+}
+
+// --- SIMULATIONS "ET SI ?" (leviers appliqués à la période affichée, sans toucher aux records) ---
+export interface SimulationLevers {
+  revenueChangePct: Record<string, number>;  // variation du CA par ProfitCenter.id (%) — clé '*' = CA non ventilé
+  marginRateDelta: number;                   // variation du taux de marge (points)
+  salariesMonthlyDelta: number;              // variation de la masse salariale chargée (€ / mois)
+  dsoDelta: number;                          // variation du délai clients (jours)
+  dpoDelta: number;                          // variation du délai fournisseurs (jours)
+}
+
+export interface Simulation {
+  id: string;
+  clientId: string;
+  name: string;
+  fiscalYear: number;                        // exercice sur lequel la simulation a été construite
+  months: string[];                          // mois de la période simulée
+  levers: SimulationLevers;
+  createdAt?: any;
+  createdBy?: string;
+}